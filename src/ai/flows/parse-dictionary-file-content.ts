@@ -8,6 +8,7 @@
  * - ParseDictionaryContentInput - The input type for the function.
  * - ParsedAttribute - The structure for a parsed attribute.
  * - ParsedEnum - The structure for a parsed enum value.
+ * - ParsedVendor - The structure for a parsed VENDOR definition.
  * - ParseDictionaryContentOutput - The return type for the function.
  */
 
@@ -30,8 +31,8 @@ export type ParsedEnum = z.infer<typeof ParsedEnumSchema>;
 const ParsedAttributeSchema = z.object({
   id: z.string().describe('Unique ID for the attribute.'),
   name: z.string().describe('The name of the RADIUS attribute.'),
-  code: z.string().describe('The numerical code of the attribute.'),
-  type: z.string().describe('The data type of the attribute (e.g., string, integer, ipaddr).'),
+  code: z.string().describe('The numerical code of the attribute, dotted for extended attributes and TLV children (e.g., "241.1", "245.3.2").'),
+  type: z.string().describe('The data type of the attribute (e.g., string, integer, ipaddr, tlv, struct).'),
   vendor: z.string().optional().describe('The vendor associated with this attribute, if it is vendor-specific.'),
   description: z.string().optional().describe('A description of the attribute, often from comments.'),
   options: z.array(z.string()).optional().describe('Any options associated with the attribute (e.g., has_tag, encrypt=1).'),
@@ -40,9 +41,17 @@ const ParsedAttributeSchema = z.object({
 });
 export type ParsedAttribute = z.infer<typeof ParsedAttributeSchema>;
 
+const ParsedVendorSchema = z.object({
+  name: z.string().describe('The vendor name from the VENDOR line.'),
+  id: z.string().describe('The numerical vendor ID (IANA Private Enterprise Number).'),
+  format: z.string().optional().describe('The format= option of the VENDOR line without the "format=" prefix (e.g., "1,1", "2,2", "4,0", "1,1,c").'),
+});
+export type ParsedVendor = z.infer<typeof ParsedVendorSchema>;
+
 const ParseDictionaryContentOutputSchema = z.object({
   vendorName: z.string().optional().describe('The name of the VENDOR, if defined in the file.'),
   vendorId: z.string().optional().describe('The numerical ID of the VENDOR, if defined.'),
+  vendors: z.array(ParsedVendorSchema).optional().describe('Every VENDOR defined in the file, with its format.'),
   attributes: z.array(ParsedAttributeSchema).describe('An array of parsed attributes from the file.'),
   // We could add unparsed lines or errors here if needed for diagnostics
 });
@@ -67,12 +76,18 @@ File Content:
 
 From this content, you need to extract:
 1.  VENDOR definition: If a line starts with "VENDOR <name> <id>", extract the vendor name and vendor ID. There should typically be at most one VENDOR line that isn't part of BEGIN-VENDOR/END-VENDOR. If VENDOR is defined within a BEGIN-VENDOR/END-VENDOR block, it's usually for namespacing specific attributes. Prioritize top-level VENDOR definition if present for vendorName and vendorId output fields.
+    - Also list every VENDOR line in the 'vendors' array with its name, ID and, when present, the value of its "format=" option (e.g. "VENDOR WiMAX 24757 format=1,1,c" gives format "1,1,c"). Omit format when the line has none.
 2.  ATTRIBUTE definitions: Lines starting with "ATTRIBUTE <name> <code> <type> [options...]".
     - Extract the attribute name, code, and type.
     - Capture any options that follow the type (e.g., "has_tag", "encrypt=1"). Store them as an array of strings.
     - If comments (#) provide a description for the attribute on the same line or preceding lines, try to capture that as the description.
     - Assign a unique ID to each attribute.
-    - If the attribute is within a BEGIN-VENDOR/END-VENDOR block, associate it with that vendor. Otherwise, it might be a standard attribute.
+    - If the attribute is within a BEGIN-VENDOR/END-VENDOR block, set 'vendor' to that block's vendor name, even when the file defines several vendors. In the older form "ATTRIBUTE <name> <code> <type> <vendor>", a last field that names a VENDOR defined in the file (rather than an option such as has_tag) sets 'vendor' likewise.
+    - Otherwise it is a standard attribute: leave 'vendor' unset, even in a file whose top-level VENDOR is defined. Never fill it in from vendorName.
+    - Codes may be dotted paths (FreeRADIUS v3 and v4), e.g. "ATTRIBUTE Frag-Status 241.1 integer" or "ATTRIBUTE Foo-Port 245.3.2 short". Keep the full dotted code as written.
+    - Types include the RFC 6929 container types 'extended', 'long-extended', 'tlv' and 'struct'; keep the type name as written.
+    - FreeRADIUS v4 child attributes: inside a "BEGIN <parent>" ... "END <parent>" block, or when the code starts with "." (e.g. "ATTRIBUTE Type .1 byte" after the parent), the code is relative to the parent. Output the full dotted code by prefixing the parent's code (e.g. parent 241.5 and child .1 become "241.5.1"). Names written with "." paths such as "Foo.Type" keep only the last component as the name.
+    - FreeRADIUS v4 "MEMBER <name> <type>" lines define the members of the preceding struct attribute in order; output each as an attribute with the struct's code followed by its position starting at 1 (e.g. "241.7.1", "241.7.2").
 3.  VALUE definitions: Lines starting with "VALUE <attribute_name> <enum_name> <enum_value>".
     - These define enumerated values for a preceding ATTRIBUTE.
     - Extract the parent attribute name, the enum's symbolic name, and its actual value.
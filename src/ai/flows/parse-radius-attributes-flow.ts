@@ -46,6 +46,7 @@ Input Text:
 
 Parse each line. Extract the attribute name and its corresponding value.
 - Attribute names can contain hyphens, dots, and alphanumeric characters (e.g., User-Name, Cisco-AVPair, 3GPP-Something.Else).
+- Attribute names may be vendor-qualified (e.g., Cisco:Cisco-AVPair) or end in a tunnel tag (e.g., Tunnel-Type:1, Tunnel-Private-Group-Id:1). Keep the whole name, including the vendor prefix and the ":<tag>" suffix.
 - Values can be numbers, IP addresses, MAC addresses, or strings.
 - If a value is enclosed in double quotes (e.g., "hello world"), the quotes themselves should NOT be part of the extracted value. The value should be "hello world".
 - If a value is enclosed in single quotes (e.g., 'hello world'), the quotes themselves should NOT be part of the extracted value.
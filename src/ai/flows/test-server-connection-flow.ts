@@ -11,9 +11,13 @@
  * - TestServerConnectionInput - The input type for the testServerConnection function.
  * - TestServerConnectionOutput - The return type for the testServerConnection function.
  * - ClientTestStep - The type for individual client-provided steps.
+ *
+ * Alongside the SSH steps, the RADIUS listeners themselves are probed with Status-Server (RFC 5997)
+ * when the RADIUS ports and secret are supplied.
  */
 
-import { sshService } from '@/lib/services';
+import { sshService, radiusService } from '@/lib/services';
+import type { RadiusHealthCheckResult, StatusServerProbeResult } from '@/lib/services/radius-service';
 
 // Types
 export type ClientTestStep = {
@@ -37,6 +41,15 @@ export type TestServerConnectionInput = {
   customServerType?: string; // For when serverType is 'custom'
   connectionTestSshPreamble?: ClientTestStep[]; // New: Preamble steps for connection test
   stepsToExecute: ClientTestStep[]; // Main test steps
+  radiusAuthPort?: number; // With radiusAcctPort and defaultSecret, enables the Status-Server probes
+  radiusAcctPort?: number;
+  defaultSecret?: string;
+  statusTransport?: 'udp' | 'tcp' | 'radsec'; // As in the server config; radsec probes use the RadSec endpoint and certificates
+  radsecHost?: string;
+  radsecPort?: number;
+  radsecCaCertificate?: string;
+  radsecClientCertificate?: string;
+  radsecClientPrivateKey?: string;
 };
 
 export type TestServerConnectionStepResult = {
@@ -50,6 +63,7 @@ export type TestServerConnectionStepResult = {
 export type TestServerConnectionOutput = {
   overallStatus: 'success' | 'failure' | 'partial' | 'testing';
   steps: TestServerConnectionStepResult[];
+  radiusHealth?: RadiusHealthCheckResult;
 };
 
 // Helper functions
@@ -173,11 +187,26 @@ async function executeStep(
   }
 }
 
+function statusServerStepResult(probe: StatusServerProbeResult, host: string): TestServerConnectionStepResult {
+  const lines: string[] = [];
+  if (probe.replyCode) lines.push(`Received ${probe.replyCode} in ${probe.responseTimeMs}ms`);
+  probe.statistics.forEach(stat => lines.push(`${stat.name} = ${stat.value}`));
+  const listener = probe.transport === 'radsec' ? 'radsec' : probe.transport === 'tcp' ? `${probe.listener} tcp` : probe.listener;
+  return {
+    stepName: `RADIUS Status-Server (${listener} port ${probe.port})`,
+    status: probe.reachable && !probe.error ? 'success' : 'failure',
+    command: `Status-Server to ${host}:${probe.port}`,
+    output: lines.join('\n') || undefined,
+    error: probe.error,
+  };
+}
+
 // Main exported function
 export async function testServerConnection(input: TestServerConnectionInput): Promise<TestServerConnectionOutput> {
   const results: TestServerConnectionStepResult[] = [];
   let executionShouldHalt = false;
   let overallStatus: TestServerConnectionOutput['overallStatus'] = 'testing';
+  let radiusHealth: RadiusHealthCheckResult | undefined;
 
   // REAL_IMPLEMENTATION_NOTE: For a live system, the backend would handle establishing one SSH session
   // (if Server SSH details are provided) and run all preamble and main test steps within it,
@@ -262,6 +291,25 @@ export async function testServerConnection(input: TestServerConnectionInput): Pr
         });
     }
 
+    // 3. Probe the RADIUS listeners directly; this does not depend on SSH access.
+    if (input.radiusAuthPort && input.radiusAcctPort && input.defaultSecret) {
+      console.log("[TEST_SRV] Probing RADIUS listeners with Status-Server...");
+      const health = await radiusService.checkServerHealth({
+        host: input.host,
+        radiusAuthPort: input.radiusAuthPort,
+        radiusAcctPort: input.radiusAcctPort,
+        defaultSecret: input.defaultSecret,
+        statusTransport: input.statusTransport,
+        radsecHost: input.radsecHost,
+        radsecPort: input.radsecPort,
+        radsecCaCertificate: input.radsecCaCertificate,
+        radsecClientCertificate: input.radsecClientCertificate,
+        radsecClientPrivateKey: input.radsecClientPrivateKey,
+      });
+      health.listeners.forEach(probe => results.push(statusServerStepResult(probe, health.host)));
+      radiusHealth = health;
+    }
+
     // Determine overall status
     const hasFailures = results.some(r => r.status === 'failure');
     const hasSuccess = results.some(r => r.status === 'success');
@@ -296,6 +344,7 @@ export async function testServerConnection(input: TestServerConnectionInput): Pr
   return {
     overallStatus,
     steps: results,
+    radiusHealth,
   };
 }
 
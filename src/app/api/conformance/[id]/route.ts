@@ -0,0 +1,35 @@
+// src/app/api/conformance/[id]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { conformanceService } from '@/lib/services/conformance-service';
+
+interface Params {
+  id: string;
+}
+
+// GET a conformance report by ID
+export async function GET(request: NextRequest, { params }: { params: Params }) {
+  try {
+    const report = await conformanceService.getReport(params.id);
+    if (!report) {
+      return NextResponse.json({ message: 'Conformance report not found' }, { status: 404 });
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error(`Failed to fetch conformance report ${params.id}:`, error);
+    return NextResponse.json({ message: `Failed to fetch conformance report ${params.id}`, error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// DELETE a conformance report by ID
+export async function DELETE(request: NextRequest, { params }: { params: Params }) {
+  try {
+    const deleted = await conformanceService.deleteReport(params.id);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Conformance report not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Conformance report deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error(`Failed to delete conformance report ${params.id}:`, error);
+    return NextResponse.json({ message: `Failed to delete conformance report ${params.id}`, error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+// src/app/api/conformance/pack/route.ts
+import { NextResponse } from 'next/server';
+import { conformanceService } from '@/lib/services/conformance-service';
+
+// POST: install (or restore) the built-in RFC conformance packets and scenarios
+export async function POST() {
+  try {
+    const installed = await conformanceService.installPack();
+    return NextResponse.json({ message: 'Conformance pack installed', ...installed });
+  } catch (error) {
+    console.error('Failed to install conformance pack:', error);
+    return NextResponse.json({ message: 'Failed to install conformance pack', error: (error as Error).message }, { status: 500 });
+  }
+}
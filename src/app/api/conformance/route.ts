@@ -0,0 +1,65 @@
+// src/app/api/conformance/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { CONFORMANCE_CLAUSES, CONFORMANCE_SCENARIOS } from '@/lib/radius/conformance-pack';
+import { MOCK_SERVER_ID, mockServerConfig } from '@/lib/radius/mock-rules';
+import { mockServerService } from '@/lib/services/mock-server-service';
+import { conformanceService } from '@/lib/services/conformance-service';
+import type { ServerConfig } from '@/lib/types';
+
+// GET the conformance pack (with which scenarios are installed) and past reports, newest first
+export async function GET() {
+  try {
+    const installed = new Set(await conformanceService.installedScenarioIds());
+    const reports = await conformanceService.listReports();
+    return NextResponse.json({
+      clauses: CONFORMANCE_CLAUSES,
+      scenarios: CONFORMANCE_SCENARIOS.map(s => ({ id: s.id, name: s.name, installed: installed.has(s.id) })),
+      reports,
+    });
+  } catch (error) {
+    console.error('Failed to fetch conformance reports:', error);
+    return NextResponse.json({ message: 'Failed to fetch conformance reports', error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// POST { serverId }: run every installed conformance scenario against the server and store the report.
+// Checks that expect silence wait out their timeout, so a full run takes tens of seconds.
+export async function POST(request: NextRequest) {
+  let body: { serverId?: string };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.serverId) {
+    return NextResponse.json({ message: 'Missing required field: serverId' }, { status: 400 });
+  }
+
+  try {
+    let serverConfig: ServerConfig;
+    if (body.serverId === MOCK_SERVER_ID) {
+      serverConfig = mockServerConfig(await mockServerService.loadSettings());
+      await mockServerService.ensureRunning();
+    } else {
+      const db = await getDb();
+      const serverRow = await db.get('SELECT id, name, type, host, radiusAuthPort, radiusAcctPort, radiusCoaPort, defaultSecret FROM server_configs WHERE id = ?', body.serverId);
+      if (!serverRow) {
+        return NextResponse.json({ message: 'Server configuration not found' }, { status: 404 });
+      }
+      serverConfig = {
+        ...serverRow,
+        radiusAuthPort: Number(serverRow.radiusAuthPort),
+        radiusAcctPort: Number(serverRow.radiusAcctPort),
+        radiusCoaPort: serverRow.radiusCoaPort ? Number(serverRow.radiusCoaPort) : undefined,
+      } as ServerConfig;
+    }
+
+    const report = await conformanceService.run(serverConfig);
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error('Failed to run conformance suite:', error);
+    return NextResponse.json({ message: 'Failed to run conformance suite', error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { NextResponse, type NextRequest } from 'next/server';
 import { getDb } from '@/lib/db';
 import type { Dictionary, Attribute } from '@/app/dictionaries/page'; 
 import { parseDictionaryFileContent } from '@/ai/flows/parse-dictionary-file-content';
+import { vendorsFromParsedDictionary } from '@/lib/radius/dictionary';
 import { v4 as uuidv4 } from 'uuid';
 
 interface Params {
@@ -64,12 +65,23 @@ const parseJsonField = (jsonString: string | null | undefined, defaultValue: any
 };
 
 
+// Number of VENDOR definitions stored for a dictionary (JSON array in the vendors column).
+const countVendors = (jsonString: string | null | undefined): number => {
+  try {
+    const parsed = JSON.parse(jsonString || '[]');
+    return Array.isArray(parsed) ? parsed.length : 0;
+  } catch {
+    return 0;
+  }
+};
+
+
 // GET a single dictionary's metadata by ID
 export async function GET(request: NextRequest, { params }: { params: Params }) {
   console_log_info_api_id(`GET request for dictionary ID: ${params.id}`);
   try {
     const db = await getDb();
-    const dictFromDb = await db.get('SELECT id, name, source, isActive, lastUpdated, exampleAttributes FROM dictionaries WHERE id = ?', params.id);
+    const dictFromDb = await db.get('SELECT id, name, source, isActive, lastUpdated, exampleAttributes, vendors FROM dictionaries WHERE id = ?', params.id);
 
     if (!dictFromDb) {
       console_log_warn_api_id(`Dictionary not found for ID: ${params.id}`);
@@ -93,7 +105,7 @@ export async function GET(request: NextRequest, { params }: { params: Params })
       lastUpdated: validLastUpdated,
       exampleAttributes: exampleAttrs, 
       attributes: exampleAttrs.length, 
-      vendorCodes: 0, // This is a placeholder and not directly derived from VENDOR tag in this simplified model
+      vendorCodes: countVendors(dictFromDb.vendors as string | null),
     };
     console_log_info_api_id(`Successfully fetched dictionary ID: ${params.id}. Name: ${dictionary.name}, Attributes: ${dictionary.attributes}`);
     return NextResponse.json(dictionary);
@@ -125,6 +137,7 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
     }
 
     let exampleAttributesForDb: string;
+    let vendorsForDb = (existingDict.vendors as string | null) || '[]';
     let vendorInfo: { vendorName?: string; vendorId?: string } = {};
     let finalName = body.name !== undefined ? body.name : existingDict.name as string;
     let finalSource = body.source !== undefined ? body.source : existingDict.source as string | null;
@@ -138,7 +151,7 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
           parsedExampleAttributes = parsedResult.attributes.map(attr => ({
             id: attr.id || uuidv4(),
             name: attr.name, code: attr.code, type: attr.type,
-            vendor: parsedResult.vendorName || attr.vendor || 'Unknown', // Prioritize overall vendor
+            vendor: attr.vendor || 'Unknown', // Set by the parser for attributes in a BEGIN-VENDOR block
             description: attr.description || '',
             enumValues: attr.enumValues || [], 
             options: attr.options || [],
@@ -147,6 +160,7 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
         }
         exampleAttributesForDb = JSON.stringify(parsedExampleAttributes);
         vendorInfo = { vendorName: parsedResult.vendorName, vendorId: parsedResult.vendorId };
+        vendorsForDb = JSON.stringify(vendorsFromParsedDictionary(parsedResult));
 
         if (body.name === undefined && vendorInfo.vendorName) finalName = vendorInfo.vendorName;
         if (body.source === undefined && vendorInfo.vendorName) finalSource = vendorInfo.vendorName;
@@ -171,22 +185,24 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
       source: finalSource || 'Unknown', 
       isActive: typeof body.isActive === 'boolean' ? (body.isActive ? 1 : 0) : (existingDict.isActive ? 1: 0),
       exampleAttributes: exampleAttributesForDb, 
+      vendors: vendorsForDb,
       lastUpdated: new Date().toISOString(),
     };
     
     console_log_info_api_id(`PUT: Updating dictionary ID ${params.id} with data:`, { name: updatedDictData.name, source: updatedDictData.source, isActive: updatedDictData.isActive, attrsLength: (JSON.parse(updatedDictData.exampleAttributes) as Array<any>).length });
 
     await db.run(
-      'UPDATE dictionaries SET name = ?, source = ?, isActive = ?, lastUpdated = ?, exampleAttributes = ? WHERE id = ?',
+      'UPDATE dictionaries SET name = ?, source = ?, isActive = ?, lastUpdated = ?, exampleAttributes = ?, vendors = ? WHERE id = ?',
       updatedDictData.name,
       updatedDictData.source,
       updatedDictData.isActive,
       updatedDictData.lastUpdated,
       updatedDictData.exampleAttributes,
+      updatedDictData.vendors,
       params.id
     );
     
-    const updatedDictAfterSave = await db.get('SELECT id, name, source, isActive, lastUpdated, exampleAttributes FROM dictionaries WHERE id = ?', params.id);
+    const updatedDictAfterSave = await db.get('SELECT id, name, source, isActive, lastUpdated, exampleAttributes, vendors FROM dictionaries WHERE id = ?', params.id);
     if (!updatedDictAfterSave) { 
         console_error_api_id(`PUT: Failed to retrieve updated dictionary after save for ID ${params.id}`);
         return NextResponse.json({ message: 'Failed to retrieve updated dictionary after save', error: 'Failed to retrieve updated dictionary' }, { status: 500});
@@ -208,7 +224,7 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
         lastUpdated: validLastUpdatedAfterSave,
         exampleAttributes: exampleAttrsRet,
         attributes: exampleAttrsRet.length,
-        vendorCodes: vendorInfo.vendorId ? 1 : 0, 
+        vendorCodes: countVendors(updatedDictAfterSave.vendors as string | null),
     };
     console_log_info_api_id(`PUT: Successfully updated dictionary ID: ${params.id}. Returning updated data.`);
     return NextResponse.json(dictionaryToReturn);
@@ -54,9 +54,14 @@ export async function GET(request: NextRequest) {
 
     dictionariesFromDb.forEach(dict => {
       const attributesArray = parseJsonField(dict.exampleAttributes as string | null, []);
+      const namesByCode = new Map(attributesArray.map(attr => [String(attr.code), attr.name]));
       attributesArray.forEach(attr => {
         if (attr.name) { // Ensure name exists
           allAttributeNames.push(attr.name);
+          // TLV children (dotted codes such as 241.5.1) are also offered as "Parent.Child".
+          const parentCode = String(attr.code).split('.').slice(0, -1).join('.');
+          const parentName = parentCode ? namesByCode.get(parentCode) : undefined;
+          if (parentName) allAttributeNames.push(`${parentName}.${attr.name}`);
         }
       });
     });
@@ -4,7 +4,8 @@ import { NextResponse, type NextRequest } from 'next/server';
 import { getDb } from '@/lib/db';
 import type { Dictionary, Attribute } from '@/app/dictionaries/page'; 
 import { v4 as uuidv4 } from 'uuid';
-import { parseDictionaryFileContent } from '@/ai/flows/parse-dictionary-file-content';
+import { parseDictionaryFileContent, type ParsedVendor } from '@/ai/flows/parse-dictionary-file-content';
+import { vendorsFromParsedDictionary } from '@/lib/radius/dictionary';
 
 // Helper for logging with prefixes for clarity in server logs
 function console_log_info_api(message: string, ...optionalParams: any[]) {
@@ -57,12 +58,22 @@ const parseJsonField = (jsonString: string | null | undefined, defaultValue: any
 };
 
 
+// Number of VENDOR definitions stored for a dictionary (JSON array in the vendors column).
+const countVendors = (jsonString: string | null | undefined): number => {
+  try {
+    const parsed = JSON.parse(jsonString || '[]');
+    return Array.isArray(parsed) ? parsed.length : 0;
+  } catch {
+    return 0;
+  }
+};
+
 // GET all dictionary metadata
 export async function GET() {
   console_log_info_api("GET request received for all dictionaries.");
   try {
     const db = await getDb();
-    const dictionariesFromDb = await db.all('SELECT id, name, source, isActive, lastUpdated, exampleAttributes FROM dictionaries ORDER BY name ASC');
+    const dictionariesFromDb = await db.all('SELECT id, name, source, isActive, lastUpdated, exampleAttributes, vendors FROM dictionaries ORDER BY name ASC');
     console_log_info_api(`Retrieved ${dictionariesFromDb.length} dictionaries from DB.`);
     
     const dictionaries: Dictionary[] = dictionariesFromDb.map(d => {
@@ -89,7 +100,7 @@ export async function GET() {
         lastUpdated: validLastUpdated,
         exampleAttributes: exampleAttrs,
         attributes: exampleAttrs.length, 
-        vendorCodes: 0, // This field is still a placeholder
+        vendorCodes: countVendors(d.vendors as string | null),
       };
     });
     console_log_info_api("Successfully processed and returning dictionaries.");
@@ -131,6 +142,7 @@ export async function POST(request: NextRequest) {
         let dictSourceFromFile = "Uploaded File";
         let exampleAttributesArray: Attribute[] = [];
         let vendorInfo: { vendorName?: string; vendorId?: string } = {};
+        let vendors: ParsedVendor[] = [];
 
         if (file.content && file.content.trim() !== '') {
           try {
@@ -141,13 +153,15 @@ export async function POST(request: NextRequest) {
               exampleAttributesArray = parsedResult.attributes.map(attr => ({
                 id: attr.id || uuidv4(), 
                 name: attr.name, code: attr.code, type: attr.type,
-                vendor: parsedResult.vendorName || attr.vendor || 'Unknown',
+                vendor: attr.vendor || 'Unknown', // Set by the parser for attributes in a BEGIN-VENDOR block
                 description: attr.description || '',
+                options: attr.options || [],
                 enumValues: attr.enumValues || [], 
                 examples: attr.examples || '',
               }));
             }
             vendorInfo = { vendorName: parsedResult.vendorName, vendorId: parsedResult.vendorId };
+            vendors = vendorsFromParsedDictionary(parsedResult);
             if (vendorInfo.vendorName) { 
                 dictNameFromFile = vendorInfo.vendorName;
                 dictSourceFromFile = vendorInfo.vendorName;
@@ -168,17 +182,19 @@ export async function POST(request: NextRequest) {
           isActive: true,
           lastUpdated: new Date().toISOString(),
           exampleAttributes: JSON.stringify(exampleAttributesArray),
+          vendors: JSON.stringify(vendors),
         };
         console_log_info_api(`POST: Bulk - Inserting metadata for ${dictNameFromFile} (ID: ${id})`);
         await db.run(
-          'INSERT INTO dictionaries (id, name, source, isActive, lastUpdated, exampleAttributes) VALUES (?, ?, ?, ?, ?, ?)',
+          'INSERT INTO dictionaries (id, name, source, isActive, lastUpdated, exampleAttributes, vendors) VALUES (?, ?, ?, ?, ?, ?, ?)',
           newDictionaryMetadata.id, newDictionaryMetadata.name, newDictionaryMetadata.source,
-          newDictionaryMetadata.isActive ? 1 : 0, newDictionaryMetadata.lastUpdated, newDictionaryMetadata.exampleAttributes
+          newDictionaryMetadata.isActive ? 1 : 0, newDictionaryMetadata.lastUpdated, newDictionaryMetadata.exampleAttributes,
+          newDictionaryMetadata.vendors
         );
         createdDictionaries.push({
           ...newDictionaryMetadata,
           attributes: exampleAttributesArray.length, 
-          vendorCodes: vendorInfo.vendorId ? 1 : 0, 
+          vendorCodes: vendors.length, 
           exampleAttributes: exampleAttributesArray
         });
       }
@@ -191,7 +207,7 @@ export async function POST(request: NextRequest) {
     let dictName = requestBody.name;
     let dictSource = requestBody.source;
     let exampleAttributesArray: Attribute[] = [];
-    let vendorInfo: { vendorName?: string; vendorId?: string } = {};
+    let vendors: ParsedVendor[] = [];
 
     if (requestBody.rawContent) {
       try {
@@ -202,13 +218,14 @@ export async function POST(request: NextRequest) {
           exampleAttributesArray = parsedResult.attributes.map(attr => ({
             id: attr.id || uuidv4(), 
             name: attr.name, code: attr.code, type: attr.type,
-            vendor: parsedResult.vendorName || attr.vendor || 'Unknown',
+            vendor: attr.vendor || 'Unknown', // Set by the parser for attributes in a BEGIN-VENDOR block
             description: attr.description || '',
+            options: attr.options || [],
             enumValues: attr.enumValues || [], 
             examples: attr.examples || '',
           }));
         }
-        vendorInfo = { vendorName: parsedResult.vendorName, vendorId: parsedResult.vendorId };
+        vendors = vendorsFromParsedDictionary(parsedResult);
         if (!dictName && parsedResult.vendorName) dictName = parsedResult.vendorName;
         if (!dictSource && parsedResult.vendorName) dictSource = parsedResult.vendorName; 
       } catch (parseError: any) {
@@ -228,19 +245,21 @@ export async function POST(request: NextRequest) {
       id, name: dictName, source: dictSource, isActive: true,
       lastUpdated: new Date().toISOString(),
       exampleAttributes: JSON.stringify(exampleAttributesArray),
+      vendors: JSON.stringify(vendors),
     };
 
     console_log_info_api(`POST: Single - Inserting metadata for ${dictName} (ID: ${id})`);
     await db.run(
-      'INSERT INTO dictionaries (id, name, source, isActive, lastUpdated, exampleAttributes) VALUES (?, ?, ?, ?, ?, ?)',
+      'INSERT INTO dictionaries (id, name, source, isActive, lastUpdated, exampleAttributes, vendors) VALUES (?, ?, ?, ?, ?, ?, ?)',
       newDictionaryMetadata.id, newDictionaryMetadata.name, newDictionaryMetadata.source,
-      newDictionaryMetadata.isActive ? 1 : 0, newDictionaryMetadata.lastUpdated, newDictionaryMetadata.exampleAttributes
+      newDictionaryMetadata.isActive ? 1 : 0, newDictionaryMetadata.lastUpdated, newDictionaryMetadata.exampleAttributes,
+      newDictionaryMetadata.vendors
     );
 
     const returnData: Dictionary = {
       ...newDictionaryMetadata,
       attributes: exampleAttributesArray.length, 
-      vendorCodes: vendorInfo.vendorId ? 1 : 0,
+      vendorCodes: vendors.length,
       exampleAttributes: exampleAttributesArray,
     };
     console_log_info_api("POST: Single dictionary import processed successfully.");
@@ -0,0 +1,40 @@
+// src/app/api/executions/[id]/pcap/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { loadExecutionDatagrams } from '@/lib/radius/execution-capture';
+import { writePcapng } from '@/lib/radius/pcap';
+
+interface Params {
+  id: string;
+}
+
+// GET the RADIUS traffic recorded for a test execution as a pcapng download.
+// Packets get synthetic Ethernet/IP/UDP (or TCP) headers so Wireshark dissects them as RADIUS.
+export async function GET(request: NextRequest, { params }: { params: Params }) {
+  try {
+    const db = await getDb();
+    const execution = await db.get('SELECT id, scenarioName, serverName, startTime FROM test_executions WHERE id = ?', params.id);
+    if (!execution) {
+      return NextResponse.json({ message: 'Test execution not found' }, { status: 404 });
+    }
+    const datagrams = await loadExecutionDatagrams(params.id);
+    if (datagrams.length === 0) {
+      return NextResponse.json({ message: 'No RADIUS packets were recorded for this execution' }, { status: 404 });
+    }
+
+    const capture = writePcapng(datagrams, {
+      application: 'RadiusEdge',
+      comment: `Execution ${execution.id}: "${execution.scenarioName}" on "${execution.serverName}", started ${execution.startTime}. RadSec packets are shown decrypted as RADIUS over TCP.`,
+    });
+    const fileName = `radiusedge_${String(execution.scenarioName).replace(/[^\w.-]+/g, '_')}_${execution.id}.pcapng`;
+    return new NextResponse(capture, {
+      headers: {
+        'Content-Type': 'application/x-pcapng',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to export packet capture for execution ${params.id}:`, error);
+    return NextResponse.json({ message: `Failed to export packet capture for execution ${params.id}`, error: (error as Error).message }, { status: 500 });
+  }
+}
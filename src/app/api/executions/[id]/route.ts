@@ -2,6 +2,7 @@
 // src/app/api/executions/[id]/route.ts
 import { NextResponse, type NextRequest } from 'next/server';
 import { getDb } from '@/lib/db';
+import { faultProxyService } from '@/lib/services/fault-proxy-service';
 import type { TestExecution } from '../route'; // Assuming TestExecution type is exported from parent route
 
 interface Params {
@@ -66,6 +67,9 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
       // Could be because data is identical or record not found (though checked above)
     }
 
+    // A finished run releases its fault injection proxy instead of waiting for the idle timeout.
+    if (body.status && body.status !== 'Running') faultProxyService.close(params.id);
+
     const updatedExecution = await db.get('SELECT * FROM test_executions WHERE id = ?', params.id);
     return NextResponse.json(updatedExecution);
 
@@ -83,13 +87,14 @@ export async function DELETE(request: NextRequest, { params }: { params: Params
     // This can be handled by database foreign key constraints with ON DELETE CASCADE,
     // or by explicit DELETE statements here.
     await db.run('DELETE FROM execution_logs WHERE testExecutionId = ?', params.id);
+    await db.run('DELETE FROM execution_datagrams WHERE testExecutionId = ?', params.id);
     const result = await db.run('DELETE FROM test_executions WHERE id = ?', params.id);
 
     if (result.changes === 0) {
       return NextResponse.json({ message: 'Test execution not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ message: 'Test execution and associated logs deleted successfully.' });
+    return NextResponse.json({ message: 'Test execution and associated logs and packets deleted successfully.' });
   } catch (error) {
     console.error(`Failed to delete test execution ${params.id}:`, error);
     return NextResponse.json({ message: `Failed to delete test execution ${params.id}`, error: (error as Error).message }, { status: 500 });
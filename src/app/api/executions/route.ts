@@ -14,6 +14,8 @@ export interface TestExecution {
   endTime?: string;
   status: 'Running' | 'Completed' | 'Failed' | 'Aborted';
   resultId?: string;
+  faultProfileId?: string; // Fault injection profile the run was attached to
+  faultProfileName?: string;
 }
 
 // GET all test executions
@@ -47,11 +49,13 @@ export async function POST(request: NextRequest) {
       startTime: new Date().toISOString(),
       status: body.status || 'Running', // Default to 'Running'
       resultId: body.resultId,
+      faultProfileId: body.faultProfileId,
+      faultProfileName: body.faultProfileName,
     };
 
     await db.run(
-      `INSERT INTO test_executions (id, scenarioId, scenarioName, serverId, serverName, startTime, status, resultId) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO test_executions (id, scenarioId, scenarioName, serverId, serverName, startTime, status, resultId, faultProfileId, faultProfileName) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       newExecution.id,
       newExecution.scenarioId,
       newExecution.scenarioName,
@@ -59,7 +63,9 @@ export async function POST(request: NextRequest) {
       newExecution.serverName,
       newExecution.startTime,
       newExecution.status,
-      newExecution.resultId
+      newExecution.resultId,
+      newExecution.faultProfileId,
+      newExecution.faultProfileName
     );
 
     return NextResponse.json(newExecution, { status: 201 });
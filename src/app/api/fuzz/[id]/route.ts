@@ -0,0 +1,53 @@
+// src/app/api/fuzz/[id]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { fuzzService } from '@/lib/services/fuzz-service';
+
+interface Params {
+  id: string;
+}
+
+// GET a fuzz campaign with its findings
+export async function GET(request: NextRequest, { params }: { params: Params }) {
+  try {
+    const result = await fuzzService.getCampaign(params.id);
+    if (!result) {
+      return NextResponse.json({ message: 'Fuzz campaign not found' }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(`Failed to fetch fuzz campaign ${params.id}:`, error);
+    return NextResponse.json({ message: `Failed to fetch fuzz campaign ${params.id}`, error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// POST { action: 'stop' }: stop a running campaign after the case in flight
+export async function POST(request: NextRequest, { params }: { params: Params }) {
+  let body: { action?: string };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (body.action !== 'stop') {
+    return NextResponse.json({ message: `Unknown action: ${body.action}` }, { status: 400 });
+  }
+  if (!fuzzService.stop(params.id)) {
+    return NextResponse.json({ message: 'Fuzz campaign is not running' }, { status: 409 });
+  }
+  return NextResponse.json({ message: 'Fuzz campaign stopping' });
+}
+
+// DELETE a fuzz campaign and its findings (stopping it first if it is running)
+export async function DELETE(request: NextRequest, { params }: { params: Params }) {
+  try {
+    const deleted = await fuzzService.deleteCampaign(params.id);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Fuzz campaign not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Fuzz campaign deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error(`Failed to delete fuzz campaign ${params.id}:`, error);
+    return NextResponse.json({ message: `Failed to delete fuzz campaign ${params.id}`, error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+// src/app/api/fuzz/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { normalizeFuzzSettings } from '@/lib/radius/fuzz';
+import { MOCK_SERVER_ID, mockServerConfig } from '@/lib/radius/mock-rules';
+import { mockServerService } from '@/lib/services/mock-server-service';
+import { fuzzService } from '@/lib/services/fuzz-service';
+import type { FuzzCampaignSettings, RadiusPacket, ServerConfig } from '@/lib/types';
+
+interface StartCampaignBody {
+  name?: string;
+  packetId: string;
+  serverId: string;
+  settings?: Partial<FuzzCampaignSettings>;
+}
+
+// GET all fuzz campaigns, newest first
+export async function GET() {
+  try {
+    const campaigns = await fuzzService.listCampaigns();
+    return NextResponse.json(campaigns);
+  } catch (error) {
+    console.error('Failed to fetch fuzz campaigns:', error);
+    return NextResponse.json({ message: 'Failed to fetch fuzz campaigns', error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// POST: start a fuzz campaign of a saved packet against a configured server (or the mock server).
+// The campaign runs in the background; poll /api/fuzz/[id] for progress and findings.
+export async function POST(request: NextRequest) {
+  let body: StartCampaignBody;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.packetId || !body.serverId) {
+    return NextResponse.json({ message: 'Missing required fields: packetId and serverId' }, { status: 400 });
+  }
+  let settings: FuzzCampaignSettings;
+  try {
+    settings = normalizeFuzzSettings(body.settings || {});
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid fuzz settings', error: (error as Error).message }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const packetRow = await db.get('SELECT * FROM packets WHERE id = ?', body.packetId);
+    if (!packetRow) {
+      return NextResponse.json({ message: 'Packet not found' }, { status: 404 });
+    }
+    const packet = {
+      ...packetRow,
+      attributes: packetRow.attributes ? JSON.parse(packetRow.attributes as string) : [],
+      toolOptions: packetRow.toolOptions ? JSON.parse(packetRow.toolOptions as string) : undefined,
+    } as RadiusPacket;
+
+    let serverConfig: ServerConfig;
+    if (body.serverId === MOCK_SERVER_ID) {
+      serverConfig = mockServerConfig(await mockServerService.loadSettings());
+      await mockServerService.ensureRunning();
+    } else {
+      const serverRow = await db.get('SELECT id, name, type, host, radiusAuthPort, radiusAcctPort, radiusCoaPort, defaultSecret FROM server_configs WHERE id = ?', body.serverId);
+      if (!serverRow) {
+        return NextResponse.json({ message: 'Server configuration not found' }, { status: 404 });
+      }
+      serverConfig = {
+        ...serverRow,
+        radiusAuthPort: Number(serverRow.radiusAuthPort),
+        radiusAcctPort: Number(serverRow.radiusAcctPort),
+        radiusCoaPort: serverRow.radiusCoaPort ? Number(serverRow.radiusCoaPort) : undefined,
+      } as ServerConfig;
+    }
+
+    const campaign = await fuzzService.start(body.name || '', packet, serverConfig, settings);
+    return NextResponse.json(campaign, { status: 201 });
+  } catch (error) {
+    console.error('Failed to start fuzz campaign:', error);
+    return NextResponse.json({ message: 'Failed to start fuzz campaign', error: (error as Error).message }, { status: 500 });
+  }
+}
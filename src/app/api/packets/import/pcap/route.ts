@@ -0,0 +1,43 @@
+// src/app/api/packets/import/pcap/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import { importCaptureFile } from '@/lib/radius/packet-import';
+
+const MAX_CAPTURE_FILE_SIZE = 50 * 1024 * 1024;
+
+// POST: extract RADIUS exchanges from an uploaded pcap or pcapng capture.
+// Expects multipart form data with `file` and an optional `secret` for hidden attributes.
+// Nothing is saved; the client saves the chosen exchanges through /api/packets/import.
+export async function POST(request: NextRequest) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be multipart form data.', error: (error as Error).message }, { status: 400 });
+  }
+
+  const file = formData.get('file');
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ message: 'Missing required field: file' }, { status: 400 });
+  }
+  if (file.size > MAX_CAPTURE_FILE_SIZE) {
+    return NextResponse.json({ message: `Capture file is too large: the limit is ${MAX_CAPTURE_FILE_SIZE / 1024 / 1024} MB.` }, { status: 400 });
+  }
+  const secret = formData.get('secret');
+
+  let data: Buffer;
+  let dictionary;
+  try {
+    data = Buffer.from(await file.arrayBuffer());
+    dictionary = await loadActiveDictionary();
+  } catch (error) {
+    console.error('Failed to prepare capture import:', error);
+    return NextResponse.json({ message: 'Failed to prepare capture import', error: (error as Error).message }, { status: 500 });
+  }
+
+  try {
+    return NextResponse.json(importCaptureFile(data, dictionary, { secret: typeof secret === 'string' && secret ? secret : undefined }));
+  } catch (error) {
+    return NextResponse.json({ message: 'Could not read the capture file', error: (error as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,72 @@
+// src/app/api/packets/import/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { v4 as uuidv4 } from 'uuid';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import { importCapturedPacket, parsePacketDump, type PacketDumpEncoding } from '@/lib/radius/packet-import';
+import type { RadiusPacket } from '@/lib/types';
+
+interface ImportPacketRequestBody {
+  dump: string; // Hex (plain, tcpdump -X or Wireshark hex dump) or base64
+  encoding?: PacketDumpEncoding; // Defaults to 'auto'
+  secret?: string; // Decrypts User-Password and other hidden attributes
+  requestAuthenticator?: string; // Hex; needed to decrypt attributes of a reply
+  name?: string;
+  protocol?: 'udp' | 'tcp'; // Transport the packet was captured on; tcp sets the radclient protocol
+}
+
+// POST: decode a RADIUS packet captured elsewhere and save it as a new packet.
+// Responds with the saved packet and any warnings about attributes that could not be decrypted.
+export async function POST(request: NextRequest) {
+  let body: ImportPacketRequestBody;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.dump || typeof body.dump !== 'string') {
+    return NextResponse.json({ message: 'Missing required field: dump' }, { status: 400 });
+  }
+  const requestAuthenticatorHex = body.requestAuthenticator?.replace(/^0x/i, '').replace(/[\s:]/g, '');
+  if (requestAuthenticatorHex && !/^[0-9a-f]{32}$/i.test(requestAuthenticatorHex)) {
+    return NextResponse.json({ message: 'Invalid requestAuthenticator: expected 16 octets as 32 hex digits.' }, { status: 400 });
+  }
+
+  let imported;
+  try {
+    const dictionary = await loadActiveDictionary();
+    imported = importCapturedPacket(parsePacketDump(body.dump, body.encoding || 'auto'), dictionary, {
+      secret: body.secret || undefined,
+      requestAuthenticator: requestAuthenticatorHex ? Buffer.from(requestAuthenticatorHex, 'hex') : undefined,
+      name: body.name?.trim() || undefined,
+      protocol: body.protocol === 'tcp' ? 'tcp' : undefined,
+    });
+  } catch (error) {
+    return NextResponse.json({ message: 'Could not decode the packet', error: (error as Error).message }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const newPacket: RadiusPacket = {
+      id: uuidv4(),
+      ...imported.packet,
+      lastModified: new Date().toISOString(),
+    };
+    await db.run(
+      'INSERT INTO packets (id, name, description, attributes, lastModified, tags, executionTool, toolOptions) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      newPacket.id,
+      newPacket.name,
+      newPacket.description,
+      JSON.stringify(newPacket.attributes),
+      newPacket.lastModified,
+      JSON.stringify(newPacket.tags),
+      newPacket.executionTool,
+      JSON.stringify(newPacket.toolOptions)
+    );
+    return NextResponse.json({ packet: newPacket, warnings: imported.warnings }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to save imported packet:', error);
+    return NextResponse.json({ message: 'Failed to save imported packet', error: (error as Error).message }, { status: 500 });
+  }
+}
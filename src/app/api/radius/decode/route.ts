@@ -0,0 +1,32 @@
+// src/app/api/radius/decode/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import { dissectPacket } from '@/lib/radius/packet';
+
+interface DecodeRequestBody {
+  hex: string; // Packet bytes; whitespace, colons and a 0x prefix are ignored
+}
+
+// POST: dissect raw packet bytes (e.g. from a SENT/RECV log entry) into header,
+// authenticator and attribute fields with their offsets, using the active dictionaries.
+export async function POST(request: NextRequest) {
+  let body: DecodeRequestBody;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  const hex = typeof body.hex === 'string' ? body.hex.replace(/^0x/i, '').replace(/[\s:]/g, '') : '';
+  if (!hex || hex.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(hex)) {
+    return NextResponse.json({ message: 'Missing or invalid field: hex must be an even number of hex digits.' }, { status: 400 });
+  }
+
+  try {
+    const dictionary = await loadActiveDictionary();
+    return NextResponse.json(dissectPacket(Buffer.from(hex, 'hex'), dictionary));
+  } catch (error) {
+    console.error('Failed to decode RADIUS packet:', error);
+    return NextResponse.json({ message: 'Failed to decode RADIUS packet', error: (error as Error).message }, { status: 500 });
+  }
+}
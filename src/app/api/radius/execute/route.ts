@@ -0,0 +1,56 @@
+// src/app/api/radius/execute/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { radiusService, type RadiusServerConfig } from '@/lib/services/radius-service';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import { recordExecutionDatagrams } from '@/lib/radius/execution-capture';
+import { MOCK_SERVER_ID } from '@/lib/radius/mock-rules';
+import { mockServerService } from '@/lib/services/mock-server-service';
+import { faultProxyService } from '@/lib/services/fault-proxy-service';
+import type { RadiusPacket, ServerConfig, ScenarioVariable, ExpectedReplyAttribute, FaultProfile } from '@/lib/types';
+
+interface ExecuteRequestBody {
+  packet: RadiusPacket;
+  serverConfig: ServerConfig;
+  scenarioVariables?: ScenarioVariable[];
+  expectedAttributes?: ExpectedReplyAttribute[];
+  retransmission?: Pick<RadiusServerConfig, 'timeout' | 'retries' | 'retryBackoff' | 'duplicateCheck'>; // Scenario step timeout (ms) and retries
+  testExecutionId?: string; // Records the packets sent and received against this execution
+  faultProfile?: FaultProfile; // Relays udp packets through a fault injection proxy, one per testExecutionId
+}
+
+// POST: send a saved packet to a RADIUS server using the native client.
+// Sockets are only available server-side, so the Execution Console calls this route.
+// With a testExecutionId the wire traffic is stored for /api/executions/[id]/pcap.
+// The built-in mock server is started on demand when it is the target.
+// A fault profile keeps its proxy (and its seeded choices) for the whole run of a testExecutionId.
+export async function POST(request: NextRequest) {
+  let body: ExecuteRequestBody;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.packet || !body.serverConfig) {
+    return NextResponse.json({ message: 'Missing required fields: packet and serverConfig' }, { status: 400 });
+  }
+
+  const faultInjection = body.faultProfile ? faultProxyService.open(body.faultProfile, body.testExecutionId) : undefined;
+  try {
+    if (body.serverConfig.id === MOCK_SERVER_ID) await mockServerService.ensureRunning();
+    const dictionary = await loadActiveDictionary();
+    const result = await radiusService.executeTool(body.packet, body.serverConfig, body.scenarioVariables, {
+      dictionary,
+      expectedAttributes: body.expectedAttributes,
+      retransmission: body.retransmission,
+      faultInjection,
+    });
+    if (body.testExecutionId) await recordExecutionDatagrams(body.testExecutionId, result.datagrams || []);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to execute RADIUS packet:', error);
+    return NextResponse.json({ message: 'Failed to execute RADIUS packet', error: (error as Error).message }, { status: 500 });
+  } finally {
+    if (!body.testExecutionId) faultInjection?.close();
+  }
+}
@@ -0,0 +1,56 @@
+// src/app/api/radius/listen/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { radiusService, type DynamicAuthorizationListenerOptions } from '@/lib/services/radius-service';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import { recordExecutionDatagrams } from '@/lib/radius/execution-capture';
+import type { ServerConfig } from '@/lib/types';
+
+interface ListenRequestBody {
+  serverConfig: ServerConfig; // Supplies nasSpecificSecrets and the default secret
+  port?: number;
+  address?: string;
+  timeout?: number; // ms
+  expectedCode?: DynamicAuthorizationListenerOptions['expectedCode'];
+  respondWith?: DynamicAuthorizationListenerOptions['respondWith'];
+  errorCause?: string;
+  nasIdentifier?: string;
+  testExecutionId?: string; // Records the packets received and sent against this execution
+}
+
+const DEFAULT_LISTEN_PORT = 3799;
+const DEFAULT_LISTEN_TIMEOUT_MS = 30000;
+
+// POST: act as a NAS and wait for one CoA-Request or Disconnect-Request from the AAA server.
+// The request stays open until a valid packet is answered or the timeout expires.
+export async function POST(request: NextRequest) {
+  let body: ListenRequestBody;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.serverConfig) {
+    return NextResponse.json({ message: 'Missing required field: serverConfig' }, { status: 400 });
+  }
+
+  try {
+    const dictionary = await loadActiveDictionary();
+    const result = await radiusService.listenForDynamicAuthorization({
+      port: Number(body.port) || DEFAULT_LISTEN_PORT,
+      address: body.address || undefined,
+      timeout: Number(body.timeout) || DEFAULT_LISTEN_TIMEOUT_MS,
+      expectedCode: body.expectedCode,
+      respondWith: body.respondWith === 'nak' ? 'nak' : 'ack',
+      errorCause: body.errorCause,
+      nasIdentifier: body.nasIdentifier,
+      nasSpecificSecrets: body.serverConfig.nasSpecificSecrets || {},
+      defaultSecret: body.serverConfig.defaultSecret || '',
+    }, dictionary);
+    if (body.testExecutionId) await recordExecutionDatagrams(body.testExecutionId, result.datagrams);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to listen for dynamic authorization requests:', error);
+    return NextResponse.json({ message: 'Failed to listen for CoA/Disconnect requests', error: (error as Error).message }, { status: 500 });
+  }
+}
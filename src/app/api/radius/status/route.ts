@@ -0,0 +1,35 @@
+// src/app/api/radius/status/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { radiusService } from '@/lib/services/radius-service';
+
+// GET ?serverId=...[&timeout=ms]: probe the server's listeners with Status-Server (RFC 5997) over its status transport.
+export async function GET(request: NextRequest) {
+  const serverId = request.nextUrl.searchParams.get('serverId');
+  if (!serverId) {
+    return NextResponse.json({ message: 'Missing required query parameter: serverId' }, { status: 400 });
+  }
+  const timeout = Number(request.nextUrl.searchParams.get('timeout')) || undefined;
+
+  try {
+    const db = await getDb();
+    const row = await db.get(`SELECT id, name, type, host, radiusAuthPort, radiusAcctPort, defaultSecret, statusTransport,
+        radsecHost, radsecPort, radsecCaCertificate, radsecClientCertificate, radsecClientPrivateKey
+      FROM server_configs WHERE id = ?`, serverId);
+    if (!row) {
+      return NextResponse.json({ message: 'Server configuration not found' }, { status: 404 });
+    }
+    const serverConfig = {
+      ...row,
+      radiusAuthPort: Number(row.radiusAuthPort),
+      radiusAcctPort: Number(row.radiusAcctPort),
+      radsecPort: Number(row.radsecPort) || undefined,
+    };
+
+    const result = await radiusService.checkServerHealth(serverConfig, timeout);
+    return NextResponse.json({ serverId: row.id, serverName: row.name, ...result });
+  } catch (error) {
+    console.error(`Failed to check RADIUS status for server ${serverId}:`, error);
+    return NextResponse.json({ message: 'Failed to check RADIUS server status', error: (error as Error).message }, { status: 500 });
+  }
+}
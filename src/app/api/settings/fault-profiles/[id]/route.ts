@@ -0,0 +1,73 @@
+// src/app/api/settings/fault-profiles/[id]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { normalizeFaultRules } from '@/lib/radius/faults';
+import type { FaultProfile } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+// PUT (update) a fault injection profile by ID
+export async function PUT(request: NextRequest, { params }: { params: Params }) {
+  let body: Omit<FaultProfile, 'id' | 'lastModified'>;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.name) {
+    return NextResponse.json({ message: 'Profile name is required' }, { status: 400 });
+  }
+  let rules;
+  try {
+    rules = normalizeFaultRules(body.rules || []);
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid fault rules', error: (error as Error).message }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const existingProfile = await db.get('SELECT seed FROM fault_profiles WHERE id = ?', params.id);
+    if (!existingProfile) {
+      return NextResponse.json({ message: 'Fault profile not found' }, { status: 404 });
+    }
+    const updatedProfile: FaultProfile = {
+      id: params.id,
+      name: body.name,
+      description: body.description || '',
+      seed: Number.isInteger(body.seed) ? body.seed : Number(existingProfile.seed),
+      rules,
+      lastModified: new Date().toISOString(),
+    };
+    await db.run(
+      'UPDATE fault_profiles SET name = ?, description = ?, seed = ?, rules = ?, lastModified = ? WHERE id = ?',
+      updatedProfile.name,
+      updatedProfile.description,
+      updatedProfile.seed,
+      JSON.stringify(updatedProfile.rules),
+      updatedProfile.lastModified,
+      params.id
+    );
+    return NextResponse.json(updatedProfile);
+  } catch (error) {
+    console.error(`Failed to update fault profile ${params.id}:`, error);
+    return NextResponse.json({ message: `Failed to update fault profile ${params.id}`, error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// DELETE a fault injection profile by ID
+export async function DELETE(request: NextRequest, { params }: { params: Params }) {
+  try {
+    const db = await getDb();
+    const result = await db.run('DELETE FROM fault_profiles WHERE id = ?', params.id);
+    if (result.changes === 0) {
+      return NextResponse.json({ message: 'Fault profile not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Fault profile deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error(`Failed to delete fault profile ${params.id}:`, error);
+    return NextResponse.json({ message: `Failed to delete fault profile ${params.id}`, error: (error as Error).message }, { status: 500 });
+  }
+}
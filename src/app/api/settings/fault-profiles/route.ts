@@ -0,0 +1,79 @@
+// src/app/api/settings/fault-profiles/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeFaultRules } from '@/lib/radius/faults';
+import type { FaultProfile } from '@/lib/types';
+
+// Helper to parse JSON fields safely
+const parseJsonField = (jsonString: string | null | undefined, defaultValue: any) => {
+  if (!jsonString) return defaultValue;
+  try {
+    return JSON.parse(jsonString);
+  } catch (e) {
+    console.error('Failed to parse JSON field:', e);
+    return defaultValue;
+  }
+};
+
+// GET all fault injection profiles
+export async function GET() {
+  try {
+    const db = await getDb();
+    const profilesFromDb = await db.all('SELECT * FROM fault_profiles ORDER BY name ASC');
+    const profiles: FaultProfile[] = profilesFromDb.map(p => ({
+      ...p,
+      seed: Number(p.seed),
+      rules: parseJsonField(p.rules, []),
+    })) as FaultProfile[];
+    return NextResponse.json(profiles);
+  } catch (error) {
+    console.error('Failed to fetch fault profiles:', error);
+    return NextResponse.json({ message: 'Failed to fetch fault profiles', error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// POST a new fault injection profile
+export async function POST(request: NextRequest) {
+  let body: Omit<FaultProfile, 'id' | 'lastModified'>;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.name) {
+    return NextResponse.json({ message: 'Profile name is required' }, { status: 400 });
+  }
+  let rules;
+  try {
+    rules = normalizeFaultRules(body.rules || []);
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid fault rules', error: (error as Error).message }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const newProfile: FaultProfile = {
+      id: uuidv4(),
+      name: body.name,
+      description: body.description || '',
+      seed: Number.isInteger(body.seed) ? body.seed : Math.floor(Math.random() * 2 ** 31),
+      rules,
+      lastModified: new Date().toISOString(),
+    };
+    await db.run(
+      'INSERT INTO fault_profiles (id, name, description, seed, rules, lastModified) VALUES (?, ?, ?, ?, ?, ?)',
+      newProfile.id,
+      newProfile.name,
+      newProfile.description,
+      newProfile.seed,
+      JSON.stringify(newProfile.rules),
+      newProfile.lastModified
+    );
+    return NextResponse.json(newProfile, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create fault profile:', error);
+    return NextResponse.json({ message: 'Failed to create fault profile', error: (error as Error).message }, { status: 500 });
+  }
+}
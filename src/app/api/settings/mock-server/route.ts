@@ -0,0 +1,86 @@
+// src/app/api/settings/mock-server/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { mockServerService } from '@/lib/services/mock-server-service';
+import { mockServerConfig } from '@/lib/radius/mock-rules';
+import type { MockRuleAction, MockServerSettings } from '@/lib/types';
+
+const ACTIONS: MockRuleAction[] = ['accept', 'reject', 'challenge', 'drop'];
+
+async function describe() {
+  const settings = await mockServerService.loadSettings();
+  return { settings, status: mockServerService.getStatus(), serverConfig: mockServerConfig(settings) };
+}
+
+function isPort(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) < 65536;
+}
+
+// GET the mock server settings, its running state with recent requests, and the
+// pseudo-server the Execution Console offers for it.
+export async function GET() {
+  try {
+    return NextResponse.json(await describe());
+  } catch (error) {
+    console.error('Failed to fetch mock server settings:', error);
+    return NextResponse.json({ message: 'Failed to fetch mock server settings', error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// PUT (replace) the mock server settings and rule table; a running server restarts with them.
+export async function PUT(request: NextRequest) {
+  let body: MockServerSettings;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  if (!body.secret) {
+    return NextResponse.json({ message: 'A shared secret is required' }, { status: 400 });
+  }
+  if (![body.authPort, body.acctPort, body.coaPort].every(isPort) || new Set([body.authPort, body.acctPort, body.coaPort]).size !== 3) {
+    return NextResponse.json({ message: 'Auth, accounting and CoA ports must be three different ports between 1 and 65535' }, { status: 400 });
+  }
+  if (!ACTIONS.includes(body.defaultAction) || !Array.isArray(body.rules) || body.rules.some(rule => !ACTIONS.includes(rule.action))) {
+    return NextResponse.json({ message: `Actions must be one of: ${ACTIONS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    await mockServerService.saveSettings({
+      secret: body.secret,
+      authPort: body.authPort,
+      acctPort: body.acctPort,
+      coaPort: body.coaPort,
+      defaultAction: body.defaultAction,
+      rules: body.rules.map(rule => ({ ...rule, delayMs: Math.max(0, Number(rule.delayMs) || 0) })),
+    });
+    return NextResponse.json(await describe());
+  } catch (error) {
+    console.error('Failed to save mock server settings:', error);
+    return NextResponse.json({ message: 'Failed to save mock server settings', error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// POST { action: 'start' | 'stop' } to control the mock server.
+export async function POST(request: NextRequest) {
+  let body: { action?: string };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ message: 'Invalid request body: Must be JSON.', error: (error as Error).message }, { status: 400 });
+  }
+
+  try {
+    if (body.action === 'start') {
+      await mockServerService.start();
+    } else if (body.action === 'stop') {
+      await mockServerService.stop();
+    } else {
+      return NextResponse.json({ message: "action must be 'start' or 'stop'" }, { status: 400 });
+    }
+    return NextResponse.json(await describe());
+  } catch (error) {
+    console.error(`Failed to ${body.action} the mock server:`, error);
+    return NextResponse.json({ message: `Failed to ${body.action} the mock server`, error: (error as Error).message }, { status: 500 });
+  }
+}
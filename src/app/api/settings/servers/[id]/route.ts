@@ -38,6 +38,9 @@ export async function GET(request: NextRequest, { params }: { params: Params })
       sshPort: Number(configFromDb.sshPort),
       radiusAuthPort: Number(configFromDb.radiusAuthPort),
       radiusAcctPort: Number(configFromDb.radiusAcctPort),
+      radiusCoaPort: Number(configFromDb.radiusCoaPort) || 3799,
+      radsecPort: Number(configFromDb.radsecPort) || 2083,
+      statusTransport: configFromDb.statusTransport || 'udp',
     } as ServerConfig;
 
     return NextResponse.json(config);
@@ -70,19 +73,31 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
       password: body.password !== undefined ? body.password : existingConfig.password,
       radiusAuthPort: body.radiusAuthPort !== undefined ? Number(body.radiusAuthPort) : Number(existingConfig.radiusAuthPort),
       radiusAcctPort: body.radiusAcctPort !== undefined ? Number(body.radiusAcctPort) : Number(existingConfig.radiusAcctPort),
+      radiusCoaPort: body.radiusCoaPort !== undefined ? Number(body.radiusCoaPort) : (Number(existingConfig.radiusCoaPort) || 3799),
       defaultSecret: body.defaultSecret !== undefined ? body.defaultSecret : existingConfig.defaultSecret,
       nasSpecificSecrets: body.nasSpecificSecrets !== undefined ? JSON.stringify(body.nasSpecificSecrets) : existingConfig.nasSpecificSecrets,
       status: body.status !== undefined ? body.status : existingConfig.status,
       testSteps: body.testSteps !== undefined ? JSON.stringify(body.testSteps) : existingConfig.testSteps,
       scenarioExecutionSshCommands: body.scenarioExecutionSshCommands !== undefined ? JSON.stringify(body.scenarioExecutionSshCommands) : existingConfig.scenarioExecutionSshCommands,
       connectionTestSshPreamble: body.connectionTestSshPreamble !== undefined ? JSON.stringify(body.connectionTestSshPreamble) : existingConfig.connectionTestSshPreamble,
+      eapCaCertificate: body.eapCaCertificate !== undefined ? body.eapCaCertificate : existingConfig.eapCaCertificate,
+      eapClientCertificate: body.eapClientCertificate !== undefined ? body.eapClientCertificate : existingConfig.eapClientCertificate,
+      eapClientPrivateKey: body.eapClientPrivateKey !== undefined ? body.eapClientPrivateKey : existingConfig.eapClientPrivateKey,
+      radsecHost: body.radsecHost !== undefined ? body.radsecHost : existingConfig.radsecHost,
+      radsecPort: body.radsecPort !== undefined ? Number(body.radsecPort) : (Number(existingConfig.radsecPort) || 2083),
+      radsecCaCertificate: body.radsecCaCertificate !== undefined ? body.radsecCaCertificate : existingConfig.radsecCaCertificate,
+      radsecClientCertificate: body.radsecClientCertificate !== undefined ? body.radsecClientCertificate : existingConfig.radsecClientCertificate,
+      radsecClientPrivateKey: body.radsecClientPrivateKey !== undefined ? body.radsecClientPrivateKey : existingConfig.radsecClientPrivateKey,
+      statusTransport: body.statusTransport || existingConfig.statusTransport || 'udp',
     };
 
     await db.run(
       `UPDATE server_configs SET 
         name = ?, type = ?, customServerType = ?, host = ?, sshPort = ?, sshUser = ?, authMethod = ?, privateKey = ?, password = ?,
-        radiusAuthPort = ?, radiusAcctPort = ?, defaultSecret = ?, nasSpecificSecrets = ?, status = ?,
-        testSteps = ?, scenarioExecutionSshCommands = ?, connectionTestSshPreamble = ?
+        radiusAuthPort = ?, radiusAcctPort = ?, radiusCoaPort = ?, defaultSecret = ?, nasSpecificSecrets = ?, status = ?,
+        testSteps = ?, scenarioExecutionSshCommands = ?, connectionTestSshPreamble = ?,
+        eapCaCertificate = ?, eapClientCertificate = ?, eapClientPrivateKey = ?,
+        radsecHost = ?, radsecPort = ?, radsecCaCertificate = ?, radsecClientCertificate = ?, radsecClientPrivateKey = ?, statusTransport = ?
       WHERE id = ?`,
       updatedConfigData.name,
       updatedConfigData.type,
@@ -95,12 +110,22 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
       updatedConfigData.password,
       updatedConfigData.radiusAuthPort,
       updatedConfigData.radiusAcctPort,
+      updatedConfigData.radiusCoaPort,
       updatedConfigData.defaultSecret,
       updatedConfigData.nasSpecificSecrets,
       updatedConfigData.status,
       updatedConfigData.testSteps,
       updatedConfigData.scenarioExecutionSshCommands,
       updatedConfigData.connectionTestSshPreamble,
+      updatedConfigData.eapCaCertificate,
+      updatedConfigData.eapClientCertificate,
+      updatedConfigData.eapClientPrivateKey,
+      updatedConfigData.radsecHost,
+      updatedConfigData.radsecPort,
+      updatedConfigData.radsecCaCertificate,
+      updatedConfigData.radsecClientCertificate,
+      updatedConfigData.radsecClientPrivateKey,
+      updatedConfigData.statusTransport,
       params.id
     );
     
@@ -118,6 +143,9 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
       sshPort: Number(updatedConfigFromDb.sshPort),
       radiusAuthPort: Number(updatedConfigFromDb.radiusAuthPort),
       radiusAcctPort: Number(updatedConfigFromDb.radiusAcctPort),
+      radiusCoaPort: Number(updatedConfigFromDb.radiusCoaPort) || 3799,
+      radsecPort: Number(updatedConfigFromDb.radsecPort) || 2083,
+      statusTransport: updatedConfigFromDb.statusTransport || 'udp',
     } as ServerConfig;
 
     return NextResponse.json(configToReturn);
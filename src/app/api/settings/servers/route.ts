@@ -32,6 +32,9 @@ export async function GET() {
       sshPort: Number(c.sshPort),
       radiusAuthPort: Number(c.radiusAuthPort),
       radiusAcctPort: Number(c.radiusAcctPort),
+      radiusCoaPort: Number(c.radiusCoaPort) || 3799,
+      radsecPort: Number(c.radsecPort) || 2083,
+      statusTransport: c.statusTransport || 'udp',
     })) as ServerConfig[];
 
     return NextResponse.json(configs);
@@ -64,20 +67,32 @@ export async function POST(request: NextRequest) {
       password: body.password || '',
       radiusAuthPort: Number(body.radiusAuthPort) || 1812,
       radiusAcctPort: Number(body.radiusAcctPort) || 1813,
+      radiusCoaPort: Number(body.radiusCoaPort) || 3799,
       defaultSecret: body.defaultSecret || '',
       nasSpecificSecrets: body.nasSpecificSecrets || {},
       status: body.status || 'unknown', 
       testSteps: body.testSteps || [],
       scenarioExecutionSshCommands: body.scenarioExecutionSshCommands || [],
       connectionTestSshPreamble: body.connectionTestSshPreamble || [],
+      eapCaCertificate: body.eapCaCertificate || '',
+      eapClientCertificate: body.eapClientCertificate || '',
+      eapClientPrivateKey: body.eapClientPrivateKey || '',
+      radsecHost: body.radsecHost || '',
+      radsecPort: Number(body.radsecPort) || 2083,
+      radsecCaCertificate: body.radsecCaCertificate || '',
+      radsecClientCertificate: body.radsecClientCertificate || '',
+      radsecClientPrivateKey: body.radsecClientPrivateKey || '',
+      statusTransport: body.statusTransport || 'udp',
     };
 
     await db.run(
       `INSERT INTO server_configs (
         id, name, type, customServerType, host, sshPort, sshUser, authMethod, privateKey, password,
-        radiusAuthPort, radiusAcctPort, defaultSecret, nasSpecificSecrets, status,
-        testSteps, scenarioExecutionSshCommands, connectionTestSshPreamble
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        radiusAuthPort, radiusAcctPort, radiusCoaPort, defaultSecret, nasSpecificSecrets, status,
+        testSteps, scenarioExecutionSshCommands, connectionTestSshPreamble,
+        eapCaCertificate, eapClientCertificate, eapClientPrivateKey,
+        radsecHost, radsecPort, radsecCaCertificate, radsecClientCertificate, radsecClientPrivateKey, statusTransport
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       newConfig.id,
       newConfig.name,
       newConfig.type,
@@ -90,12 +105,22 @@ export async function POST(request: NextRequest) {
       newConfig.password,
       newConfig.radiusAuthPort,
       newConfig.radiusAcctPort,
+      newConfig.radiusCoaPort,
       newConfig.defaultSecret,
       JSON.stringify(newConfig.nasSpecificSecrets),
       newConfig.status,
       JSON.stringify(newConfig.testSteps),
       JSON.stringify(newConfig.scenarioExecutionSshCommands),
-      JSON.stringify(newConfig.connectionTestSshPreamble)
+      JSON.stringify(newConfig.connectionTestSshPreamble),
+      newConfig.eapCaCertificate,
+      newConfig.eapClientCertificate,
+      newConfig.eapClientPrivateKey,
+      newConfig.radsecHost,
+      newConfig.radsecPort,
+      newConfig.radsecCaCertificate,
+      newConfig.radsecClientCertificate,
+      newConfig.radsecClientPrivateKey,
+      newConfig.statusTransport
     );
 
     return NextResponse.json(newConfig, { status: 201 });
@@ -0,0 +1,293 @@
+
+"use client";
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { PageHeader } from '@/components/shared/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, Play, PackagePlus, Trash2, Loader2, Eye, Download, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { ConformanceReport, ConformanceStatus, ServerConfig } from '@/lib/types';
+
+interface PackScenario {
+  id: string;
+  name: string;
+  installed: boolean;
+}
+
+const statusBadge = (status: ConformanceStatus) => {
+  if (status === 'pass') return <Badge className="bg-green-600 hover:bg-green-600"><CheckCircle className="mr-1 h-3 w-3" />Pass</Badge>;
+  if (status === 'fail') return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Fail</Badge>;
+  return <Badge variant="outline"><AlertTriangle className="mr-1 h-3 w-3" />Inconclusive</Badge>;
+};
+
+const countClauses = (report: ConformanceReport, status: ConformanceStatus) => report.clauses.filter(c => c.status === status).length;
+
+export default function ConformancePage() {
+  const [servers, setServers] = useState<Pick<ServerConfig, 'id' | 'name'>[]>([]);
+  const [serverId, setServerId] = useState('');
+  const [packScenarios, setPackScenarios] = useState<PackScenario[]>([]);
+  const [reports, setReports] = useState<ConformanceReport[]>([]);
+  const [selectedReport, setSelectedReport] = useState<ConformanceReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInstalling, setIsInstalling] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const { toast } = useToast();
+
+  const fetchConformance = async () => {
+    const response = await fetch('/api/conformance');
+    if (!response.ok) {
+      throw new Error('Failed to fetch conformance data');
+    }
+    const data: { scenarios: PackScenario[]; reports: ConformanceReport[] } = await response.json();
+    setPackScenarios(data.scenarios);
+    setReports(data.reports);
+    return data;
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        const [serversRes, mockRes] = await Promise.all([fetch('/api/settings/servers'), fetch('/api/settings/mock-server')]);
+        let fetchedServers: ServerConfig[] = serversRes.ok ? await serversRes.json() : [];
+        if (mockRes.ok) {
+          const { serverConfig } = await mockRes.json();
+          fetchedServers = [...fetchedServers, serverConfig];
+        }
+        setServers(fetchedServers);
+        const data = await fetchConformance();
+        setSelectedReport(data.reports[0] || null);
+      } catch (error) {
+        console.error("Error loading conformance data:", error);
+        toast({ title: "Data Load Error", description: "Could not load servers and conformance reports.", variant: "destructive" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadData();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const installedCount = packScenarios.filter(s => s.installed).length;
+
+  const handleInstall = async () => {
+    setIsInstalling(true);
+    try {
+      const response = await fetch('/api/conformance/pack', { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || 'Failed to install conformance pack');
+      }
+      const result: { packets: number; scenarios: number } = await response.json();
+      await fetchConformance();
+      toast({ title: "Pack Installed", description: `${result.scenarios} scenarios and ${result.packets} packets are ready in the Scenario Builder and Packet Editor.` });
+    } catch (error: any) {
+      console.error("Error installing conformance pack:", error);
+      toast({ title: "Install Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsInstalling(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!serverId) {
+      toast({ title: "No Server", description: "Choose the server to check.", variant: "destructive" });
+      return;
+    }
+    setIsRunning(true);
+    try {
+      const response = await fetch('/api/conformance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverId }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || 'Failed to run conformance suite');
+      }
+      const report: ConformanceReport = await response.json();
+      setReports(prev => [report, ...prev]);
+      setSelectedReport(report);
+      toast({ title: "Suite Finished", description: `${countClauses(report, 'pass')} of ${report.clauses.length} clauses passed on ${report.serverName}.` });
+    } catch (error: any) {
+      console.error("Error running conformance suite:", error);
+      toast({ title: "Run Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleDelete = async (report: ConformanceReport) => {
+    if (!window.confirm(`Delete the conformance report for ${report.serverName} from ${new Date(report.startTime).toLocaleString()}?`)) return;
+    try {
+      const response = await fetch(`/api/conformance/${report.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to delete conformance report');
+      }
+      setReports(prev => prev.filter(r => r.id !== report.id));
+      if (selectedReport?.id === report.id) setSelectedReport(null);
+      toast({ title: "Deleted", description: "Conformance report deleted." });
+    } catch (error: any) {
+      console.error("Error deleting conformance report:", error);
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleDownload = (report: ConformanceReport) => {
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `conformance-${report.serverName.replace(/[^a-z0-9-]+/gi, '_')}-${report.startTime.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        title="RFC Conformance"
+        description="Check a server against MUST behaviours of RFC 2865, 2866, 3579, 5176 and 5997, with a pass/fail report per clause."
+        actions={
+          <Button variant="outline" onClick={handleInstall} disabled={isInstalling || isLoading}>
+            {isInstalling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PackagePlus className="mr-2 h-4 w-4" />}
+            {installedCount > 0 ? 'Reinstall Pack' : 'Install Pack'}
+          </Button>
+        }
+      />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Run the Suite</CardTitle>
+          <CardDescription>
+            The pack is a set of ordinary scenarios tagged &quot;rfc-conformance&quot;; edit or run them one by one in the{' '}
+            <Link href="/scenarios" className="underline">Scenario Builder</Link>. Reinstalling restores the shipped versions.
+            {!isLoading && ` ${installedCount} of ${packScenarios.length} pack scenarios installed.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-1 sm:w-80">
+            <Label>Target Server</Label>
+            <Select value={serverId} onValueChange={setServerId} disabled={isLoading}>
+              <SelectTrigger><SelectValue placeholder="Select a server" /></SelectTrigger>
+              <SelectContent>
+                {servers.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleRun} disabled={isRunning || isLoading || installedCount === 0}>
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            {isRunning ? 'Running (checks for silence wait out their timeout)...' : 'Run Conformance Suite'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {selectedReport && (
+        <Card className="shadow-lg">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" /> {selectedReport.serverName}</CardTitle>
+              <CardDescription>
+                {new Date(selectedReport.startTime).toLocaleString()}: {countClauses(selectedReport, 'pass')} passed, {countClauses(selectedReport, 'fail')} failed,{' '}
+                {countClauses(selectedReport, 'inconclusive')} inconclusive. Inconclusive means the replies could not settle the clause: a control request went unanswered, or the requirement is not visible on the wire.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => handleDownload(selectedReport)}>
+              <Download className="mr-2 h-4 w-4" /> JSON
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[140px]">Clause</TableHead>
+                  <TableHead>Requirement</TableHead>
+                  <TableHead className="w-[130px]">Result</TableHead>
+                  <TableHead>Checks</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedReport.clauses.map(clause => (
+                  <TableRow key={clause.clause}>
+                    <TableCell className="font-medium whitespace-nowrap">{clause.clause}</TableCell>
+                    <TableCell className="text-sm">{clause.requirement}</TableCell>
+                    <TableCell>{statusBadge(clause.status)}</TableCell>
+                    <TableCell className="space-y-2">
+                      {clause.checks.map(check => (
+                        <div key={check.scenarioId} className="text-sm">
+                          <span className="font-medium">{check.scenarioName.replace(`${clause.clause}: `, '')}</span>
+                          {check.status !== 'pass' && <span className="ml-2">{statusBadge(check.status)}</span>}
+                          <div className="text-xs text-muted-foreground">{check.detail}</div>
+                        </div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Reports</CardTitle>
+          <CardDescription>Keep one per server version to compare before and after an upgrade.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Server</TableHead>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Pass</TableHead>
+                  <TableHead>Fail</TableHead>
+                  <TableHead>Inconclusive</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(report => (
+                  <TableRow key={report.id} className={selectedReport?.id === report.id ? 'bg-muted/50' : undefined}>
+                    <TableCell className="font-medium">{report.serverName}</TableCell>
+                    <TableCell className="text-sm">{new Date(report.startTime).toLocaleString()}</TableCell>
+                    <TableCell>{countClauses(report, 'pass')}</TableCell>
+                    <TableCell>{countClauses(report, 'fail')}</TableCell>
+                    <TableCell>{countClauses(report, 'inconclusive')}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="icon" onClick={() => setSelectedReport(report)} title="View report">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(report)} title="Delete" className="text-destructive hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {reports.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No conformance reports yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
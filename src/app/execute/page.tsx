@@ -4,6 +4,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { PageHeader } from '@/components/shared/page-header';
+import { PacketLogDetailsView, isPacketLogDetails, formatPacketLogDetails } from '@/components/shared/packet-decoder';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -12,10 +13,11 @@ import { Play, StopCircle, DownloadCloud, FileArchive, Loader2, Terminal, Server
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import type { ServerConfigForExec, LogEntry, LogLevel, Scenario, ScenarioStep, ScenarioVariable, SshExecutionStep, ServerConfig as FullServerConfig, RadiusPacket, ExpectedReplyAttribute, ApiHeader, SimulatedRadiusToolResult } from '@/lib/types';
+import type { ServerConfigForExec, LogEntry, LogLevel, Scenario, ScenarioStep, ScenarioVariable, SshExecutionStep, ServerConfig as FullServerConfig, RadiusPacket, ExpectedReplyAttribute, ApiHeader, RadClientOptions, RadTestOptions, FaultProfile } from '@/lib/types';
+import type { RadiusToolResult, DynamicAuthorizationListenerResult } from '@/lib/services/radius-service';
 import { useToast } from "@/hooks/use-toast";
 import type { TestResult } from '@/app/results/page';
-import { sshService, radiusService, dbService, apiService } from '@/lib/services';
+import { sshService, dbService, apiService } from '@/lib/services';
 
 const initialLogEntry: LogEntry = {
   id: `init_log_${Date.now()}`,
@@ -36,6 +38,7 @@ export default function ExecutionConsolePage() {
   const [currentScenario, setCurrentScenario] = useState<Scenario | null>(null);
   const [currentServerConfig, setCurrentServerConfig] = useState<FullServerConfig | null>(null);
   const [currentPacketForRun, setCurrentPacketForRun] = useState<RadiusPacket | null>(null); 
+  const [currentFaultProfile, setCurrentFaultProfile] = useState<FaultProfile | null>(null);
   
   const [currentTestExecutionId, setCurrentTestExecutionId] = useState<string | null>(null);
   const [isInteractingWithApi, setIsInteractingWithApi] = useState(false);
@@ -44,6 +47,8 @@ export default function ExecutionConsolePage() {
   const [availableServers, setAvailableServers] = useState<FullServerConfig[]>([]);
   const [selectedScenarioIdForDropdown, setSelectedScenarioIdForDropdown] = useState<string | null>(null);
   const [selectedServerIdForDropdown, setSelectedServerIdForDropdown] = useState<string | null>(null);
+  const [availableFaultProfiles, setAvailableFaultProfiles] = useState<FaultProfile[]>([]);
+  const [selectedFaultProfileIdForDropdown, setSelectedFaultProfileIdForDropdown] = useState<string>('none');
   const [isLoadingScenarios, setIsLoadingScenarios] = useState(true);
   const [isLoadingServers, setIsLoadingServers] = useState(true);
 
@@ -170,7 +175,7 @@ export default function ExecutionConsolePage() {
   }, []);
 
 
-  const startScenarioExecution = useCallback(async (scenario: Scenario, server: FullServerConfig) => {
+  const startScenarioExecution = useCallback(async (scenario: Scenario, server: FullServerConfig, faultProfile: FaultProfile | null = null) => {
     if (executionStateRef.current.isRunning || isInteractingWithApi) return;
     console.log(`FRONTEND_EXEC: Starting execution for Scenario: ${scenario.name}, Server: ${server.name}`);
     
@@ -179,12 +184,13 @@ export default function ExecutionConsolePage() {
     setCurrentScenario(scenario);
     setCurrentServerConfig(server);
     setCurrentPacketForRun(null); 
+    setCurrentFaultProfile(faultProfile);
 
     try {
       const response = await fetch('/api/executions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ scenarioId: scenario.id, scenarioName: scenario.name, serverId: server.id, serverName: server.name }),
+        body: JSON.stringify({ scenarioId: scenario.id, scenarioName: scenario.name, serverId: server.id, serverName: server.name, faultProfileId: faultProfile?.id, faultProfileName: faultProfile?.name }),
       });
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ message: "Failed to create test execution record." }));
@@ -255,10 +261,29 @@ export default function ExecutionConsolePage() {
       } catch (e) {
         console.error("Error fetching servers", e);
         toast({ title: "Data Load Error", description: "Could not load servers.", variant: "destructive"});
+      }
+      try {
+        // The built-in mock server is offered as a pseudo-server; /api/radius/execute starts it on demand.
+        const mockRes = await fetch('/api/settings/mock-server');
+        if (mockRes.ok) {
+          const { serverConfig } = await mockRes.json();
+          fetchedServersInner = [...fetchedServersInner, serverConfig];
+        }
+      } catch (e) {
+        console.error("Error fetching mock server settings", e);
       } finally {
         setAvailableServers(fetchedServersInner);
         setIsLoadingServers(false);
       }
+
+      try {
+        const faultProfilesRes = await fetch('/api/settings/fault-profiles');
+        if (faultProfilesRes.ok) {
+          setAvailableFaultProfiles(await faultProfilesRes.json());
+        }
+      } catch (e) {
+        console.error("Error fetching fault profiles", e);
+      }
       
       const scenarioIdFromQuery = searchParams.get('scenarioId');
       const scenarioNameToRun = searchParams.get('scenarioName'); 
@@ -325,10 +350,15 @@ export default function ExecutionConsolePage() {
       }
 
       let overallSimulationStatus: 'Completed' | 'Failed' | 'Aborted' = 'Completed';
-      const scenarioVariables = currentScenario.variables || [];
+      // Copied because steps such as wait_for_coa add runtime variables for later steps.
+      const scenarioVariables: ScenarioVariable[] = [...(currentScenario.variables || [])];
       const serverSshUser = currentServerConfig.sshUser || 'user';
       const serverSshHost = currentServerConfig.host || 'server_host';
       const currentUserAtHost = `${serverSshUser}@${serverSshHost}`;
+      if (currentFaultProfile) {
+        const enabledRules = currentFaultProfile.rules.filter(rule => rule.isEnabled).length;
+        addLogEntryToBatchAndState({ level: 'WARN', message: `Fault injection: RADIUS packets over UDP are relayed through profile "${currentFaultProfile.name}" (seed ${currentFaultProfile.seed}, ${enabledRules} enabled rule${enabledRules === 1 ? '' : 's'}).` }, { current: logBatchForSave });
+      }
 
       // 0. Establish SSH Connection for the server if needed for preambles or steps
       let sshConnectionEstablished = false;
@@ -429,14 +459,20 @@ export default function ExecutionConsolePage() {
                 const tool = packetToUse.executionTool || 'radclient';
                 const toolOpts = packetToUse.toolOptions || {};
                                 
-                let displayCommandParts = [tool];
-                const resolvedHost = resolveVariable(currentServerConfig.host, scenarioVariables);
-                const resolvedAuthPort = currentServerConfig.radiusAuthPort; 
+                const displayCommandParts: string[] = [tool];
+                const useRadSec = (toolOpts as RadClientOptions).protocol === 'radsec';
+                const resolvedHost = resolveVariable((useRadSec && currentServerConfig.radsecHost) || currentServerConfig.host, scenarioVariables);
+                const resolvedAuthPort = useRadSec ? (currentServerConfig.radsecPort || 2083) : currentServerConfig.radiusAuthPort;
+                const radclientType = (toolOpts as RadClientOptions).type;
+                const resolvedRadclientPort = useRadSec ? resolvedAuthPort
+                    : radclientType === 'acct' ? currentServerConfig.radiusAcctPort
+                    : radclientType === 'coa' || radclientType === 'disconnect' ? (currentServerConfig.radiusCoaPort || 3799)
+                    : resolvedAuthPort;
                 const resolvedSecret = resolveVariable(currentServerConfig.defaultSecret || (toolOpts as any).secret || 'NOT_SET', scenarioVariables);
 
                 if (tool === 'radclient') {
                     const radclientOpts = toolOpts as RadClientOptions;
-                    displayCommandParts.push(`${resolvedHost}:${resolvedAuthPort}`);
+                    displayCommandParts.push(`${resolvedHost}:${resolvedRadclientPort}`);
                     displayCommandParts.push(radclientOpts.type || 'auth');
                     displayCommandParts.push(resolvedSecret); 
                     packetToUse.attributes.forEach(attr => {
@@ -452,16 +488,91 @@ export default function ExecutionConsolePage() {
                 }
                 addLogEntryToBatchAndState({ level: 'INFO', message: `Preparing RADIUS command:`, rawDetails: displayCommandParts.join(' ').replace(resolvedSecret, '********') }, { current: logBatchForSave });
 
-                const radiusResult: SimulatedRadiusToolResult = await radiusService.simulateExecuteTool(packetToUse, currentServerConfig, scenarioVariables);
+                const radiusRes = await fetch('/api/radius/execute', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        packet: packetToUse,
+                        serverConfig: currentServerConfig,
+                        scenarioVariables,
+                        expectedAttributes: (step.details.expectedAttributes || []).map((attr: ExpectedReplyAttribute) => ({ ...attr, value: resolveVariable(attr.value, scenarioVariables) })),
+                        retransmission: {
+                            timeout: step.details.timeout,
+                            retries: step.details.retries,
+                            retryBackoff: step.details.retry_backoff,
+                            duplicateCheck: step.details.duplicate_check,
+                        },
+                        testExecutionId: executionStateRef.current.currentTestExecutionId,
+                        faultProfile: currentFaultProfile || undefined,
+                    }),
+                });
+                if (!radiusRes.ok) {
+                    const errorData = await radiusRes.json().catch(() => ({ message: `HTTP ${radiusRes.status}` }));
+                    throw new Error(`RADIUS execution request failed: ${errorData.error || errorData.message}`);
+                }
+                const radiusResult: RadiusToolResult = await radiusRes.json();
                 if (!simulationActive) { overallSimulationStatus = 'Aborted'; break; }
 
-                if(radiusResult.simulatedSentPacket) addLogEntryToBatchAndState({level: 'SENT', message: "Simulated Packet Sent:", rawDetails: radiusResult.simulatedSentPacket}, {current: logBatchForSave});
-                if(radiusResult.simulatedReceivedPacket) addLogEntryToBatchAndState({level: 'RECV', message: "Simulated Packet Received:", rawDetails: radiusResult.simulatedReceivedPacket}, {current: logBatchForSave});
-                if(radiusResult.simulatedFullOutput) addLogEntryToBatchAndState({level: 'DEBUG', message: `Simulated ${tool} Full Output:`, rawDetails: radiusResult.simulatedFullOutput}, {current: logBatchForSave});
+                radiusResult.connectionEvents?.forEach(event => addLogEntryToBatchAndState({ level: 'INFO', message: `Connection: ${event}` }, { current: logBatchForSave }));
+                radiusResult.faultEvents?.forEach(event => addLogEntryToBatchAndState({ level: 'WARN', message: `Fault injected: ${event}` }, { current: logBatchForSave }));
+                // Retransmissions and duplicate resends are logged as their own SENT entries within a round.
+                const roundCount = radiusResult.exchanges.filter(exchange => !exchange.retransmission && !exchange.duplicate).length;
+                let round = 0;
+                radiusResult.exchanges.forEach(exchange => {
+                    if (!exchange.retransmission && !exchange.duplicate) round++;
+                    const roundLabel = roundCount > 1 ? ` (round ${round}/${roundCount})` : '';
+                    const sentLabel = exchange.retransmission ? `Packet Retransmitted (${exchange.retransmission})` : exchange.duplicate ? 'Duplicate Packet Sent' : 'Packet Sent';
+                    addLogEntryToBatchAndState({level: 'SENT', message: `${sentLabel}${roundLabel}:`, rawDetails: { text: exchange.sent, hex: exchange.sentHex }}, {current: logBatchForSave});
+                    if (exchange.received) addLogEntryToBatchAndState({level: 'RECV', message: `${exchange.duplicate ? 'Duplicate Reply Received' : 'Packet Received'}${roundLabel}:`, rawDetails: { text: exchange.received, hex: exchange.receivedHex || '' }}, {current: logBatchForSave});
+                });
+                if(radiusResult.fullOutput) addLogEntryToBatchAndState({level: 'DEBUG', message: `${tool} Full Output:`, rawDetails: radiusResult.fullOutput}, {current: logBatchForSave});
                 
                 if (radiusResult.code !== 0 || radiusResult.error) { 
-                    throw new Error(radiusResult.error || `Simulated ${tool} command failed with code ${radiusResult.code}.`);
+                    throw new Error(radiusResult.error || `${tool} request failed with code ${radiusResult.code}.`);
+                }
+                break;
+                }
+                case 'wait_for_coa': {
+                const listenPort = step.details.listen_port || 3799;
+                addLogEntryToBatchAndState({ level: 'INFO', message: `Listening for ${step.details.coa_type && step.details.coa_type !== 'any' ? step.details.coa_type : 'CoA/Disconnect-Request'} on UDP port ${listenPort} (timeout ${step.details.timeout || 30000}ms)...` }, { current: logBatchForSave });
+                const listenRes = await fetch('/api/radius/listen', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        serverConfig: currentServerConfig,
+                        port: listenPort,
+                        address: step.details.listen_address ? resolveVariable(step.details.listen_address, scenarioVariables) : undefined,
+                        timeout: step.details.timeout,
+                        expectedCode: step.details.coa_type && step.details.coa_type !== 'any' ? step.details.coa_type : undefined,
+                        respondWith: step.details.coa_response || 'ack',
+                        errorCause: step.details.error_cause ? resolveVariable(step.details.error_cause, scenarioVariables) : undefined,
+                        nasIdentifier: step.details.nas_identifier ? resolveVariable(step.details.nas_identifier, scenarioVariables) : undefined,
+                        testExecutionId: executionStateRef.current.currentTestExecutionId,
+                    }),
+                });
+                if (!listenRes.ok) {
+                    const errorData = await listenRes.json().catch(() => ({ message: `HTTP ${listenRes.status}` }));
+                    throw new Error(`CoA listener failed: ${errorData.error || errorData.message}`);
                 }
+                const listenResult: DynamicAuthorizationListenerResult = await listenRes.json();
+                if (!simulationActive) { overallSimulationStatus = 'Aborted'; break; }
+
+                listenResult.discarded.forEach(reason => addLogEntryToBatchAndState({ level: 'WARN', message: `Discarded request: ${reason}` }, { current: logBatchForSave }));
+                if (listenResult.received) addLogEntryToBatchAndState({ level: 'RECV', message: `Packet Received:`, rawDetails: { text: listenResult.received, hex: listenResult.receivedHex || '' } }, { current: logBatchForSave });
+                if (listenResult.sent) addLogEntryToBatchAndState({ level: 'SENT', message: `Packet Sent:`, rawDetails: { text: listenResult.sent, hex: listenResult.sentHex || '' } }, { current: logBatchForSave });
+                if (listenResult.error || !listenResult.request) throw new Error(listenResult.error || 'No CoA/Disconnect-Request received.');
+
+                // Expose the request to later steps as ${prefix.Attribute-Name}; repeated attributes keep their first value.
+                const prefix = step.details.variable_prefix || 'coa';
+                const exposed: Record<string, string> = { 'Packet-Type': listenResult.request.code };
+                listenResult.request.attributes.forEach(attr => { if (!(attr.name in exposed)) exposed[attr.name] = attr.value; });
+                Object.entries(exposed).forEach(([name, value]) => {
+                    const variableName = `${prefix}.${name}`;
+                    const existing = scenarioVariables.findIndex(v => v.name === variableName);
+                    const variable: ScenarioVariable = { id: `runtime-${variableName}`, name: variableName, type: 'static', value };
+                    if (existing >= 0) scenarioVariables[existing] = variable; else scenarioVariables.push(variable);
+                });
+                addLogEntryToBatchAndState({ level: 'DEBUG', message: `Variables set from ${listenResult.request.code}:`, rawDetails: Object.keys(exposed).map(name => `\${${prefix}.${name}}`).join('\n') }, { current: logBatchForSave });
                 break;
                 }
                 case 'sql': {
@@ -552,7 +663,7 @@ export default function ExecutionConsolePage() {
         }
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isRunning, currentScenario, currentServerConfig, addLogEntryToBatchAndState, saveLogsAndExecutionRecord, resolveVariable]); 
+  }, [isRunning, currentScenario, currentServerConfig, currentFaultProfile, addLogEntryToBatchAndState, saveLogsAndExecutionRecord, resolveVariable]); 
 
   // Auto-scroll effect
   useEffect(() => {
@@ -607,7 +718,9 @@ export default function ExecutionConsolePage() {
         const time = new Date(log.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalSecondDigits: 3 });
         let logString = `[${time}] [${log.level}] ${log.message}`;
         if (log.rawDetails) {
-            const detailsString = typeof log.rawDetails === 'string' ? log.rawDetails : JSON.stringify(log.rawDetails, null, 2);
+            const detailsString = typeof log.rawDetails === 'string' ? log.rawDetails
+                : isPacketLogDetails(log.rawDetails) ? formatPacketLogDetails(log.rawDetails)
+                : JSON.stringify(log.rawDetails, null, 2);
             logString += `\n--- Details ---\n${detailsString}\n--- End Details ---`;
         }
         return logString;
@@ -627,6 +740,29 @@ export default function ExecutionConsolePage() {
     toast({ title: "Logs Exported", description: "Log file download initiated." });
   };
 
+  const handleSavePcap = async () => {
+    if (!currentTestExecutionId) return;
+    try {
+      const response = await fetch(`/api/executions/${currentTestExecutionId}/pcap`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: `HTTP ${response.status}` }));
+        throw new Error(errorData.message);
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `radiusedge_${currentTestExecutionId}.pcapng`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast({ title: "PCAP Saved", description: "Packet capture download initiated." });
+    } catch (error) {
+      toast({ title: "PCAP Export Failed", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
   const getLogLevelClass = (level: LogLevel): string => {
     switch (level) {
       case 'ERROR': return 'text-red-500 dark:text-red-400';
@@ -643,6 +779,7 @@ export default function ExecutionConsolePage() {
   };
 
   const handleStartSelected = () => {
+    const faultProfile = availableFaultProfiles.find(p => p.id === selectedFaultProfileIdForDropdown) || null;
     if (currentPacketForRun && selectedServerIdForDropdown) { 
         const serverToRunOn = availableServers.find(s => s.id === selectedServerIdForDropdown);
         if (serverToRunOn) {
@@ -659,7 +796,7 @@ export default function ExecutionConsolePage() {
                 }],
                 lastModified: new Date().toISOString(), tags: ['single-packet-run']
             };
-            startScenarioExecutionRef.current(tempPacketScenario, serverToRunOn);
+            startScenarioExecutionRef.current(tempPacketScenario, serverToRunOn, faultProfile);
         } else {
             toast({ title: "Error", description: "Selected server details not found.", variant: "destructive" });
         }
@@ -668,7 +805,7 @@ export default function ExecutionConsolePage() {
         const serverToRunOn = availableServers.find(s => s.id === selectedServerIdForDropdown);
 
         if (scenarioToRun && serverToRunOn) {
-            startScenarioExecutionRef.current(scenarioToRun, serverToRunOn);
+            startScenarioExecutionRef.current(scenarioToRun, serverToRunOn, faultProfile);
         } else {
             toast({ title: "Error", description: "Selected scenario or server details not found.", variant: "destructive" });
         }
@@ -688,7 +825,7 @@ export default function ExecutionConsolePage() {
     <div className="h-full flex flex-col space-y-8">
       <PageHeader
         title="Execution Console"
-        description="View logs and control test executions. Commands and outputs are simulated based on your scenario/packet definitions."
+        description="View logs and control test executions. RADIUS steps are sent to the selected server; SSH, SQL and API steps are still simulated."
       />
 
       <Card className="shadow-lg flex-grow flex flex-col min-h-0"> 
@@ -726,7 +863,7 @@ export default function ExecutionConsolePage() {
               <Button variant="outline" onClick={handleExportLogs} disabled={(logs.length <= 1 && logs[0]?.id.startsWith('init_log')) || isInteractingWithApi}>
                 <DownloadCloud className="mr-2 h-4 w-4" /> Export Logs
               </Button>
-              <Button variant="outline" disabled>
+              <Button variant="outline" onClick={handleSavePcap} disabled={!currentTestExecutionId || isInteractingWithApi}>
                 <FileArchive className="mr-2 h-4 w-4" /> Save PCAP
               </Button>
             </div>
@@ -734,7 +871,7 @@ export default function ExecutionConsolePage() {
         </CardHeader>
         
         {(!isRunning && !currentTestExecutionId) && (
-          <div className="grid md:grid-cols-3 gap-4 p-4 border-b items-end">
+          <div className="grid md:grid-cols-4 gap-4 p-4 border-b items-end">
             <div>
               <Label htmlFor="scenario-select-exec">Select Scenario</Label>
               <Select
@@ -773,6 +910,24 @@ export default function ExecutionConsolePage() {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="fault-profile-select-exec">Fault Injection</Label>
+              <Select
+                value={selectedFaultProfileIdForDropdown}
+                onValueChange={setSelectedFaultProfileIdForDropdown}
+                disabled={isRunning || isInteractingWithApi}
+              >
+                <SelectTrigger id="fault-profile-select-exec">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (direct to server)</SelectItem>
+                  {availableFaultProfiles.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <Button
               onClick={handleStartSelected}
               disabled={isStartButtonDisabled()}
@@ -807,7 +962,9 @@ export default function ExecutionConsolePage() {
                   </Badge>
                   <div className={cn("flex-1 whitespace-pre-wrap break-words", getLogLevelClass(log.level))}> 
                     <span dangerouslySetInnerHTML={{ __html: log.message.replace(/`(.*?)`/g, '<code class="bg-muted/80 dark:bg-muted/30 px-1 py-0.5 rounded text-foreground/80">$1</code>') }}></span>
-                    {log.rawDetails && <pre className="mt-1 p-2 bg-muted/50 dark:bg-muted/20 rounded text-muted-foreground overflow-x-auto">{typeof log.rawDetails === 'string' ? log.rawDetails : JSON.stringify(log.rawDetails, null, 2)}</pre>}
+                    {log.rawDetails && (isPacketLogDetails(log.rawDetails)
+                      ? <PacketLogDetailsView details={log.rawDetails} className="mt-1 p-2 bg-muted/50 dark:bg-muted/20 rounded text-muted-foreground overflow-x-auto" />
+                      : <pre className="mt-1 p-2 bg-muted/50 dark:bg-muted/20 rounded text-muted-foreground overflow-x-auto">{typeof log.rawDetails === 'string' ? log.rawDetails : JSON.stringify(log.rawDetails, null, 2)}</pre>)}
                   </div>
                 </div>
               ))}
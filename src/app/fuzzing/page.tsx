@@ -0,0 +1,466 @@
+
+"use client";
+
+import { useState, useEffect } from 'react';
+import { PageHeader } from '@/components/shared/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Bug, Play, Square, Trash2, Loader2, Shuffle, RotateCcw, Eye, Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { FuzzCampaign, FuzzCampaignSettings, FuzzFinding, FuzzMutation, RadiusPacket, ServerConfig } from '@/lib/types';
+
+const FUZZ_MUTATIONS: { value: FuzzMutation; label: string }[] = [
+  { value: 'attribute_length', label: 'Attribute length octets' },
+  { value: 'attribute_type', label: 'Attribute types' },
+  { value: 'attribute_value', label: 'Attribute values' },
+  { value: 'duplicate_attribute', label: 'Duplicated attributes' },
+  { value: 'invalid_vsa', label: 'Invalid Vendor-Specific structures' },
+  { value: 'header_length', label: 'Packet Length field' },
+];
+const POLL_INTERVAL_MS = 2000;
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const statusVariant = (status: FuzzCampaign['status']): 'default' | 'secondary' | 'destructive' | 'outline' =>
+  status === 'Crashed' || status === 'Failed' ? 'destructive' : status === 'Running' ? 'default' : status === 'Completed' ? 'secondary' : 'outline';
+
+// Splits wire bytes into 16-octet rows for reading and copying.
+const formatHex = (hex: string) => (hex.match(/.{1,32}/g) || []).map(row => row.replace(/(..)(?!$)/g, '$1 ')).join('\n');
+
+export default function FuzzingPage() {
+  const [packets, setPackets] = useState<Pick<RadiusPacket, 'id' | 'name'>[]>([]);
+  const [servers, setServers] = useState<Pick<ServerConfig, 'id' | 'name'>[]>([]);
+  const [campaigns, setCampaigns] = useState<FuzzCampaign[]>([]);
+  const [name, setName] = useState('');
+  const [packetId, setPacketId] = useState('');
+  const [serverId, setServerId] = useState('');
+  const [settings, setSettings] = useState<FuzzCampaignSettings>({
+    totalCases: 1000,
+    batchSize: 50,
+    ratePerSecond: 20,
+    seed: randomSeed(),
+    mutations: FUZZ_MUTATIONS.map(m => m.value),
+    livenessCheck: 'status-server',
+    livenessTimeoutMs: 3000,
+    recoveryWaitMs: 30000,
+  });
+  const [selected, setSelected] = useState<{ campaign: FuzzCampaign; findings: FuzzFinding[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchCampaigns = async () => {
+    try {
+      const response = await fetch('/api/fuzz');
+      if (!response.ok) {
+        throw new Error('Failed to fetch fuzz campaigns');
+      }
+      setCampaigns(await response.json());
+    } catch (error) {
+      console.error("Error fetching fuzz campaigns:", error);
+      toast({ title: "Error", description: "Could not fetch fuzz campaigns.", variant: "destructive" });
+    }
+  };
+
+  const fetchCampaignDetails = async (id: string) => {
+    try {
+      const response = await fetch(`/api/fuzz/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch fuzz campaign');
+      }
+      setSelected(await response.json());
+    } catch (error) {
+      console.error("Error fetching fuzz campaign:", error);
+      toast({ title: "Error", description: "Could not fetch the campaign's findings.", variant: "destructive" });
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        const [packetsRes, serversRes, mockRes] = await Promise.all([
+          fetch('/api/packets'),
+          fetch('/api/settings/servers'),
+          fetch('/api/settings/mock-server'),
+        ]);
+        if (packetsRes.ok) setPackets(await packetsRes.json());
+        let fetchedServers: ServerConfig[] = serversRes.ok ? await serversRes.json() : [];
+        if (mockRes.ok) {
+          const { serverConfig } = await mockRes.json();
+          fetchedServers = [...fetchedServers, serverConfig];
+        }
+        setServers(fetchedServers);
+        await fetchCampaigns();
+      } catch (error) {
+        console.error("Error loading fuzzing data:", error);
+        toast({ title: "Data Load Error", description: "Could not load packets and servers.", variant: "destructive" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadData();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const hasRunningCampaign = campaigns.some(c => c.status === 'Running');
+  useEffect(() => {
+    if (!hasRunningCampaign) return;
+    const timer = setInterval(() => {
+      fetchCampaigns();
+      if (selected?.campaign.status === 'Running') fetchCampaignDetails(selected.campaign.id);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasRunningCampaign, selected?.campaign.id, selected?.campaign.status]);
+
+  // The last poll can finish a campaign the findings panel still shows as running.
+  useEffect(() => {
+    if (selected?.campaign.status === 'Running' && campaigns.some(c => c.id === selected.campaign.id && c.status !== 'Running')) {
+      fetchCampaignDetails(selected.campaign.id);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [campaigns]);
+
+  const updateSetting = <K extends keyof FuzzCampaignSettings>(key: K, value: FuzzCampaignSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleMutation = (mutation: FuzzMutation, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      mutations: checked ? [...prev.mutations, mutation] : prev.mutations.filter(m => m !== mutation),
+    }));
+  };
+
+  const startCampaign = async (request: { name: string; packetId: string; serverId: string; settings: FuzzCampaignSettings }) => {
+    setIsStarting(true);
+    try {
+      const response = await fetch('/api/fuzz', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || 'Failed to start fuzz campaign');
+      }
+      const campaign: FuzzCampaign = await response.json();
+      setCampaigns(prev => [campaign, ...prev]);
+      setSelected({ campaign, findings: [] });
+      toast({ title: "Campaign Started", description: `"${campaign.name}" is sending ${campaign.settings.totalCases} cases (seed ${campaign.settings.seed}).` });
+    } catch (error: any) {
+      console.error("Error starting fuzz campaign:", error);
+      toast({ title: "Start Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleStart = () => {
+    if (!packetId || !serverId) {
+      toast({ title: "Missing Selection", description: "Choose a base packet and a target server.", variant: "destructive" });
+      return;
+    }
+    if (!settings.mutations.length) {
+      toast({ title: "No Mutations", description: "Enable at least one mutation.", variant: "destructive" });
+      return;
+    }
+    startCampaign({ name, packetId, serverId, settings });
+  };
+
+  // Same packet, server and seed: the campaign sends exactly the same cases again.
+  const handleRunAgain = (campaign: FuzzCampaign) => {
+    startCampaign({ name: campaign.name, packetId: campaign.packetId, serverId: campaign.serverId, settings: campaign.settings });
+  };
+
+  const handleStop = async (campaign: FuzzCampaign) => {
+    try {
+      const response = await fetch(`/api/fuzz/${campaign.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'stop' }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to stop fuzz campaign');
+      }
+      toast({ title: "Stopping", description: `"${campaign.name}" stops after the case in flight.` });
+    } catch (error: any) {
+      console.error("Error stopping fuzz campaign:", error);
+      toast({ title: "Stop Failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (campaign: FuzzCampaign) => {
+    if (!window.confirm(`Delete fuzz campaign "${campaign.name}" and its findings?`)) return;
+    try {
+      const response = await fetch(`/api/fuzz/${campaign.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to delete fuzz campaign');
+      }
+      setCampaigns(prev => prev.filter(c => c.id !== campaign.id));
+      if (selected?.campaign.id === campaign.id) setSelected(null);
+      toast({ title: "Deleted", description: `Fuzz campaign "${campaign.name}" deleted.` });
+    } catch (error: any) {
+      console.error("Error deleting fuzz campaign:", error);
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const copyHex = async (hex: string) => {
+    try {
+      await navigator.clipboard.writeText(hex);
+      toast({ title: "Copied", description: "Packet bytes copied as hex." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Could not access the clipboard.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        title="Protocol Fuzzing"
+        description="Send malformed variants of a packet at a controlled rate and record any packet that stops the server answering."
+      />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>New Campaign</CardTitle>
+          <CardDescription>
+            After every batch the server must answer a liveness check. Campaigns are repeatable: the same packet, settings and seed send the same cases.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="fuzz-name">Name</Label>
+              <Input id="fuzz-name" value={name} onChange={e => setName(e.target.value)} placeholder="e.g., Pre-upgrade 3.2.6" />
+            </div>
+            <div className="space-y-1">
+              <Label>Base Packet</Label>
+              <Select value={packetId} onValueChange={setPacketId} disabled={isLoading}>
+                <SelectTrigger><SelectValue placeholder="Select a packet" /></SelectTrigger>
+                <SelectContent>
+                  {packets.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Target Server</Label>
+              <Select value={serverId} onValueChange={setServerId} disabled={isLoading}>
+                <SelectTrigger><SelectValue placeholder="Select a server" /></SelectTrigger>
+                <SelectContent>
+                  {servers.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="fuzz-total">Total Cases</Label>
+              <Input id="fuzz-total" type="number" min={1} value={settings.totalCases} onChange={e => updateSetting('totalCases', Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fuzz-batch">Batch Size</Label>
+              <Input id="fuzz-batch" type="number" min={1} value={settings.batchSize} onChange={e => updateSetting('batchSize', Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fuzz-rate">Rate (cases/s)</Label>
+              <Input id="fuzz-rate" type="number" min={1} value={settings.ratePerSecond} onChange={e => updateSetting('ratePerSecond', Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fuzz-seed">Seed</Label>
+              <div className="flex gap-2">
+                <Input id="fuzz-seed" type="number" value={settings.seed} onChange={e => updateSetting('seed', Number(e.target.value))} />
+                <Button variant="outline" size="icon" onClick={() => updateSetting('seed', randomSeed())} title="New random seed">
+                  <Shuffle className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Liveness Check</Label>
+              <Select value={settings.livenessCheck} onValueChange={value => updateSetting('livenessCheck', value as FuzzCampaignSettings['livenessCheck'])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="status-server">Status-Server</SelectItem>
+                  <SelectItem value="base-packet">Known-good base packet</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fuzz-liveness-timeout">Liveness Timeout (ms)</Label>
+              <Input id="fuzz-liveness-timeout" type="number" min={100} value={settings.livenessTimeoutMs} onChange={e => updateSetting('livenessTimeoutMs', Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fuzz-recovery">Recovery Wait (ms)</Label>
+              <Input id="fuzz-recovery" type="number" min={0} value={settings.recoveryWaitMs} onChange={e => updateSetting('recoveryWaitMs', Number(e.target.value))} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Mutations</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+              {FUZZ_MUTATIONS.map(m => (
+                <div key={m.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`mutation-${m.value}`}
+                    checked={settings.mutations.includes(m.value)}
+                    onCheckedChange={checked => toggleMutation(m.value, checked === true)}
+                  />
+                  <Label htmlFor={`mutation-${m.value}`} className="font-normal">{m.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button onClick={handleStart} disabled={isStarting || isLoading}>
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Start Campaign
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>Most malformed packets are silently discarded, so few replies is normal; findings are what matter.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Packet → Server</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[180px]">Progress</TableHead>
+                  <TableHead>Findings</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map(campaign => (
+                  <TableRow key={campaign.id} className={selected?.campaign.id === campaign.id ? 'bg-muted/50' : undefined}>
+                    <TableCell className="font-medium">
+                      {campaign.name}
+                      <div className="text-xs text-muted-foreground">seed {campaign.settings?.seed}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{campaign.packetName} → {campaign.serverName}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(campaign.status)}>{campaign.status}</Badge>
+                      {campaign.error && <div className="text-xs text-destructive mt-1">{campaign.error}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={campaign.settings ? Math.min(100, (campaign.casesSent / campaign.settings.totalCases) * 100) : 0} className="h-2" />
+                      <div className="text-xs text-muted-foreground mt-1">{campaign.casesSent} sent, {campaign.repliesReceived} replies</div>
+                    </TableCell>
+                    <TableCell>
+                      {campaign.findingCount > 0 ? <Badge variant="destructive">{campaign.findingCount}</Badge> : <span className="text-muted-foreground">0</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">{new Date(campaign.startTime).toLocaleString()}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="icon" onClick={() => fetchCampaignDetails(campaign.id)} title="View findings">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {campaign.status === 'Running' ? (
+                        <Button variant="ghost" size="icon" onClick={() => handleStop(campaign)} title="Stop">
+                          <Square className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button variant="ghost" size="icon" onClick={() => handleRunAgain(campaign)} disabled={isStarting || !campaign.settings} title="Run again with the same seed">
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(campaign)} title="Delete" className="text-destructive hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {campaigns.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      No fuzz campaigns yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Bug className="h-5 w-5" /> Findings: {selected.campaign.name}</CardTitle>
+            <CardDescription>
+              A hang is a server that stopped answering and recovered; a crash never answered again within the recovery wait.
+              Reproducer bytes are the exact datagram sent, ready for the Packet Editor&apos;s import.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selected.findings.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                {selected.campaign.status === 'Running' ? 'No findings so far.' : 'The server answered every liveness check.'}
+              </p>
+            )}
+            {selected.findings.map(finding => (
+              <div key={finding.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <Badge variant={finding.kind === 'crash' ? 'destructive' : 'secondary'} className="uppercase mr-2">{finding.kind}</Badge>
+                    <span className="text-sm">{finding.summary}</span>
+                    <div className="text-xs text-muted-foreground mt-1">{new Date(finding.timestamp).toLocaleString()}</div>
+                  </div>
+                </div>
+                {finding.reproducer && (
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <Label>Reproducer: case {finding.reproducer.index} ({finding.reproducer.mutation})</Label>
+                      <Button variant="outline" size="sm" onClick={() => copyHex(finding.reproducer!.hex)}>
+                        <Copy className="mr-2 h-3 w-3" /> Copy hex
+                      </Button>
+                    </div>
+                    <pre className="text-xs font-mono bg-muted p-2 rounded overflow-x-auto">{formatHex(finding.reproducer.hex)}</pre>
+                  </div>
+                )}
+                <details>
+                  <summary className="text-sm cursor-pointer">Batch before the failed check ({finding.cases.length} cases)</summary>
+                  <div className="mt-2 space-y-2 max-h-96 overflow-y-auto">
+                    {finding.cases.map(fuzzCase => (
+                      <div key={fuzzCase.index} className="text-xs">
+                        <div className="flex items-center justify-between">
+                          <span>#{fuzzCase.index} {fuzzCase.description}</span>
+                          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copyHex(fuzzCase.hex)} title="Copy hex">
+                            <Copy className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <pre className="font-mono bg-muted p-2 rounded overflow-x-auto">{formatHex(fuzzCase.hex)}</pre>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
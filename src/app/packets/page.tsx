@@ -10,7 +10,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { PlusCircle, Edit3, Copy, Trash2, Save, Share2, Search, X, Loader2, MoreHorizontal, Wand2, Settings2, CheckSquare, PlayCircle } from 'lucide-react';
+import { PlusCircle, Edit3, Copy, Trash2, Save, Share2, Search, X, Loader2, MoreHorizontal, Wand2, Settings2, CheckSquare, PlayCircle, Binary, FileUp, ListChecks } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -34,7 +34,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from "@/hooks/use-toast";
 import { parseRadiusAttributesFromString, ParseRadiusAttributesInput, ParseRadiusAttributesOutput } from '@/ai/flows/parse-radius-attributes-flow';
 import { cn } from '@/lib/utils';
-import type { RadiusPacket, RadiusAttribute, ExecutionTool, RadClientOptions, RadTestOptions } from '@/lib/types'; // Import from lib/types
+import type { RadiusPacket, RadiusAttribute, ExecutionTool, RadClientOptions, RadTestOptions, ScenarioStep } from '@/lib/types'; // Import from lib/types
+import type { CaptureImport } from '@/lib/radius/packet-import';
 
 
 // Debounce function
@@ -63,6 +64,17 @@ export default function PacketsPage() {
   const [activeAttributeInputIndex, setActiveAttributeInputIndex] = useState<number | null>(null);
   const [currentAttributeNameQuery, setCurrentAttributeNameQuery] = useState('');
   const [isFetchingSuggestions, setIsFetchingSuggestions] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [importForm, setImportForm] = useState({ dump: '', encoding: 'auto', secret: '', requestAuthenticator: '', name: '' });
+  const [isImporting, setIsImporting] = useState(false);
+  const [isPcapDialogOpen, setIsPcapDialogOpen] = useState(false);
+  const [pcapFile, setPcapFile] = useState<File | null>(null);
+  const [pcapSecret, setPcapSecret] = useState('');
+  const [pcapScenarioName, setPcapScenarioName] = useState('');
+  const [captureImport, setCaptureImport] = useState<CaptureImport | null>(null);
+  const [selectedExchangeIds, setSelectedExchangeIds] = useState<number[]>([]);
+  const [isParsingCapture, setIsParsingCapture] = useState(false);
+  const [isSavingExchanges, setIsSavingExchanges] = useState(false);
 
   const router = useRouter();
   const { toast } = useToast();
@@ -182,7 +194,8 @@ export default function PacketsPage() {
       }
       setIsFetchingSuggestions(true);
       try {
-        const response = await fetch(`/api/dictionaries/attributes/search?q=${encodeURIComponent(query)}`);
+        // A tag suffix (Tunnel-Type:1) is not part of the dictionary name.
+        const response = await fetch(`/api/dictionaries/attributes/search?q=${encodeURIComponent(query.replace(/:\d*$/, ''))}`);
         if (!response.ok) {
           throw new Error('Failed to fetch attribute suggestions');
         }
@@ -232,7 +245,8 @@ export default function PacketsPage() {
   const selectSuggestion = (attributeRowIndex: number, suggestion: string) => {
     if (editingPacket) {
       const updatedAttributes = [...editingPacket.attributes];
-      updatedAttributes[attributeRowIndex] = { ...updatedAttributes[attributeRowIndex], name: suggestion };
+      const tagSuffix = /:\d+$/.exec(updatedAttributes[attributeRowIndex].name)?.[0] || '';
+      updatedAttributes[attributeRowIndex] = { ...updatedAttributes[attributeRowIndex], name: suggestion + tagSuffix };
       setEditingPacket({ ...editingPacket, attributes: updatedAttributes });
     }
     setSuggestions([]);
@@ -310,10 +324,13 @@ export default function PacketsPage() {
   const handleToolOptionChange = (optionKey: keyof RadClientOptions | keyof RadTestOptions, value: any) => {
     if (editingPacket && editingPacket.toolOptions) {
         let parsedValue = value;
-        const numericFieldsClient: (keyof RadClientOptions)[] = ['count', 'requestId', 'requestsPerSecond', 'parallelRequests', 'retries', 'timeout'];
-        const numericFieldsTest: (keyof RadTestOptions)[] = ['nasPortNumber'];
+        const numericFieldsClient: (keyof RadClientOptions)[] = ['count', 'requestId', 'requestsPerSecond', 'parallelRequests', 'retries', 'timeout', 'connectionIdleTimeout', 'watchdogInterval'];
+        const numericFieldsTest: (keyof RadTestOptions)[] = ['nasPortNumber', 'connectionIdleTimeout', 'watchdogInterval'];
 
-        if (editingPacket.executionTool === 'radclient' && numericFieldsClient.includes(optionKey as keyof RadClientOptions)) {
+        if (editingPacket.executionTool === 'radclient' && optionKey === 'retryBackoff') {
+            parsedValue = value === '' ? undefined : parseFloat(value);
+            if (isNaN(parsedValue as number)) parsedValue = undefined;
+        } else if (editingPacket.executionTool === 'radclient' && numericFieldsClient.includes(optionKey as keyof RadClientOptions)) {
             parsedValue = value === '' ? undefined : parseInt(value, 10);
             if (isNaN(parsedValue as number)) parsedValue = undefined; 
         } else if (editingPacket.executionTool === 'radtest' && numericFieldsTest.includes(optionKey as keyof RadTestOptions)) {
@@ -379,6 +396,164 @@ export default function PacketsPage() {
     }
   };
 
+  const handleImportCapturedPacket = async () => {
+    if (!importForm.dump.trim()) return;
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/packets/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(importForm),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to import packet');
+      }
+      const { packet, warnings } = data as { packet: RadiusPacket; warnings: string[] };
+      setPackets(prev => [packet, ...prev]);
+      setIsImportDialogOpen(false);
+      setImportForm({ dump: '', encoding: 'auto', secret: '', requestAuthenticator: '', name: '' });
+      handleEditPacket(packet);
+      toast({
+        title: "Packet Imported",
+        description: warnings.length > 0 ? `"${packet.name}" saved with warnings: ${warnings.join(' ')}` : `"${packet.name}" saved with ${packet.attributes.length} attributes.`,
+        variant: warnings.length > 0 ? "destructive" : "default",
+      });
+    } catch (error: any) {
+      console.error("Error importing packet:", error);
+      toast({ title: "Import Failed", description: error.message || "Could not decode the packet.", variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const resetPcapImport = () => {
+    setPcapFile(null);
+    setPcapSecret('');
+    setPcapScenarioName('');
+    setCaptureImport(null);
+    setSelectedExchangeIds([]);
+  };
+
+  const handleParseCaptureFile = async () => {
+    if (!pcapFile) return;
+    setIsParsingCapture(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', pcapFile);
+      formData.append('secret', pcapSecret);
+      const response = await fetch('/api/packets/import/pcap', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to read capture file');
+      }
+      const parsed = data as CaptureImport;
+      setCaptureImport(parsed);
+      setSelectedExchangeIds(parsed.exchanges.map(exchange => exchange.id));
+      setPcapScenarioName(prev => prev || `Replay of ${pcapFile.name}`);
+      if (parsed.exchanges.length === 0) {
+        toast({ title: "No RADIUS Found", description: `None of the ${parsed.frames} frames carried a RADIUS request.`, variant: "destructive" });
+      }
+    } catch (error: any) {
+      console.error("Error reading capture file:", error);
+      toast({ title: "Capture Import Failed", description: error.message || "Could not read the capture file.", variant: "destructive" });
+    } finally {
+      setIsParsingCapture(false);
+    }
+  };
+
+  const toggleExchangeSelection = (exchangeId: number, checked: boolean) => {
+    setSelectedExchangeIds(prev => checked ? [...prev, exchangeId].sort((a, b) => a - b) : prev.filter(id => id !== exchangeId));
+  };
+
+  // Saves each selected request as a packet and, with asScenario, chains them into a scenario
+  // whose RADIUS steps expect the replies seen in the capture. A scenario is refused while a
+  // request is missing an encrypted attribute: its replay could not get the captured reply.
+  const handleSaveCapturedExchanges = async (asScenario: boolean) => {
+    if (!captureImport || selectedExchangeIds.length === 0) return;
+    if (asScenario && !pcapScenarioName.trim()) {
+      toast({ title: "Scenario Name Required", description: "Enter a name for the new scenario.", variant: "destructive" });
+      return;
+    }
+    const selectedExchanges = captureImport.exchanges.filter(exchange => selectedExchangeIds.includes(exchange.id));
+    const incomplete = selectedExchanges.filter(exchange => exchange.hiddenAttributes.length > 0);
+    if (asScenario && incomplete.length > 0) {
+      toast({
+        title: "Shared Secret Required",
+        description: `Exchange ${incomplete.map(exchange => `#${exchange.id}`).join(', ')} would lose ${[...new Set(incomplete.flatMap(exchange => exchange.hiddenAttributes))].join(', ')}. Enter the shared secret and read the file again.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsSavingExchanges(true);
+    const savedPackets: RadiusPacket[] = [];
+    const warnings: string[] = [];
+    try {
+      const steps: ScenarioStep[] = [];
+      for (const exchange of selectedExchanges) {
+        const name = `${exchange.request.code} ${exchange.request.identifier} from ${exchange.client}`;
+        const response = await fetch('/api/packets/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ dump: exchange.request.hex, encoding: 'hex', secret: pcapSecret, name, protocol: exchange.protocol }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(`Exchange ${exchange.id}: ${data.error || data.message || 'Failed to import packet'}`);
+        }
+        const { packet, warnings: packetWarnings } = data as { packet: RadiusPacket; warnings: string[] };
+        savedPackets.push(packet);
+        warnings.push(...packetWarnings.map(warning => `#${exchange.id}: ${warning}`));
+        steps.push({
+          id: `step_pcap_${exchange.id}_${Date.now()}`,
+          type: 'radius',
+          name: `${exchange.request.code} (expects ${exchange.response ? exchange.response.code : 'no reply'})`,
+          details: {
+            packet_id: packet.id,
+            expectedAttributes: exchange.expectedAttributes.map((attr, index) => ({ id: `exp_attr_pcap_${exchange.id}_${index}_${Date.now()}`, ...attr })),
+            timeout: 3000,
+            retries: 2,
+          },
+        });
+      }
+
+      if (asScenario) {
+        const response = await fetch('/api/scenarios', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: pcapScenarioName.trim(),
+            description: `Replays ${steps.length} exchanges captured in ${pcapFile?.name || 'a capture file'}.`,
+            variables: [],
+            steps,
+            tags: ['imported', 'pcap'],
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || data.message || 'Failed to create scenario');
+        }
+      }
+
+      setIsPcapDialogOpen(false);
+      resetPcapImport();
+      const saved = asScenario
+        ? `"${pcapScenarioName.trim()}" created with ${steps.length} RADIUS steps`
+        : `${savedPackets.length} packets saved from the capture`;
+      toast({
+        title: asScenario ? "Scenario Created" : "Packets Imported",
+        description: warnings.length > 0 ? `${saved} with warnings: ${warnings.join(' ')}` : `${saved}.`,
+        variant: warnings.length > 0 ? "destructive" : "default",
+      });
+    } catch (error: any) {
+      console.error("Error saving captured exchanges:", error);
+      toast({ title: "Save Failed", description: `${error.message || 'Could not save the exchanges.'} ${savedPackets.length} packets were saved before the error.`, variant: "destructive" });
+    } finally {
+      if (savedPackets.length > 0) setPackets(prev => [...savedPackets.reverse(), ...prev]);
+      setIsSavingExchanges(false);
+    }
+  };
+
   const handleRunPacket = (packetId: string, packetName: string) => {
     router.push(`/execute?packetId=${packetId}&packetName=${encodeURIComponent(packetName)}`);
   };
@@ -390,9 +565,17 @@ export default function PacketsPage() {
         title="Packet Editor & Library"
         description="Manage, create, and edit your RADIUS packets and their execution tool options."
         actions={
-          <Button onClick={createNewPacket} disabled={isLoading || isSaving}>
-            <PlusCircle className="mr-2 h-4 w-4" /> Create New Packet
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} disabled={isLoading || isSaving}>
+              <Binary className="mr-2 h-4 w-4" /> Import Hex/Base64
+            </Button>
+            <Button variant="outline" onClick={() => setIsPcapDialogOpen(true)} disabled={isLoading || isSaving}>
+              <FileUp className="mr-2 h-4 w-4" /> Import PCAP
+            </Button>
+            <Button onClick={createNewPacket} disabled={isLoading || isSaving}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Create New Packet
+            </Button>
+          </div>
         }
       />
 
@@ -488,6 +671,172 @@ export default function PacketsPage() {
          </CardFooter>
       </Card>
 
+      {/* Captured Packet Import Dialog */}
+      <Dialog open={isImportDialogOpen} onOpenChange={(isOpen) => !isImporting && setIsImportDialogOpen(isOpen)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Captured Packet</DialogTitle>
+            <DialogDescription>
+              Paste a RADIUS packet as hex (plain, tcpdump -X or Wireshark hex dump) or base64. It is decoded with the active dictionaries and saved as a new packet.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="import-dump">Packet Bytes</Label>
+              <Textarea
+                id="import-dump"
+                value={importForm.dump}
+                onChange={(e) => setImportForm({ ...importForm, dump: e.target.value })}
+                placeholder={'0x0000:  0107 0026 ...\nor AQcAJg...'}
+                rows={8}
+                className="font-mono text-xs"
+                disabled={isImporting}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div><Label>Encoding</Label>
+                <Select value={importForm.encoding} onValueChange={val => setImportForm({ ...importForm, encoding: val })} disabled={isImporting}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto-detect</SelectItem>
+                    <SelectItem value="hex">Hex</SelectItem>
+                    <SelectItem value="base64">Base64</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div><Label htmlFor="import-name">Packet Name</Label><Input id="import-name" value={importForm.name} onChange={(e) => setImportForm({ ...importForm, name: e.target.value })} placeholder="Imported <code> (Id n)" disabled={isImporting} /></div>
+              <div><Label htmlFor="import-secret">Shared Secret</Label><Input id="import-secret" type="password" value={importForm.secret} onChange={(e) => setImportForm({ ...importForm, secret: e.target.value })} placeholder="Optional, decrypts User-Password" disabled={isImporting} /></div>
+              <div><Label htmlFor="import-authenticator">Request Authenticator</Label><Input id="import-authenticator" value={importForm.requestAuthenticator} onChange={(e) => setImportForm({ ...importForm, requestAuthenticator: e.target.value })} placeholder="Hex, only for replies" className="font-mono" disabled={isImporting} /></div>
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button variant="outline" disabled={isImporting}>Cancel</Button></DialogClose>
+            <Button onClick={handleImportCapturedPacket} disabled={isImporting || !importForm.dump.trim()}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Binary className="mr-2 h-4 w-4" />}
+              Decode & Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Capture File Import Dialog */}
+      <Dialog
+        open={isPcapDialogOpen}
+        onOpenChange={(isOpen) => {
+          if (isParsingCapture || isSavingExchanges) return;
+          setIsPcapDialogOpen(isOpen);
+          if (!isOpen) resetPcapImport();
+        }}
+      >
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Import Capture File</DialogTitle>
+            <DialogDescription>
+              Upload a pcap or pcapng file. RADIUS over UDP and TCP is extracted and each request is paired with its reply; choose the exchanges to save as packets or as a scenario that expects the captured replies.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+              <div>
+                <Label htmlFor="pcap-file">Capture File</Label>
+                <Input
+                  id="pcap-file"
+                  type="file"
+                  accept=".pcap,.pcapng,.cap"
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => { setPcapFile(e.target.files?.[0] || null); setCaptureImport(null); setSelectedExchangeIds([]); }}
+                  disabled={isParsingCapture || isSavingExchanges}
+                />
+              </div>
+              <div><Label htmlFor="pcap-secret">Shared Secret</Label><Input id="pcap-secret" type="password" value={pcapSecret} onChange={(e) => setPcapSecret(e.target.value)} placeholder="Optional, decrypts User-Password" disabled={isParsingCapture || isSavingExchanges} /></div>
+              <Button onClick={handleParseCaptureFile} disabled={!pcapFile || isParsingCapture || isSavingExchanges}>
+                {isParsingCapture ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+                Extract
+              </Button>
+            </div>
+            {captureImport && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {captureImport.exchanges.length} requests found in {captureImport.frames} frames; {captureImport.exchanges.filter(exchange => exchange.response).length} answered.
+                </p>
+                {captureImport.notes.length > 0 && (
+                  <ul className="list-disc pl-5 text-xs text-muted-foreground">
+                    {captureImport.notes.map((note, index) => <li key={index}>{note}</li>)}
+                  </ul>
+                )}
+                <ScrollArea className="h-[320px] rounded border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]">
+                          <Checkbox
+                            checked={captureImport.exchanges.length > 0 && selectedExchangeIds.length === captureImport.exchanges.length}
+                            onCheckedChange={(checked) => setSelectedExchangeIds(checked ? captureImport.exchanges.map(exchange => exchange.id) : [])}
+                            aria-label="Select all exchanges"
+                          />
+                        </TableHead>
+                        <TableHead>#</TableHead>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Client → Server</TableHead>
+                        <TableHead>Request</TableHead>
+                        <TableHead>Reply</TableHead>
+                        <TableHead>Latency</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {captureImport.exchanges.map(exchange => (
+                        <TableRow key={exchange.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedExchangeIds.includes(exchange.id)}
+                              onCheckedChange={(checked) => toggleExchangeSelection(exchange.id, !!checked)}
+                              aria-label={`Select exchange ${exchange.id}`}
+                            />
+                          </TableCell>
+                          <TableCell>{exchange.id}</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{new Date(exchange.timestamp).toLocaleTimeString()}</TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {exchange.client} → {exchange.server}
+                            {exchange.protocol === 'tcp' && <Badge variant="outline" className="ml-1">TCP</Badge>}
+                          </TableCell>
+                          <TableCell className="text-xs" title={exchange.request.attributes.map(attr => `${attr.name} = ${attr.value}`).join('\n')}>
+                            {exchange.request.code} (Id {exchange.request.identifier}, {exchange.request.attributes.length} attrs)
+                            {exchange.retransmissions > 0 && <Badge variant="secondary" className="ml-1">+{exchange.retransmissions} resent</Badge>}
+                            {exchange.hiddenAttributes.length > 0 && (
+                              <Badge variant="destructive" className="ml-1" title={`Encrypted, needs the shared secret: ${exchange.hiddenAttributes.join(', ')}`}>
+                                {exchange.hiddenAttributes.length} encrypted
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs" title={exchange.expectedAttributes.map(attr => `${attr.name} = ${attr.value}`).join('\n')}>
+                            {exchange.response ? exchange.response.code : <span className="text-muted-foreground">No reply</span>}
+                          </TableCell>
+                          <TableCell className="text-xs">{exchange.latencyMs !== undefined ? `${exchange.latencyMs} ms` : '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                <div className="max-w-sm">
+                  <Label htmlFor="pcap-scenario-name">Scenario Name</Label>
+                  <Input id="pcap-scenario-name" value={pcapScenarioName} onChange={(e) => setPcapScenarioName(e.target.value)} disabled={isSavingExchanges} />
+                </div>
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button variant="outline" disabled={isParsingCapture || isSavingExchanges}>Cancel</Button></DialogClose>
+            <Button variant="outline" onClick={() => handleSaveCapturedExchanges(false)} disabled={!captureImport || selectedExchangeIds.length === 0 || isSavingExchanges}>
+              {isSavingExchanges ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save as Packets ({selectedExchangeIds.length})
+            </Button>
+            <Button onClick={() => handleSaveCapturedExchanges(true)} disabled={!captureImport || selectedExchangeIds.length === 0 || isSavingExchanges}>
+              {isSavingExchanges ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListChecks className="mr-2 h-4 w-4" />}
+              Save as Scenario
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Packet Editor Dialog */}
       <Dialog open={!!editingPacket} onOpenChange={(isOpen) => !isOpen && handleEditPacket(null)}>
         <DialogContent className="max-w-3xl"> 
@@ -545,6 +894,19 @@ export default function PacketsPage() {
                 <Card className="p-4 bg-muted/30">
                   <CardHeader className="p-0 pb-2 mb-2 border-b"><CardTitle className="text-md">Radclient Options</CardTitle></CardHeader>
                   <CardContent className="p-0 grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-3 text-sm">
+                    <div><Label>Run With</Label>
+                      <Select value={(editingPacket.toolOptions as RadClientOptions).runner || 'native'} onValueChange={val => handleToolOptionChange('runner', val)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="native">Built-in client</SelectItem>
+                          <SelectItem value="local">radclient on this host</SelectItem>
+                          <SelectItem value="ssh">radclient on the server (SSH)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {(editingPacket.toolOptions as RadClientOptions).runner && (editingPacket.toolOptions as RadClientOptions).runner !== 'native' ? (
+                      <p className="text-xs text-muted-foreground self-end">Runs the FreeRADIUS binary with these options and parses its output for assertions. Over SSH it targets 127.0.0.1 unless a server is given.</p>
+                    ) : <div />}
                     <div><Label>Server[:Port]</Label><Input value={(editingPacket.toolOptions as RadClientOptions).server || ''} onChange={e => handleToolOptionChange('server', e.target.value)} placeholder="e.g., 127.0.0.1:1812" /></div>
                     <div><Label>Type</Label>
                       <Select value={(editingPacket.toolOptions as RadClientOptions).type || 'auth'} onValueChange={val => handleToolOptionChange('type', val)}>
@@ -561,17 +923,37 @@ export default function PacketsPage() {
                     </div>
                     <div><Label>Shared Secret</Label><Input type="password" value={(editingPacket.toolOptions as RadClientOptions).secret || ''} onChange={e => handleToolOptionChange('secret', e.target.value)} placeholder="Packet-specific secret" /></div>
                     <div><Label>Count</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).count ?? ''} onChange={e => handleToolOptionChange('count', e.target.value)} placeholder="1" /></div>
-                    <div><Label>Retries</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).retries ?? ''} onChange={e => handleToolOptionChange('retries', e.target.value)} placeholder="10" /></div>
+                    <div><Label>Retries</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).retries ?? ''} onChange={e => handleToolOptionChange('retries', e.target.value)} placeholder="0" /></div>
                     <div><Label>Timeout (sec)</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).timeout ?? ''} onChange={e => handleToolOptionChange('timeout', e.target.value)} placeholder="3" /></div>
+                    <div><Label>Retry Backoff (x)</Label><Input type="number" step="0.5" min="1" value={(editingPacket.toolOptions as RadClientOptions).retryBackoff ?? ''} onChange={e => handleToolOptionChange('retryBackoff', e.target.value)} placeholder="1 (fixed interval)" /></div>
+                    <div className="flex items-center space-x-2 pt-6"><Checkbox id="rc-duplicate" checked={(editingPacket.toolOptions as RadClientOptions).duplicateCheck} onCheckedChange={val => handleToolBooleanOptionChange('duplicateCheck', !!val)} /><Label htmlFor="rc-duplicate">Resend as duplicate (expect cached reply)</Label></div>
                     <div><Label>Requests/sec</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).requestsPerSecond ?? ''} onChange={e => handleToolOptionChange('requestsPerSecond', e.target.value)} placeholder="Optional" /></div>
                     <div><Label>Parallel Requests</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).parallelRequests ?? ''} onChange={e => handleToolOptionChange('parallelRequests', e.target.value)} placeholder="Optional" /></div>
                     <div><Label>Request ID</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).requestId ?? ''} onChange={e => handleToolOptionChange('requestId', e.target.value)} placeholder="Optional" /></div>
                     <div><Label>Protocol</Label>
                       <Select value={(editingPacket.toolOptions as RadClientOptions).protocol || 'udp'} onValueChange={val => handleToolOptionChange('protocol', val)}>
                         <SelectTrigger><SelectValue /></SelectTrigger>
-                        <SelectContent><SelectItem value="udp">udp</SelectItem><SelectItem value="tcp">tcp</SelectItem></SelectContent>
+                        <SelectContent><SelectItem value="udp">udp</SelectItem><SelectItem value="tcp">tcp</SelectItem><SelectItem value="radsec">radsec (TLS, RFC 6614)</SelectItem></SelectContent>
                       </Select>
                     </div>
+                    <div><Label>Message-Authenticator</Label>
+                      <Select value={(editingPacket.toolOptions as RadClientOptions).messageAuthenticator || 'auto'} onValueChange={val => handleToolOptionChange('messageAuthenticator', val)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">auto (add and sign)</SelectItem>
+                          <SelectItem value="omit">omit (BlastRADIUS test)</SelectItem>
+                          <SelectItem value="corrupt">corrupt (wrong HMAC)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {(editingPacket.toolOptions as RadClientOptions).protocol && (editingPacket.toolOptions as RadClientOptions).protocol !== 'udp' && (
+                      <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-x-4 gap-y-3">
+                        <div><Label>Idle Timeout (sec)</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).connectionIdleTimeout ?? ''} onChange={e => handleToolOptionChange('connectionIdleTimeout', e.target.value)} placeholder="30" /></div>
+                        <div><Label>Watchdog Interval (sec)</Label><Input type="number" value={(editingPacket.toolOptions as RadClientOptions).watchdogInterval ?? ''} onChange={e => handleToolOptionChange('watchdogInterval', e.target.value)} placeholder="Off" /></div>
+                        <div className="flex items-center space-x-2 pt-6"><Checkbox id="rc-close-conn" checked={(editingPacket.toolOptions as RadClientOptions).closeConnection} onCheckedChange={val => handleToolBooleanOptionChange('closeConnection', !!val)} /><Label htmlFor="rc-close-conn">Close connection after reply</Label></div>
+                        <p className="md:col-span-3 text-xs text-muted-foreground">The connection stays open for later packets. Assert reuse with the expected reply attribute Transport-Connection (new or reused).</p>
+                      </div>
+                    )}
                     <div className="flex items-center space-x-2"><Checkbox id="rc-ipv4" checked={(editingPacket.toolOptions as RadClientOptions).useIPv4} onCheckedChange={val => handleToolBooleanOptionChange('useIPv4', !!val)} /><Label htmlFor="rc-ipv4">Use IPv4 (-4)</Label></div>
                     <div className="flex items-center space-x-2"><Checkbox id="rc-ipv6" checked={(editingPacket.toolOptions as RadClientOptions).useIPv6} onCheckedChange={val => handleToolBooleanOptionChange('useIPv6', !!val)} /><Label htmlFor="rc-ipv6">Use IPv6 (-6)</Label></div>
                     <div className="flex items-center space-x-2"><Checkbox id="rc-blast" checked={(editingPacket.toolOptions as RadClientOptions).blastChecks} onCheckedChange={val => handleToolBooleanOptionChange('blastChecks', !!val)} /><Label htmlFor="rc-blast">Blast RADIUS Checks (-b)</Label></div>
@@ -594,6 +976,19 @@ export default function PacketsPage() {
                  <Card className="p-4 bg-muted/30">
                   <CardHeader className="p-0 pb-2 mb-2 border-b"><CardTitle className="text-md">Radtest Options</CardTitle></CardHeader>
                   <CardContent className="p-0 grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-3 text-sm">
+                    <div><Label>Run With</Label>
+                      <Select value={(editingPacket.toolOptions as RadTestOptions).runner || 'native'} onValueChange={val => handleToolOptionChange('runner', val)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="native">Built-in client</SelectItem>
+                          <SelectItem value="local">radtest on this host</SelectItem>
+                          <SelectItem value="ssh">radtest on the server (SSH)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {(editingPacket.toolOptions as RadTestOptions).runner && (editingPacket.toolOptions as RadTestOptions).runner !== 'native' ? (
+                      <p className="text-xs text-muted-foreground self-end">Runs the FreeRADIUS binary with these options and parses its output for assertions. Over SSH it targets 127.0.0.1 unless a server is given.</p>
+                    ) : <div />}
                     <div><Label>User</Label><Input value={(editingPacket.toolOptions as RadTestOptions).user || ''} onChange={e => handleToolOptionChange('user', e.target.value)} /></div>
                     <div><Label>Password</Label><Input type="password" value={(editingPacket.toolOptions as RadTestOptions).password || ''} onChange={e => handleToolOptionChange('password', e.target.value)} /></div>
                     <div><Label>RADIUS Server[:Port]</Label><Input value={(editingPacket.toolOptions as RadTestOptions).radiusServer || ''} onChange={e => handleToolOptionChange('radiusServer', e.target.value)} /></div>
@@ -606,21 +1001,47 @@ export default function PacketsPage() {
                             <SelectContent>
                             <SelectItem value="pap">pap</SelectItem>
                             <SelectItem value="chap">chap</SelectItem>
-                            <SelectItem value="mschap">mschap</SelectItem>
+                            <SelectItem value="mschap">mschap (MS-CHAPv2)</SelectItem>
                             <SelectItem value="eap-md5">eap-md5</SelectItem>
+                            <SelectItem value="peap-mschapv2">peap (PEAPv0/MSCHAPv2)</SelectItem>
+                            <SelectItem value="ttls-pap">ttls (EAP-TTLS/PAP)</SelectItem>
+                            <SelectItem value="eap-tls">eap-tls (client certificate)</SelectItem>
                             </SelectContent>
                         </Select>
                     </div>
                     <div><Label>Protocol (-P)</Label>
                       <Select value={(editingPacket.toolOptions as RadTestOptions).protocol || 'udp'} onValueChange={val => handleToolOptionChange('protocol', val)}>
                         <SelectTrigger><SelectValue /></SelectTrigger>
-                        <SelectContent><SelectItem value="udp">udp</SelectItem><SelectItem value="tcp">tcp</SelectItem></SelectContent>
+                        <SelectContent><SelectItem value="udp">udp</SelectItem><SelectItem value="tcp">tcp</SelectItem><SelectItem value="radsec">radsec (TLS, RFC 6614)</SelectItem></SelectContent>
                       </Select>
                     </div>
+                    {(editingPacket.toolOptions as RadTestOptions).protocol && (editingPacket.toolOptions as RadTestOptions).protocol !== 'udp' && (
+                      <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-x-4 gap-y-3">
+                        <div><Label>Idle Timeout (sec)</Label><Input type="number" value={(editingPacket.toolOptions as RadTestOptions).connectionIdleTimeout ?? ''} onChange={e => handleToolOptionChange('connectionIdleTimeout', e.target.value)} placeholder="30" /></div>
+                        <div><Label>Watchdog Interval (sec)</Label><Input type="number" value={(editingPacket.toolOptions as RadTestOptions).watchdogInterval ?? ''} onChange={e => handleToolOptionChange('watchdogInterval', e.target.value)} placeholder="Off" /></div>
+                        <div className="flex items-center space-x-2 pt-6"><Checkbox id="rt-close-conn" checked={(editingPacket.toolOptions as RadTestOptions).closeConnection} onCheckedChange={val => handleToolBooleanOptionChange('closeConnection', !!val)} /><Label htmlFor="rt-close-conn">Close connection after reply</Label></div>
+                        <p className="md:col-span-3 text-xs text-muted-foreground">The connection stays open for later packets. Assert reuse with the expected reply attribute Transport-Connection (new or reused).</p>
+                      </div>
+                    )}
                     <div className="flex items-center space-x-2"><Checkbox id="rt-ppphint" checked={(editingPacket.toolOptions as RadTestOptions).ppphint} onCheckedChange={val => handleToolBooleanOptionChange('ppphint', !!val)} /><Label htmlFor="rt-ppphint">PPP Hint (Framed-Protocol=PPP)</Label></div>
                     <div className="flex items-center space-x-2"><Checkbox id="rt-debug" checked={(editingPacket.toolOptions as RadTestOptions).debug} onCheckedChange={val => handleToolBooleanOptionChange('debug', !!val)} /><Label htmlFor="rt-debug">Debug (-x)</Label></div>
                     <div className="flex items-center space-x-2"><Checkbox id="rt-ipv4" checked={(editingPacket.toolOptions as RadTestOptions).useIPv4} onCheckedChange={val => handleToolBooleanOptionChange('useIPv4', !!val)} /><Label htmlFor="rt-ipv4">Use NAS-IP-Address (-4)</Label></div>
                     <div className="flex items-center space-x-2"><Checkbox id="rt-ipv6" checked={(editingPacket.toolOptions as RadTestOptions).useIPv6} onCheckedChange={val => handleToolBooleanOptionChange('useIPv6', !!val)} /><Label htmlFor="rt-ipv6">Use NAS-IPv6-Address (-6)</Label></div>
+                    {['peap-mschapv2', 'ttls-pap', 'eap-tls'].includes((editingPacket.toolOptions as RadTestOptions).authType || '') && (
+                      <div className="md:col-span-2 space-y-1">
+                        <div className="flex items-center space-x-2"><Checkbox id="rt-skip-verify" checked={(editingPacket.toolOptions as RadTestOptions).skipServerVerification} onCheckedChange={val => handleToolBooleanOptionChange('skipServerVerification', !!val)} /><Label htmlFor="rt-skip-verify">Skip server certificate verification</Label></div>
+                        <p className="text-xs text-muted-foreground">Without it the server config needs an EAP CA certificate; inner credentials are only sent once the server certificate verifies.</p>
+                      </div>
+                    )}
+                    {(editingPacket.toolOptions as RadTestOptions).authType === 'eap-tls' && (
+                      <div className="md:col-span-2 space-y-1">
+                        <Label>Client Certificate</Label>
+                        <Textarea value={(editingPacket.toolOptions as RadTestOptions).clientCertificate || ''} onChange={e => handleToolOptionChange('clientCertificate', e.target.value)} placeholder="PEM or ${clientCert}; server config certificate if blank" rows={2} className="font-mono text-xs" />
+                        <Label>Client Private Key</Label>
+                        <Textarea value={(editingPacket.toolOptions as RadTestOptions).clientPrivateKey || ''} onChange={e => handleToolOptionChange('clientPrivateKey', e.target.value)} placeholder="PEM or ${clientKey}" rows={2} className="font-mono text-xs" />
+                        <p className="text-xs text-muted-foreground">Assert a result with the expected reply attribute EAP-TLS-Outcome (e.g. success, client-certificate-expired, client-certificate-revoked, client-certificate-unknown-ca, server-certificate-unverified).</p>
+                      </div>
+                    )}
                     <div className="md:col-span-2 space-y-1">
                         <Label>Raddb Directory (-d)</Label><Input value={(editingPacket.toolOptions as RadTestOptions).raddbDirectory || ''} onChange={e => handleToolOptionChange('raddbDirectory', e.target.value)} placeholder="/etc/raddb" />
                     </div>
@@ -661,7 +1082,7 @@ export default function PacketsPage() {
                       value={attr.name}
                       onChange={(e) => handleAttributeChange(index, 'name', e.target.value)}
                       onFocus={() => handleAttributeInputFocus(index, attr.name)}
-                      placeholder="e.g., User-Name"
+                      placeholder="e.g., User-Name or Tunnel-Type:1"
                       className="font-mono"
                       disabled={isSaving || isParsingAttributes}
                       autoComplete="off"
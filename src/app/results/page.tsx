@@ -3,6 +3,7 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { PageHeader } from '@/components/shared/page-header';
+import { PacketLogDetailsView, isPacketLogDetails } from '@/components/shared/packet-decoder';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -14,7 +15,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { format } from 'date-fns';
 import type { DateRange } from 'react-day-picker';
-import { CalendarIcon, Download, Filter, CheckCircle, XCircle, AlertTriangle, BarChartHorizontalBig, FileText, Image as ImageIcon, Loader2, Trash2, ListOrdered } from 'lucide-react';
+import { CalendarIcon, Download, Filter, CheckCircle, XCircle, AlertTriangle, BarChartHorizontalBig, FileText, FileArchive, Loader2, Trash2, ListOrdered } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis, ResponsiveContainer, Pie, PieChart, Cell } from 'recharts';
 import { cn } from '@/lib/utils';
@@ -72,6 +73,7 @@ export default function ResultsPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [isExportingPcap, setIsExportingPcap] = useState(false);
 
   const { toast } = useToast();
 
@@ -155,6 +157,30 @@ export default function ResultsPage() {
 
   const statusChartData = useMemo(() => Object.entries(statusCounts).map(([name, value]) => ({ name, value, fill: statusColors[name as TestResult['status']] })), [statusCounts]);
 
+  const handleExportPcap = async (executionId: string) => {
+    setIsExportingPcap(true);
+    try {
+      const response = await fetch(`/api/executions/${executionId}/pcap`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: `HTTP ${response.status}` }));
+        throw new Error(errorData.message);
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `radiusedge_${executionId}.pcapng`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "PCAP Export Failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsExportingPcap(false);
+    }
+  };
+
   const handleDeleteResult = async (resultId: string) => {
     if (!window.confirm("Are you sure you want to delete this test result? This might also remove associated execution data if linked directly.")) return;
     setIsDeleting(resultId);
@@ -452,7 +478,9 @@ export default function ResultsPage() {
                                   {log.level}
                                 </Badge>
                                 <span className={cn("flex-1 whitespace-pre-wrap break-all", getLogLevelClass(log.level))}>{log.message}
-                                  {log.rawDetails && <pre className="mt-1 p-2 bg-muted/50 dark:bg-background/50 rounded text-muted-foreground overflow-x-auto">{log.rawDetails}</pre>}
+                                  {log.rawDetails && (isPacketLogDetails(log.rawDetails)
+                                    ? <PacketLogDetailsView details={log.rawDetails} className="mt-1 p-2 bg-muted/50 dark:bg-background/50 rounded text-muted-foreground overflow-x-auto" />
+                                    : <pre className="mt-1 p-2 bg-muted/50 dark:bg-background/50 rounded text-muted-foreground overflow-x-auto">{typeof log.rawDetails === 'string' ? log.rawDetails : JSON.stringify(log.rawDetails, null, 2)}</pre>)}
                                 </span>
                               </div>
                             ))}
@@ -472,7 +500,13 @@ export default function ResultsPage() {
                     </pre>
                 </div>
                  <DialogFooter className="gap-2 sm:gap-0">
-                    <Button variant="outline" disabled><ImageIcon className="mr-2 h-4 w-4" /> Export PCAP (soon)</Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => selectedResult.details?.executionId && handleExportPcap(selectedResult.details.executionId)}
+                      disabled={!selectedResult.details?.executionId || isExportingPcap}
+                    >
+                      {isExportingPcap ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileArchive className="mr-2 h-4 w-4" />} Export PCAP
+                    </Button>
                     <DialogClose asChild><Button variant="outline">Close Details</Button></DialogClose>
                 </DialogFooter>
             </DialogContent>
@@ -10,7 +10,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { PlusCircle, Edit3, Copy, Trash2, Play, Settings2, GripVertical, FileText, Database, Clock, Repeat, GitBranch, ListChecks, MoreHorizontal, Search, Workflow, Variable, Save, X, Wand2, Loader2, Webhook, MessageSquareText, Upload, Download } from 'lucide-react';
+import { PlusCircle, Edit3, Copy, Trash2, Play, Settings2, GripVertical, FileText, Database, Clock, Repeat, GitBranch, ListChecks, MoreHorizontal, Search, Workflow, Variable, Save, X, Wand2, Loader2, Webhook, MessageSquareText, Upload, Download, RadioReceiver } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -39,6 +39,7 @@ import Link from 'next/link';
 
 const stepIcons: Record<ScenarioStepType, React.ElementType> = {
   radius: FileText,
+  wait_for_coa: RadioReceiver,
   sql: Database,
   delay: Clock,
   loop_start: Repeat,
@@ -277,6 +278,9 @@ export default function ScenariosPage() {
       if (type === 'radius') {
         stepName = 'New RADIUS Request';
         stepDetails = { packet_id: availablePackets.length > 0 ? availablePackets[0].id : '', expectedAttributes: [], timeout: 3000, retries: 2 };
+      } else if (type === 'wait_for_coa') {
+        stepName = 'Wait for CoA';
+        stepDetails = { listen_port: 3799, timeout: 30000, coa_type: 'any', coa_response: 'ack', error_cause: '', nas_identifier: '', variable_prefix: 'coa' };
       } else if (type === 'sql') {
         stepName = 'New SQL Validation';
         stepDetails = { query: '', expect_column: '', expect_value: '', connection_id: '' }; // Ensure connection_id
@@ -724,6 +728,7 @@ export default function ScenariosPage() {
                       </DropdownMenuTrigger>
                       <DropdownMenuContent>
                         <DropdownMenuItem onClick={() => addStep('radius')}><FileText className="mr-2 h-4 w-4" /> RADIUS Packet</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => addStep('wait_for_coa')}><RadioReceiver className="mr-2 h-4 w-4" /> Wait for CoA/Disconnect</DropdownMenuItem>
                         <DropdownMenuItem onClick={() => addStep('sql')}><Database className="mr-2 h-4 w-4" /> SQL Validation</DropdownMenuItem>
                         <DropdownMenuItem onClick={() => addStep('delay')}><Clock className="mr-2 h-4 w-4" /> Delay</DropdownMenuItem>
                         <DropdownMenuItem onClick={() => addStep('api_call')}><Webhook className="mr-2 h-4 w-4" /> API Call</DropdownMenuItem>
@@ -811,7 +816,7 @@ export default function ScenariosPage() {
                                       id={`exp-attr-name-${attr.id}`}
                                       value={attr.name}
                                       onChange={(e) => handleExpectedReplyAttributeChange(index, attr.id, 'name', e.target.value)}
-                                      placeholder="e.g., Framed-IP-Address"
+                                      placeholder="e.g., Framed-IP-Address or Tunnel-Type:1"
                                       disabled={isSaving}
                                     />
                                   </div>
@@ -836,8 +841,57 @@ export default function ScenariosPage() {
 
                               <div className="grid grid-cols-2 gap-2 pt-2">
                                 <div><Label>Timeout (ms):</Label><Input type="number" placeholder="3000" value={details.timeout ?? ''} onChange={(e) => handleStepChange(index, 'details', {timeout: parseInt(e.target.value) || undefined })} disabled={isSaving}/></div>
-                                <div><Label>Retries:</Label><Input type="number" placeholder="2" value={details.retries ?? ''} onChange={(e) => handleStepChange(index, 'details', {retries: parseInt(e.target.value) || undefined })} disabled={isSaving}/></div>
+                                <div><Label>Retries:</Label><Input type="number" placeholder="2" value={details.retries ?? ''} onChange={(e) => handleStepChange(index, 'details', {retries: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })} disabled={isSaving}/></div>
+                                <div><Label>Retry Backoff (x):</Label><Input type="number" step="0.5" min="1" placeholder="1" value={details.retry_backoff ?? ''} onChange={(e) => handleStepChange(index, 'details', {retry_backoff: parseFloat(e.target.value) || undefined })} disabled={isSaving}/></div>
+                                <div>
+                                  <Label>Duplicate Request:</Label>
+                                  <Select value={details.duplicate_check ? 'resend' : 'off'} onValueChange={(v) => handleStepChange(index, 'details', {duplicate_check: v === 'resend'})} disabled={isSaving}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="off">Off</SelectItem>
+                                      <SelectItem value="resend">Resend, expect identical reply</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              </div>
+                              <p className="text-xs text-muted-foreground">UDP only. Retransmissions reuse the identifier and authenticator; each wait is the previous one times the backoff.</p>
+                            </div>
+                          )}
+
+                          {step.type === 'wait_for_coa' && (
+                            <div className="space-y-3 pl-7 text-sm">
+                              <div className="grid grid-cols-2 gap-2">
+                                <div><Label>Listen Port:</Label><Input type="number" placeholder="3799" value={details.listen_port ?? ''} onChange={(e) => handleStepChange(index, 'details', {listen_port: parseInt(e.target.value) || undefined})} disabled={isSaving}/></div>
+                                <div><Label>Listen Address:</Label><Input placeholder="All interfaces" value={details.listen_address || ''} onChange={(e) => handleStepChange(index, 'details', {listen_address: e.target.value})} disabled={isSaving}/></div>
+                                <div><Label>Timeout (ms):</Label><Input type="number" placeholder="30000" value={details.timeout ?? ''} onChange={(e) => handleStepChange(index, 'details', {timeout: parseInt(e.target.value) || undefined})} disabled={isSaving}/></div>
+                                <div>
+                                  <Label>Expected Request:</Label>
+                                  <Select value={details.coa_type || 'any'} onValueChange={(v) => handleStepChange(index, 'details', {coa_type: v as any})} disabled={isSaving}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="any">Any (CoA or Disconnect)</SelectItem>
+                                      <SelectItem value="CoA-Request">CoA-Request</SelectItem>
+                                      <SelectItem value="Disconnect-Request">Disconnect-Request</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div>
+                                  <Label>Respond With:</Label>
+                                  <Select value={details.coa_response || 'ack'} onValueChange={(v) => handleStepChange(index, 'details', {coa_response: v as any})} disabled={isSaving}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="ack">ACK</SelectItem>
+                                      <SelectItem value="nak">NAK</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                {details.coa_response === 'nak' && (
+                                  <div><Label>Error-Cause:</Label><Input placeholder="e.g., Session-Context-Not-Found" value={details.error_cause || ''} onChange={(e) => handleStepChange(index, 'details', {error_cause: e.target.value})} disabled={isSaving}/></div>
+                                )}
+                                <div><Label>NAS Identifier (secret lookup):</Label><Input placeholder="Key in NAS-Specific Secrets" value={details.nas_identifier || ''} onChange={(e) => handleStepChange(index, 'details', {nas_identifier: e.target.value})} disabled={isSaving}/></div>
+                                <div><Label>Variable Prefix:</Label><Input placeholder="coa" value={details.variable_prefix || ''} onChange={(e) => handleStepChange(index, 'details', {variable_prefix: e.target.value})} disabled={isSaving}/></div>
                               </div>
+                              <p className="text-xs text-muted-foreground">Acts as the NAS. The secret comes from the server&apos;s NAS-Specific Secrets (by NAS identifier, then sender address) or its default secret. Received attributes are available to later steps as {'${coa.Attribute-Name}'}.</p>
                             </div>
                           )}
 
@@ -0,0 +1,342 @@
+
+"use client";
+
+import { useState, useEffect } from 'react';
+import { PageHeader } from '@/components/shared/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { PlusCircle, Edit3, Trash2, Save, Loader2, Shuffle, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { useToast } from '@/hooks/use-toast';
+import type { FaultKind, FaultProfile, FaultRule } from '@/lib/types';
+
+const FAULT_KINDS: { value: FaultKind; label: string }[] = [
+  { value: 'drop', label: 'Drop' },
+  { value: 'delay', label: 'Delay / jitter' },
+  { value: 'duplicate', label: 'Duplicate' },
+  { value: 'reorder', label: 'Reorder' },
+  { value: 'truncate', label: 'Truncate' },
+  { value: 'corrupt_authenticator', label: 'Corrupt authenticator' },
+];
+const PACKET_TYPES = ['any', 'Access-Request', 'Access-Accept', 'Access-Reject', 'Access-Challenge', 'Accounting-Request', 'Accounting-Response', 'CoA-Request', 'CoA-ACK', 'CoA-NAK', 'Disconnect-Request', 'Disconnect-ACK', 'Disconnect-NAK', 'Status-Server'];
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+function summarizeRule(rule: FaultRule): string {
+  const kind = FAULT_KINDS.find(k => k.value === rule.kind)?.label || rule.kind;
+  const target = `${rule.direction === 'both' ? 'requests and replies' : `${rule.direction}s`}${rule.packetType !== 'any' ? ` (${rule.packetType})` : ''}`;
+  return `${kind} ${rule.probability}% of ${target}`;
+}
+
+export default function FaultProfilesPage() {
+  const [profiles, setProfiles] = useState<FaultProfile[]>([]);
+  const [editingProfile, setEditingProfile] = useState<FaultProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchProfiles = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/settings/fault-profiles');
+      if (!response.ok) {
+        throw new Error('Failed to fetch fault profiles');
+      }
+      setProfiles(await response.json());
+    } catch (error) {
+      console.error("Error fetching fault profiles:", error);
+      toast({ title: "Error", description: "Could not fetch fault profiles.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfiles();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const createNewProfile = () => {
+    setEditingProfile({
+      id: 'new-profile-temp-id',
+      name: '',
+      description: '',
+      seed: randomSeed(),
+      rules: [],
+      lastModified: '',
+    });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!editingProfile) return;
+    setIsSaving(true);
+    const isNew = editingProfile.id === 'new-profile-temp-id';
+    const url = isNew ? '/api/settings/fault-profiles' : `/api/settings/fault-profiles/${editingProfile.id}`;
+    const { id, lastModified, ...payload } = editingProfile;
+    try {
+      const response = await fetch(url, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || `Failed to ${isNew ? 'create' : 'update'} fault profile`);
+      }
+      const savedProfile: FaultProfile = await response.json();
+      setProfiles(prev => isNew ? [...prev, savedProfile] : prev.map(p => p.id === savedProfile.id ? savedProfile : p));
+      setEditingProfile(null);
+      toast({ title: "Success", description: `Fault profile "${savedProfile.name}" ${isNew ? 'created' : 'updated'}.` });
+    } catch (error: any) {
+      console.error("Error saving fault profile:", error);
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = async (profile: FaultProfile) => {
+    if (!window.confirm(`Delete fault profile "${profile.name}"? Runs that used it keep its name in their history.`)) return;
+    try {
+      const response = await fetch(`/api/settings/fault-profiles/${profile.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to delete fault profile');
+      }
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+      toast({ title: "Fault Profile Deleted", description: `"${profile.name}" deleted.` });
+    } catch (error: any) {
+      console.error("Error deleting fault profile:", error);
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const updateRule = (ruleId: string, changes: Partial<FaultRule>) => {
+    setEditingProfile(prev => prev ? { ...prev, rules: prev.rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule) } : prev);
+  };
+
+  const addRule = () => {
+    setEditingProfile(prev => prev ? {
+      ...prev,
+      rules: [...prev.rules, {
+        id: `fault_${Date.now()}`,
+        isEnabled: true,
+        kind: 'drop',
+        direction: 'request',
+        packetType: 'any',
+        probability: 10,
+        delayMs: 500,
+        jitterMs: 0,
+        copies: 1,
+        truncateTo: 20,
+      }],
+    } : prev);
+  };
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        title="Fault Injection"
+        description="Profiles of deliberate network misbehaviour. Select one in the Execution Console to relay a run's UDP packets through a local proxy that applies it."
+        actions={
+          <Button onClick={createNewProfile} disabled={isLoading || isSaving}>
+            <PlusCircle className="mr-2 h-4 w-4" /> New Profile
+          </Button>
+        }
+      />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Fault Profiles</CardTitle>
+          <CardDescription>
+            Rules apply in order to each datagram they match. Every random choice is drawn from the profile&apos;s seed,
+            so running the same scenario with the same seed reproduces the same faults.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !profiles.length ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="ml-2 text-muted-foreground">Loading fault profiles...</p>
+            </div>
+          ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Rules</TableHead>
+                <TableHead>Seed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map(profile => (
+                <TableRow key={profile.id}>
+                  <TableCell>
+                    <div className="font-medium">{profile.name}</div>
+                    {profile.description && <div className="text-xs text-muted-foreground">{profile.description}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {profile.rules.filter(rule => rule.isEnabled).map(rule => (
+                        <Badge key={rule.id} variant="secondary">{summarizeRule(rule)}</Badge>
+                      ))}
+                      {!profile.rules.some(rule => rule.isEnabled) && <span className="text-muted-foreground text-sm">No enabled rules</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{profile.seed}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => setEditingProfile({ ...profile, rules: profile.rules.map(rule => ({ ...rule })) })} title="Edit">
+                      <Edit3 className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteProfile(profile)} title="Delete">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {profiles.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No fault profiles yet.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingProfile} onOpenChange={(isOpen) => !isOpen && setEditingProfile(null)}>
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingProfile?.id === 'new-profile-temp-id' ? 'New Fault Profile' : `Edit ${editingProfile?.name}`}</DialogTitle>
+            <DialogDescription>
+              Faults act on UDP datagrams between the console and the server: requests on the way out, replies on the way back.
+            </DialogDescription>
+          </DialogHeader>
+          {editingProfile && (
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor="fault-profile-name">Name</Label>
+                  <Input id="fault-profile-name" value={editingProfile.name} onChange={(e) => setEditingProfile({ ...editingProfile, name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="fault-profile-seed">Seed</Label>
+                  <div className="flex gap-2">
+                    <Input id="fault-profile-seed" type="number" value={editingProfile.seed} onChange={(e) => setEditingProfile({ ...editingProfile, seed: parseInt(e.target.value, 10) || 0 })} />
+                    <Button variant="outline" size="icon" onClick={() => setEditingProfile({ ...editingProfile, seed: randomSeed() })} title="New random seed">
+                      <Shuffle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="fault-profile-description">Description</Label>
+                <Textarea id="fault-profile-description" rows={2} value={editingProfile.description || ''} onChange={(e) => setEditingProfile({ ...editingProfile, description: e.target.value })} />
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Rules</Label>
+                  <Button variant="outline" size="sm" onClick={addRule}><PlusCircle className="mr-2 h-4 w-4" /> Add Rule</Button>
+                </div>
+                {editingProfile.rules.map(rule => (
+                  <div key={rule.id} className="rounded-md border p-3 flex flex-wrap items-end gap-3">
+                    <div className="pb-2">
+                      <Switch checked={rule.isEnabled} onCheckedChange={(checked) => updateRule(rule.id, { isEnabled: checked })} aria-label="Rule enabled" />
+                    </div>
+                    <div className="space-y-1 w-48">
+                      <Label className="text-xs">Fault</Label>
+                      <Select value={rule.kind} onValueChange={(value) => updateRule(rule.id, { kind: value as FaultKind })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {FAULT_KINDS.map(kind => <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1 w-32">
+                      <Label className="text-xs">Direction</Label>
+                      <Select value={rule.direction} onValueChange={(value) => updateRule(rule.id, { direction: value as FaultRule['direction'] })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="request">Requests</SelectItem>
+                          <SelectItem value="reply">Replies</SelectItem>
+                          <SelectItem value="both">Both</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1 w-48">
+                      <Label className="text-xs">Packet Type</Label>
+                      <Select value={rule.packetType} onValueChange={(value) => updateRule(rule.id, { packetType: value })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {PACKET_TYPES.map(type => <SelectItem key={type} value={type}>{type === 'any' ? 'Any packet' : type}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1 w-24">
+                      <Label className="text-xs">Chance (%)</Label>
+                      <Input type="number" min={0} max={100} value={rule.probability} onChange={(e) => updateRule(rule.id, { probability: Number(e.target.value) || 0 })} />
+                    </div>
+                    {(rule.kind === 'delay' || rule.kind === 'reorder') && (
+                      <div className="space-y-1 w-28">
+                        <Label className="text-xs">{rule.kind === 'delay' ? 'Latency (ms)' : 'Max hold (ms)'}</Label>
+                        <Input type="number" min={0} value={rule.delayMs} onChange={(e) => updateRule(rule.id, { delayMs: parseInt(e.target.value, 10) || 0 })} />
+                      </div>
+                    )}
+                    {rule.kind === 'delay' && (
+                      <div className="space-y-1 w-28">
+                        <Label className="text-xs">Jitter (± ms)</Label>
+                        <Input type="number" min={0} value={rule.jitterMs} onChange={(e) => updateRule(rule.id, { jitterMs: parseInt(e.target.value, 10) || 0 })} />
+                      </div>
+                    )}
+                    {rule.kind === 'duplicate' && (
+                      <div className="space-y-1 w-28">
+                        <Label className="text-xs">Extra copies</Label>
+                        <Input type="number" min={1} max={10} value={rule.copies} onChange={(e) => updateRule(rule.id, { copies: parseInt(e.target.value, 10) || 1 })} />
+                      </div>
+                    )}
+                    {rule.kind === 'truncate' && (
+                      <div className="space-y-1 w-28">
+                        <Label className="text-xs">Keep octets</Label>
+                        <Input type="number" min={0} value={rule.truncateTo} onChange={(e) => updateRule(rule.id, { truncateTo: parseInt(e.target.value, 10) || 0 })} />
+                      </div>
+                    )}
+                    <Button variant="ghost" size="icon" onClick={() => setEditingProfile({ ...editingProfile, rules: editingProfile.rules.filter(r => r.id !== rule.id) })} title="Remove rule">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {editingProfile.rules.length === 0 && <p className="text-sm text-muted-foreground">No rules: packets are relayed unchanged.</p>}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline" disabled={isSaving}>Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSaveProfile} disabled={isSaving || !editingProfile?.name}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save Profile
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+
+"use client";
+
+import { useState, useEffect } from 'react';
+import { PageHeader } from '@/components/shared/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { PlusCircle, Trash2, Save, Play, Square, ArrowUp, ArrowDown, RefreshCw, Loader2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { MockRuleAction, MockRuleCondition, MockRuleOperator, MockServerRule, MockServerSettings, MockServerStatus } from '@/lib/types';
+
+const REQUEST_TYPES: MockServerRule['requestType'][] = ['any', 'Access-Request', 'Accounting-Request', 'CoA-Request', 'Disconnect-Request', 'Status-Server'];
+const ACTIONS: { value: MockRuleAction; label: string }[] = [
+  { value: 'accept', label: 'Accept / ACK' },
+  { value: 'reject', label: 'Reject / NAK' },
+  { value: 'challenge', label: 'Challenge' },
+  { value: 'drop', label: 'Drop (no reply)' },
+];
+const OPERATORS: { value: MockRuleOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'regex', label: 'matches regex' },
+  { value: 'present', label: 'is present' },
+  { value: 'absent', label: 'is absent' },
+];
+
+interface MockServerResponse {
+  settings: MockServerSettings;
+  status: MockServerStatus;
+}
+
+export default function MockServerPage() {
+  const [settings, setSettings] = useState<MockServerSettings | null>(null);
+  const [status, setStatus] = useState<MockServerStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isToggling, setIsToggling] = useState(false);
+  const { toast } = useToast();
+
+  const applyResponse = (data: MockServerResponse, includeSettings = true) => {
+    if (includeSettings) setSettings(data.settings);
+    setStatus(data.status);
+  };
+
+  const fetchMockServer = async (includeSettings = true) => {
+    try {
+      const response = await fetch('/api/settings/mock-server');
+      if (!response.ok) {
+        throw new Error('Failed to fetch mock server settings');
+      }
+      applyResponse(await response.json(), includeSettings);
+    } catch (error) {
+      console.error("Error fetching mock server settings:", error);
+      toast({ title: "Error", description: "Could not fetch mock server settings.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMockServer();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/settings/mock-server', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || 'Failed to save mock server settings');
+      }
+      applyResponse(await response.json());
+      toast({ title: "Success", description: "Mock server settings saved." });
+    } catch (error: any) {
+      console.error("Error saving mock server settings:", error);
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleServer = async () => {
+    const action = status?.running ? 'stop' : 'start';
+    setIsToggling(true);
+    try {
+      const response = await fetch('/api/settings/mock-server', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || `Failed to ${action} the mock server`);
+      }
+      applyResponse(await response.json(), false);
+      toast({ title: action === 'start' ? "Mock Server Started" : "Mock Server Stopped" });
+    } catch (error: any) {
+      console.error(`Error trying to ${action} the mock server:`, error);
+      toast({ title: "Mock Server", description: error.message, variant: "destructive" });
+      fetchMockServer(false);
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const updateSettings = (changes: Partial<MockServerSettings>) => {
+    setSettings(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const updateRule = (ruleId: string, changes: Partial<MockServerRule>) => {
+    setSettings(prev => prev ? { ...prev, rules: prev.rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule) } : prev);
+  };
+
+  const addRule = () => {
+    if (!settings) return;
+    const newRule: MockServerRule = {
+      id: `rule_${Date.now()}`,
+      name: `Rule ${settings.rules.length + 1}`,
+      isEnabled: true,
+      requestType: 'Access-Request',
+      conditions: [{ id: `cond_${Date.now()}`, attribute: 'User-Name', operator: 'equals', value: '' }],
+      action: 'accept',
+      replyAttributes: [],
+      delayMs: 0,
+    };
+    updateSettings({ rules: [...settings.rules, newRule] });
+  };
+
+  const removeRule = (ruleId: string) => {
+    if (!settings) return;
+    updateSettings({ rules: settings.rules.filter(rule => rule.id !== ruleId) });
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    if (!settings) return;
+    const target = index + offset;
+    if (target < 0 || target >= settings.rules.length) return;
+    const rules = [...settings.rules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    updateSettings({ rules });
+  };
+
+  const updateCondition = (rule: MockServerRule, conditionId: string, changes: Partial<MockRuleCondition>) => {
+    updateRule(rule.id, { conditions: rule.conditions.map(condition => condition.id === conditionId ? { ...condition, ...changes } : condition) });
+  };
+
+  const updateReplyAttribute = (rule: MockServerRule, attributeId: string, changes: Partial<MockServerRule['replyAttributes'][number]>) => {
+    updateRule(rule.id, { replyAttributes: rule.replyAttributes.map(attr => attr.id === attributeId ? { ...attr, ...changes } : attr) });
+  };
+
+  if (isLoading || !settings) {
+    return (
+      <div className="flex justify-center items-center h-40">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <p className="ml-2 text-muted-foreground">Loading mock server settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        title="Mock RADIUS Server"
+        description="A local RADIUS server answering from a rule table, for developing scenarios without a real AAA server. Select it in the Execution Console as 'Built-in Mock Server'."
+        actions={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleToggleServer} disabled={isToggling || isSaving}>
+              {isToggling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : status?.running ? <Square className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+              {status?.running ? 'Stop' : 'Start'}
+            </Button>
+            <Button onClick={handleSaveSettings} disabled={isSaving || isToggling}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save Settings
+            </Button>
+          </div>
+        }
+      />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Listener
+            <Badge variant={status?.running ? 'default' : 'secondary'}>{status?.running ? 'Running' : 'Stopped'}</Badge>
+          </CardTitle>
+          <CardDescription>
+            Listens on UDP at {status?.address || '127.0.0.1'} only; RadSec and RADIUS over TCP are not served.
+            {status?.running && status.startedAt && ` Running since ${new Date(status.startedAt).toLocaleString()}.`}
+            {' '}Saving restarts a running server with the new settings.
+          </CardDescription>
+          {status?.error && <p className="text-sm text-destructive">{status.error}</p>}
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="mock-secret">Shared Secret</Label>
+            <Input id="mock-secret" value={settings.secret} onChange={(e) => updateSettings({ secret: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mock-auth-port">Auth Port</Label>
+            <Input id="mock-auth-port" type="number" value={settings.authPort} onChange={(e) => updateSettings({ authPort: parseInt(e.target.value, 10) || 0 })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mock-acct-port">Accounting Port</Label>
+            <Input id="mock-acct-port" type="number" value={settings.acctPort} onChange={(e) => updateSettings({ acctPort: parseInt(e.target.value, 10) || 0 })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mock-coa-port">CoA Port</Label>
+            <Input id="mock-coa-port" type="number" value={settings.coaPort} onChange={(e) => updateSettings({ coaPort: parseInt(e.target.value, 10) || 0 })} />
+          </div>
+          <div className="space-y-1">
+            <Label>When No Rule Matches</Label>
+            <Select value={settings.defaultAction} onValueChange={(value) => updateSettings({ defaultAction: value as MockRuleAction })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {ACTIONS.map(action => <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Rules</CardTitle>
+            <CardDescription>
+              Evaluated top to bottom; the first enabled rule whose conditions all match decides the reply.
+              Accounting has no negative reply, so Reject drops an Accounting-Request.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={addRule}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings.rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">No rules: every request gets the default reply.</p>
+          )}
+          {settings.rules.map((rule, index) => (
+            <div key={rule.id} className="rounded-md border p-4 space-y-3">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="flex items-center gap-2 pb-2">
+                  <Switch checked={rule.isEnabled} onCheckedChange={(checked) => updateRule(rule.id, { isEnabled: checked })} aria-label="Rule enabled" />
+                  <span className="text-sm text-muted-foreground">#{index + 1}</span>
+                </div>
+                <div className="space-y-1 flex-1 min-w-[10rem]">
+                  <Label>Name</Label>
+                  <Input value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} />
+                </div>
+                <div className="space-y-1 w-48">
+                  <Label>Request Type</Label>
+                  <Select value={rule.requestType} onValueChange={(value) => updateRule(rule.id, { requestType: value as MockServerRule['requestType'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {REQUEST_TYPES.map(type => <SelectItem key={type} value={type}>{type === 'any' ? 'Any request' : type}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 w-40">
+                  <Label>Action</Label>
+                  <Select value={rule.action} onValueChange={(value) => updateRule(rule.id, { action: value as MockRuleAction })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {ACTIONS.map(action => <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 w-28">
+                  <Label>Delay (ms)</Label>
+                  <Input type="number" min={0} value={rule.delayMs} onChange={(e) => updateRule(rule.id, { delayMs: parseInt(e.target.value, 10) || 0 })} />
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => moveRule(index, -1)} disabled={index === 0} title="Move up"><ArrowUp className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="icon" onClick={() => moveRule(index, 1)} disabled={index === settings.rules.length - 1} title="Move down"><ArrowDown className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="icon" onClick={() => removeRule(rule.id)} title="Delete rule"><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs uppercase text-muted-foreground">Conditions (all must match)</Label>
+                {rule.conditions.map(condition => (
+                  <div key={condition.id} className="flex gap-2 items-center">
+                    <Input className="w-56" placeholder="Attribute, e.g. User-Name" value={condition.attribute} onChange={(e) => updateCondition(rule, condition.id, { attribute: e.target.value })} />
+                    <Select value={condition.operator} onValueChange={(value) => updateCondition(rule, condition.id, { operator: value as MockRuleOperator })}>
+                      <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {OPERATORS.map(op => <SelectItem key={op.value} value={op.value}>{op.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    {condition.operator !== 'present' && condition.operator !== 'absent' && (
+                      <Input className="flex-1" placeholder="Value" value={condition.value} onChange={(e) => updateCondition(rule, condition.id, { value: e.target.value })} />
+                    )}
+                    <Button variant="ghost" size="icon" onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter(c => c.id !== condition.id) })}><X className="h-4 w-4" /></Button>
+                  </div>
+                ))}
+                <Button variant="link" size="sm" className="px-0" onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, { id: `cond_${Date.now()}`, attribute: '', operator: 'equals', value: '' }] })}>
+                  <PlusCircle className="mr-1 h-3 w-3" /> Add Condition
+                </Button>
+              </div>
+
+              {rule.action !== 'drop' && (
+                <div className="space-y-2">
+                  <Label className="text-xs uppercase text-muted-foreground">Reply Attributes</Label>
+                  {rule.replyAttributes.map(attr => (
+                    <div key={attr.id} className="flex gap-2 items-center">
+                      <Input className="w-56" placeholder="Attribute, e.g. Reply-Message" value={attr.name} onChange={(e) => updateReplyAttribute(rule, attr.id, { name: e.target.value })} />
+                      <Input className="flex-1" placeholder="Value" value={attr.value} onChange={(e) => updateReplyAttribute(rule, attr.id, { value: e.target.value })} />
+                      <Button variant="ghost" size="icon" onClick={() => updateRule(rule.id, { replyAttributes: rule.replyAttributes.filter(a => a.id !== attr.id) })}><X className="h-4 w-4" /></Button>
+                    </div>
+                  ))}
+                  <Button variant="link" size="sm" className="px-0" onClick={() => updateRule(rule.id, { replyAttributes: [...rule.replyAttributes, { id: `reply_${Date.now()}`, name: '', value: '' }] })}>
+                    <PlusCircle className="mr-1 h-3 w-3" /> Add Reply Attribute
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Recent Requests</CardTitle>
+            <CardDescription>The last 100 requests since the server was started, newest first.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => fetchMockServer(false)}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Request</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(status?.recentRequests || []).map((entry, index) => (
+                <TableRow key={`${entry.timestamp}-${index}`}>
+                  <TableCell className="whitespace-nowrap">{new Date(entry.timestamp).toLocaleTimeString()}</TableCell>
+                  <TableCell className="font-mono text-xs">{entry.from}</TableCell>
+                  <TableCell>{entry.request}</TableCell>
+                  <TableCell>{entry.rule || <span className="text-muted-foreground">default</span>}</TableCell>
+                  <TableCell>{entry.outcome}</TableCell>
+                </TableRow>
+              ))}
+              {!status?.recentRequests.length && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No requests received.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -15,6 +15,10 @@ import {
   Waypoints,
   DatabaseZap,
   Users,
+  FlaskConical,
+  Zap,
+  Bug,
+  ShieldCheck,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
@@ -49,6 +53,8 @@ const navItems: NavItem[] = [
   { href: "/dictionaries", label: "Dictionaries", icon: BookText },
   { href: "/results", label: "Results Dashboard", icon: BarChart3 },
   { href: "/execute", label: "Execution Console", icon: TerminalSquare },
+  { href: "/fuzzing", label: "Protocol Fuzzing", icon: Bug },
+  { href: "/conformance", label: "RFC Conformance", icon: ShieldCheck },
   {
     href: "/settings",
     label: "Settings",
@@ -57,6 +63,8 @@ const navItems: NavItem[] = [
     subItems: [
       { href: "/settings/servers", label: "Server Config", icon: Server },
       { href: "/settings/database", label: "DB Validation", icon: DatabaseZap },
+      { href: "/settings/mock-server", label: "Mock Server", icon: FlaskConical },
+      { href: "/settings/fault-profiles", label: "Fault Injection", icon: Zap },
       { href: "/settings/users", label: "User Management", icon: Users },
     ],
   },
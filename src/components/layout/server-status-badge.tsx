@@ -1,40 +1,92 @@
-
 "use client";
 
-import { useState, useEffect } from "react";
-import { Wifi, WifiOff } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { Wifi, WifiOff, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
+import type { RadiusHealthCheckResult } from "@/lib/services/radius-service";
+
+type ServerHealth = RadiusHealthCheckResult & { serverId: string; serverName: string };
+
+const POLL_INTERVAL_MS = 60000;
+
+const STATUS_LABELS: Record<RadiusHealthCheckResult['status'], string> = {
+  up: "RADIUS responding",
+  degraded: "Some listeners not responding",
+  down: "RADIUS not responding",
+};
 
 export function ServerStatusBadge() {
-  // Mock status, replace with actual server status logic
-  const [isConnected, setIsConnected] = useState(true);
-  const [serverAlias, setServerAlias] = useState("Prod-FR-01"); // Mock alias
+  // The first configured server (alphabetical, as listed in Settings) is probed with Status-Server.
+  const [server, setServer] = useState<{ id: string; name: string } | null>(null);
+  const [health, setHealth] = useState<ServerHealth | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
 
   useEffect(() => {
-    // Simulate status changes for demo
-    const interval = setInterval(() => {
-      // setIsConnected(prev => !prev);
-    }, 15000);
-    return () => clearInterval(interval);
+    fetch('/api/settings/servers')
+      .then(res => res.ok ? res.json() : [])
+      .then((configs: { id: string; name: string }[]) => setServer(configs[0] ? { id: configs[0].id, name: configs[0].name } : null))
+      .catch(() => setServer(null));
   }, []);
 
+  const checkHealth = useCallback(async (serverId: string) => {
+    setIsChecking(true);
+    try {
+      const res = await fetch(`/api/radius/status?serverId=${encodeURIComponent(serverId)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || data.message || `HTTP ${res.status}`);
+      setHealth(data);
+      setCheckError(null);
+    } catch (error) {
+      setCheckError((error as Error).message);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!server) return;
+    checkHealth(server.id);
+    const interval = setInterval(() => checkHealth(server.id), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [server, checkHealth]);
+
+  const status = health?.status;
+  const variant = status === 'up' ? "default" : status === 'degraded' ? "secondary" : status === 'down' || checkError ? "destructive" : "outline";
+
   return (
     <TooltipProvider>
       <Tooltip>
         <TooltipTrigger asChild>
-          <Badge variant={isConnected ? "default" : "destructive"} className="cursor-default flex items-center gap-1.5 py-1.5 px-3">
-            {isConnected ? (
+          <Badge variant={variant} className="cursor-default flex items-center gap-1.5 py-1.5 px-3">
+            {isChecking && !health ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : status === 'up' || status === 'degraded' ? (
               <Wifi className="h-4 w-4" />
             ) : (
               <WifiOff className="h-4 w-4" />
             )}
-            <span className="hidden sm:inline">{serverAlias}</span>
+            <span className="hidden sm:inline">{server?.name || "No server"}</span>
           </Badge>
         </TooltipTrigger>
         <TooltipContent>
-          <p>RADIUS Server: {serverAlias}</p>
-          <p>Status: {isConnected ? "Connected" : "Disconnected"}</p>
+          {!server ? (
+            <p>No RADIUS server configured.</p>
+          ) : (
+            <>
+              <p>RADIUS Server: {server.name}{health ? ` (${health.host})` : ''}</p>
+              <p>Status: {checkError ? `Check failed: ${checkError}` : status ? STATUS_LABELS[status] : "Checking..."}</p>
+              {health?.listeners.map(probe => (
+                <p key={probe.listener} className="text-xs">
+                  {probe.transport === 'radsec' ? 'RadSec' : probe.listener === 'auth' ? 'Auth' : 'Acct'}{probe.transport === 'tcp' ? ' (tcp)' : ''} {probe.port}: {probe.reachable ? `${probe.replyCode} in ${probe.responseTimeMs}ms` : 'no reply'}
+                  {probe.error && probe.reachable ? ` (${probe.error})` : ''}
+                  {probe.statistics.length > 0 ? `, ${probe.statistics.length} statistics attributes` : ''}
+                </p>
+              ))}
+              {health && <p className="text-xs text-muted-foreground">Last checked {new Date(health.checkedAt).toLocaleTimeString()}</p>}
+            </>
+          )}
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
@@ -0,0 +1,186 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { PacketLogDetails } from '@/lib/types';
+import type { PacketDissection, PacketField } from '@/lib/radius/packet';
+
+const BYTES_PER_ROW = 16;
+const ATTRIBUTE_COLORS = [
+  'bg-sky-500/15 dark:bg-sky-400/15',
+  'bg-emerald-500/15 dark:bg-emerald-400/15',
+  'bg-violet-500/15 dark:bg-violet-400/15',
+  'bg-amber-500/15 dark:bg-amber-400/15',
+];
+
+export function isPacketLogDetails(details: unknown): details is PacketLogDetails {
+  return typeof details === 'object' && details !== null
+    && typeof (details as PacketLogDetails).text === 'string'
+    && typeof (details as PacketLogDetails).hex === 'string';
+}
+
+/** Plain-text form of packet log details, for log exports. */
+export function formatPacketLogDetails(details: PacketLogDetails): string {
+  return `${details.text}\nHex: ${details.hex}`;
+}
+
+interface DecoderRow {
+  key: string;
+  field: PacketField;
+  depth: number;
+  color: string;
+}
+
+function fieldColor(field: PacketField, attributeIndex: number): string {
+  switch (field.kind) {
+    case 'header': return 'bg-blue-500/20 dark:bg-blue-400/20';
+    case 'authenticator': return 'bg-orange-500/20 dark:bg-orange-400/20';
+    case 'malformed': return 'bg-red-500/30 text-red-700 dark:bg-red-400/30 dark:text-red-300';
+    case 'trailing': return 'bg-gray-500/20 dark:bg-gray-400/20';
+    default: return ATTRIBUTE_COLORS[attributeIndex % ATTRIBUTE_COLORS.length];
+  }
+}
+
+/**
+ * Hex dump of a dissected packet with one colour per field: header, authenticator and each
+ * attribute TLV, whose type/length octets are shown in bold. Hovering a field in the table
+ * outlines its octets in the dump.
+ */
+function PacketDecoder({ hex, dissection }: { hex: string; dissection: PacketDissection }) {
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const bytes = useMemo(() => hex.match(/../g) || [], [hex]);
+
+  const { rows, byteColors, headerBytes } = useMemo(() => {
+    const rows: DecoderRow[] = [];
+    const byteColors: string[] = new Array(bytes.length).fill('');
+    const headerBytes = new Array<boolean>(bytes.length).fill(false);
+    const mark = (field: PacketField) => {
+      for (let i = field.offset; i < field.offset + field.headerLength && i < bytes.length; i++) headerBytes[i] = true;
+    };
+    let attributeIndex = 0;
+    dissection.fields.forEach((field, index) => {
+      const color = fieldColor(field, attributeIndex);
+      if (field.kind === 'attribute') attributeIndex++;
+      for (let i = field.offset; i < field.offset + field.length && i < bytes.length; i++) byteColors[i] = color;
+      mark(field);
+      rows.push({ key: String(index), field, depth: 0, color });
+      field.children?.forEach((child, childIndex) => {
+        // Malformed children keep their own colour so the broken octets stand out within the attribute.
+        if (child.kind === 'malformed') {
+          for (let i = child.offset; i < child.offset + child.length && i < bytes.length; i++) byteColors[i] = fieldColor(child, 0);
+        }
+        mark(child);
+        rows.push({ key: `${index}.${childIndex}`, field: child, depth: 1, color: child.kind === 'malformed' ? fieldColor(child, 0) : color });
+      });
+    });
+    return { rows, byteColors, headerBytes };
+  }, [bytes, dissection]);
+
+  const active = rows.find(row => row.key === activeKey)?.field;
+  const isActive = (offset: number) => !!active && offset >= active.offset && offset < active.offset + active.length;
+
+  return (
+    <div className="mt-2 space-y-2 rounded border bg-background/60 p-2 font-mono text-xs">
+      {dissection.errors.length > 0 && (
+        <ul className="list-disc pl-4 text-red-600 dark:text-red-400">
+          {dissection.errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+      <div className="overflow-x-auto">
+        {Array.from({ length: Math.ceil(bytes.length / BYTES_PER_ROW) }, (_, row) => {
+          const start = row * BYTES_PER_ROW;
+          return (
+            <div key={row} className="flex whitespace-pre">
+              <span className="mr-3 text-muted-foreground">{start.toString(16).padStart(4, '0')}</span>
+              {bytes.slice(start, start + BYTES_PER_ROW).map((byte, i) => (
+                <span
+                  key={i}
+                  className={cn('px-[3px]', byteColors[start + i], headerBytes[start + i] && 'font-bold', isActive(start + i) && 'outline outline-1 outline-primary')}
+                >{byte}</span>
+              ))}
+              <span className="ml-3 text-muted-foreground">
+                {bytes.slice(start, start + BYTES_PER_ROW).map(byte => {
+                  const code = parseInt(byte, 16);
+                  return code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : '.';
+                }).join('')}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="pr-3 font-normal">Offset</th>
+            <th className="pr-3 font-normal">Len</th>
+            <th className="pr-3 font-normal">Type</th>
+            <th className="pr-3 font-normal">Field</th>
+            <th className="font-normal">Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, field, depth, color }) => (
+            <tr
+              key={key}
+              className={cn('align-top', activeKey === key && 'bg-muted')}
+              onMouseEnter={() => setActiveKey(key)}
+              onMouseLeave={() => setActiveKey(null)}
+            >
+              <td className="pr-3">{field.offset}</td>
+              <td className="pr-3">{field.length}</td>
+              <td className="pr-3">{field.type ?? ''}</td>
+              <td className={cn('pr-3 whitespace-nowrap', depth > 0 && 'pl-4')}><span className={cn('mr-1 inline-block h-2 w-2 rounded-sm', color)} />{field.label}</td>
+              <td className="break-all">{field.value}{field.error && <span className="block text-red-600 dark:text-red-400">{field.error}</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Renders a SENT/RECV log entry's text with a toggle that fetches the dissection of its
+ * wire bytes from /api/radius/decode, so vendor attributes resolve with the active dictionaries.
+ */
+export function PacketLogDetailsView({ details, className }: { details: PacketLogDetails; className?: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [dissection, setDissection] = useState<PacketDissection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDecoder = async () => {
+    setIsOpen(!isOpen);
+    if (isOpen || dissection || isLoading) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/radius/decode', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hex: details.hex }),
+      });
+      const data = await response.json().catch(() => ({ message: `HTTP ${response.status}` }));
+      if (!response.ok) throw new Error(data.error || data.message);
+      setDissection(data as PacketDissection);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <pre className={className}>{details.text}</pre>
+      <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={toggleDecoder}>
+        {isOpen ? 'Hide decoder' : `Decode ${details.hex.length / 2} octets`}
+      </Button>
+      {isOpen && isLoading && <div className="flex items-center text-xs text-muted-foreground"><Loader2 className="mr-1 h-3 w-3 animate-spin" />Decoding...</div>}
+      {isOpen && error && <p className="text-xs text-red-600 dark:text-red-400">Decode failed: {error}</p>}
+      {isOpen && dissection && <PacketDecoder hex={details.hex} dissection={dissection} />}
+    </div>
+  );
+}
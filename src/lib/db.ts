@@ -81,9 +81,12 @@ async function initializeDatabaseSchema(db: Database): Promise<void> {
       sql: `CREATE TABLE IF NOT EXISTS server_configs (
               id TEXT PRIMARY KEY, name TEXT NOT NULL, type TEXT, customServerType TEXT, host TEXT,
               sshPort INTEGER, sshUser TEXT, authMethod TEXT, privateKey TEXT, password TEXT,
-              radiusAuthPort INTEGER, radiusAcctPort INTEGER, defaultSecret TEXT,
+              radiusAuthPort INTEGER, radiusAcctPort INTEGER, radiusCoaPort INTEGER, defaultSecret TEXT,
               nasSpecificSecrets TEXT, status TEXT, testSteps TEXT, 
-              scenarioExecutionSshCommands TEXT, connectionTestSshPreamble TEXT
+              scenarioExecutionSshCommands TEXT, connectionTestSshPreamble TEXT,
+              eapCaCertificate TEXT, eapClientCertificate TEXT, eapClientPrivateKey TEXT,
+              radsecHost TEXT, radsecPort INTEGER, radsecCaCertificate TEXT, radsecClientCertificate TEXT, radsecClientPrivateKey TEXT,
+              statusTransport TEXT
             );`
     },
     {
@@ -116,6 +119,7 @@ async function initializeDatabaseSchema(db: Database): Promise<void> {
               id TEXT PRIMARY KEY, scenarioId TEXT, scenarioName TEXT NOT NULL,
               serverId TEXT, serverName TEXT NOT NULL, startTime TEXT NOT NULL,
               endTime TEXT, status TEXT NOT NULL, resultId TEXT,
+              faultProfileId TEXT, faultProfileName TEXT,
               FOREIGN KEY (scenarioId) REFERENCES scenarios(id) ON DELETE SET NULL,
               FOREIGN KEY (serverId) REFERENCES server_configs(id) ON DELETE SET NULL,
               FOREIGN KEY (resultId) REFERENCES test_results(id) ON DELETE SET NULL
@@ -129,6 +133,54 @@ async function initializeDatabaseSchema(db: Database): Promise<void> {
               FOREIGN KEY (testExecutionId) REFERENCES test_executions(id) ON DELETE CASCADE
             );`
     },
+    {
+      name: 'execution_datagrams',
+      sql: `CREATE TABLE IF NOT EXISTS execution_datagrams (
+              id TEXT PRIMARY KEY, testExecutionId TEXT NOT NULL, timestamp TEXT NOT NULL,
+              direction TEXT NOT NULL, protocol TEXT NOT NULL, source TEXT NOT NULL,
+              destination TEXT NOT NULL, data TEXT NOT NULL,
+              FOREIGN KEY (testExecutionId) REFERENCES test_executions(id) ON DELETE CASCADE
+            );`
+    },
+    {
+      name: 'mock_server',
+      sql: `CREATE TABLE IF NOT EXISTS mock_server (
+              id TEXT PRIMARY KEY, secret TEXT NOT NULL, authPort INTEGER NOT NULL,
+              acctPort INTEGER NOT NULL, coaPort INTEGER NOT NULL, defaultAction TEXT NOT NULL,
+              rules TEXT
+            );`
+    },
+    {
+      name: 'fault_profiles',
+      sql: `CREATE TABLE IF NOT EXISTS fault_profiles (
+              id TEXT PRIMARY KEY, name TEXT NOT NULL, description TEXT,
+              seed INTEGER NOT NULL, rules TEXT, lastModified TEXT NOT NULL
+            );`
+    },
+    {
+      name: 'fuzz_campaigns',
+      sql: `CREATE TABLE IF NOT EXISTS fuzz_campaigns (
+              id TEXT PRIMARY KEY, name TEXT NOT NULL, packetId TEXT NOT NULL, packetName TEXT,
+              serverId TEXT NOT NULL, serverName TEXT, settings TEXT NOT NULL, status TEXT NOT NULL,
+              startTime TEXT NOT NULL, endTime TEXT, casesSent INTEGER DEFAULT 0,
+              repliesReceived INTEGER DEFAULT 0, findingCount INTEGER DEFAULT 0, error TEXT
+            );`
+    },
+    {
+      name: 'fuzz_findings',
+      sql: `CREATE TABLE IF NOT EXISTS fuzz_findings (
+              id TEXT PRIMARY KEY, campaignId TEXT NOT NULL, timestamp TEXT NOT NULL, kind TEXT NOT NULL,
+              summary TEXT, reproducer TEXT, cases TEXT,
+              FOREIGN KEY (campaignId) REFERENCES fuzz_campaigns(id) ON DELETE CASCADE
+            );`
+    },
+    {
+      name: 'conformance_reports',
+      sql: `CREATE TABLE IF NOT EXISTS conformance_reports (
+              id TEXT PRIMARY KEY, serverId TEXT NOT NULL, serverName TEXT,
+              startTime TEXT NOT NULL, endTime TEXT, clauses TEXT
+            );`
+    },
     {
       name: 'ai_interactions',
       sql: `CREATE TABLE IF NOT EXISTS ai_interactions (
@@ -151,6 +203,18 @@ async function initializeDatabaseSchema(db: Database): Promise<void> {
   const columnsToAdd = [
     { table: 'server_configs', column: 'customServerType', type: 'TEXT' },
     { table: 'server_configs', column: 'connectionTestSshPreamble', type: 'TEXT' },
+    { table: 'server_configs', column: 'eapCaCertificate', type: 'TEXT' },
+    { table: 'server_configs', column: 'radiusCoaPort', type: 'INTEGER' },
+    { table: 'server_configs', column: 'eapClientCertificate', type: 'TEXT' },
+    { table: 'server_configs', column: 'eapClientPrivateKey', type: 'TEXT' },
+    { table: 'server_configs', column: 'radsecHost', type: 'TEXT' },
+    { table: 'server_configs', column: 'radsecPort', type: 'INTEGER' },
+    { table: 'server_configs', column: 'radsecCaCertificate', type: 'TEXT' },
+    { table: 'server_configs', column: 'radsecClientCertificate', type: 'TEXT' },
+    { table: 'server_configs', column: 'radsecClientPrivateKey', type: 'TEXT' },
+    { table: 'server_configs', column: 'statusTransport', type: 'TEXT' },
+    { table: 'test_executions', column: 'faultProfileId', type: 'TEXT' },
+    { table: 'test_executions', column: 'faultProfileName', type: 'TEXT' },
     { table: 'db_configs', column: 'directTestSshPreamble', type: 'TEXT' },
     { table: 'db_configs', column: 'jumpServerHost', type: 'TEXT' },
     { table: 'db_configs', column: 'jumpServerPort', type: 'INTEGER' },
@@ -191,7 +255,8 @@ async function initializeDatabaseSchema(db: Database): Promise<void> {
           source TEXT,
           isActive BOOLEAN DEFAULT TRUE,
           lastUpdated TEXT,
-          exampleAttributes TEXT DEFAULT '[]' -- Ensures new rows get the default
+          exampleAttributes TEXT DEFAULT '[]', -- Ensures new rows get the default
+          vendors TEXT DEFAULT '[]' -- VENDOR definitions (name, id, format) from the imported file
         );
       `);
       console_log_info("DICTIONARIES_TABLE_CHECK: 'dictionaries' table created successfully with 'exampleAttributes'.");
@@ -221,6 +286,11 @@ async function initializeDatabaseSchema(db: Database): Promise<void> {
           console_log_info("DICTIONARIES_TABLE_CHECK: No rows in 'dictionaries' had NULL 'exampleAttributes' or needed update for it.");
         }
       }
+      const hasVendorsColumn = columnsPragma.some(col => (col as any).name === 'vendors');
+      if (!hasVendorsColumn) {
+        await db.exec("ALTER TABLE dictionaries ADD COLUMN vendors TEXT DEFAULT '[]';");
+        console_log_info("DICTIONARIES_TABLE_CHECK: Column 'vendors' ADDED to 'dictionaries' table.");
+      }
     }
   } catch (error: any) {
     console_log_error("DICTIONARIES_TABLE_CHECK: CRITICAL error during 'dictionaries' table schema check/migration for 'exampleAttributes':", error.message, error.stack);
@@ -0,0 +1,143 @@
+// src/lib/radius/conformance-pack.ts
+// The built-in RFC conformance suite: ordinary packets and scenarios with fixed IDs, so
+// installing the pack again updates them in place. Each scenario carries the clause it
+// checks as a tag; any scenario tagged CONFORMANCE_TAG and a clause joins the report.
+
+import type { RadClientOptions, RadiusPacket, Scenario, ScenarioStep } from '@/lib/types';
+
+export const CONFORMANCE_TAG = 'rfc-conformance';
+// A step whose name starts with this proves the server is answering at all. When it fails,
+// a check that expects silence cannot pass or fail, so it is reported as inconclusive.
+export const CONTROL_STEP_PREFIX = 'Control:';
+
+const CLAUSE_TAG_PATTERN = /^RFC \d+ §[\d.]+$/;
+const PACK_TIMESTAMP = '2024-01-01T00:00:00.000Z';
+const WRONG_SECRET = 'rfc-conformance-wrong-secret';
+const ANSWERED = 'Access-Accept|Access-Reject';
+
+export const CONFORMANCE_CLAUSES: Record<string, string> = {
+  'RFC 2865 §3': 'Replies to an Access-Request carry a Response Authenticator computed over the request and the shared secret.',
+  'RFC 2865 §5': 'A server may ignore attributes of an unknown type; the request is still processed and answered.',
+  'RFC 2866 §2': 'The server MUST send an Accounting-Response once it has recorded an Accounting-Request, and MUST NOT reply when it could not record it.',
+  'RFC 2866 §3': 'An Accounting-Request whose Request Authenticator does not verify against the shared secret is silently discarded.',
+  'RFC 3579 §3.2': 'An Access-Request whose Message-Authenticator does not verify, including one signed with the wrong secret, MUST be silently discarded.',
+  'RFC 5176 §2.1': 'A Disconnect-Request for a session the NAS cannot find is answered with Disconnect-NAK.',
+  'RFC 5176 §2.3': 'A CoA-Request whose Request Authenticator does not verify against the shared secret is silently discarded.',
+  'RFC 5997 §3': 'Status-Server sent to the authentication port is answered with Access-Accept, and Status-Server without a Message-Authenticator MUST be silently discarded.',
+};
+
+// Clauses whose MUST cannot be established from RADIUS replies alone. A passing check is
+// reported as inconclusive with this note: the acknowledgement is seen, the write is not.
+export const UNVERIFIED_CLAUSES: Record<string, string> = {
+  'RFC 2866 §2': 'Accounting-Response received, but write not verified: whether the record was stored before the reply cannot be seen from the client.',
+};
+
+/** The clause a scenario checks, taken from its tags, or undefined for other scenarios. */
+export function conformanceClauseOf(scenario: Pick<Scenario, 'tags'>): string | undefined {
+  if (!scenario.tags?.includes(CONFORMANCE_TAG)) return undefined;
+  return scenario.tags.find(tag => CLAUSE_TAG_PATTERN.test(tag));
+}
+
+function packet(id: string, name: string, description: string, toolOptions: RadClientOptions, attributes: [string, string][]): RadiusPacket {
+  return {
+    id: `rfc-conformance-${id}`,
+    name: `RFC Conformance: ${name}`,
+    description,
+    attributes: attributes.map(([attrName, value], index) => ({ id: `rfc-conformance-${id}-${index + 1}`, name: attrName, value })),
+    lastModified: PACK_TIMESTAMP,
+    tags: [CONFORMANCE_TAG],
+    executionTool: 'radclient',
+    toolOptions: { timeout: 3, retries: 0, ...toolOptions },
+  };
+}
+
+const ACCESS_ATTRIBUTES: [string, string][] = [
+  ['User-Name', 'rfc-conformance'],
+  ['User-Password', 'rfc-conformance'],
+  ['NAS-Identifier', 'radius-tester-conformance'],
+  ['NAS-Port', '0'],
+];
+const ACCOUNTING_ATTRIBUTES: [string, string][] = [
+  ['User-Name', 'rfc-conformance'],
+  ['Acct-Session-Id', 'rfc-conformance-0001'],
+  ['NAS-Identifier', 'radius-tester-conformance'],
+  ['NAS-Port', '0'],
+];
+
+export const CONFORMANCE_PACKETS: RadiusPacket[] = [
+  packet('access-request', 'Access-Request', 'PAP Access-Request with a valid Message-Authenticator. Accept or reject are both conformant.', { type: 'auth' }, ACCESS_ATTRIBUTES),
+  packet('access-request-wrong-secret', 'Access-Request (wrong secret)', 'Access-Request signed with a secret the server does not share.', { type: 'auth', secret: WRONG_SECRET }, ACCESS_ATTRIBUTES),
+  packet('access-request-bad-message-authenticator', 'Access-Request (bad Message-Authenticator)', 'Access-Request with a deliberately wrong Message-Authenticator.', { type: 'auth', messageAuthenticator: 'corrupt' }, ACCESS_ATTRIBUTES),
+  packet('access-request-unknown-attribute', 'Access-Request (unknown attribute)', 'Access-Request carrying attribute 200, from the experimental range no dictionary defines.', { type: 'auth' }, [...ACCESS_ATTRIBUTES, ['Attr-200', '0x7266632d636f6e666f726d616e6365']]),
+  packet('accounting-start', 'Accounting-Request Start', 'Accounting Start for the conformance session.', { type: 'acct' }, [['Acct-Status-Type', 'Start'], ...ACCOUNTING_ATTRIBUTES]),
+  packet('accounting-stop', 'Accounting-Request Stop', 'Accounting Stop closing the conformance session.', { type: 'acct' }, [['Acct-Status-Type', 'Stop'], ...ACCOUNTING_ATTRIBUTES, ['Acct-Session-Time', '1']]),
+  packet('accounting-wrong-secret', 'Accounting-Request (wrong secret)', 'Accounting Interim-Update signed with a secret the server does not share.', { type: 'acct', secret: WRONG_SECRET }, [['Acct-Status-Type', 'Interim-Update'], ...ACCOUNTING_ATTRIBUTES]),
+  packet('disconnect-unknown-session', 'Disconnect-Request (unknown session)', 'Disconnect-Request for a session that does not exist.', { type: 'disconnect' }, [['User-Name', 'rfc-conformance'], ['Acct-Session-Id', 'rfc-conformance-no-such-session']]),
+  packet('coa-wrong-secret', 'CoA-Request (wrong secret)', 'CoA-Request signed with a secret the NAS does not share.', { type: 'coa', secret: WRONG_SECRET }, [['User-Name', 'rfc-conformance'], ['Acct-Session-Id', 'rfc-conformance-no-such-session'], ['Session-Timeout', '60']]),
+  packet('status-server', 'Status-Server', 'Status-Server with a valid Message-Authenticator.', { type: 'status' }, [['NAS-Identifier', 'radius-tester-conformance']]),
+  packet('status-server-no-message-authenticator', 'Status-Server (no Message-Authenticator)', 'Status-Server with the Message-Authenticator left out.', { type: 'status', messageAuthenticator: 'omit' }, [['NAS-Identifier', 'radius-tester-conformance']]),
+];
+
+function radiusStep(scenarioId: string, index: number, name: string, packetId: string, expectedPacketType: string): ScenarioStep {
+  return {
+    id: `${scenarioId}-step-${index}`,
+    type: 'radius',
+    name,
+    details: {
+      packet_id: `rfc-conformance-${packetId}`,
+      expectedAttributes: [{ id: `${scenarioId}-step-${index}-expect`, name: 'Packet-Type', value: expectedPacketType }],
+    },
+  };
+}
+
+function scenario(id: string, clause: string, name: string, description: string, steps: [string, string, string][]): Scenario {
+  const scenarioId = `rfc-conformance-${id}`;
+  return {
+    id: scenarioId,
+    name: `${clause}: ${name}`,
+    description,
+    variables: [],
+    steps: steps.map(([stepName, packetId, expected], index) => radiusStep(scenarioId, index + 1, stepName, packetId, expected)),
+    lastModified: PACK_TIMESTAMP,
+    tags: [CONFORMANCE_TAG, clause],
+  };
+}
+
+export const CONFORMANCE_SCENARIOS: Scenario[] = [
+  scenario('response-authenticator', 'RFC 2865 §3', 'Response Authenticator', 'The reply to an Access-Request must verify against the request and the shared secret.', [
+    ['Access-Request is answered with a valid Response Authenticator', 'access-request', ANSWERED],
+  ]),
+  scenario('unknown-attribute', 'RFC 2865 §5', 'Unknown attributes are ignored', 'An attribute of an unknown type must not stop the server answering the request.', [
+    ['Access-Request with an unknown attribute is answered', 'access-request-unknown-attribute', ANSWERED],
+  ]),
+  scenario('bad-message-authenticator', 'RFC 3579 §3.2', 'Bad Message-Authenticator is dropped', 'The same Access-Request is answered with a valid Message-Authenticator and dropped with a corrupted one.', [
+    [`${CONTROL_STEP_PREFIX} valid Access-Request is answered`, 'access-request', ANSWERED],
+    ['Access-Request with a bad Message-Authenticator is dropped', 'access-request-bad-message-authenticator', 'No-Reply'],
+  ]),
+  scenario('wrong-secret-access', 'RFC 3579 §3.2', 'Wrong secret is dropped (Access-Request)', 'An Access-Request signed with the wrong secret fails the Message-Authenticator check and must not be answered.', [
+    [`${CONTROL_STEP_PREFIX} valid Access-Request is answered`, 'access-request', ANSWERED],
+    ['Access-Request with the wrong secret is dropped', 'access-request-wrong-secret', 'No-Reply'],
+  ]),
+  scenario('accounting-response', 'RFC 2866 §2', 'Accounting-Response after recording', 'Start and Stop are each acknowledged. Storing the records before the reply is not verified, so the clause is reported as inconclusive.', [
+    ['Accounting Start is acknowledged', 'accounting-start', 'Accounting-Response'],
+    ['Accounting Stop is acknowledged', 'accounting-stop', 'Accounting-Response'],
+  ]),
+  scenario('wrong-secret-accounting', 'RFC 2866 §3', 'Wrong secret is dropped (Accounting-Request)', 'An Accounting-Request with a Request Authenticator computed from the wrong secret must not be answered.', [
+    [`${CONTROL_STEP_PREFIX} valid Accounting Start is acknowledged`, 'accounting-start', 'Accounting-Response'],
+    ['Accounting-Request with the wrong secret is dropped', 'accounting-wrong-secret', 'No-Reply'],
+  ]),
+  scenario('disconnect-unknown-session', 'RFC 5176 §2.1', 'Disconnect-NAK for an unknown session', 'Run against a NAS (or the mock server) listening on the CoA port.', [
+    ['Disconnect-Request for an unknown session is NAKed', 'disconnect-unknown-session', 'Disconnect-NAK'],
+  ]),
+  scenario('wrong-secret-coa', 'RFC 5176 §2.3', 'Wrong secret is dropped (CoA-Request)', 'Run against a NAS (or the mock server) listening on the CoA port.', [
+    [`${CONTROL_STEP_PREFIX} Disconnect-Request is answered`, 'disconnect-unknown-session', 'Disconnect-ACK|Disconnect-NAK'],
+    ['CoA-Request with the wrong secret is dropped', 'coa-wrong-secret', 'No-Reply'],
+  ]),
+  scenario('status-server', 'RFC 5997 §3', 'Status-Server is answered', 'Status-Server to the authentication port is answered with Access-Accept.', [
+    ['Status-Server is answered with Access-Accept', 'status-server', 'Access-Accept'],
+  ]),
+  scenario('status-server-no-message-authenticator', 'RFC 5997 §3', 'Status-Server without Message-Authenticator is dropped', 'Status-Server is answered with a Message-Authenticator and dropped without one.', [
+    [`${CONTROL_STEP_PREFIX} Status-Server is answered`, 'status-server', 'Access-Accept'],
+    ['Status-Server without Message-Authenticator is dropped', 'status-server-no-message-authenticator', 'No-Reply'],
+  ]),
+];
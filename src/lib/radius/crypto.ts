@@ -0,0 +1,107 @@
+// src/lib/radius/crypto.ts
+// Attribute hiding schemes used by RADIUS: RFC 2865 User-Password (encrypt=1),
+// RFC 2868 Tunnel-Password salt encryption (encrypt=2), Ascend secrets (encrypt=3)
+// and RFC 1994 CHAP responses.
+
+import { createHash, randomBytes } from 'crypto';
+
+export const MAX_PASSWORD_LENGTH = 128;
+
+function md5(...parts: (Buffer | string)[]): Buffer {
+  const hash = createHash('md5');
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+}
+
+function padTo16(data: Buffer): Buffer {
+  const paddedLength = Math.max(16, Math.ceil(data.length / 16) * 16);
+  const padded = Buffer.alloc(paddedLength);
+  data.copy(padded);
+  return padded;
+}
+
+/** XORs each 16-byte block with MD5(secret + previous ciphertext block), seeded with `seed`. */
+function hideBlocks(plaintext: Buffer, secret: string, seed: Buffer): Buffer {
+  const result = Buffer.alloc(plaintext.length);
+  let previous = seed;
+  for (let offset = 0; offset < plaintext.length; offset += 16) {
+    const key = md5(secret, previous);
+    for (let i = 0; i < 16; i++) result[offset + i] = plaintext[offset + i] ^ key[i];
+    previous = result.subarray(offset, offset + 16);
+  }
+  return result;
+}
+
+function unhideBlocks(ciphertext: Buffer, secret: string, seed: Buffer): Buffer {
+  const result = Buffer.alloc(ciphertext.length);
+  let previous = seed;
+  for (let offset = 0; offset + 16 <= ciphertext.length; offset += 16) {
+    const key = md5(secret, previous);
+    for (let i = 0; i < 16; i++) result[offset + i] = ciphertext[offset + i] ^ key[i];
+    previous = ciphertext.subarray(offset, offset + 16);
+  }
+  return result;
+}
+
+/** RFC 2865 section 5.2: hides a User-Password with the shared secret and Request Authenticator. */
+export function encryptUserPassword(password: Buffer, secret: string, requestAuthenticator: Buffer): Buffer {
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    throw new Error(`User-Password is ${password.length} bytes; RFC 2865 allows at most ${MAX_PASSWORD_LENGTH}.`);
+  }
+  return hideBlocks(padTo16(password), secret, requestAuthenticator);
+}
+
+export function decryptUserPassword(encrypted: Buffer, secret: string, requestAuthenticator: Buffer): Buffer {
+  const plaintext = unhideBlocks(encrypted, secret, requestAuthenticator);
+  let end = plaintext.length;
+  while (end > 0 && plaintext[end - 1] === 0) end--;
+  return plaintext.subarray(0, end);
+}
+
+/**
+ * RFC 2868 section 3.5: returns Salt + encrypted (length-prefixed) password.
+ * The caller prepends the tag octet for attributes flagged has_tag.
+ */
+export function encryptTunnelPassword(password: Buffer, secret: string, requestAuthenticator: Buffer, salt: Buffer = randomBytes(2)): Buffer {
+  if (password.length > 249) {
+    throw new Error(`Tunnel-Password is ${password.length} bytes; RFC 2868 allows at most 249.`);
+  }
+  const saltBytes = Buffer.from(salt);
+  saltBytes[0] |= 0x80; // The most significant bit of the salt must be set.
+  const plaintext = padTo16(Buffer.concat([Buffer.from([password.length]), password]));
+  return Buffer.concat([saltBytes, hideBlocks(plaintext, secret, Buffer.concat([requestAuthenticator, saltBytes]))]);
+}
+
+/** Reverses encryptTunnelPassword. Expects Salt + ciphertext (no tag octet). */
+export function decryptTunnelPassword(encrypted: Buffer, secret: string, requestAuthenticator: Buffer): Buffer {
+  if (encrypted.length < 18 || (encrypted.length - 2) % 16 !== 0) {
+    throw new Error('Tunnel-Password value has an invalid length.');
+  }
+  const salt = encrypted.subarray(0, 2);
+  const plaintext = unhideBlocks(encrypted.subarray(2), secret, Buffer.concat([requestAuthenticator, salt]));
+  const length = plaintext[0];
+  if (length > plaintext.length - 1) {
+    throw new Error('Tunnel-Password decrypted to an invalid length (shared secret mismatch?).');
+  }
+  return plaintext.subarray(1, 1 + length);
+}
+
+/** Ascend-Send-Secret style hiding: a single block XORed with MD5(RequestAuth + secret). */
+export function encryptAscendSecret(value: Buffer, secret: string, requestAuthenticator: Buffer): Buffer {
+  const key = md5(requestAuthenticator, secret);
+  const plaintext = padTo16(value.subarray(0, 16));
+  return Buffer.from(plaintext.map((byte, i) => byte ^ key[i]));
+}
+
+export function decryptAscendSecret(encrypted: Buffer, secret: string, requestAuthenticator: Buffer): Buffer {
+  const plaintext = encryptAscendSecret(encrypted, secret, requestAuthenticator);
+  let end = plaintext.length;
+  while (end > 0 && plaintext[end - 1] === 0) end--;
+  return plaintext.subarray(0, end);
+}
+
+/** RFC 2865 section 5.3: CHAP-Password = CHAP Ident + MD5(Ident + password + challenge). */
+export function buildChapPassword(password: Buffer, challenge: Buffer, chapId: number = randomBytes(1)[0]): Buffer {
+  const response = md5(Buffer.from([chapId]), password, challenge);
+  return Buffer.concat([Buffer.from([chapId]), response]);
+}
@@ -0,0 +1,386 @@
+// src/lib/radius/dictionary.ts
+// Attribute dictionary used by the native RADIUS encoder/decoder.
+// Ships the standard RFC attribute space and can be extended with attributes
+// imported through the Dictionaries Manager (see parse-dictionary-file-content).
+
+import type { ParseDictionaryContentOutput, ParsedAttribute, ParsedVendor } from '@/ai/flows/parse-dictionary-file-content';
+
+export interface DictionaryAttribute {
+  name: string;
+  code: number;
+  type: string; // FreeRADIUS data type: string, octets, integer, ipaddr, date, ipv6addr, ...
+  vendorId?: number;
+  path?: number[]; // Codes of the enclosing attributes, e.g. [241] for the extended attribute 241.1
+  options: string[]; // Raw dictionary flags, e.g. 'has_tag', 'encrypt=1'
+  values: Record<string, number>; // Enumerated VALUE names -> numbers
+}
+
+/**
+ * A VENDOR definition. The format gives the width in octets of the vendor type and
+ * length fields inside Vendor-Specific (RFC 2865 section 5.26 uses 1,1), and whether
+ * a WiMAX-style continuation octet follows the length.
+ */
+export interface DictionaryVendor {
+  name: string;
+  id: number;
+  typeLength: 1 | 2 | 4;
+  lengthLength: 0 | 1 | 2;
+  continuation: boolean;
+}
+
+type StandardAttributeDef = [code: number, name: string, type: string, options?: string[], values?: Record<string, number>];
+type ExtendedAttributeDef = [oid: string, name: string, type: string, values?: Record<string, number>];
+
+const SERVICE_TYPES = {
+  'Login-User': 1, 'Framed-User': 2, 'Callback-Login-User': 3, 'Callback-Framed-User': 4, 'Outbound-User': 5,
+  'Administrative-User': 6, 'NAS-Prompt-User': 7, 'Authenticate-Only': 8, 'Callback-NAS-Prompt': 9,
+  'Call-Check': 10, 'Callback-Administrative': 11, 'Authorize-Only': 17,
+};
+
+const NAS_PORT_TYPES = {
+  'Async': 0, 'Sync': 1, 'ISDN': 2, 'ISDN-V120': 3, 'ISDN-V110': 4, 'Virtual': 5, 'PIAFS': 6,
+  'HDLC-Clear-Channel': 7, 'X.25': 8, 'X.75': 9, 'G.3-Fax': 10, 'SDSL': 11, 'ADSL-CAP': 12, 'ADSL-DMT': 13,
+  'IDSL': 14, 'Ethernet': 15, 'xDSL': 16, 'Cable': 17, 'Wireless-Other': 18, 'Wireless-802.11': 19,
+  'Token-Ring': 20, 'FDDI': 21, 'Wireless-CDMA2000': 22, 'Wireless-UMTS': 23, 'Wireless-1X-EV': 24, 'IAPP': 25,
+};
+
+const ACCT_TERMINATE_CAUSES = {
+  'User-Request': 1, 'Lost-Carrier': 2, 'Lost-Service': 3, 'Idle-Timeout': 4, 'Session-Timeout': 5,
+  'Admin-Reset': 6, 'Admin-Reboot': 7, 'Port-Error': 8, 'NAS-Error': 9, 'NAS-Request': 10, 'NAS-Reboot': 11,
+  'Port-Unneeded': 12, 'Port-Preempted': 13, 'Port-Suspended': 14, 'Service-Unavailable': 15, 'Callback': 16,
+  'User-Error': 17, 'Host-Request': 18,
+};
+
+const TUNNEL_TYPES = {
+  'PPTP': 1, 'L2F': 2, 'L2TP': 3, 'ATMP': 4, 'VTP': 5, 'AH': 6, 'IP-IP': 7, 'MIN-IP-IP': 8, 'ESP': 9,
+  'GRE': 10, 'DVS': 11, 'IP-in-IP': 12, 'VLAN': 13,
+};
+
+const TUNNEL_MEDIUM_TYPES = {
+  'IPv4': 1, 'IPv6': 2, 'NSAP': 3, 'HDLC': 4, 'BBN-1822': 5, 'IEEE-802': 6, 'E.163': 7, 'E.164': 8,
+  'F.69': 9, 'X.121': 10, 'IPX': 11, 'Appletalk': 12, 'DecNet-IV': 13, 'Banyan-Vines': 14, 'E.164-NSAP': 15,
+};
+
+// RFC 5176 section 3.5.
+const ERROR_CAUSES = {
+  'Residual-Session-Context-Removed': 201, 'Invalid-EAP-Packet': 202, 'Unsupported-Attribute': 401,
+  'Missing-Attribute': 402, 'NAS-Identification-Mismatch': 403, 'Invalid-Request': 404, 'Unsupported-Service': 405,
+  'Unsupported-Extension': 406, 'Invalid-Attribute-Value': 407, 'Administratively-Prohibited': 501,
+  'Request-Not-Routable': 502, 'Session-Context-Not-Found': 503, 'Session-Context-Not-Removable': 504,
+  'Other-Proxy-Processing-Error': 505, 'Resources-Unavailable': 506, 'Request-Initiated': 507,
+  'Multiple-Session-Selection-Unsupported': 508,
+};
+
+// RFC 2865, 2866, 2867, 2868, 2869, 3162, 4072, 4372, 4675, 4818, 5176 and 6911 attributes.
+const STANDARD_ATTRIBUTE_DEFS: StandardAttributeDef[] = [
+  [1, 'User-Name', 'string'],
+  [2, 'User-Password', 'string', ['encrypt=1']],
+  [3, 'CHAP-Password', 'octets'],
+  [4, 'NAS-IP-Address', 'ipaddr'],
+  [5, 'NAS-Port', 'integer'],
+  [6, 'Service-Type', 'integer', [], SERVICE_TYPES],
+  [7, 'Framed-Protocol', 'integer', [], { 'PPP': 1, 'SLIP': 2, 'ARAP': 3, 'Gandalf-SLML': 4, 'Xylogics-IPX-SLIP': 5, 'X.75-Synchronous': 6 }],
+  [8, 'Framed-IP-Address', 'ipaddr'],
+  [9, 'Framed-IP-Netmask', 'ipaddr'],
+  [10, 'Framed-Routing', 'integer', [], { 'None': 0, 'Broadcast': 1, 'Listen': 2, 'Broadcast-Listen': 3 }],
+  [11, 'Filter-Id', 'string'],
+  [12, 'Framed-MTU', 'integer'],
+  [13, 'Framed-Compression', 'integer', [], { 'None': 0, 'Van-Jacobson-TCP-IP': 1, 'IPX-Header-Compression': 2, 'Stac-LZS': 3 }],
+  [14, 'Login-IP-Host', 'ipaddr'],
+  [15, 'Login-Service', 'integer', [], { 'Telnet': 0, 'Rlogin': 1, 'TCP-Clear': 2, 'PortMaster': 3, 'LAT': 4, 'X25-PAD': 5, 'X25-T3POS': 6, 'TCP-Clear-Quiet': 8 }],
+  [16, 'Login-TCP-Port', 'integer'],
+  [18, 'Reply-Message', 'string'],
+  [19, 'Callback-Number', 'string'],
+  [20, 'Callback-Id', 'string'],
+  [22, 'Framed-Route', 'string'],
+  [23, 'Framed-IPX-Network', 'ipaddr'],
+  [24, 'State', 'octets'],
+  [25, 'Class', 'octets'],
+  [26, 'Vendor-Specific', 'vsa'],
+  [27, 'Session-Timeout', 'integer'],
+  [28, 'Idle-Timeout', 'integer'],
+  [29, 'Termination-Action', 'integer', [], { 'Default': 0, 'RADIUS-Request': 1 }],
+  [30, 'Called-Station-Id', 'string'],
+  [31, 'Calling-Station-Id', 'string'],
+  [32, 'NAS-Identifier', 'string'],
+  [33, 'Proxy-State', 'octets'],
+  [34, 'Login-LAT-Service', 'string'],
+  [35, 'Login-LAT-Node', 'string'],
+  [36, 'Login-LAT-Group', 'octets'],
+  [37, 'Framed-AppleTalk-Link', 'integer'],
+  [38, 'Framed-AppleTalk-Network', 'integer'],
+  [39, 'Framed-AppleTalk-Zone', 'string'],
+  [40, 'Acct-Status-Type', 'integer', [], { 'Start': 1, 'Stop': 2, 'Interim-Update': 3, 'Accounting-On': 7, 'Accounting-Off': 8 }],
+  [41, 'Acct-Delay-Time', 'integer'],
+  [42, 'Acct-Input-Octets', 'integer'],
+  [43, 'Acct-Output-Octets', 'integer'],
+  [44, 'Acct-Session-Id', 'string'],
+  [45, 'Acct-Authentic', 'integer', [], { 'RADIUS': 1, 'Local': 2, 'Remote': 3, 'Diameter': 4 }],
+  [46, 'Acct-Session-Time', 'integer'],
+  [47, 'Acct-Input-Packets', 'integer'],
+  [48, 'Acct-Output-Packets', 'integer'],
+  [49, 'Acct-Terminate-Cause', 'integer', [], ACCT_TERMINATE_CAUSES],
+  [50, 'Acct-Multi-Session-Id', 'string'],
+  [51, 'Acct-Link-Count', 'integer'],
+  [52, 'Acct-Input-Gigawords', 'integer'],
+  [53, 'Acct-Output-Gigawords', 'integer'],
+  [55, 'Event-Timestamp', 'date'],
+  [56, 'Egress-VLANID', 'integer'],
+  [57, 'Ingress-Filters', 'integer', [], { 'Enabled': 1, 'Disabled': 2 }],
+  [58, 'Egress-VLAN-Name', 'string'],
+  [59, 'User-Priority-Table', 'octets'],
+  [60, 'CHAP-Challenge', 'octets'],
+  [61, 'NAS-Port-Type', 'integer', [], NAS_PORT_TYPES],
+  [62, 'Port-Limit', 'integer'],
+  [63, 'Login-LAT-Port', 'string'],
+  [64, 'Tunnel-Type', 'integer', ['has_tag'], TUNNEL_TYPES],
+  [65, 'Tunnel-Medium-Type', 'integer', ['has_tag'], TUNNEL_MEDIUM_TYPES],
+  [66, 'Tunnel-Client-Endpoint', 'string', ['has_tag']],
+  [67, 'Tunnel-Server-Endpoint', 'string', ['has_tag']],
+  [68, 'Acct-Tunnel-Connection', 'string'],
+  [69, 'Tunnel-Password', 'string', ['has_tag', 'encrypt=2']],
+  [70, 'ARAP-Password', 'octets'],
+  [71, 'ARAP-Features', 'octets'],
+  [72, 'ARAP-Zone-Access', 'integer'],
+  [73, 'ARAP-Security', 'integer'],
+  [74, 'ARAP-Security-Data', 'string'],
+  [75, 'Password-Retry', 'integer'],
+  [76, 'Prompt', 'integer', [], { 'No-Echo': 0, 'Echo': 1 }],
+  [77, 'Connect-Info', 'string'],
+  [78, 'Configuration-Token', 'string'],
+  [79, 'EAP-Message', 'octets'],
+  [80, 'Message-Authenticator', 'octets'],
+  [81, 'Tunnel-Private-Group-Id', 'string', ['has_tag']],
+  [82, 'Tunnel-Assignment-Id', 'string', ['has_tag']],
+  [83, 'Tunnel-Preference', 'integer', ['has_tag']],
+  [84, 'ARAP-Challenge-Response', 'octets'],
+  [85, 'Acct-Interim-Interval', 'integer'],
+  [86, 'Acct-Tunnel-Packets-Lost', 'integer'],
+  [87, 'NAS-Port-Id', 'string'],
+  [88, 'Framed-Pool', 'string'],
+  [89, 'Chargeable-User-Identity', 'octets'],
+  [90, 'Tunnel-Client-Auth-Id', 'string', ['has_tag']],
+  [91, 'Tunnel-Server-Auth-Id', 'string', ['has_tag']],
+  [95, 'NAS-IPv6-Address', 'ipv6addr'],
+  [96, 'Framed-Interface-Id', 'ifid'],
+  [97, 'Framed-IPv6-Prefix', 'ipv6prefix'],
+  [98, 'Login-IPv6-Host', 'ipv6addr'],
+  [99, 'Framed-IPv6-Route', 'string'],
+  [100, 'Framed-IPv6-Pool', 'string'],
+  [101, 'Error-Cause', 'integer', [], ERROR_CAUSES],
+  [102, 'EAP-Key-Name', 'octets'],
+  [123, 'Delegated-IPv6-Prefix', 'ipv6prefix'],
+  [168, 'Framed-IPv6-Address', 'ipv6addr'],
+  [169, 'DNS-Server-IPv6-Address', 'ipv6addr'],
+  [170, 'Route-IPv6-Information', 'ipv6prefix'],
+  [171, 'Delegated-IPv6-Prefix-Pool', 'string'],
+  [172, 'Stateful-IPv6-Address-Pool', 'string'],
+];
+
+// RFC 6929 attribute spaces and the extended attributes allocated in them (RFC 7499, 7930).
+const EXTENDED_ATTRIBUTE_DEFS: ExtendedAttributeDef[] = [
+  ['241', 'Extended-Attribute-1', 'extended'],
+  ['242', 'Extended-Attribute-2', 'extended'],
+  ['243', 'Extended-Attribute-3', 'extended'],
+  ['244', 'Extended-Attribute-4', 'extended'],
+  ['245', 'Extended-Attribute-5', 'long-extended'],
+  ['246', 'Extended-Attribute-6', 'long-extended'],
+  ['241.1', 'Frag-Status', 'integer', { 'Reserved': 0, 'Fragmentation-Supported': 1, 'More-Data-Pending': 2, 'More-Data-Request': 3 }],
+  ['241.2', 'Proxy-State-Length', 'integer'],
+  ['241.3', 'Response-Length', 'integer'],
+  ['241.4', 'Original-Packet-Code', 'integer'],
+];
+
+// Vendors used by the built-in MS-CHAP, Status-Server and WiMAX support.
+export const STANDARD_VENDORS: DictionaryVendor[] = [
+  { name: 'Microsoft', id: 311, typeLength: 1, lengthLength: 1, continuation: false },
+  { name: 'FreeRADIUS', id: 11344, typeLength: 1, lengthLength: 1, continuation: false },
+  { name: 'WiMAX', id: 24757, typeLength: 1, lengthLength: 1, continuation: true },
+];
+
+// RFC 2548 Microsoft vendor attributes used by MS-CHAP and EAP key delivery.
+const MICROSOFT_ATTRIBUTE_DEFS: [code: number, name: string, type: string][] = [
+  [1, 'MS-CHAP-Response', 'octets'],
+  [2, 'MS-CHAP-Error', 'string'],
+  [7, 'MS-MPPE-Encryption-Policy', 'integer'],
+  [8, 'MS-MPPE-Encryption-Types', 'integer'],
+  [10, 'MS-CHAP-Domain', 'string'],
+  [11, 'MS-CHAP-Challenge', 'octets'],
+  [12, 'MS-CHAP-MPPE-Keys', 'octets'],
+  [16, 'MS-MPPE-Send-Key', 'octets'],
+  [17, 'MS-MPPE-Recv-Key', 'octets'],
+  [25, 'MS-CHAP2-Response', 'octets'],
+  [26, 'MS-CHAP2-Success', 'octets'],
+  [28, 'MS-Primary-DNS-Server', 'ipaddr'],
+  [29, 'MS-Secondary-DNS-Server', 'ipaddr'],
+  [30, 'MS-Primary-NBNS-Server', 'ipaddr'],
+  [31, 'MS-Secondary-NBNS-Server', 'ipaddr'],
+];
+
+export const STANDARD_ATTRIBUTES: DictionaryAttribute[] = [
+  ...STANDARD_ATTRIBUTE_DEFS.map(([code, name, type, options = [], values = {}]) => ({
+    name, code, type, options, values,
+  })),
+  ...EXTENDED_ATTRIBUTE_DEFS.map(([oid, name, type, values = {}]) => ({
+    ...parseOid(oid)!, name, type, options: [], values,
+  })),
+  ...MICROSOFT_ATTRIBUTE_DEFS.map(([code, name, type]) => ({
+    name, code, type, vendorId: 311, options: [], values: {},
+  })),
+];
+
+// Vendor names the dictionary importer uses for attributes that are not vendor-specific.
+const STANDARD_VENDOR_NAMES = new Set(['', 'unknown', 'standard', 'ietf', 'rfc']);
+
+/**
+ * Splits a dotted attribute number such as "241.1" or "245.3.1" into the code of
+ * the attribute itself and the path of its parents. The top-level code must be
+ * 1-255 unless a larger maximum is given, as for vendors with 2 or 4 octet types.
+ */
+export function parseOid(oid: string, maxTopLevelCode = 255): { code: number; path: number[] } | undefined {
+  const trimmed = String(oid).trim();
+  if (!/^\d+(\.\d+)*$/.test(trimmed)) return undefined;
+  const numbers = trimmed.split('.').map(part => parseInt(part, 10));
+  if (numbers[0] < 1 || numbers[0] > maxTopLevelCode || numbers.slice(1).some(n => n > 255)) return undefined;
+  return { code: numbers[numbers.length - 1], path: numbers.slice(0, -1) };
+}
+
+/** The dotted attribute number, e.g. "26" or "241.1". */
+export function attributeOid(attribute: Pick<DictionaryAttribute, 'code' | 'path'>): string {
+  return [...(attribute.path || []), attribute.code].join('.');
+}
+
+/** Parses a VENDOR format= value such as "2,2" or "1,1,c"; missing or invalid parts default to 1,1. */
+export function parseVendorFormat(format?: string): Pick<DictionaryVendor, 'typeLength' | 'lengthLength' | 'continuation'> {
+  const [type, length, continuation] = (format || '').replace(/^format=/i, '').split(',').map(part => part.trim());
+  const typeLength = type === '2' ? 2 : type === '4' ? 4 : 1;
+  const lengthLength = length === '0' ? 0 : length === '2' ? 2 : 1;
+  return { typeLength, lengthLength, continuation: continuation?.toLowerCase() === 'c' && typeLength === 1 && lengthLength === 1 };
+}
+
+/**
+ * The vendors of a parsed dictionary file. Older imports only report the
+ * top-level vendorName/vendorId, which are used when no vendors list is present.
+ */
+export function vendorsFromParsedDictionary(parsed: Pick<ParseDictionaryContentOutput, 'vendorName' | 'vendorId' | 'vendors'>): ParsedVendor[] {
+  if (parsed.vendors && parsed.vendors.length > 0) return parsed.vendors;
+  return parsed.vendorName && parsed.vendorId ? [{ name: parsed.vendorName, id: parsed.vendorId }] : [];
+}
+
+/**
+ * Returns the value of a dictionary flag: '' for bare flags such as has_tag,
+ * the text after '=' for flags such as encrypt=1, or undefined when absent.
+ */
+export function getAttributeOption(attribute: DictionaryAttribute, option: string): string | undefined {
+  for (const entry of attribute.options) {
+    const [key, value = ''] = entry.split('=');
+    if (key.trim().toLowerCase() === option.toLowerCase()) return value.trim();
+  }
+  return undefined;
+}
+
+export class RadiusDictionary {
+  private attributesByName = new Map<string, DictionaryAttribute>();
+  private attributesByCode = new Map<string, DictionaryAttribute>();
+  private vendorsById = new Map<number, DictionaryVendor>();
+  private vendorsByName = new Map<string, DictionaryVendor>();
+
+  constructor(attributes: DictionaryAttribute[] = STANDARD_ATTRIBUTES, vendors: DictionaryVendor[] = STANDARD_VENDORS) {
+    vendors.forEach(vendor => this.addVendor(vendor));
+    attributes.forEach(attr => this.add(attr));
+  }
+
+  addVendor(vendor: DictionaryVendor): void {
+    this.vendorsById.set(vendor.id, vendor);
+    this.vendorsByName.set(vendor.name.toLowerCase(), vendor);
+  }
+
+  /** Adds the VENDOR definitions of an imported dictionary file; returns the count added. */
+  addParsedVendors(parsedVendors: ParsedVendor[]): number {
+    let added = 0;
+    for (const parsed of parsedVendors) {
+      const id = Number(parsed.id);
+      if (!parsed.name || !Number.isInteger(id) || id < 0) continue;
+      this.addVendor({ name: parsed.name, id, ...parseVendorFormat(parsed.format) });
+      added++;
+    }
+    return added;
+  }
+
+  findVendor(idOrName: number | string): DictionaryVendor | undefined {
+    return typeof idOrName === 'number' ? this.vendorsById.get(idOrName) : this.vendorsByName.get(idOrName.trim().toLowerCase());
+  }
+
+  private static codeKey(code: number, vendorId?: number, path: number[] = []): string {
+    return `${vendorId || 0}:${[...path, code].join('.')}`;
+  }
+
+  add(attribute: DictionaryAttribute): void {
+    // FreeRADIUS writes flags comma-separated ("has_tag,encrypt=2"); store them one per entry.
+    attribute = { ...attribute, options: attribute.options.flatMap(opt => opt.split(',')).map(opt => opt.trim()).filter(Boolean) };
+    this.attributesByName.set(attribute.name.toLowerCase(), attribute);
+    // Children are also reachable as "Parent.Child", which FreeRADIUS v4 dictionaries rely on
+    // because child names only need to be unique under their parent.
+    const path = attribute.path || [];
+    const parent = path.length > 0 ? this.findByCode(path[path.length - 1], attribute.vendorId, path.slice(0, -1)) : undefined;
+    if (parent) this.attributesByName.set(`${parent.name}.${attribute.name}`.toLowerCase(), attribute);
+    const key = RadiusDictionary.codeKey(attribute.code, attribute.vendorId, path);
+    // Keep the first definition for a code so decoded names stay stable when aliases are imported.
+    if (!this.attributesByCode.has(key)) {
+      this.attributesByCode.set(key, attribute);
+    }
+  }
+
+  /**
+   * Adds attributes parsed from an imported dictionary file: plain codes such as
+   * "26" and dotted extended or TLV numbers such as "241.1" or "245.3.1". Vendor
+   * attributes are registered when their vendor is known, so add the file's vendors
+   * first. Returns the count added.
+   */
+  addParsedAttributes(parsedAttributes: ParsedAttribute[]): number {
+    let added = 0;
+    for (const parsed of parsedAttributes) {
+      const standard = !parsed.vendor || STANDARD_VENDOR_NAMES.has(parsed.vendor.toLowerCase());
+      const vendor = standard ? undefined : this.findVendor(parsed.vendor!);
+      if (!standard && !vendor) continue;
+      const oid = parseOid(parsed.code, vendor ? 2 ** (8 * vendor.typeLength) - 1 : 255);
+      if (!oid) continue;
+
+      const values: Record<string, number> = {};
+      (parsed.enumValues || []).forEach(enumValue => {
+        const numeric = Number(enumValue.value);
+        if (!Number.isNaN(numeric)) values[enumValue.name] = numeric;
+      });
+
+      const existing = this.findByName(parsed.name);
+      this.add({
+        name: parsed.name,
+        code: oid.code,
+        vendorId: vendor?.id,
+        path: oid.path.length > 0 ? oid.path : undefined,
+        type: (parsed.type || 'octets').toLowerCase(),
+        options: parsed.options || existing?.options || [],
+        values: { ...(existing?.values || {}), ...values },
+      });
+      added++;
+    }
+    return added;
+  }
+
+  findByName(name: string): DictionaryAttribute | undefined {
+    return this.attributesByName.get(name.trim().toLowerCase());
+  }
+
+  findByCode(code: number, vendorId?: number, path: number[] = []): DictionaryAttribute | undefined {
+    return this.attributesByCode.get(RadiusDictionary.codeKey(code, vendorId, path));
+  }
+
+  /** Attributes defined directly under a tlv, struct or extended attribute, ordered by code. */
+  childrenOf(parent: DictionaryAttribute): DictionaryAttribute[] {
+    const prefix = `${RadiusDictionary.codeKey(parent.code, parent.vendorId, parent.path)}.`;
+    return Array.from(this.attributesByCode.entries())
+      .filter(([key]) => key.startsWith(prefix) && !key.slice(prefix.length).includes('.'))
+      .map(([, attribute]) => attribute)
+      .sort((a, b) => a.code - b.code);
+  }
+}
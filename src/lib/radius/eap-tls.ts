@@ -0,0 +1,492 @@
+// src/lib/radius/eap-tls.ts
+// TLS-based EAP methods. A Node TLS client runs over an in-memory duplex whose
+// records travel in EAP Type-Data using the RFC 5216 framing (flags, length,
+// fragmentation and ACKs). Methods: EAP-TLS (RFC 5216), EAP-TTLS/PAP (RFC 5281)
+// and PEAPv0/EAP-MSCHAPv2 (draft-kamath-pppext-peapv0).
+
+import { Duplex } from 'stream';
+import { connect, type TLSSocket } from 'tls';
+import { randomBytes, X509Certificate } from 'crypto';
+import { EAP_CODES, EAP_TYPES, eapTypeName, encodeEapPacket, type EapMethod, type EapPacket } from './eap';
+import { generateAuthenticatorResponse, generateNtResponse } from './mschap';
+
+declare module 'tls' {
+  interface TLSSocket {
+    /**
+     * RFC 5705 export without a context, as RFC 5216 key derivation uses. @types/node only
+     * declares the form with a context, and passing one (even empty) changes the PRF seed.
+     */
+    exportKeyingMaterial(length: number, label: string): Buffer;
+  }
+}
+
+const FLAG_LENGTH_INCLUDED = 0x80;
+const FLAG_MORE_FRAGMENTS = 0x40;
+const FLAG_START = 0x20;
+const FRAGMENT_SIZE = 1024;
+const SETTLE_INTERVAL_MS = 10;
+
+const EAP_TYPE_EXTENSIONS = 33; // PEAP Result TLV carrier
+const RESULT_TLV_TYPE = 3;
+const RESULT_SUCCESS = 1;
+const RESULT_FAILURE = 2;
+
+const MSCHAPV2_OPCODES = { CHALLENGE: 1, RESPONSE: 2, SUCCESS: 3, FAILURE: 4 } as const;
+
+const DIAMETER_AVP_MANDATORY = 0x40;
+const DIAMETER_AVP_VENDOR = 0x80;
+const AVP_USER_NAME = 1;
+const AVP_USER_PASSWORD = 2;
+const AVP_REPLY_MESSAGE = 18;
+
+// Set on the tunnel error when no CA is configured and the packet did not opt out of verification.
+export const NO_CA_CERTIFICATE_ERROR = 'ERR_EAP_NO_CA_CERTIFICATE';
+
+const EAP_TLS_MSK_LABEL = 'client EAP encryption';
+const EAP_TLS_MSK_LENGTH = 64;
+
+/** PEM material used to authenticate the server (CA) and, optionally, the client. */
+export interface EapTlsCredentials {
+  caCertificate?: string; // Required unless skipServerVerification is set
+  skipServerVerification?: boolean; // Accept any server certificate; TTLS/PEAP then send inner credentials to whoever answers
+  clientCertificate?: string;
+  clientPrivateKey?: string;
+}
+
+/**
+ * TLS client whose transport is an in-memory duplex: records received in EAP
+ * requests are pushed in, records TLS wants to send are collected for the next
+ * EAP response. Negotiation is capped at TLS 1.2, which RFC 5216/5281 and
+ * PEAPv0 deployments assume.
+ */
+export class EapTlsTunnel {
+  private readonly transport: Duplex;
+  private socket?: TLSSocket;
+  private outgoing: Buffer[] = [];
+  private applicationData: Buffer[] = [];
+  private activity = 0;
+  handshakeComplete = false;
+  error?: Error;
+
+  constructor(private readonly credentials: EapTlsCredentials) {
+    this.transport = new Duplex({
+      read: () => {},
+      write: (chunk: Buffer, _encoding, callback) => {
+        this.outgoing.push(Buffer.from(chunk));
+        this.activity++;
+        callback();
+      },
+    });
+  }
+
+  /** Starts the handshake; the ClientHello is available from takeOutgoing() once settled. */
+  async start(): Promise<void> {
+    const { caCertificate, clientCertificate, clientPrivateKey, skipServerVerification } = this.credentials;
+    if (!caCertificate && !skipServerVerification) {
+      // Fail before the ClientHello so no inner credentials can reach an unverified server.
+      this.error = Object.assign(
+        new Error('server certificate cannot be verified: no EAP CA certificate is configured. Set one on the server config, or skip server verification for this packet.'),
+        { code: NO_CA_CERTIFICATE_ERROR }
+      );
+      return;
+    }
+    this.socket = connect({
+      socket: this.transport,
+      ca: caCertificate || undefined,
+      cert: clientCertificate || undefined,
+      key: clientPrivateKey || undefined,
+      rejectUnauthorized: !skipServerVerification,
+      // RADIUS servers are not addressed by the name in their certificate; the CA check is what matters.
+      checkServerIdentity: () => undefined,
+      maxVersion: 'TLSv1.2',
+    });
+    this.socket.on('secureConnect', () => { this.handshakeComplete = true; this.activity++; });
+    this.socket.on('data', (data: Buffer) => { this.applicationData.push(data); this.activity++; });
+    this.socket.on('error', (error: Error) => { this.error = error; this.activity++; });
+    await this.settle();
+  }
+
+  /** Feeds TLS records from the server and waits until the client has reacted to them. */
+  async receive(records: Buffer): Promise<void> {
+    this.transport.push(records);
+    await this.settle();
+  }
+
+  async write(data: Buffer): Promise<void> {
+    if (!this.socket) throw new Error('TLS tunnel has not been started.');
+    this.socket.write(data);
+    await this.settle();
+  }
+
+  /** RFC 5705 exporter without context, i.e. TLS-PRF(master_secret, label, client_random || server_random). */
+  exportKeyingMaterial(length: number, label: string): Buffer | undefined {
+    if (!this.socket || !this.handshakeComplete) return undefined;
+    return this.socket.exportKeyingMaterial(length, label);
+  }
+
+  /** Throws if TLS reported an error (certificate verification, alert from the server, ...). */
+  throwIfFailed(stage: string): void {
+    if (!this.error) return;
+    // OpenSSL errors carry a short `reason` (e.g. "sslv3 alert certificate expired") next to the raw message.
+    const reason = (this.error as Error & { reason?: string }).reason;
+    throw new Error(`${stage}: ${reason || this.error.message}`);
+  }
+
+  takeOutgoing(): Buffer {
+    const records = Buffer.concat(this.outgoing);
+    this.outgoing = [];
+    return records;
+  }
+
+  takeApplicationData(): Buffer[] {
+    const data = this.applicationData;
+    this.applicationData = [];
+    return data;
+  }
+
+  describe(): string[] {
+    if (!this.socket || !this.handshakeComplete) return ['TLS: handshake did not complete'];
+    const cipher = this.socket.getCipher();
+    const peer = this.socket.getPeerCertificate();
+    const subject = peer?.subject?.CN ? `CN=${peer.subject.CN}` : 'unknown subject';
+    const verification = this.credentials.skipServerVerification
+      ? 'not verified (verification skipped for this packet)'
+      : this.socket.authorized ? 'verified against the configured CA' : `not verified: ${this.socket.authorizationError}`;
+    const lines = [
+      `TLS: ${this.socket.getProtocol() || 'unknown version'}, cipher ${cipher?.name || 'unknown'}`,
+      `Server certificate: ${subject}, ${verification}`,
+    ];
+    if (this.credentials.skipServerVerification) {
+      lines.push('Warning: server verification is skipped; any server could have completed this tunnel and received the inner credentials.');
+    }
+    return lines;
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.transport.destroy();
+  }
+
+  /** TLS processes records asynchronously; wait until a full interval passes without output or events. */
+  private async settle(): Promise<void> {
+    let seen = -1;
+    while (seen !== this.activity) {
+      seen = this.activity;
+      await new Promise(resolve => setTimeout(resolve, SETTLE_INTERVAL_MS));
+    }
+  }
+}
+
+/** Inner-method hooks driven by createTunnelledMethod once the TLS handshake completes. */
+interface InnerMethodHandler {
+  onHandshakeComplete(tunnel: EapTlsTunnel): Promise<void>;
+  onApplicationData(data: Buffer, request: EapPacket, tunnel: EapTlsTunnel): Promise<void>;
+  summary(): string[];
+}
+
+/**
+ * Wraps a TLS tunnel in the RFC 5216 framing: handles Start, reassembles
+ * fragmented server flights (answering each with an ACK), fragments client
+ * flights larger than FRAGMENT_SIZE and hands decrypted data to the inner method.
+ */
+function createTunnelledMethod(type: number, name: string, tunnel: EapTlsTunnel, inner: InnerMethodHandler): EapMethod {
+  let started = false;
+  let handshakeHandled = false;
+  let incoming: Buffer[] = [];
+  let pendingOutgoing: Buffer = Buffer.alloc(0);
+
+  const nextFragment = (): Buffer => {
+    if (pendingOutgoing.length <= FRAGMENT_SIZE) {
+      const last = pendingOutgoing;
+      pendingOutgoing = Buffer.alloc(0);
+      return Buffer.concat([Buffer.from([0]), last]);
+    }
+    const fragment = pendingOutgoing.subarray(0, FRAGMENT_SIZE);
+    pendingOutgoing = pendingOutgoing.subarray(FRAGMENT_SIZE);
+    return Buffer.concat([Buffer.from([FLAG_MORE_FRAGMENTS]), fragment]);
+  };
+
+  const sendOutgoing = (): Buffer => {
+    const records = tunnel.takeOutgoing();
+    if (records.length === 0) return Buffer.from([0]); // ACK
+    if (records.length <= FRAGMENT_SIZE) return Buffer.concat([Buffer.from([0]), records]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(records.length, 0);
+    pendingOutgoing = records.subarray(FRAGMENT_SIZE);
+    return Buffer.concat([Buffer.from([FLAG_LENGTH_INCLUDED | FLAG_MORE_FRAGMENTS]), length, records.subarray(0, FRAGMENT_SIZE)]);
+  };
+
+  return {
+    type,
+    name,
+    async respond(request: EapPacket): Promise<Buffer> {
+      const flags = request.data[0] ?? 0;
+      if (flags & FLAG_START) {
+        if (started) throw new Error('Server restarted the TLS handshake.');
+        started = true;
+        await tunnel.start();
+        tunnel.throwIfFailed('TLS handshake failed');
+        return sendOutgoing();
+      }
+      if (!started) throw new Error('Server did not send a Start request.');
+
+      const fragment = request.data.subarray(flags & FLAG_LENGTH_INCLUDED ? 5 : 1);
+      if (pendingOutgoing.length > 0) {
+        if (fragment.length > 0) throw new Error('Server sent data before acknowledging all client fragments.');
+        return nextFragment();
+      }
+      incoming.push(fragment);
+      if (flags & FLAG_MORE_FRAGMENTS) return Buffer.from([0]);
+
+      const records = Buffer.concat(incoming);
+      incoming = [];
+      if (records.length > 0) await tunnel.receive(records);
+      tunnel.throwIfFailed(tunnel.handshakeComplete ? 'TLS tunnel failed' : 'TLS handshake failed');
+
+      if (tunnel.handshakeComplete && !handshakeHandled) {
+        handshakeHandled = true;
+        await inner.onHandshakeComplete(tunnel);
+      }
+      for (const data of tunnel.takeApplicationData()) {
+        await inner.onApplicationData(data, request, tunnel);
+      }
+      tunnel.throwIfFailed('TLS tunnel failed');
+      return sendOutgoing();
+    },
+    summary(): string[] {
+      return [...tunnel.describe(), ...inner.summary()];
+    },
+    close(): void {
+      tunnel.close();
+    },
+  };
+}
+
+/**
+ * Distinct results of an EAP-TLS authentication, so certificate regression tests
+ * can assert on the reason rather than on a generic failure.
+ */
+export type EapTlsOutcome =
+  | 'success'
+  | 'rejected'
+  | 'client-certificate-expired'
+  | 'client-certificate-revoked'
+  | 'client-certificate-unknown-ca'
+  | 'client-certificate-rejected'
+  | 'server-certificate-expired'
+  | 'server-certificate-untrusted'
+  | 'server-certificate-unverified'
+  | 'tls-error'
+  | 'incomplete';
+
+// Node/OpenSSL error codes: ERR_SSL_*_ALERT_* are alerts received from the server about
+// our certificate; the others come from verifying the server chain against the configured CA,
+// or from there being no CA to verify it against.
+const TLS_ERROR_OUTCOMES: Record<string, EapTlsOutcome> = {
+  ERR_SSL_SSLV3_ALERT_CERTIFICATE_EXPIRED: 'client-certificate-expired',
+  ERR_SSL_SSLV3_ALERT_CERTIFICATE_REVOKED: 'client-certificate-revoked',
+  ERR_SSL_TLSV1_ALERT_UNKNOWN_CA: 'client-certificate-unknown-ca',
+  ERR_SSL_SSLV3_ALERT_BAD_CERTIFICATE: 'client-certificate-rejected',
+  ERR_SSL_SSLV3_ALERT_CERTIFICATE_UNKNOWN: 'client-certificate-rejected',
+  ERR_SSL_SSLV3_ALERT_UNSUPPORTED_CERTIFICATE: 'client-certificate-rejected',
+  CERT_HAS_EXPIRED: 'server-certificate-expired',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'server-certificate-untrusted',
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'server-certificate-untrusted',
+  SELF_SIGNED_CERT_IN_CHAIN: 'server-certificate-untrusted',
+  DEPTH_ZERO_SELF_SIGNED_CERT: 'server-certificate-untrusted',
+  CERT_SIGNATURE_FAILURE: 'server-certificate-untrusted',
+  [NO_CA_CERTIFICATE_ERROR]: 'server-certificate-unverified',
+};
+
+export interface EapTlsMethod extends EapMethod {
+  /** Classifies the authentication given the code of the final RADIUS reply. */
+  outcome(finalReplyCode?: string): EapTlsOutcome;
+  /** RFC 5216 section 2.3 Master Session Key, available once the handshake completed. */
+  msk(): Buffer | undefined;
+}
+
+function describeCertificate(pem: string): string {
+  try {
+    const certificate = new X509Certificate(pem);
+    const expired = new Date(certificate.validTo).getTime() < Date.now() ? ' (expired)' : '';
+    return `${certificate.subject.replace(/\n/g, ', ')}, valid until ${certificate.validTo}${expired}`;
+  } catch (error: unknown) {
+    return `unreadable (${error instanceof Error ? error.message : String(error)})`;
+  }
+}
+
+/** EAP-TLS: mutual certificate authentication with no inner method. */
+export function createEapTlsMethod(credentials: EapTlsCredentials): EapTlsMethod {
+  if (!credentials.clientCertificate || !credentials.clientPrivateKey) {
+    throw new Error('EAP-TLS requires a client certificate and private key.');
+  }
+  const clientCertificate = credentials.clientCertificate;
+  const tunnel = new EapTlsTunnel(credentials);
+  let msk: Buffer | undefined;
+  const method = createTunnelledMethod(EAP_TYPES.TLS, 'EAP-TLS', tunnel, {
+    async onHandshakeComplete() {
+      // Nothing is tunnelled; the client acknowledges the server's Finished and waits for EAP-Success.
+      // The MSK is exported now because the tunnel is closed before the reply is checked.
+      msk = tunnel.exportKeyingMaterial(EAP_TLS_MSK_LENGTH, EAP_TLS_MSK_LABEL);
+    },
+    async onApplicationData() {},
+    summary() {
+      return [`Client certificate: ${describeCertificate(clientCertificate)}`];
+    },
+  });
+  return {
+    ...method,
+    outcome(finalReplyCode?: string): EapTlsOutcome {
+      if (tunnel.error) {
+        const code = (tunnel.error as NodeJS.ErrnoException).code;
+        return (code && TLS_ERROR_OUTCOMES[code]) || 'tls-error';
+      }
+      if (finalReplyCode === 'Access-Accept') return tunnel.handshakeComplete ? 'success' : 'incomplete';
+      if (finalReplyCode === 'Access-Reject') return 'rejected';
+      return 'incomplete';
+    },
+    msk(): Buffer | undefined {
+      return msk;
+    },
+  };
+}
+
+function encodeDiameterAvp(code: number, value: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(code, 0);
+  header.writeUInt32BE(8 + value.length, 4);
+  header[4] = DIAMETER_AVP_MANDATORY;
+  const padding = Buffer.alloc((4 - (value.length % 4)) % 4);
+  return Buffer.concat([header, value, padding]);
+}
+
+function decodeDiameterAvps(data: Buffer): { code: number; value: Buffer }[] {
+  const avps: { code: number; value: Buffer }[] = [];
+  let offset = 0;
+  while (offset + 8 <= data.length) {
+    const code = data.readUInt32BE(offset);
+    const flags = data[offset + 4];
+    const length = data.readUIntBE(offset + 5, 3);
+    if (length < 8 || offset + length > data.length) break;
+    const valueStart = offset + (flags & DIAMETER_AVP_VENDOR ? 12 : 8);
+    avps.push({ code, value: data.subarray(valueStart, offset + length) });
+    offset += Math.ceil(length / 4) * 4;
+  }
+  return avps;
+}
+
+/** EAP-TTLS with inner PAP: User-Name and User-Password AVPs are sent once the tunnel is up. */
+export function createTtlsPapMethod(identity: string, password: string, credentials: EapTlsCredentials): EapMethod {
+  const replyMessages: string[] = [];
+  let credentialsSent = false;
+  return createTunnelledMethod(EAP_TYPES.TTLS, 'EAP-TTLS/PAP', new EapTlsTunnel(credentials), {
+    async onHandshakeComplete(tunnel) {
+      // RFC 5281 section 11.2.5: the password is null-padded to a multiple of 16 octets.
+      const passwordBytes = Buffer.from(password, 'utf8');
+      const padded = Buffer.alloc(Math.max(16, Math.ceil(passwordBytes.length / 16) * 16));
+      passwordBytes.copy(padded);
+      await tunnel.write(Buffer.concat([
+        encodeDiameterAvp(AVP_USER_NAME, Buffer.from(identity, 'utf8')),
+        encodeDiameterAvp(AVP_USER_PASSWORD, padded),
+      ]));
+      credentialsSent = true;
+    },
+    async onApplicationData(data) {
+      decodeDiameterAvps(data)
+        .filter(avp => avp.code === AVP_REPLY_MESSAGE)
+        .forEach(avp => replyMessages.push(avp.value.toString('utf8')));
+    },
+    summary() {
+      const lines = [credentialsSent
+        ? 'Inner PAP: credentials sent in the tunnel; the outer Access-Accept/Reject carries the outcome'
+        : 'Inner PAP: credentials were not sent'];
+      replyMessages.forEach(message => lines.push(`Inner Reply-Message: ${message}`));
+      return lines;
+    },
+  });
+}
+
+/**
+ * PEAPv0 with inner EAP-MSCHAPv2. Inner EAP packets travel without their
+ * 4-byte header, except Extensions (Result TLV) packets which are sent whole.
+ */
+export function createPeapMsChapV2Method(identity: string, password: string, credentials: EapTlsCredentials): EapMethod {
+  let innerOutcome = 'Inner MSCHAPv2: not started';
+  let resultTlv: string | undefined;
+  let msChap: { authenticatorChallenge: Buffer; peerChallenge: Buffer; ntResponse: Buffer } | undefined;
+  let innerSucceeded = false;
+
+  const handleMsChapV2 = (data: Buffer): Buffer => {
+    const opCode = data[0];
+    const msChapId = data[1];
+    if (opCode === MSCHAPV2_OPCODES.CHALLENGE) {
+      const valueSize = data[4];
+      if (valueSize !== 16 || data.length < 21) throw new Error('Inner MSCHAPv2 challenge is malformed.');
+      const authenticatorChallenge = Buffer.from(data.subarray(5, 21));
+      const peerChallenge = randomBytes(16);
+      const ntResponse = generateNtResponse(authenticatorChallenge, peerChallenge, identity, password);
+      msChap = { authenticatorChallenge, peerChallenge, ntResponse };
+      innerOutcome = 'Inner MSCHAPv2: response sent, no Success/Failure received';
+      const name = Buffer.from(identity, 'utf8');
+      const body = Buffer.concat([
+        Buffer.from([MSCHAPV2_OPCODES.RESPONSE, msChapId, 0, 0, 49]),
+        peerChallenge, Buffer.alloc(8), ntResponse, Buffer.from([0]),
+        name,
+      ]);
+      body.writeUInt16BE(body.length, 2);
+      return body;
+    }
+    if (opCode === MSCHAPV2_OPCODES.SUCCESS) {
+      const message = data.subarray(4).toString('ascii');
+      if (!msChap) throw new Error('Inner MSCHAPv2 Success received before a challenge.');
+      const expected = generateAuthenticatorResponse(password, msChap.ntResponse, msChap.peerChallenge, msChap.authenticatorChallenge, identity);
+      const received = message.match(/S=[0-9A-Fa-f]{40}/)?.[0].toUpperCase();
+      if (received !== expected) {
+        innerOutcome = `Inner MSCHAPv2: server authenticator response did not verify (received ${received || 'none'})`;
+        throw new Error('Inner MSCHAPv2 authenticator response is invalid; the server does not know the password.');
+      }
+      innerSucceeded = true;
+      innerOutcome = 'Inner MSCHAPv2: success, authenticator response verified';
+      return Buffer.from([MSCHAPV2_OPCODES.SUCCESS]);
+    }
+    if (opCode === MSCHAPV2_OPCODES.FAILURE) {
+      innerOutcome = `Inner MSCHAPv2: failure (${data.subarray(4).toString('ascii')})`;
+      return Buffer.from([MSCHAPV2_OPCODES.FAILURE]);
+    }
+    throw new Error(`Unexpected inner MSCHAPv2 OpCode ${opCode}.`);
+  };
+
+  return createTunnelledMethod(EAP_TYPES.PEAP, 'PEAPv0/EAP-MSCHAPv2', new EapTlsTunnel(credentials), {
+    async onHandshakeComplete() {
+      // PEAPv0 clients wait for the server's tunnelled Identity request.
+    },
+    async onApplicationData(data, outerRequest, tunnel) {
+      const isFullPacket = data.length >= 5 && data[0] === EAP_CODES.REQUEST && data.readUInt16BE(2) === data.length;
+      const identifier = isFullPacket ? data[1] : outerRequest.identifier;
+      const type = isFullPacket ? data[4] : data[0];
+      const typeData = data.subarray(isFullPacket ? 5 : 1);
+
+      let responseType = type;
+      let responseData: Buffer;
+      if (type === EAP_TYPES.IDENTITY) {
+        responseData = Buffer.from(identity, 'utf8');
+      } else if (type === EAP_TYPES.MSCHAPV2) {
+        responseData = handleMsChapV2(typeData);
+      } else if (type === EAP_TYPE_EXTENSIONS) {
+        const status = typeData.length >= 6 && (typeData.readUInt16BE(0) & 0x3fff) === RESULT_TLV_TYPE ? typeData.readUInt16BE(4) : undefined;
+        resultTlv = status === RESULT_SUCCESS ? 'Success' : status === RESULT_FAILURE ? 'Failure' : 'unrecognised';
+        const reply = Buffer.from([0x80, RESULT_TLV_TYPE, 0, 2, 0, innerSucceeded && status === RESULT_SUCCESS ? RESULT_SUCCESS : RESULT_FAILURE]);
+        await tunnel.write(encodeEapPacket({ code: EAP_CODES.RESPONSE, identifier, type, data: reply }));
+        return;
+      } else {
+        innerOutcome = `Inner method: server proposed EAP-${eapTypeName(type)}; replied with Nak for MSCHAPv2`;
+        responseType = EAP_TYPES.NAK;
+        responseData = Buffer.from([EAP_TYPES.MSCHAPV2]);
+      }
+      await tunnel.write(Buffer.concat([Buffer.from([responseType]), responseData]));
+    },
+    summary() {
+      return resultTlv ? [innerOutcome, `PEAP Result TLV: ${resultTlv}`] : [innerOutcome];
+    },
+  });
+}
@@ -0,0 +1,114 @@
+// src/lib/radius/eap.ts
+// EAP packet codec (RFC 3748), EAP-Message fragmentation (RFC 3579) and the
+// client side of EAP methods driven by the RADIUS conversation engine.
+
+import { createHash } from 'crypto';
+import { RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH } from './packet';
+
+export const EAP_CODES = {
+  REQUEST: 1,
+  RESPONSE: 2,
+  SUCCESS: 3,
+  FAILURE: 4,
+} as const;
+
+export const EAP_TYPES = {
+  IDENTITY: 1,
+  NOTIFICATION: 2,
+  NAK: 3,
+  MD5_CHALLENGE: 4,
+  TLS: 13,
+  TTLS: 21,
+  PEAP: 25,
+  MSCHAPV2: 26,
+} as const;
+
+const EAP_CODE_NAMES: Record<number, string> = { 1: 'Request', 2: 'Response', 3: 'Success', 4: 'Failure' };
+const EAP_TYPE_NAMES: Record<number, string> = {
+  1: 'Identity', 2: 'Notification', 3: 'Nak', 4: 'MD5-Challenge', 13: 'TLS', 21: 'TTLS', 25: 'PEAP', 26: 'MSCHAPv2',
+};
+
+export interface EapPacket {
+  code: number;
+  identifier: number;
+  type?: number; // Present for Request/Response only
+  data: Buffer; // Type-Data
+}
+
+/**
+ * Client side of an EAP method. `respond` receives each EAP-Request of the
+ * method's type and returns the Type-Data for the matching EAP-Response.
+ */
+export interface EapMethod {
+  type: number;
+  name: string;
+  respond(request: EapPacket): Promise<Buffer>;
+  /** Lines describing the outcome of the method, added to the tool output once the conversation ends. */
+  summary?(): string[];
+  /** Releases resources held by the method (e.g. a TLS tunnel) when the conversation ends. */
+  close?(): void;
+}
+
+export function eapCodeName(code: number): string {
+  return EAP_CODE_NAMES[code] || `Code-${code}`;
+}
+
+export function eapTypeName(type: number): string {
+  return EAP_TYPE_NAMES[type] || `Type-${type}`;
+}
+
+export function describeEapPacket(packet: EapPacket): string {
+  const type = packet.type !== undefined ? `/${eapTypeName(packet.type)}` : '';
+  return `EAP-${eapCodeName(packet.code)}${type} Id ${packet.identifier}`;
+}
+
+export function encodeEapPacket(packet: EapPacket): Buffer {
+  const hasType = packet.code === EAP_CODES.REQUEST || packet.code === EAP_CODES.RESPONSE;
+  const header = Buffer.alloc(hasType ? 5 : 4);
+  header.writeUInt8(packet.code, 0);
+  header.writeUInt8(packet.identifier & 0xff, 1);
+  header.writeUInt16BE(header.length + (hasType ? packet.data.length : 0), 2);
+  if (hasType) header.writeUInt8(packet.type ?? 0, 4);
+  return hasType ? Buffer.concat([header, packet.data]) : header;
+}
+
+export function decodeEapPacket(data: Buffer): EapPacket {
+  if (data.length < 4) throw new Error(`EAP packet is ${data.length} bytes; at least 4 are required.`);
+  const length = data.readUInt16BE(2);
+  if (length < 4 || length > data.length) throw new Error(`Invalid EAP length field: ${length} (have ${data.length} bytes).`);
+  const code = data[0];
+  if ((code === EAP_CODES.REQUEST || code === EAP_CODES.RESPONSE) && length >= 5) {
+    return { code, identifier: data[1], type: data[4], data: Buffer.from(data.subarray(5, length)) };
+  }
+  return { code, identifier: data[1], data: Buffer.alloc(0) };
+}
+
+/** Splits an EAP packet into EAP-Message attribute values of at most 253 bytes each. */
+export function splitEapMessage(eap: Buffer): Buffer[] {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < eap.length; offset += RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH) {
+    chunks.push(eap.subarray(offset, offset + RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH));
+  }
+  return chunks;
+}
+
+/** RFC 3748 section 5.4: Response Value = MD5(Identifier + password + Challenge). */
+export function createMd5ChallengeMethod(password: string): EapMethod {
+  return {
+    type: EAP_TYPES.MD5_CHALLENGE,
+    name: 'EAP-MD5',
+    async respond(request: EapPacket): Promise<Buffer> {
+      const valueSize = request.data[0];
+      if (valueSize === undefined || request.data.length < 1 + valueSize) {
+        throw new Error('EAP-MD5 challenge is truncated.');
+      }
+      const challenge = request.data.subarray(1, 1 + valueSize);
+      const digest = createHash('md5')
+        .update(Buffer.from([request.identifier]))
+        .update(password, 'utf8')
+        .update(challenge)
+        .digest();
+      return Buffer.concat([Buffer.from([digest.length]), digest]);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// src/lib/radius/execution-capture.ts
+// Server-side storage for the RADIUS traffic of a test execution, kept per
+// datagram so the run can be exported as a packet capture.
+
+import { getDb } from '@/lib/db';
+import { v4 as uuidv4 } from 'uuid';
+import type { RecordedDatagram } from './pcap';
+
+/**
+ * Stores the datagrams of one RADIUS step. A failure is logged rather than thrown, so a
+ * storage problem never fails the step whose traffic it records.
+ */
+export async function recordExecutionDatagrams(testExecutionId: string, datagrams: RecordedDatagram[]): Promise<void> {
+  if (datagrams.length === 0) return;
+  try {
+    const db = await getDb();
+    await db.exec('BEGIN TRANSACTION');
+    try {
+      const stmt = await db.prepare(
+        `INSERT INTO execution_datagrams (id, testExecutionId, timestamp, direction, protocol, source, destination, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const datagram of datagrams) {
+        await stmt.run(uuidv4(), testExecutionId, datagram.timestamp, datagram.direction, datagram.protocol, datagram.source, datagram.destination, datagram.hex);
+      }
+      await stmt.finalize();
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Failed to record packets for execution ${testExecutionId}:`, error);
+  }
+}
+
+/** The execution's datagrams in the order they were sent and received. */
+export async function loadExecutionDatagrams(testExecutionId: string): Promise<RecordedDatagram[]> {
+  const db = await getDb();
+  const rows = await db.all(
+    'SELECT timestamp, direction, protocol, source, destination, data FROM execution_datagrams WHERE testExecutionId = ? ORDER BY timestamp ASC, rowid ASC',
+    testExecutionId
+  );
+  return rows.map(row => ({
+    timestamp: row.timestamp,
+    direction: row.direction,
+    protocol: row.protocol,
+    source: row.source,
+    destination: row.destination,
+    hex: row.data,
+  }));
+}
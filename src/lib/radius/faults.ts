@@ -0,0 +1,117 @@
+// src/lib/radius/faults.ts
+// Decides what a fault profile does to each datagram the injection proxy relays. Kept free
+// of sockets; every random choice comes from a seeded generator, so the same seed and the
+// same traffic produce the same faults on every run.
+
+import type { FaultKind, FaultRule } from '@/lib/types';
+import { codeToName, RADIUS_HEADER_LENGTH, RADIUS_MAX_PACKET_LENGTH } from './packet';
+
+export type FaultDirection = 'request' | 'reply';
+
+export const DEFAULT_REORDER_HOLD_MS = 1000;
+
+export interface FaultDelivery {
+  data: Buffer;
+  delayMs: number;
+}
+
+export interface FaultPlan {
+  deliveries: FaultDelivery[]; // Empty when the datagram is dropped
+  holdMs?: number; // reorder: held until the next datagram in the same direction has gone, or this long
+  applied: string[]; // Description of each fault applied, in rule order
+}
+
+/** mulberry32: a tiny PRNG, plenty for repeatable fault decisions. Returns values in [0, 1). */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function describeFault(rule: FaultRule): string {
+  switch (rule.kind) {
+    case 'drop': return 'dropped';
+    case 'delay': return `delayed ${rule.delayMs}ms${rule.jitterMs ? ` ±${rule.jitterMs}ms` : ''}`;
+    case 'duplicate': return `duplicated x${Math.max(1, rule.copies)}`;
+    case 'reorder': return 'held back to be overtaken';
+    case 'truncate': return `truncated to ${Math.max(0, rule.truncateTo)} octets`;
+    case 'corrupt_authenticator': return 'authenticator corrupted';
+    default: return rule.kind;
+  }
+}
+
+/**
+ * Applies the enabled rules matching the datagram's direction and packet type, in order.
+ * A drop ends evaluation; the other faults combine (a duplicated packet can also be delayed).
+ */
+export function planFaults(datagram: Buffer, direction: FaultDirection, rules: FaultRule[], random: () => number): FaultPlan {
+  const packetType = datagram.length > 0 ? codeToName(datagram[0]) : 'unknown';
+  let deliveries: FaultDelivery[] = [{ data: datagram, delayMs: 0 }];
+  let holdMs: number | undefined;
+  const applied: string[] = [];
+
+  for (const rule of rules) {
+    if (!rule.isEnabled) continue;
+    if (rule.direction !== 'both' && rule.direction !== direction) continue;
+    if (rule.packetType && rule.packetType !== 'any' && rule.packetType !== packetType) continue;
+    if (random() * 100 >= rule.probability) continue;
+    applied.push(describeFault(rule));
+
+    switch (rule.kind) {
+      case 'drop':
+        return { deliveries: [], applied };
+      case 'delay': {
+        const jitter = rule.jitterMs ? (random() * 2 - 1) * rule.jitterMs : 0;
+        deliveries = deliveries.map(d => ({ ...d, delayMs: Math.max(0, Math.round(d.delayMs + rule.delayMs + jitter)) }));
+        break;
+      }
+      case 'duplicate':
+        deliveries = deliveries.flatMap(d => Array.from({ length: 1 + Math.max(1, rule.copies) }, () => ({ ...d })));
+        break;
+      case 'reorder':
+        holdMs = rule.delayMs > 0 ? rule.delayMs : DEFAULT_REORDER_HOLD_MS;
+        break;
+      case 'truncate':
+        deliveries = deliveries.map(d => ({ ...d, data: d.data.subarray(0, Math.max(0, rule.truncateTo)) }));
+        break;
+      case 'corrupt_authenticator': {
+        // One octet of the 16-octet authenticator, so the receiver's signature check fails.
+        const offset = 4 + Math.floor(random() * 16);
+        deliveries = deliveries.map(d => {
+          if (d.data.length < RADIUS_HEADER_LENGTH) return d;
+          const data = Buffer.from(d.data);
+          data[offset] ^= 0xff;
+          return { ...d, data };
+        });
+        break;
+      }
+    }
+  }
+  return { deliveries, holdMs, applied };
+}
+
+export const FAULT_KINDS: FaultKind[] = ['drop', 'delay', 'duplicate', 'reorder', 'truncate', 'corrupt_authenticator'];
+
+/** Clamps the numeric settings of stored rules; throws on an unknown fault kind or direction. */
+export function normalizeFaultRules(rules: FaultRule[]): FaultRule[] {
+  return rules.map(rule => {
+    if (!FAULT_KINDS.includes(rule.kind)) throw new Error(`Unknown fault kind: ${rule.kind}`);
+    if (!['request', 'reply', 'both'].includes(rule.direction)) throw new Error(`Unknown fault direction: ${rule.direction}`);
+    const clamp = (value: unknown, min: number, max: number) => Math.min(max, Math.max(min, Number(value) || 0));
+    return {
+      ...rule,
+      isEnabled: rule.isEnabled !== false,
+      packetType: rule.packetType || 'any',
+      probability: clamp(rule.probability, 0, 100),
+      delayMs: clamp(rule.delayMs, 0, 60000),
+      jitterMs: clamp(rule.jitterMs, 0, 60000),
+      copies: clamp(rule.copies, 1, 10),
+      truncateTo: clamp(rule.truncateTo, 0, RADIUS_MAX_PACKET_LENGTH),
+    };
+  });
+}
@@ -0,0 +1,111 @@
+// src/lib/radius/freeradius-stats.ts
+// FreeRADIUS statistics vendor attributes (dictionary.freeradius, vendor 11344),
+// returned in replies to Status-Server (RFC 5997) when the server's status
+// virtual server or a listener with status_server enabled is queried.
+
+import type { DictionaryAttribute } from './dictionary';
+import { decodeAttributeValue, decodeVendorSpecific, encodeVendorSpecific, type RawAttribute } from './packet';
+
+export const FREERADIUS_VENDOR_ID = 11344;
+export const FREERADIUS_STATISTICS_TYPE = 127;
+
+// Bit flags for FreeRADIUS-Statistics-Type; 'All' covers the server-wide counters.
+export const FREERADIUS_STATISTICS_TYPES = {
+  'None': 0, 'Authentication': 1, 'Accounting': 2, 'Proxy-Authentication': 4, 'Proxy-Accounting': 8,
+  'Internal': 16, 'Client': 32, 'Server': 64, 'Home-Server': 128, 'Auth-Acct': 3, 'Proxy-Auth-Acct': 12, 'All': 31,
+};
+
+type StatisticsAttributeDef = [code: number, name: string, type?: string];
+
+const STATISTICS_ATTRIBUTE_DEFS: StatisticsAttributeDef[] = [
+  [127, 'FreeRADIUS-Statistics-Type'],
+  [128, 'FreeRADIUS-Total-Access-Requests'],
+  [129, 'FreeRADIUS-Total-Access-Accepts'],
+  [130, 'FreeRADIUS-Total-Access-Rejects'],
+  [131, 'FreeRADIUS-Total-Access-Challenges'],
+  [132, 'FreeRADIUS-Total-Auth-Responses'],
+  [133, 'FreeRADIUS-Total-Auth-Duplicate-Requests'],
+  [134, 'FreeRADIUS-Total-Auth-Malformed-Requests'],
+  [135, 'FreeRADIUS-Total-Auth-Invalid-Requests'],
+  [136, 'FreeRADIUS-Total-Auth-Dropped-Requests'],
+  [137, 'FreeRADIUS-Total-Auth-Unknown-Types'],
+  [138, 'FreeRADIUS-Total-Proxy-Access-Requests'],
+  [139, 'FreeRADIUS-Total-Proxy-Access-Accepts'],
+  [140, 'FreeRADIUS-Total-Proxy-Access-Rejects'],
+  [141, 'FreeRADIUS-Total-Proxy-Access-Challenges'],
+  [142, 'FreeRADIUS-Total-Proxy-Auth-Responses'],
+  [143, 'FreeRADIUS-Total-Proxy-Auth-Duplicate-Requests'],
+  [144, 'FreeRADIUS-Total-Proxy-Auth-Malformed-Requests'],
+  [145, 'FreeRADIUS-Total-Proxy-Auth-Invalid-Requests'],
+  [146, 'FreeRADIUS-Total-Proxy-Auth-Dropped-Requests'],
+  [147, 'FreeRADIUS-Total-Proxy-Auth-Unknown-Types'],
+  [148, 'FreeRADIUS-Total-Accounting-Requests'],
+  [149, 'FreeRADIUS-Total-Accounting-Responses'],
+  [150, 'FreeRADIUS-Total-Acct-Duplicate-Requests'],
+  [151, 'FreeRADIUS-Total-Acct-Malformed-Requests'],
+  [152, 'FreeRADIUS-Total-Acct-Invalid-Requests'],
+  [153, 'FreeRADIUS-Total-Acct-Dropped-Requests'],
+  [154, 'FreeRADIUS-Total-Acct-Unknown-Types'],
+  [155, 'FreeRADIUS-Total-Proxy-Accounting-Requests'],
+  [156, 'FreeRADIUS-Total-Proxy-Accounting-Responses'],
+  [157, 'FreeRADIUS-Total-Proxy-Acct-Duplicate-Requests'],
+  [158, 'FreeRADIUS-Total-Proxy-Acct-Malformed-Requests'],
+  [159, 'FreeRADIUS-Total-Proxy-Acct-Invalid-Requests'],
+  [160, 'FreeRADIUS-Total-Proxy-Acct-Dropped-Requests'],
+  [161, 'FreeRADIUS-Total-Proxy-Acct-Unknown-Types'],
+  [162, 'FreeRADIUS-Queue-Len-Internal'],
+  [163, 'FreeRADIUS-Queue-Len-Proxy'],
+  [164, 'FreeRADIUS-Queue-Len-Auth'],
+  [165, 'FreeRADIUS-Queue-Len-Acct'],
+  [166, 'FreeRADIUS-Queue-Len-Detail'],
+  [167, 'FreeRADIUS-Stats-Client-IP-Address', 'ipaddr'],
+  [168, 'FreeRADIUS-Stats-Client-Number'],
+  [169, 'FreeRADIUS-Stats-Client-Netmask'],
+  [170, 'FreeRADIUS-Stats-Server-IP-Address', 'ipaddr'],
+  [171, 'FreeRADIUS-Stats-Server-Port'],
+  [172, 'FreeRADIUS-Stats-Server-Outstanding-Requests'],
+  [173, 'FreeRADIUS-Stats-Server-State'],
+  [174, 'FreeRADIUS-Stats-Server-Time-Of-Death', 'date'],
+  [175, 'FreeRADIUS-Stats-Server-Time-Of-Life', 'date'],
+  [176, 'FreeRADIUS-Stats-Start-Time', 'date'],
+  [177, 'FreeRADIUS-Stats-HUP-Time', 'date'],
+  [178, 'FreeRADIUS-Server-EMA-Window'],
+  [179, 'FreeRADIUS-Server-EMA-USEC-Window-1'],
+  [180, 'FreeRADIUS-Server-EMA-USEC-Window-10'],
+  [181, 'FreeRADIUS-Queue-PPS-In'],
+  [182, 'FreeRADIUS-Queue-PPS-Out'],
+  [183, 'FreeRADIUS-Queue-Use-Percentage'],
+  [184, 'FreeRADIUS-Stats-Last-Packet-Recv', 'date'],
+  [185, 'FreeRADIUS-Stats-Last-Packet-Sent', 'date'],
+  [186, 'FreeRADIUS-Stats-Error', 'string'],
+  [187, 'FreeRADIUS-Stats-Client-IPv6-Address', 'ipv6addr'],
+  [188, 'FreeRADIUS-Stats-Server-IPv6-Address', 'ipv6addr'],
+];
+
+const STATISTICS_ATTRIBUTES = new Map<number, DictionaryAttribute>(
+  STATISTICS_ATTRIBUTE_DEFS.map(([code, name, type = 'integer']) => [code, {
+    name, code, type, vendorId: FREERADIUS_VENDOR_ID, options: [],
+    values: code === FREERADIUS_STATISTICS_TYPE ? FREERADIUS_STATISTICS_TYPES : {},
+  }])
+);
+
+/** Vendor-Specific value asking the server for the given FreeRADIUS-Statistics-Type. */
+export function encodeStatisticsRequest(type: keyof typeof FREERADIUS_STATISTICS_TYPES = 'All'): Buffer {
+  const value = Buffer.alloc(4);
+  value.writeUInt32BE(FREERADIUS_STATISTICS_TYPES[type]);
+  return encodeVendorSpecific(FREERADIUS_VENDOR_ID, FREERADIUS_STATISTICS_TYPE, value);
+}
+
+/** Decodes every FreeRADIUS statistics attribute found in a reply's Vendor-Specific attributes. */
+export function decodeFreeRadiusStatistics(attributes: RawAttribute[]): { name: string; value: string }[] {
+  return attributes
+    .filter(attr => attr.type === 26)
+    .flatMap(attr => decodeVendorSpecific(attr.value))
+    .filter(vsa => vsa.vendorId === FREERADIUS_VENDOR_ID)
+    .map(vsa => {
+      const attribute = STATISTICS_ATTRIBUTES.get(vsa.vendorType);
+      return attribute
+        ? { name: attribute.name, value: decodeAttributeValue(attribute, vsa.value) }
+        : { name: `FreeRADIUS-Attr-${vsa.vendorType}`, value: `0x${vsa.value.toString('hex')}` };
+    });
+}
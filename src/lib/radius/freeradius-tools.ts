@@ -0,0 +1,194 @@
+// src/lib/radius/freeradius-tools.ts
+// Command lines for the real FreeRADIUS radclient and radtest, built from a packet's tool
+// options, and a parser for what they print: "Sent/Received <code> Id <n> ..." headers
+// (FreeRADIUS 3.x, "Sending"/"rad_recv:" in 2.x) followed by tab-indented "Name = value" lines.
+
+import type { RadClientOptions, RadTestOptions } from '@/lib/types';
+
+export interface FreeRadiusCommand {
+  argv: string[];
+  input?: string; // radclient reads the attribute list from stdin unless -f names a file
+  sensitive: string[]; // Secrets and passwords, masked when the command line is shown
+  notes: string[]; // Options the tool has no equivalent for
+}
+
+export interface FreeRadiusToolTarget {
+  host: string;
+  port: number;
+  secret: string;
+}
+
+export interface ToolOutputPacket {
+  direction: 'sent' | 'received';
+  code: string;
+  identifier: number;
+  attributes: { name: string; value: string }[];
+  text: string; // Header and attribute lines as printed
+}
+
+export interface ParsedToolOutput {
+  packets: ToolOutputPacket[];
+  noReply: boolean; // The tool reported a request the server did not answer
+}
+
+// radtest only knows these; PEAP, TTLS and EAP-TLS need eapol_test, so they stay native.
+export const RADTEST_AUTH_TYPES: string[] = ['pap', 'chap', 'mschap', 'eap-md5'];
+
+const SHELL_SAFE = /^[\w@%+=:,./-]+$/;
+const BARE_VALUE = /^[\w.:/+-]+$/;
+
+export function shellQuote(arg: string): string {
+  return SHELL_SAFE.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/** The command as a shell would run it, with the given secrets replaced by asterisks. */
+export function formatCommandLine(argv: string[], sensitive: string[] = []): string {
+  return argv.map(arg => (arg && sensitive.includes(arg) ? '********' : shellQuote(arg))).join(' ');
+}
+
+function formatTarget(target: FreeRadiusToolTarget): string {
+  return target.host.includes(':') ? `[${target.host}]:${target.port}` : `${target.host}:${target.port}`;
+}
+
+/** One line of a radclient attribute list; values with spaces or quotes are double-quoted. */
+export function formatToolAttribute(name: string, value: string): string {
+  const text = value.trim();
+  if (/^".*"$/.test(text) || BARE_VALUE.test(text)) return `${name} = ${text}`;
+  return `${name} = "${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * radclient [options] server[:port] <command> [<secret>], with the packet's attributes on
+ * stdin. Message-Authenticator "auto" lists the attribute so radclient signs it; "corrupt"
+ * cannot be expressed. Timeout and retries from a scenario step override the packet's.
+ */
+export function buildRadclientCommand(
+  options: RadClientOptions,
+  target: FreeRadiusToolTarget,
+  attributes: { name: string; value: string }[],
+  overrides: { timeoutSeconds?: number; retries?: number } = {}
+): FreeRadiusCommand {
+  const mode = options.messageAuthenticator || 'auto';
+  if (mode === 'corrupt') {
+    throw new Error('radclient cannot send a corrupted Message-Authenticator; use the built-in client for this packet.');
+  }
+  if (options.protocol === 'radsec') {
+    throw new Error('radclient does not speak RadSec (RFC 6614); use the built-in client for this packet.');
+  }
+  const type = options.type || 'auth';
+  const argv = ['radclient'];
+  const notes: string[] = [];
+  if (options.useIPv4) argv.push('-4');
+  if (options.useIPv6) argv.push('-6');
+  if (options.blastChecks) argv.push('-b');
+  if (options.count) argv.push('-c', String(options.count));
+  if (options.raddbDirectory) argv.push('-d', options.raddbDirectory);
+  if (options.dictionaryDirectory) argv.push('-D', options.dictionaryDirectory);
+  if (options.inputFile) argv.push('-f', options.inputFile);
+  if (options.printFileName) argv.push('-F');
+  if (options.requestId !== undefined && options.requestId !== null) argv.push('-i', String(options.requestId));
+  if (options.requestsPerSecond) argv.push('-n', String(options.requestsPerSecond));
+  if (options.parallelRequests) argv.push('-p', String(options.parallelRequests));
+  if (options.protocol === 'tcp') argv.push('-P', 'tcp');
+  if (options.quietMode) argv.push('-q');
+  const retries = overrides.retries ?? options.retries;
+  if (retries !== undefined && retries !== null) argv.push('-r', String(retries + 1)); // -r counts attempts, not resends
+  if (options.summaries) argv.push('-s');
+  if (options.sharedSecretFile) argv.push('-S', options.sharedSecretFile);
+  const timeout = overrides.timeoutSeconds ?? options.timeout;
+  if (timeout) argv.push('-t', String(timeout));
+  if (options.debug) argv.push('-x');
+  argv.push(options.server || formatTarget(target), type);
+  if (!options.sharedSecretFile) argv.push(target.secret);
+
+  if (options.retryBackoff && options.retryBackoff !== 1) notes.push('radclient retransmits at a fixed interval; Retry Backoff is ignored.');
+  if (options.duplicateCheck) notes.push('radclient cannot resend an answered request; the duplicate check is skipped.');
+
+  let input: string | undefined;
+  if (options.inputFile) {
+    if (attributes.length > 0) notes.push(`Attributes come from ${options.inputFile}; the packet's own attributes are not sent.`);
+  } else {
+    const lines = attributes
+      .filter(attr => type === 'auto' || attr.name.toLowerCase() !== 'packet-type')
+      .filter(attr => mode !== 'omit' || attr.name.toLowerCase() !== 'message-authenticator')
+      .map(attr => formatToolAttribute(attr.name, attr.value));
+    const signs = type === 'auth' || type === 'status' || attributes.some(attr => attr.name.toLowerCase() === 'message-authenticator');
+    if (mode === 'auto' && signs && !attributes.some(attr => attr.name.toLowerCase() === 'message-authenticator')) {
+      lines.push('Message-Authenticator = 0x00');
+    }
+    if (mode === 'omit') notes.push('Message-Authenticator is left out of the attribute list, but radclient 3.2.5 and later add it to Access-Request regardless.');
+    input = `${lines.join('\n')}\n`;
+  }
+  return { argv, input, sensitive: [target.secret], notes };
+}
+
+/**
+ * radtest [options] user password server[:port] nas-port-number secret [ppphint] [nasname].
+ * radtest builds the request itself, so the packet's attributes are not sent.
+ */
+export function buildRadtestCommand(
+  options: RadTestOptions,
+  target: FreeRadiusToolTarget,
+  attributeCount: number
+): FreeRadiusCommand {
+  const authType = options.authType || 'pap';
+  if (!RADTEST_AUTH_TYPES.includes(authType)) {
+    throw new Error(`radtest has no "${authType}" auth type (it supports ${RADTEST_AUTH_TYPES.join(', ')}); use the built-in client for this packet.`);
+  }
+  if (options.protocol === 'radsec') {
+    throw new Error('radtest does not speak RadSec (RFC 6614); use the built-in client for this packet.');
+  }
+  const argv = ['radtest'];
+  const notes: string[] = [];
+  if (authType !== 'pap') argv.push('-t', authType);
+  if (options.protocol === 'tcp') argv.push('-P', 'tcp');
+  if (options.debug) argv.push('-x');
+  if (options.useIPv4) argv.push('-4');
+  if (options.useIPv6) argv.push('-6');
+  if (options.raddbDirectory) argv.push('-d', options.raddbDirectory);
+  const password = options.password || '';
+  argv.push(options.user || '', password, options.radiusServer || formatTarget(target), String(options.nasPortNumber ?? 0), target.secret);
+  if (options.ppphint || options.nasname) argv.push(options.ppphint ? '1' : '0');
+  if (options.nasname) argv.push(options.nasname);
+  if (attributeCount > 0) notes.push(`radtest sends only its own attributes; ${attributeCount} packet attribute${attributeCount === 1 ? ' was' : 's were'} not sent.`);
+  return { argv, sensitive: [target.secret, password], notes };
+}
+
+function unquote(value: string): string {
+  const match = /^"(.*)"$/.exec(value.trim());
+  return match ? match[1].replace(/\\(["\\])/g, '$1') : value.trim();
+}
+
+/** Splits radclient/radtest output into the packets it sent and received, in order. */
+export function parseToolOutput(output: string): ParsedToolOutput {
+  const packets: ToolOutputPacket[] = [];
+  let current: ToolOutputPacket | undefined;
+  let noReply = false;
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    const header = line.replace(/^\(\d+\)\s+/, '');
+    // 3.x: "Sent Access-Request Id 12 from 0.0.0.0:4023 to 127.0.0.1:1812 length 77"
+    const v3 = /^(Sent|Received) (\S+) Id (\d+)\b/.exec(header);
+    // 2.x: "Sending Access-Request of id 12 to 127.0.0.1 port 1812" / "rad_recv: Access-Accept packet from host 127.0.0.1 port 1812, id=12, length=20"
+    const v2Sent = /^Sending (\S+) of id (\d+)\b/.exec(header);
+    const v2Received = /^rad_recv: (\S+) packet from .*\bid=(\d+)/.exec(header);
+    if (v3 || v2Sent || v2Received) {
+      current = v3
+        ? { direction: v3[1] === 'Sent' ? 'sent' : 'received', code: v3[2], identifier: Number(v3[3]), attributes: [], text: header }
+        : v2Sent
+          ? { direction: 'sent', code: v2Sent[1], identifier: Number(v2Sent[2]), attributes: [], text: header }
+          : { direction: 'received', code: v2Received![1], identifier: Number(v2Received![2]), attributes: [], text: header };
+      packets.push(current);
+      continue;
+    }
+    const attribute = /^\s+([\w.:-]+) = (.*)$/.exec(line);
+    if (current && attribute) {
+      current.attributes.push({ name: attribute[1], value: unquote(attribute[2]) });
+      current.text += `\n\t${attribute[1]} = ${attribute[2].trim()}`;
+      continue;
+    }
+    if (!/^\s/.test(line)) current = undefined;
+    if (/no (?:reply|response) from server/i.test(line)) noReply = true;
+  }
+  return { packets, noReply };
+}
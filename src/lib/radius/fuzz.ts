@@ -0,0 +1,313 @@
+// src/lib/radius/fuzz.ts
+// Builds malformed variants of a base request for the protocol fuzzer. Kept free of sockets;
+// every choice comes from a seeded generator, so a campaign's seed reproduces its cases exactly.
+
+import type { FuzzCampaignSettings, FuzzMutation } from '@/lib/types';
+import {
+  findAttributeValueOffset,
+  hasSignedRequestAuthenticator,
+  MESSAGE_AUTHENTICATOR_TYPE,
+  RADIUS_HEADER_LENGTH,
+  RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH,
+  RADIUS_MAX_PACKET_LENGTH,
+  signMessageAuthenticator,
+  signRequestAuthenticator,
+  VENDOR_SPECIFIC_TYPE,
+  type RawAttribute,
+} from './packet';
+
+export const FUZZ_MUTATIONS: { value: FuzzMutation; label: string }[] = [
+  { value: 'attribute_length', label: 'Attribute length octets' },
+  { value: 'attribute_type', label: 'Attribute types' },
+  { value: 'attribute_value', label: 'Attribute values' },
+  { value: 'duplicate_attribute', label: 'Duplicated attributes' },
+  { value: 'invalid_vsa', label: 'Invalid Vendor-Specific structures' },
+  { value: 'header_length', label: 'Packet Length field' },
+];
+
+export const DEFAULT_FUZZ_SETTINGS: FuzzCampaignSettings = {
+  totalCases: 1000,
+  batchSize: 50,
+  ratePerSecond: 20,
+  seed: 1,
+  mutations: FUZZ_MUTATIONS.map(m => m.value),
+  livenessCheck: 'status-server',
+  livenessTimeoutMs: 3000,
+  recoveryWaitMs: 30000,
+};
+
+/** Fills in defaults and clamps a campaign's settings to what the runner can sensibly send. */
+export function normalizeFuzzSettings(settings: Partial<FuzzCampaignSettings>): FuzzCampaignSettings {
+  const mutations = settings.mutations?.length ? settings.mutations : DEFAULT_FUZZ_SETTINGS.mutations;
+  for (const mutation of mutations) {
+    if (!FUZZ_MUTATIONS.some(m => m.value === mutation)) throw new Error(`Unknown fuzz mutation: ${mutation}`);
+  }
+  if (settings.livenessCheck && !['status-server', 'base-packet'].includes(settings.livenessCheck)) {
+    throw new Error(`Unknown liveness check: ${settings.livenessCheck}`);
+  }
+  const clamp = (value: unknown, fallback: number, min: number, max: number) =>
+    value === undefined || value === null || value === '' || isNaN(Number(value)) ? fallback : Math.min(max, Math.max(min, Math.floor(Number(value))));
+  return {
+    totalCases: clamp(settings.totalCases, DEFAULT_FUZZ_SETTINGS.totalCases, 1, 1000000),
+    batchSize: clamp(settings.batchSize, DEFAULT_FUZZ_SETTINGS.batchSize, 1, 10000),
+    ratePerSecond: clamp(settings.ratePerSecond, DEFAULT_FUZZ_SETTINGS.ratePerSecond, 1, 1000),
+    seed: clamp(settings.seed, Math.floor(Math.random() * 2 ** 31), 0, 2 ** 32 - 1),
+    mutations,
+    livenessCheck: settings.livenessCheck || DEFAULT_FUZZ_SETTINGS.livenessCheck,
+    livenessTimeoutMs: clamp(settings.livenessTimeoutMs, DEFAULT_FUZZ_SETTINGS.livenessTimeoutMs, 100, 60000),
+    recoveryWaitMs: clamp(settings.recoveryWaitMs, DEFAULT_FUZZ_SETTINGS.recoveryWaitMs, 0, 600000),
+  };
+}
+
+// Access-Request and Status-Server carry a Message-Authenticator, as servers may require it.
+const MESSAGE_AUTHENTICATOR_CODES = new Set([1, 12]);
+
+export interface FuzzBasePacket {
+  code: number;
+  // Encodes the base attributes; signed request codes pass an all-zero authenticator.
+  encodeAttributes: (requestAuthenticator: Buffer) => RawAttribute[];
+  attributeName: (type: number) => string;
+}
+
+export interface FuzzCase {
+  index: number;
+  mutation: FuzzMutation;
+  description: string;
+  bytes: Buffer;
+}
+
+// An attribute as written on the wire; `length` overrides the length octet.
+interface WireAttribute {
+  type: number;
+  value: Buffer;
+  length?: number;
+}
+
+interface MutatedPacket {
+  attributes: WireAttribute[];
+  description: string;
+  headerLength?: number; // Written into the Length field after signing
+  trailing?: Buffer; // Appended past the Length field after signing
+}
+
+type Random = () => number;
+
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function randomBuffer(random: Random, length: number): Buffer {
+  const buf = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) buf[i] = Math.floor(random() * 256);
+  return buf;
+}
+
+function wireLength(attributes: WireAttribute[]): number {
+  return RADIUS_HEADER_LENGTH + attributes.reduce((sum, attr) => sum + 2 + attr.value.length, 0);
+}
+
+function serialize(code: number, identifier: number, authenticator: Buffer, attributes: WireAttribute[]): Buffer {
+  const buffers = attributes.map(attr => Buffer.concat([Buffer.from([attr.type, (attr.length ?? attr.value.length + 2) & 0xff]), attr.value]));
+  const header = Buffer.alloc(4);
+  header.writeUInt8(code, 0);
+  header.writeUInt8(identifier, 1);
+  header.writeUInt16BE(wireLength(attributes), 2);
+  return Buffer.concat([header, authenticator, ...buffers]);
+}
+
+function mutateAttributeLength(attributes: WireAttribute[], target: number, label: string, random: Random): MutatedPacket {
+  const attr = attributes[target];
+  const actual = attr.value.length + 2;
+  const variant = pick(random, ['zero', 'one', 'short', 'overrun', 'max']);
+  const length = variant === 'zero' ? 0
+    : variant === 'one' ? 1
+    : variant === 'short' ? Math.max(2, actual - randomInt(random, 1, Math.max(1, attr.value.length)))
+    : variant === 'overrun' ? Math.min(255, actual + randomInt(random, 1, 32))
+    : 255;
+  attributes[target] = { ...attr, length };
+  return { attributes, description: `${label}: length octet ${length} (actual ${actual})` };
+}
+
+function mutateAttributeType(attributes: WireAttribute[], target: number, label: string, random: Random): MutatedPacket {
+  const variant = pick(random, ['zero', 'reserved', 'experimental', 'extended', 'random']);
+  const type = variant === 'zero' ? 0
+    : variant === 'reserved' ? 255
+    : variant === 'experimental' ? randomInt(random, 192, 223)
+    : variant === 'extended' ? randomInt(random, 241, 246)
+    : randomInt(random, 1, 255);
+  attributes[target] = { ...attributes[target], type };
+  return { attributes, description: `${label}: type changed to ${type} (${variant})` };
+}
+
+const FORMAT_STRING = Buffer.from('%s%s%s%n%x%x%p%d');
+const INTEGER_BOUNDARIES = [0, 1, 0x7fffffff, 0x80000000, 0xffffffff];
+
+function mutateAttributeValue(attributes: WireAttribute[], target: number, label: string, random: Random): MutatedPacket {
+  const attr = attributes[target];
+  let value: Buffer;
+  let detail: string;
+  switch (pick(random, ['empty', 'max-random', 'max-filler', 'bit-flip', 'integer-boundary', 'odd-width', 'format-string', 'embedded-nul', 'invalid-utf8'])) {
+    case 'empty':
+      value = Buffer.alloc(0);
+      detail = 'empty value';
+      break;
+    case 'max-random':
+      value = randomBuffer(random, RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH);
+      detail = `${RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH} random octets`;
+      break;
+    case 'max-filler':
+      value = Buffer.alloc(RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH, 0x41);
+      detail = `${RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH} x "A"`;
+      break;
+    case 'bit-flip': {
+      value = Buffer.from(attr.value.length ? attr.value : randomBuffer(random, 4));
+      const bit = randomInt(random, 0, value.length * 8 - 1);
+      value[bit >> 3] ^= 1 << (bit & 7);
+      detail = `bit ${bit} flipped`;
+      break;
+    }
+    case 'integer-boundary': {
+      const boundary = pick(random, INTEGER_BOUNDARIES);
+      value = Buffer.alloc(4);
+      value.writeUInt32BE(boundary, 0);
+      detail = `integer 0x${boundary.toString(16)}`;
+      break;
+    }
+    case 'odd-width': {
+      const width = pick(random, [1, 3, 5, 7, 15, 17]);
+      value = randomBuffer(random, width);
+      detail = `${width}-octet value (wrong width for integer/address types)`;
+      break;
+    }
+    case 'format-string':
+      value = FORMAT_STRING;
+      detail = 'format string';
+      break;
+    case 'embedded-nul':
+      value = Buffer.concat([Buffer.from('fuzz'), Buffer.alloc(1), Buffer.from('user')]);
+      detail = 'embedded NUL';
+      break;
+    default:
+      value = Buffer.from([0xc0, 0xaf, 0xff, 0xfe, 0xed, 0xa0, 0x80]);
+      detail = 'invalid UTF-8';
+  }
+  attributes[target] = { type: attr.type, value };
+  return { attributes, description: `${label}: ${detail}` };
+}
+
+// `prefix` is the Message-Authenticator placed ahead of the attributes, counted toward the 4096-octet limit.
+function mutateDuplicateAttribute(prefix: WireAttribute[], attributes: WireAttribute[], target: number, label: string, random: Random): MutatedPacket {
+  const attr = attributes[target];
+  const room = Math.floor((RADIUS_MAX_PACKET_LENGTH - wireLength([...prefix, ...attributes])) / (attr.value.length + 2));
+  const copies = random() < 0.5 ? Math.min(room, randomInt(random, 1, 10)) : room;
+  attributes.splice(target + 1, 0, ...Array.from({ length: copies }, () => ({ ...attr })));
+  return { attributes, description: `${label}: ${copies + 1} occurrences${copies === room ? ' (fills the packet)' : ''}` };
+}
+
+function invalidVendorSpecific(random: Random): { value: Buffer; detail: string } {
+  const vendorId = pick(random, [9, 311, 14122, randomInt(random, 1, 0xffffff)]);
+  const header = (subType: number, subLength: number) => {
+    const buf = Buffer.alloc(6);
+    buf.writeUInt32BE(vendorId, 0);
+    buf.writeUInt8(subType, 4);
+    buf.writeUInt8(subLength, 5);
+    return buf;
+  };
+  switch (pick(random, ['truncated', 'vendor-zero', 'sub-length-zero', 'sub-length-one', 'sub-length-overrun', 'trailing', 'tiny-subattributes', 'nested'])) {
+    case 'truncated': {
+      const length = randomInt(random, 0, 5);
+      return { value: randomBuffer(random, length), detail: `${length}-octet value (shorter than a Vendor-Id)` };
+    }
+    case 'vendor-zero':
+      return { value: Buffer.concat([Buffer.alloc(4), Buffer.from([1, 6]), randomBuffer(random, 4)]), detail: 'Vendor-Id 0' };
+    case 'sub-length-zero':
+      return { value: Buffer.concat([header(1, 0), randomBuffer(random, 4)]), detail: `vendor ${vendorId} sub-attribute length 0` };
+    case 'sub-length-one':
+      return { value: Buffer.concat([header(1, 1), randomBuffer(random, 4)]), detail: `vendor ${vendorId} sub-attribute length 1` };
+    case 'sub-length-overrun': {
+      const data = randomBuffer(random, randomInt(random, 0, 16));
+      return { value: Buffer.concat([header(1, Math.min(255, data.length + 2 + randomInt(random, 1, 64))), data]), detail: `vendor ${vendorId} sub-attribute length past the end of the attribute` };
+    }
+    case 'trailing':
+      return { value: Buffer.concat([header(1, 6), Buffer.from('fuzz'), randomBuffer(random, 1)]), detail: `vendor ${vendorId} trailing octet after the last sub-attribute` };
+    case 'tiny-subattributes': {
+      const count = Math.floor((RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH - 4) / 2);
+      const subAttributes = Buffer.alloc(count * 2);
+      for (let i = 0; i < count; i++) {
+        subAttributes[i * 2] = randomInt(random, 1, 255);
+        subAttributes[i * 2 + 1] = 2;
+      }
+      return { value: Buffer.concat([header(0, 0).subarray(0, 4), subAttributes]), detail: `vendor ${vendorId} with ${count} empty sub-attributes` };
+    }
+    default: {
+      const inner = Buffer.concat([Buffer.from([VENDOR_SPECIFIC_TYPE, 12]), header(1, 6).subarray(0, 4), Buffer.from([1, 6]), Buffer.from('fuzz')]);
+      return { value: Buffer.concat([header(VENDOR_SPECIFIC_TYPE, inner.length + 2), inner]), detail: `vendor ${vendorId} with a Vendor-Specific nested inside` };
+    }
+  }
+}
+
+function mutateVendorSpecific(attributes: WireAttribute[], target: number, random: Random): MutatedPacket {
+  const { value, detail } = invalidVendorSpecific(random);
+  attributes.splice(target, 0, { type: VENDOR_SPECIFIC_TYPE, value });
+  return { attributes, description: `Vendor-Specific (26): ${detail}` };
+}
+
+function mutateHeaderLength(prefix: WireAttribute[], attributes: WireAttribute[], random: Random): MutatedPacket {
+  const actual = wireLength([...prefix, ...attributes]);
+  const variant = pick(random, ['zero', 'below-header', 'short', 'long', 'max', 'trailing']);
+  if (variant === 'trailing') {
+    const extra = randomInt(random, 1, 64);
+    return { attributes, description: `Length ${actual} with ${extra} octets of trailing data`, trailing: Buffer.alloc(extra, 0xff) };
+  }
+  const headerLength = variant === 'zero' ? 0
+    : variant === 'below-header' ? RADIUS_HEADER_LENGTH - 1
+    : variant === 'short' ? Math.max(RADIUS_HEADER_LENGTH, actual - randomInt(random, 1, 8))
+    : variant === 'long' ? actual + randomInt(random, 1, 100)
+    : pick(random, [RADIUS_MAX_PACKET_LENGTH, 0xffff]);
+  return { attributes, description: `Length field ${headerLength} (actual ${actual})`, headerLength };
+}
+
+/**
+ * Generates one fuzz case from the base packet. Authenticators and the Message-Authenticator
+ * are computed wherever the mutated structure still allows, so the malformed part reaches
+ * the server's attribute parsing rather than failing the signature check.
+ */
+export function generateFuzzCase(index: number, base: FuzzBasePacket, mutations: FuzzMutation[], random: Random, secret: string): FuzzCase {
+  const mutation = pick(random, mutations);
+  const identifier = randomInt(random, 0, 255);
+  const signed = hasSignedRequestAuthenticator(base.code);
+  const authenticator = signed ? Buffer.alloc(16) : randomBuffer(random, 16);
+
+  const encoded = base.encodeAttributes(Buffer.from(authenticator));
+  const others: WireAttribute[] = encoded.filter(attr => attr.type !== MESSAGE_AUTHENTICATOR_TYPE);
+  if (!others.length) others.push({ type: 1, value: Buffer.from('fuzz') });
+  const withMessageAuthenticator = MESSAGE_AUTHENTICATOR_CODES.has(base.code) || others.length !== encoded.length;
+  // The Message-Authenticator stays first and untouched so it can still be located and signed.
+  const prefix: WireAttribute[] = withMessageAuthenticator ? [{ type: MESSAGE_AUTHENTICATOR_TYPE, value: Buffer.alloc(16) }] : [];
+
+  const target = randomInt(random, 0, others.length - 1);
+  const label = `${base.attributeName(others[target].type)} (${others[target].type})`;
+  let mutated: MutatedPacket;
+  switch (mutation) {
+    case 'attribute_length': mutated = mutateAttributeLength(others, target, label, random); break;
+    case 'attribute_type': mutated = mutateAttributeType(others, target, label, random); break;
+    case 'attribute_value': mutated = mutateAttributeValue(others, target, label, random); break;
+    case 'duplicate_attribute': mutated = mutateDuplicateAttribute(prefix, others, target, label, random); break;
+    case 'invalid_vsa': mutated = mutateVendorSpecific(others, target, random); break;
+    default: mutated = mutateHeaderLength(prefix, others, random);
+  }
+
+  let bytes = serialize(base.code, identifier, authenticator, [...prefix, ...mutated.attributes]);
+  if (withMessageAuthenticator && findAttributeValueOffset(bytes, MESSAGE_AUTHENTICATOR_TYPE) !== -1) {
+    signMessageAuthenticator(bytes, secret);
+  }
+  if (signed) signRequestAuthenticator(bytes, secret);
+  if (mutated.headerLength !== undefined) bytes.writeUInt16BE(mutated.headerLength, 2);
+  if (mutated.trailing) bytes = Buffer.concat([bytes, mutated.trailing]);
+
+  return { index, mutation, description: mutated.description, bytes };
+}
@@ -0,0 +1,37 @@
+// src/lib/radius/load-dictionary.ts
+// Server-side helper that builds a RadiusDictionary from the standard RFC set
+// plus every active dictionary imported through the Dictionaries Manager.
+
+import { getDb } from '@/lib/db';
+import type { ParsedAttribute, ParsedVendor } from '@/ai/flows/parse-dictionary-file-content';
+import { RadiusDictionary } from './dictionary';
+
+export async function loadActiveDictionary(): Promise<RadiusDictionary> {
+  const dictionary = new RadiusDictionary();
+  const db = await getDb();
+  const rows = await db.all('SELECT id, vendors, exampleAttributes FROM dictionaries WHERE isActive = 1');
+  // Vendors first: a dictionary's attributes may belong to a vendor defined in another file.
+  for (const row of rows) {
+    if (!row.vendors) continue;
+    try {
+      const vendors = JSON.parse(row.vendors as string);
+      if (Array.isArray(vendors)) {
+        dictionary.addParsedVendors(vendors as ParsedVendor[]);
+      }
+    } catch (e: any) {
+      console.warn(`[RADIUS_DICT] Skipping vendors of dictionary ${row.id}: not valid JSON (${e.message}).`);
+    }
+  }
+  for (const row of rows) {
+    if (!row.exampleAttributes) continue;
+    try {
+      const parsed = JSON.parse(row.exampleAttributes as string);
+      if (Array.isArray(parsed)) {
+        dictionary.addParsedAttributes(parsed as ParsedAttribute[]);
+      }
+    } catch (e: any) {
+      console.warn(`[RADIUS_DICT] Skipping dictionary ${row.id}: attributes are not valid JSON (${e.message}).`);
+    }
+  }
+  return dictionary;
+}
@@ -0,0 +1,97 @@
+// src/lib/radius/mock-rules.ts
+// Rule matching for the built-in mock RADIUS server, kept free of sockets so the
+// settings page and the Execution Console can share the defaults and the pseudo-server.
+
+import type { MockRuleAction, MockServerRule, MockServerSettings, ServerConfig } from '@/lib/types';
+
+export const MOCK_SERVER_ID = 'mock-server';
+export const MOCK_SERVER_ADDRESS = '127.0.0.1';
+
+export const DEFAULT_MOCK_SERVER_SETTINGS: MockServerSettings = {
+  secret: 'testing123',
+  authPort: 18120,
+  acctPort: 18130,
+  coaPort: 37990,
+  defaultAction: 'reject',
+  rules: [],
+};
+
+/** The mock server as a ServerConfig, so scenarios and packets run against it like any other server. */
+export function mockServerConfig(settings: MockServerSettings): ServerConfig {
+  return {
+    id: MOCK_SERVER_ID,
+    name: 'Built-in Mock Server (localhost)',
+    type: 'custom',
+    customServerType: 'mock',
+    host: MOCK_SERVER_ADDRESS,
+    sshPort: 22,
+    sshUser: '',
+    authMethod: 'password',
+    radiusAuthPort: settings.authPort,
+    radiusAcctPort: settings.acctPort,
+    radiusCoaPort: settings.coaPort,
+    defaultSecret: settings.secret,
+    nasSpecificSecrets: {},
+    status: 'connected',
+    testSteps: [],
+    scenarioExecutionSshCommands: [],
+  };
+}
+
+function attributeMatches(actualName: string, expectedName: string): boolean {
+  const actual = actualName.toLowerCase().replace(/:\d+$/, ''); // Tag suffix
+  const expected = expectedName.trim().toLowerCase();
+  return actual === expected || actual.endsWith(`:${expected}`);
+}
+
+/** First enabled rule whose request type and every condition match the decoded request. */
+export function matchMockRule(requestCode: string, attributes: { name: string; value: string }[], rules: MockServerRule[]): MockServerRule | undefined {
+  return rules.find(rule => {
+    if (!rule.isEnabled) return false;
+    if (rule.requestType !== 'any' && rule.requestType !== requestCode) return false;
+    return rule.conditions.every(condition => {
+      if (!condition.attribute.trim()) return true;
+      const values = attributes.filter(attr => attributeMatches(attr.name, condition.attribute)).map(attr => attr.value);
+      switch (condition.operator) {
+        case 'present': return values.length > 0;
+        case 'absent': return values.length === 0;
+        case 'equals': return values.includes(condition.value);
+        case 'not_equals': return !values.includes(condition.value);
+        case 'contains': return values.some(value => value.includes(condition.value));
+        case 'regex': {
+          try {
+            const pattern = new RegExp(condition.value);
+            return values.some(value => pattern.test(value));
+          } catch {
+            return false; // An invalid pattern never matches
+          }
+        }
+        default: return false;
+      }
+    });
+  });
+}
+
+/**
+ * The reply code for an action, or undefined when the request is dropped. Accounting has no
+ * negative reply (RFC 2866), so reject drops it; CoA and Disconnect are ACKed only for accept.
+ * Status-Server is answered as the listener it was sent to would answer it (RFC 5997) unless
+ * the action is drop: it asks whether the server is alive, not whether a user may log in.
+ */
+export function mockReplyCode(requestCode: string, action: MockRuleAction, listener: 'auth' | 'acct' | 'coa'): string | undefined {
+  if (action === 'drop') return undefined;
+  switch (requestCode) {
+    case 'Access-Request':
+      return action === 'accept' ? 'Access-Accept' : action === 'challenge' ? 'Access-Challenge' : 'Access-Reject';
+    case 'Accounting-Request':
+      return action === 'reject' ? undefined : 'Accounting-Response';
+    case 'CoA-Request':
+      return action === 'accept' ? 'CoA-ACK' : 'CoA-NAK';
+    case 'Disconnect-Request':
+      return action === 'accept' ? 'Disconnect-ACK' : 'Disconnect-NAK';
+    case 'Status-Server':
+      return listener === 'acct' ? 'Accounting-Response' : 'Access-Accept';
+    default:
+      return undefined;
+  }
+}
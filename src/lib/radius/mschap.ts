@@ -0,0 +1,214 @@
+// src/lib/radius/mschap.ts
+// MS-CHAPv2 (RFC 2759) and MPPE key derivation (RFC 3079) for radtest-style
+// authentication. MD4 and single DES are implemented here because current
+// OpenSSL builds no longer expose them through Node's crypto module.
+
+import { createHash, randomBytes } from 'crypto';
+
+export const MICROSOFT_VENDOR_ID = 311;
+
+// Microsoft vendor attribute numbers (RFC 2548).
+export const MS_ATTRIBUTES = {
+  MS_CHAP_ERROR: 2,
+  MS_CHAP_CHALLENGE: 11,
+  MS_MPPE_SEND_KEY: 16,
+  MS_MPPE_RECV_KEY: 17,
+  MS_CHAP2_RESPONSE: 25,
+  MS_CHAP2_SUCCESS: 26,
+} as const;
+
+// --- MD4 (RFC 1320) ---
+
+function rotl(x: number, n: number): number {
+  return (x << n) | (x >>> (32 - n));
+}
+
+export function md4(input: Buffer): Buffer {
+  const totalLength = (((input.length + 8) >>> 6) + 1) * 64;
+  const data = Buffer.alloc(totalLength);
+  input.copy(data);
+  data[input.length] = 0x80;
+  data.writeUInt32LE((input.length * 8) >>> 0, totalLength - 8);
+  data.writeUInt32LE(Math.floor((input.length * 8) / 0x100000000), totalLength - 4);
+
+  const F = (x: number, y: number, z: number) => (x & y) | (~x & z);
+  const G = (x: number, y: number, z: number) => (x & y) | (x & z) | (y & z);
+  const H = (x: number, y: number, z: number) => x ^ y ^ z;
+  const rounds: [typeof F, number, number[], number[]][] = [
+    [F, 0, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], [3, 7, 11, 19]],
+    [G, 0x5a827999, [0, 4, 8, 12, 1, 5, 9, 13, 2, 6, 10, 14, 3, 7, 11, 15], [3, 5, 9, 13]],
+    [H, 0x6ed9eba1, [0, 8, 4, 12, 2, 10, 6, 14, 1, 9, 5, 13, 3, 11, 7, 15], [3, 9, 11, 15]],
+  ];
+
+  let h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let offset = 0; offset < totalLength; offset += 64) {
+    const x = Array.from({ length: 16 }, (_, i) => data.readUInt32LE(offset + i * 4));
+    // state holds [a, b, c, d] rotated so state[0] is always the word being updated.
+    let state = [...h];
+    for (const [fn, constant, order, shifts] of rounds) {
+      order.forEach((k, i) => {
+        const updated = rotl((state[0] + fn(state[1], state[2], state[3]) + x[k] + constant) | 0, shifts[i % 4]);
+        state = [state[3], updated, state[1], state[2]];
+      });
+    }
+    h = h.map((word, i) => (word + state[i]) | 0);
+  }
+
+  const digest = Buffer.alloc(16);
+  h.forEach((word, i) => digest.writeInt32LE(word, i * 4));
+  return digest;
+}
+
+// --- Single DES (FIPS 46-3), used only to build the 24-byte NT-Response ---
+
+const IP = [58, 50, 42, 34, 26, 18, 10, 2, 60, 52, 44, 36, 28, 20, 12, 4, 62, 54, 46, 38, 30, 22, 14, 6, 64, 56, 48, 40, 32, 24, 16, 8, 57, 49, 41, 33, 25, 17, 9, 1, 59, 51, 43, 35, 27, 19, 11, 3, 61, 53, 45, 37, 29, 21, 13, 5, 63, 55, 47, 39, 31, 23, 15, 7];
+const FP = [40, 8, 48, 16, 56, 24, 64, 32, 39, 7, 47, 15, 55, 23, 63, 31, 38, 6, 46, 14, 54, 22, 62, 30, 37, 5, 45, 13, 53, 21, 61, 29, 36, 4, 44, 12, 52, 20, 60, 28, 35, 3, 43, 11, 51, 19, 59, 27, 34, 2, 42, 10, 50, 18, 58, 26, 33, 1, 41, 9, 49, 17, 57, 25];
+const E = [32, 1, 2, 3, 4, 5, 4, 5, 6, 7, 8, 9, 8, 9, 10, 11, 12, 13, 12, 13, 14, 15, 16, 17, 16, 17, 18, 19, 20, 21, 20, 21, 22, 23, 24, 25, 24, 25, 26, 27, 28, 29, 28, 29, 30, 31, 32, 1];
+const P = [16, 7, 20, 21, 29, 12, 28, 17, 1, 15, 23, 26, 5, 18, 31, 10, 2, 8, 24, 14, 32, 27, 3, 9, 19, 13, 30, 6, 22, 11, 4, 25];
+const PC1 = [57, 49, 41, 33, 25, 17, 9, 1, 58, 50, 42, 34, 26, 18, 10, 2, 59, 51, 43, 35, 27, 19, 11, 3, 60, 52, 44, 36, 63, 55, 47, 39, 31, 23, 15, 7, 62, 54, 46, 38, 30, 22, 14, 6, 61, 53, 45, 37, 29, 21, 13, 5, 28, 20, 12, 4];
+const PC2 = [14, 17, 11, 24, 1, 5, 3, 28, 15, 6, 21, 10, 23, 19, 12, 4, 26, 8, 16, 7, 27, 20, 13, 2, 41, 52, 31, 37, 47, 55, 30, 40, 51, 45, 33, 48, 44, 49, 39, 56, 34, 53, 46, 42, 50, 36, 29, 32];
+const SHIFTS = [1, 1, 2, 2, 2, 2, 2, 2, 1, 2, 2, 2, 2, 2, 2, 1];
+const SBOXES = [
+  [14, 4, 13, 1, 2, 15, 11, 8, 3, 10, 6, 12, 5, 9, 0, 7, 0, 15, 7, 4, 14, 2, 13, 1, 10, 6, 12, 11, 9, 5, 3, 8, 4, 1, 14, 8, 13, 6, 2, 11, 15, 12, 9, 7, 3, 10, 5, 0, 15, 12, 8, 2, 4, 9, 1, 7, 5, 11, 3, 14, 10, 0, 6, 13],
+  [15, 1, 8, 14, 6, 11, 3, 4, 9, 7, 2, 13, 12, 0, 5, 10, 3, 13, 4, 7, 15, 2, 8, 14, 12, 0, 1, 10, 6, 9, 11, 5, 0, 14, 7, 11, 10, 4, 13, 1, 5, 8, 12, 6, 9, 3, 2, 15, 13, 8, 10, 1, 3, 15, 4, 2, 11, 6, 7, 12, 0, 5, 14, 9],
+  [10, 0, 9, 14, 6, 3, 15, 5, 1, 13, 12, 7, 11, 4, 2, 8, 13, 7, 0, 9, 3, 4, 6, 10, 2, 8, 5, 14, 12, 11, 15, 1, 13, 6, 4, 9, 8, 15, 3, 0, 11, 1, 2, 12, 5, 10, 14, 7, 1, 10, 13, 0, 6, 9, 8, 7, 4, 15, 14, 3, 11, 5, 2, 12],
+  [7, 13, 14, 3, 0, 6, 9, 10, 1, 2, 8, 5, 11, 12, 4, 15, 13, 8, 11, 5, 6, 15, 0, 3, 4, 7, 2, 12, 1, 10, 14, 9, 10, 6, 9, 0, 12, 11, 7, 13, 15, 1, 3, 14, 5, 2, 8, 4, 3, 15, 0, 6, 10, 1, 13, 8, 9, 4, 5, 11, 12, 7, 2, 14],
+  [2, 12, 4, 1, 7, 10, 11, 6, 8, 5, 3, 15, 13, 0, 14, 9, 14, 11, 2, 12, 4, 7, 13, 1, 5, 0, 15, 10, 3, 9, 8, 6, 4, 2, 1, 11, 10, 13, 7, 8, 15, 9, 12, 5, 6, 3, 0, 14, 11, 8, 12, 7, 1, 14, 2, 13, 6, 15, 0, 9, 10, 4, 5, 3],
+  [12, 1, 10, 15, 9, 2, 6, 8, 0, 13, 3, 4, 14, 7, 5, 11, 10, 15, 4, 2, 7, 12, 9, 5, 6, 1, 13, 14, 0, 11, 3, 8, 9, 14, 15, 5, 2, 8, 12, 3, 7, 0, 4, 10, 1, 13, 11, 6, 4, 3, 2, 12, 9, 5, 15, 10, 11, 14, 1, 7, 6, 0, 8, 13],
+  [4, 11, 2, 14, 15, 0, 8, 13, 3, 12, 9, 7, 5, 10, 6, 1, 13, 0, 11, 7, 4, 9, 1, 10, 14, 3, 5, 12, 2, 15, 8, 6, 1, 4, 11, 13, 12, 3, 7, 14, 10, 15, 6, 8, 0, 5, 9, 2, 6, 11, 13, 8, 1, 4, 10, 7, 9, 5, 0, 15, 14, 2, 3, 12],
+  [13, 2, 8, 4, 6, 15, 11, 1, 10, 9, 3, 14, 5, 0, 12, 7, 1, 15, 13, 8, 10, 3, 7, 4, 12, 5, 6, 11, 0, 14, 9, 2, 7, 11, 4, 1, 9, 12, 14, 2, 0, 6, 10, 13, 15, 3, 5, 8, 2, 1, 14, 7, 4, 10, 8, 13, 15, 12, 9, 0, 3, 5, 6, 11],
+];
+
+function toBits(data: Buffer): number[] {
+  const bits: number[] = [];
+  for (const byte of data) for (let i = 7; i >= 0; i--) bits.push((byte >> i) & 1);
+  return bits;
+}
+
+function fromBits(bits: number[]): Buffer {
+  const out = Buffer.alloc(bits.length / 8);
+  bits.forEach((bit, i) => { out[i >> 3] |= bit << (7 - (i & 7)); });
+  return out;
+}
+
+function permute(bits: number[], table: number[]): number[] {
+  return table.map(position => bits[position - 1]);
+}
+
+/** Spreads a 56-bit key over 8 bytes (7 key bits per byte, parity bit left clear). */
+function expandDesKey(key7: Buffer): Buffer {
+  const bits = toBits(key7);
+  const expanded: number[] = [];
+  for (let i = 0; i < 8; i++) expanded.push(...bits.slice(i * 7, i * 7 + 7), 0);
+  return fromBits(expanded);
+}
+
+export function desEncryptBlock(key7: Buffer, block: Buffer): Buffer {
+  let cd = permute(toBits(expandDesKey(key7)), PC1);
+  const subkeys: number[][] = SHIFTS.map(shift => {
+    const c = cd.slice(0, 28);
+    const d = cd.slice(28);
+    cd = [...c.slice(shift), ...c.slice(0, shift), ...d.slice(shift), ...d.slice(0, shift)];
+    return permute(cd, PC2);
+  });
+
+  const permuted = permute(toBits(block), IP);
+  let left = permuted.slice(0, 32);
+  let right = permuted.slice(32);
+  for (const subkey of subkeys) {
+    const mixed = permute(right, E).map((bit, i) => bit ^ subkey[i]);
+    const substituted: number[] = [];
+    for (let s = 0; s < 8; s++) {
+      const six = mixed.slice(s * 6, s * 6 + 6);
+      const value = SBOXES[s][((six[0] << 1) | six[5]) * 16 + ((six[1] << 3) | (six[2] << 2) | (six[3] << 1) | six[4])];
+      for (let i = 3; i >= 0; i--) substituted.push((value >> i) & 1);
+    }
+    const f = permute(substituted, P);
+    [left, right] = [right, left.map((bit, i) => bit ^ f[i])];
+  }
+  return fromBits(permute([...right, ...left], FP));
+}
+
+// --- MS-CHAPv2 (RFC 2759 section 8) ---
+
+function sha1(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha1');
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+}
+
+export function ntPasswordHash(password: string): Buffer {
+  return md4(Buffer.from(password, 'utf16le'));
+}
+
+function challengeHash(peerChallenge: Buffer, authenticatorChallenge: Buffer, username: string): Buffer {
+  // The user name is used without any domain prefix.
+  const user = username.includes('\\') ? username.slice(username.lastIndexOf('\\') + 1) : username;
+  return sha1(peerChallenge, authenticatorChallenge, Buffer.from(user, 'utf8')).subarray(0, 8);
+}
+
+function challengeResponse(challenge: Buffer, passwordHash: Buffer): Buffer {
+  const zHash = Buffer.alloc(21);
+  passwordHash.copy(zHash);
+  return Buffer.concat([0, 7, 14].map(offset => desEncryptBlock(zHash.subarray(offset, offset + 7), challenge)));
+}
+
+export function generateNtResponse(authenticatorChallenge: Buffer, peerChallenge: Buffer, username: string, password: string): Buffer {
+  return challengeResponse(challengeHash(peerChallenge, authenticatorChallenge, username), ntPasswordHash(password));
+}
+
+const AUTH_MAGIC_1 = Buffer.from('Magic server to client signing constant', 'ascii');
+const AUTH_MAGIC_2 = Buffer.from('Pad to make it do more than one iteration', 'ascii');
+
+/** Returns the "S=<40 hex digits>" string the server must send in MS-CHAP2-Success. */
+export function generateAuthenticatorResponse(password: string, ntResponse: Buffer, peerChallenge: Buffer, authenticatorChallenge: Buffer, username: string): string {
+  const passwordHashHash = md4(ntPasswordHash(password));
+  const digest = sha1(passwordHashHash, ntResponse, AUTH_MAGIC_1);
+  return `S=${sha1(digest, challengeHash(peerChallenge, authenticatorChallenge, username), AUTH_MAGIC_2).toString('hex').toUpperCase()}`;
+}
+
+// --- MPPE keys (RFC 3079 section 3.4) ---
+
+const MPPE_MAGIC_1 = Buffer.from('This is the MPPE Master Key', 'ascii');
+const MPPE_MAGIC_2 = Buffer.from('On the client side, this is the send key; on the server side, it is the receive key.', 'ascii');
+const MPPE_MAGIC_3 = Buffer.from('On the client side, this is the receive key; on the server side, it is the send key.', 'ascii');
+const SHS_PAD_1 = Buffer.alloc(40, 0x00);
+const SHS_PAD_2 = Buffer.alloc(40, 0xf2);
+
+/**
+ * Derives the 128-bit keys a RADIUS server returns in MS-MPPE-Send-Key and
+ * MS-MPPE-Recv-Key (server perspective: Send uses Magic3, Recv uses Magic2).
+ */
+export function deriveMppeKeys(password: string, ntResponse: Buffer): { sendKey: Buffer; recvKey: Buffer } {
+  const masterKey = sha1(md4(ntPasswordHash(password)), ntResponse, MPPE_MAGIC_1).subarray(0, 16);
+  const startKey = (magic: Buffer) => sha1(masterKey, SHS_PAD_1, magic, SHS_PAD_2).subarray(0, 16);
+  return { sendKey: startKey(MPPE_MAGIC_3), recvKey: startKey(MPPE_MAGIC_2) };
+}
+
+export interface MsChapV2Exchange {
+  ident: number;
+  authenticatorChallenge: Buffer; // Sent as MS-CHAP-Challenge
+  peerChallenge: Buffer;
+  ntResponse: Buffer;
+  response: Buffer; // 50-byte MS-CHAP2-Response value
+  expectedAuthenticatorResponse: string;
+  expectedMppeKeys: { sendKey: Buffer; recvKey: Buffer };
+}
+
+/** Builds the client side of an MS-CHAPv2 authentication for the given credentials. */
+export function createMsChapV2Exchange(username: string, password: string, ident: number = randomBytes(1)[0]): MsChapV2Exchange {
+  const authenticatorChallenge = randomBytes(16);
+  const peerChallenge = randomBytes(16);
+  const ntResponse = generateNtResponse(authenticatorChallenge, peerChallenge, username, password);
+  // Ident, Flags, Peer-Challenge, 8 reserved octets, NT-Response.
+  const response = Buffer.concat([Buffer.from([ident, 0]), peerChallenge, Buffer.alloc(8), ntResponse]);
+  return {
+    ident,
+    authenticatorChallenge,
+    peerChallenge,
+    ntResponse,
+    response,
+    expectedAuthenticatorResponse: generateAuthenticatorResponse(password, ntResponse, peerChallenge, authenticatorChallenge, username),
+    expectedMppeKeys: deriveMppeKeys(password, ntResponse),
+  };
+}
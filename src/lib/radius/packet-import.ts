@@ -0,0 +1,385 @@
+// src/lib/radius/packet-import.ts
+// Turns RADIUS packets captured elsewhere (tcpdump or Wireshark hex dumps, base64 from a
+// vendor ticket, pcap/pcapng files) into Packet Editor records, decoded with the active dictionaries.
+
+import type { RadClientOptions, RadiusAttribute, RadiusPacket } from '@/lib/types';
+import { getAttributeOption, type DictionaryAttribute, type RadiusDictionary } from './dictionary';
+import {
+  codeToName,
+  decodeAttributes,
+  decodePacket,
+  hasSignedRequestAuthenticator,
+  resolveAttribute,
+  splitAttributeTag,
+  RADIUS_HEADER_LENGTH,
+  RADIUS_MAX_PACKET_LENGTH,
+  verifyMessageAuthenticator,
+  verifyRequestAuthenticator,
+  verifyResponseAuthenticator,
+  type AttributeCryptoContext,
+  type DecodedAttribute,
+} from './packet';
+import { decodeTransportSegment, readCaptureFile } from './pcap';
+
+export type PacketDumpEncoding = 'auto' | 'hex' | 'base64';
+
+export interface CapturedPacketOptions {
+  secret?: string;
+  requestAuthenticator?: Buffer; // Of the request a reply answers; needed to decrypt and verify replies
+  name?: string;
+  protocol?: 'udp' | 'tcp'; // Transport the packet was captured on
+}
+
+export interface ImportedPacket {
+  packet: Omit<RadiusPacket, 'id' | 'lastModified'>;
+  code: string;
+  identifier: number;
+  warnings: string[];
+}
+
+export interface CapturedMessage {
+  code: string;
+  identifier: number;
+  hex: string;
+  attributes: { name: string; value: string }[];
+}
+
+export interface CapturedExchange {
+  id: number; // 1-based, in capture order
+  protocol: 'udp' | 'tcp';
+  client: string; // address:port
+  server: string;
+  timestamp: string; // ISO time of the request
+  request: CapturedMessage;
+  response?: CapturedMessage;
+  latencyMs?: number;
+  retransmissions: number; // Identical copies of the request seen after the first
+  expectedAttributes: { name: string; value: string }[]; // From the response, or Packet-Type = No-Reply, for scenario steps
+  hiddenAttributes: string[]; // Encrypted request attributes that could not be decrypted and are left out when saved
+}
+
+export interface CaptureImport {
+  frames: number;
+  exchanges: CapturedExchange[];
+  notes: string[]; // What was skipped and why
+}
+
+// radclient packet types for the requests it can send; anything else is kept as Packet-Type with type "auto".
+const RADCLIENT_TYPES: Record<string, RadClientOptions['type']> = {
+  'Access-Request': 'auth',
+  'Accounting-Request': 'acct',
+  'Status-Server': 'status',
+  'CoA-Request': 'coa',
+  'Disconnect-Request': 'disconnect',
+};
+const REQUEST_CODES = new Set([1, 4, 12, 40, 43]);
+// Reply codes each request code may be answered with.
+const REPLY_CODES: Record<number, number[]> = { 1: [2, 3, 11], 4: [5], 12: [2, 5], 40: [41, 42], 43: [44, 45] };
+// Reply attributes that differ on every run, so they make poor expectations.
+const VOLATILE_REPLY_ATTRIBUTES = new Set(['Message-Authenticator', 'State', 'Class', 'EAP-Message', 'Proxy-State', 'MS-MPPE-Send-Key', 'MS-MPPE-Recv-Key', 'MS-CHAP2-Success']);
+const RADSEC_PORT = 2083;
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const UDP_PROTOCOL = 17;
+const UDP_HEADER_LENGTH = 8;
+const BYTES_PER_DUMP_LINE = 16;
+// tcpdump -X ("0x0010:  4500 ...") and Wireshark ("0010   01 07 ...") lines start with an offset.
+const DUMP_LINE_OFFSET = /^\s*(?:0x)?[0-9a-f]{4,8}(?::\s*|\s{2,})/i;
+
+function parseHexDump(dump: string): Buffer {
+  const lines = dump.split(/\r?\n/).filter(line => line.trim());
+  let hex: string;
+  if (lines.length > 0 && lines.every(line => DUMP_LINE_OFFSET.test(line))) {
+    // Each line holds up to 16 octets as 2- or 4-digit groups, followed by an ASCII column that is ignored.
+    hex = lines.map(line => {
+      let lineHex = '';
+      for (const token of line.replace(DUMP_LINE_OFFSET, '').trim().split(/\s+/)) {
+        if (!/^(?:[0-9a-f]{2}){1,2}$/i.test(token) || (lineHex.length + token.length) / 2 > BYTES_PER_DUMP_LINE) break;
+        lineHex += token;
+      }
+      return lineHex;
+    }).join('');
+  } else {
+    hex = dump.replace(/0x/gi, '').replace(/[\s:]/g, '');
+  }
+  if (!hex || hex.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(hex)) {
+    throw new Error('Not a hex dump: expected an even number of hex digits.');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+function parseBase64(dump: string): Buffer {
+  const compact = dump.replace(/\s/g, '');
+  if (!compact || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(compact)) {
+    throw new Error('Not base64: unexpected characters.');
+  }
+  return Buffer.from(compact.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/** Parses pasted packet bytes. In auto mode hex is tried first, then base64. */
+export function parsePacketDump(dump: string, encoding: PacketDumpEncoding = 'auto'): Buffer {
+  if (encoding === 'hex') return parseHexDump(dump);
+  if (encoding === 'base64') return parseBase64(dump);
+  try {
+    return parseHexDump(dump);
+  } catch {
+    try {
+      return parseBase64(dump);
+    } catch {
+      throw new Error('Could not read the packet as hex or base64.');
+    }
+  }
+}
+
+/**
+ * Strips the Ethernet, IPv4/IPv6 and UDP headers in front of a RADIUS payload, as found in
+ * tcpdump -X/-XX output. Bytes that do not start with one of those headers are returned as is.
+ */
+export function stripCaptureHeaders(data: Buffer): { payload: Buffer; layers: string[] } {
+  const layers: string[] = [];
+  let payload = data;
+  const etherType = payload.length > 14 ? payload.readUInt16BE(12) : 0;
+  if ((etherType === ETHERTYPE_IPV4 && payload[14] >> 4 === 4) || (etherType === ETHERTYPE_IPV6 && payload[14] >> 4 === 6)) {
+    layers.push('Ethernet');
+    payload = payload.subarray(14);
+  }
+  // RADIUS codes never have 4 or 6 in the high nibble, so an IP version there means an IP header.
+  if (payload.length >= 20 && payload[0] >> 4 === 4 && payload[9] === UDP_PROTOCOL) {
+    const headerLength = (payload[0] & 0x0f) * 4;
+    layers.push('IPv4', 'UDP');
+    payload = payload.subarray(headerLength + UDP_HEADER_LENGTH);
+  } else if (payload.length >= 40 && payload[0] >> 4 === 6 && payload[6] === UDP_PROTOCOL) {
+    layers.push('IPv6', 'UDP');
+    payload = payload.subarray(40 + UDP_HEADER_LENGTH);
+  }
+  return { payload, layers };
+}
+
+/** True for an encrypted attribute that came out as its hidden wire bytes. */
+function isHiddenValue(attr: DecodedAttribute, dictionary: RadiusDictionary, context?: AttributeCryptoContext): boolean {
+  let definition: DictionaryAttribute;
+  try {
+    definition = resolveAttribute(dictionary, attr.name);
+  } catch {
+    return false;
+  }
+  return getAttributeOption(definition, 'encrypt') !== undefined && (!context || attr.type !== definition.type);
+}
+
+/**
+ * Decodes a captured packet into a Packet Editor record. A request's own authenticator hides
+ * User-Password, so the shared secret alone decrypts it; replies also need the request's
+ * authenticator. Encrypted attributes that cannot be decrypted are left out with a warning,
+ * as is Message-Authenticator, which is recomputed whenever the packet is sent.
+ */
+export function importCapturedPacket(data: Buffer, dictionary: RadiusDictionary, options: CapturedPacketOptions = {}): ImportedPacket {
+  const { payload, layers } = stripCaptureHeaders(data);
+  const fields = decodePacket(payload);
+  const code = codeToName(fields.code);
+  const isRequest = REQUEST_CODES.has(fields.code);
+  const requestAuthenticator = options.requestAuthenticator ?? (isRequest ? fields.authenticator : undefined);
+  const context: AttributeCryptoContext | undefined = options.secret && requestAuthenticator
+    ? { secret: options.secret, requestAuthenticator }
+    : undefined;
+  const warnings: string[] = [];
+
+  if (options.secret) {
+    if (hasSignedRequestAuthenticator(fields.code) && !verifyRequestAuthenticator(payload, options.secret)) {
+      warnings.push('Request Authenticator does not verify with this shared secret.');
+    } else if (!isRequest && options.requestAuthenticator && !verifyResponseAuthenticator(payload, options.requestAuthenticator, options.secret)) {
+      warnings.push('Response Authenticator does not verify with this shared secret and Request Authenticator.');
+    }
+    if ((isRequest || options.requestAuthenticator) && verifyMessageAuthenticator(payload, options.secret, isRequest ? undefined : options.requestAuthenticator) === 'invalid') {
+      warnings.push('Message-Authenticator does not verify with this shared secret; decrypted values may be wrong.');
+    }
+  }
+
+  const attributes: RadiusAttribute[] = [];
+  for (const attr of decodeAttributes(fields.attributes, dictionary, context)) {
+    if (attr.name === 'Message-Authenticator') continue;
+    if (isHiddenValue(attr, dictionary, context)) {
+      const missing = !options.secret ? 'the shared secret' : 'the Request Authenticator of the original request';
+      warnings.push(`${attr.name} is encrypted and was left out; supply ${missing} to decrypt it.`);
+      continue;
+    }
+    attributes.push({ id: `attr_imported_${attributes.length + 1}`, name: attr.name, value: attr.value });
+  }
+
+  const type = RADCLIENT_TYPES[code];
+  if (!type) attributes.unshift({ id: 'attr_imported_packet_type', name: 'Packet-Type', value: code });
+  const source = layers.length > 0 ? ` (${layers.join('/')} headers removed)` : '';
+  return {
+    packet: {
+      name: options.name || `Imported ${code} (Id ${fields.identifier})`,
+      description: `Decoded from a captured ${payload.length}-octet ${code}${source} on ${new Date().toISOString().slice(0, 10)}.`,
+      attributes,
+      tags: ['imported'],
+      executionTool: 'radclient',
+      toolOptions: { type: type || 'auto', ...(options.protocol === 'tcp' ? { protocol: 'tcp' } : {}) } as RadClientOptions,
+    },
+    code,
+    identifier: fields.identifier,
+    warnings,
+  };
+}
+
+/** A complete RADIUS packet with a known code at the start of data, or undefined. */
+function radiusPacketAt(data: Buffer): Buffer | undefined {
+  if (data.length < RADIUS_HEADER_LENGTH) return undefined;
+  const length = data.readUInt16BE(2);
+  if (length < RADIUS_HEADER_LENGTH || length > RADIUS_MAX_PACKET_LENGTH || length > data.length) return undefined;
+  if (codeToName(data[0]).startsWith('Unknown')) return undefined;
+  const packet = data.subarray(0, length);
+  try {
+    decodePacket(packet);
+  } catch {
+    return undefined;
+  }
+  return packet;
+}
+
+interface CapturedRadiusMessage {
+  timestampMs: number;
+  protocol: 'udp' | 'tcp';
+  source: string;
+  destination: string;
+  bytes: Buffer;
+}
+
+interface TcpStream {
+  source: string;
+  destination: string;
+  segments: { sequence: number; payload: Buffer; timestampMs: number }[];
+}
+
+/**
+ * Reassembles one direction of a TCP connection in sequence order, dropping retransmitted
+ * segments, and splits it into RADIUS packets by their Length field (RFC 6613). The walk stops
+ * at a gap in the sequence space or at bytes that are not RADIUS, such as RadSec's TLS records.
+ */
+function radiusFromTcpStream(stream: TcpStream): CapturedRadiusMessage[] {
+  const base = stream.segments[0].sequence;
+  const segments = stream.segments
+    .map(segment => ({ ...segment, offset: (segment.sequence - base) >>> 0 }))
+    .sort((a, b) => a.offset - b.offset);
+  const chunks: Buffer[] = [];
+  const starts: { offset: number; timestampMs: number }[] = [];
+  let next = 0;
+  for (const segment of segments) {
+    if (segment.offset > next) break;
+    const fresh = segment.payload.subarray(next - segment.offset);
+    if (fresh.length === 0) continue;
+    starts.push({ offset: next, timestampMs: segment.timestampMs });
+    chunks.push(fresh);
+    next += fresh.length;
+  }
+  const data = Buffer.concat(chunks);
+  const messages: CapturedRadiusMessage[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const packet = radiusPacketAt(data.subarray(offset));
+    if (!packet) break;
+    const timestampMs = [...starts].reverse().find(start => start.offset <= offset)?.timestampMs ?? 0;
+    messages.push({ timestampMs, protocol: 'tcp', source: stream.source, destination: stream.destination, bytes: Buffer.from(packet) });
+    offset += packet.length;
+  }
+  return messages;
+}
+
+function capturedMessage(bytes: Buffer, dictionary: RadiusDictionary, context?: AttributeCryptoContext): CapturedMessage {
+  const fields = decodePacket(bytes);
+  return {
+    code: codeToName(fields.code),
+    identifier: fields.identifier,
+    hex: bytes.toString('hex'),
+    attributes: decodeAttributes(fields.attributes, dictionary, context).map(attr => ({ name: attr.name, value: attr.value })),
+  };
+}
+
+function expectedAttributesFromReply(reply: Buffer, dictionary: RadiusDictionary, context?: AttributeCryptoContext): { name: string; value: string }[] {
+  const fields = decodePacket(reply);
+  const expected = [{ name: 'Packet-Type', value: codeToName(fields.code) }];
+  for (const attr of decodeAttributes(fields.attributes, dictionary, context)) {
+    const untagged = splitAttributeTag(attr.name).name;
+    if (VOLATILE_REPLY_ATTRIBUTES.has(untagged.slice(untagged.indexOf(':') + 1))) continue;
+    if (isHiddenValue(attr, dictionary, context)) continue;
+    expected.push({ name: attr.name, value: attr.value });
+  }
+  return expected;
+}
+
+/**
+ * Extracts RADIUS over UDP and TCP from a pcap or pcapng file and pairs each request with
+ * its reply: same identifier, reversed addresses and ports, and a reply code valid for the
+ * request. Identical copies of a request count as retransmissions of the first. With the shared
+ * secret, hidden attributes are decrypted using each request's authenticator.
+ */
+export function importCaptureFile(data: Buffer, dictionary: RadiusDictionary, options: { secret?: string } = {}): CaptureImport {
+  const frames = readCaptureFile(data);
+  const skipped = new Map<string, number>();
+  const skip = (reason: string) => skipped.set(reason, (skipped.get(reason) || 0) + 1);
+  const messages: CapturedRadiusMessage[] = [];
+  const tcpStreams = new Map<string, TcpStream>();
+
+  for (const frame of frames) {
+    const { segment, skipped: reason } = decodeTransportSegment(frame);
+    if (reason) skip(reason);
+    if (!segment || segment.payload.length === 0) continue;
+    if (segment.protocol === 'udp') {
+      const packet = radiusPacketAt(segment.payload);
+      if (packet) messages.push({ timestampMs: frame.timestampMs, protocol: 'udp', source: segment.source, destination: segment.destination, bytes: Buffer.from(packet) });
+      continue;
+    }
+    const key = `${segment.source}>${segment.destination}`;
+    const stream = tcpStreams.get(key) || { source: segment.source, destination: segment.destination, segments: [] };
+    stream.segments.push({ sequence: segment.sequence ?? 0, payload: segment.payload, timestampMs: frame.timestampMs });
+    tcpStreams.set(key, stream);
+  }
+  for (const stream of tcpStreams.values()) {
+    const streamMessages = radiusFromTcpStream(stream);
+    if (streamMessages.length === 0 && [stream.source, stream.destination].some(endpoint => endpoint.endsWith(`:${RADSEC_PORT}`))) {
+      skip(`RadSec (TLS) stream ${stream.source} > ${stream.destination}, which cannot be decrypted`);
+    }
+    messages.push(...streamMessages);
+  }
+  messages.sort((a, b) => a.timestampMs - b.timestampMs);
+
+  const pending: (CapturedRadiusMessage & { retransmissions: number; reply?: CapturedRadiusMessage })[] = [];
+  for (const message of messages) {
+    if (REQUEST_CODES.has(message.bytes[0])) {
+      const original = [...pending].reverse().find(request => request.protocol === message.protocol
+        && request.source === message.source && request.destination === message.destination && request.bytes.equals(message.bytes));
+      if (original) original.retransmissions++;
+      else pending.push({ ...message, retransmissions: 0 });
+      continue;
+    }
+    const matches = (request: (typeof pending)[number]) => request.protocol === message.protocol
+      && request.source === message.destination && request.destination === message.source
+      && request.bytes[1] === message.bytes[1] && (REPLY_CODES[request.bytes[0]] || []).includes(message.bytes[0]);
+    const request = [...pending].reverse().find(candidate => !candidate.reply && matches(candidate));
+    if (request) request.reply = message;
+    else skip(pending.some(matches) ? 'duplicate reply to an answered request' : 'reply without a captured request');
+  }
+
+  const exchanges = pending.map((request, index): CapturedExchange => {
+    const context = options.secret ? { secret: options.secret, requestAuthenticator: request.bytes.subarray(4, 20) } : undefined;
+    return {
+      id: index + 1,
+      protocol: request.protocol,
+      client: request.source,
+      server: request.destination,
+      timestamp: new Date(request.timestampMs).toISOString(),
+      request: capturedMessage(request.bytes, dictionary, context),
+      response: request.reply ? capturedMessage(request.reply.bytes, dictionary, context) : undefined,
+      latencyMs: request.reply ? Math.round((request.reply.timestampMs - request.timestampMs) * 1000) / 1000 : undefined,
+      retransmissions: request.retransmissions,
+      // An unanswered request replays as a step that expects silence, as the capture showed.
+      expectedAttributes: request.reply ? expectedAttributesFromReply(request.reply.bytes, dictionary, context) : [{ name: 'Packet-Type', value: 'No-Reply' }],
+      hiddenAttributes: decodeAttributes(decodePacket(request.bytes).attributes, dictionary, context)
+        .filter(attr => isHiddenValue(attr, dictionary, context))
+        .map(attr => attr.name),
+    };
+  });
+  const notes = Array.from(skipped, ([reason, count]) => `Skipped ${reason}${count > 1 ? ` (${count} times)` : ''}`);
+  return { frames: frames.length, exchanges, notes };
+}
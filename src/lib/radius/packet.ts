@@ -0,0 +1,1096 @@
+// src/lib/radius/packet.ts
+// Native RFC 2865 packet encoder/decoder: header layout, attribute TLVs,
+// typed attribute values and Request/Response Authenticator handling, plus the
+// RFC 6929 extended and long-extended attribute spaces with nested TLVs, and a
+// fault-tolerant dissector that maps every octet of a packet to the field it belongs to.
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { attributeOid, getAttributeOption, parseOid, type DictionaryAttribute, type DictionaryVendor, type RadiusDictionary } from './dictionary';
+import {
+  decryptAscendSecret,
+  decryptTunnelPassword,
+  decryptUserPassword,
+  encryptAscendSecret,
+  encryptTunnelPassword,
+  encryptUserPassword,
+} from './crypto';
+
+export const RADIUS_HEADER_LENGTH = 20;
+export const RADIUS_MAX_PACKET_LENGTH = 4096;
+export const RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH = 253;
+
+export const RADIUS_CODES: Record<string, number> = {
+  'Access-Request': 1,
+  'Access-Accept': 2,
+  'Access-Reject': 3,
+  'Accounting-Request': 4,
+  'Accounting-Response': 5,
+  'Access-Challenge': 11,
+  'Status-Server': 12,
+  'Status-Client': 13,
+  'Disconnect-Request': 40,
+  'Disconnect-ACK': 41,
+  'Disconnect-NAK': 42,
+  'CoA-Request': 43,
+  'CoA-ACK': 44,
+  'CoA-NAK': 45,
+};
+
+export const MESSAGE_AUTHENTICATOR_TYPE = 80;
+
+// RFC 6929 section 2: Extended-Type attribute spaces; the long-extended ones carry a flags octet
+// whose More bit chains fragments of values longer than one attribute can hold.
+const EXTENDED_TYPES = new Set([241, 242, 243, 244]);
+const LONG_EXTENDED_TYPES = new Set([245, 246]);
+const LONG_EXTENDED_MORE_FLAG = 0x80;
+const LONG_EXTENDED_FRAGMENT_LENGTH = RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH - 2;
+
+// RFC 2868 section 3.1: tags 0x01-0x1F group the attributes describing one tunnel.
+const MAX_ATTRIBUTE_TAG = 0x1f;
+
+export const VENDOR_SPECIFIC_TYPE = 26;
+const WIMAX_CONTINUATION_FLAG = 0x80;
+
+type VendorFormat = Pick<DictionaryVendor, 'typeLength' | 'lengthLength' | 'continuation'>;
+// RFC 2865 section 5.26 recommended format, used for vendors missing from the dictionary.
+const DEFAULT_VENDOR_FORMAT: VendorFormat = { typeLength: 1, lengthLength: 1, continuation: false };
+
+// Wire sizes of the data types that may appear before the last member of a struct.
+const FIXED_SIZE_TYPES: Record<string, number> = {
+  byte: 1, short: 2, integer: 4, signed: 4, date: 4, ipaddr: 4, integer64: 8, ifid: 8, ether: 6, ipv6addr: 16,
+};
+
+export type MessageAuthenticatorStatus = 'valid' | 'invalid' | 'missing';
+
+// Requests whose authenticator is an MD5 signature over the packet rather than random bytes.
+const SIGNED_REQUEST_CODES = new Set([4, 40, 43]);
+
+export interface RawAttribute {
+  type: number;
+  value: Buffer;
+}
+
+export interface RadiusPacketFields {
+  code: number;
+  identifier: number;
+  authenticator: Buffer;
+  attributes: RawAttribute[];
+}
+
+export interface AttributeValuePair {
+  name: string;
+  value: string;
+}
+
+/** Secret and Request Authenticator needed to hide or reveal encrypted attributes. */
+export interface AttributeCryptoContext {
+  secret: string;
+  requestAuthenticator: Buffer;
+}
+
+export interface DecodedAttribute {
+  name: string; // Includes the tag suffix for tagged attributes, e.g. Tunnel-Type:1
+  code: number;
+  type: string;
+  value: string;
+  tag?: number;
+}
+
+export function codeToName(code: number): string {
+  const name = Object.keys(RADIUS_CODES).find(key => RADIUS_CODES[key] === code);
+  return name || `Unknown-Packet-Code-${code}`;
+}
+
+export function nameToCode(name: string): number | undefined {
+  const trimmed = name.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  const key = Object.keys(RADIUS_CODES).find(k => k.toLowerCase() === trimmed.toLowerCase());
+  return key ? RADIUS_CODES[key] : undefined;
+}
+
+export function hasSignedRequestAuthenticator(code: number): boolean {
+  return SIGNED_REQUEST_CODES.has(code);
+}
+
+export function generateRequestAuthenticator(): Buffer {
+  return randomBytes(16);
+}
+
+export function encodePacket(packet: RadiusPacketFields): Buffer {
+  const attributeBuffers = packet.attributes.map(attr => {
+    if (attr.value.length > RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH) {
+      throw new Error(`Attribute ${attr.type} value is ${attr.value.length} bytes; the maximum is ${RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH}.`);
+    }
+    return Buffer.concat([Buffer.from([attr.type, attr.value.length + 2]), attr.value]);
+  });
+  const length = RADIUS_HEADER_LENGTH + attributeBuffers.reduce((sum, buf) => sum + buf.length, 0);
+  if (length > RADIUS_MAX_PACKET_LENGTH) {
+    throw new Error(`Encoded packet is ${length} bytes; RFC 2865 limits packets to ${RADIUS_MAX_PACKET_LENGTH}.`);
+  }
+  if (packet.authenticator.length !== 16) {
+    throw new Error('Authenticator must be exactly 16 bytes.');
+  }
+  const header = Buffer.alloc(4);
+  header.writeUInt8(packet.code, 0);
+  header.writeUInt8(packet.identifier & 0xff, 1);
+  header.writeUInt16BE(length, 2);
+  return Buffer.concat([header, packet.authenticator, ...attributeBuffers]);
+}
+
+export function decodePacket(data: Buffer): RadiusPacketFields {
+  if (data.length < RADIUS_HEADER_LENGTH) {
+    throw new Error(`Packet is ${data.length} bytes; a RADIUS header needs ${RADIUS_HEADER_LENGTH}.`);
+  }
+  const length = data.readUInt16BE(2);
+  if (length < RADIUS_HEADER_LENGTH || length > RADIUS_MAX_PACKET_LENGTH) {
+    throw new Error(`Invalid RADIUS length field: ${length}.`);
+  }
+  if (length > data.length) {
+    throw new Error(`Length field (${length}) exceeds received data (${data.length} bytes).`);
+  }
+
+  const attributes: RawAttribute[] = [];
+  let offset = RADIUS_HEADER_LENGTH;
+  while (offset < length) {
+    if (offset + 2 > length) {
+      throw new Error(`Truncated attribute header at offset ${offset}.`);
+    }
+    const type = data[offset];
+    const attrLength = data[offset + 1];
+    if (attrLength < 2 || offset + attrLength > length) {
+      throw new Error(`Attribute ${type} at offset ${offset} has invalid length ${attrLength}.`);
+    }
+    attributes.push({ type, value: Buffer.from(data.subarray(offset + 2, offset + attrLength)) });
+    offset += attrLength;
+  }
+
+  return {
+    code: data[0],
+    identifier: data[1],
+    authenticator: Buffer.from(data.subarray(4, 20)),
+    attributes,
+  };
+}
+
+/**
+ * Writes the MD5 Request Authenticator used by Accounting, CoA and Disconnect
+ * requests (RFC 2866 section 3) into an encoded packet, in place.
+ */
+export function signRequestAuthenticator(packet: Buffer, secret: string): Buffer {
+  packet.fill(0, 4, 20);
+  const digest = createHash('md5').update(packet).update(secret, 'utf8').digest();
+  digest.copy(packet, 4);
+  return packet;
+}
+
+/** Checks a received Accounting, CoA or Disconnect request against the shared secret. */
+export function verifyRequestAuthenticator(packet: Buffer, secret: string): boolean {
+  if (packet.length < RADIUS_HEADER_LENGTH) return false;
+  const copy = Buffer.from(packet.subarray(0, packet.readUInt16BE(2)));
+  return signRequestAuthenticator(copy, secret).subarray(4, 20).equals(packet.subarray(4, 20));
+}
+
+/** Response Authenticator = MD5(Code + ID + Length + RequestAuth + Attributes + Secret). */
+export function computeResponseAuthenticator(response: Buffer, requestAuthenticator: Buffer, secret: string): Buffer {
+  const length = response.readUInt16BE(2);
+  return createHash('md5')
+    .update(response.subarray(0, 4))
+    .update(requestAuthenticator)
+    .update(response.subarray(20, length))
+    .update(secret, 'utf8')
+    .digest();
+}
+
+export function verifyResponseAuthenticator(response: Buffer, requestAuthenticator: Buffer, secret: string): boolean {
+  if (response.length < RADIUS_HEADER_LENGTH) return false;
+  return computeResponseAuthenticator(response, requestAuthenticator, secret).equals(response.subarray(4, 20));
+}
+
+/** Returns the offset of the value of the first attribute of the given type, or -1. */
+export function findAttributeValueOffset(packet: Buffer, type: number): number {
+  const length = Math.min(packet.readUInt16BE(2), packet.length);
+  let offset = RADIUS_HEADER_LENGTH;
+  while (offset + 2 <= length) {
+    const attrLength = packet[offset + 1];
+    if (attrLength < 2) return -1;
+    if (packet[offset] === type) return offset + 2;
+    offset += attrLength;
+  }
+  return -1;
+}
+
+/**
+ * RFC 3579 section 3.2: HMAC-MD5 over the packet with the Message-Authenticator
+ * value zeroed. Replies are computed over the Request Authenticator, so pass it as
+ * `authenticator`; Accounting/CoA/Disconnect requests are computed with the
+ * authenticator field still zeroed, before the Request Authenticator is signed.
+ */
+export function computeMessageAuthenticator(packet: Buffer, secret: string, authenticator?: Buffer): Buffer {
+  const valueOffset = findAttributeValueOffset(packet, MESSAGE_AUTHENTICATOR_TYPE);
+  if (valueOffset === -1) throw new Error('Packet has no Message-Authenticator attribute.');
+  const copy = Buffer.from(packet.subarray(0, packet.readUInt16BE(2)));
+  copy.fill(0, valueOffset, valueOffset + 16);
+  if (authenticator) authenticator.copy(copy, 4);
+  return createHmac('md5', secret).update(copy).digest();
+}
+
+/** Writes the Message-Authenticator value into an encoded packet, in place. */
+export function signMessageAuthenticator(packet: Buffer, secret: string, authenticator?: Buffer): Buffer {
+  const valueOffset = findAttributeValueOffset(packet, MESSAGE_AUTHENTICATOR_TYPE);
+  computeMessageAuthenticator(packet, secret, authenticator).copy(packet, valueOffset);
+  return packet;
+}
+
+export function verifyMessageAuthenticator(packet: Buffer, secret: string, authenticator?: Buffer): MessageAuthenticatorStatus {
+  const valueOffset = findAttributeValueOffset(packet, MESSAGE_AUTHENTICATOR_TYPE);
+  if (valueOffset === -1) return 'missing';
+  if (packet[valueOffset - 1] !== 18) return 'invalid';
+  const expected = computeMessageAuthenticator(packet, secret, authenticator);
+  return expected.equals(packet.subarray(valueOffset, valueOffset + 16)) ? 'valid' : 'invalid';
+}
+
+/** Builds a Vendor-Specific (26) value in the RFC 2865 recommended format: Vendor-Id, type, length, data. */
+export function encodeVendorSpecific(vendorId: number, vendorType: number, data: Buffer): Buffer {
+  if (data.length > RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH - 6) {
+    throw new Error(`Vendor attribute ${vendorId}:${vendorType} value is too long (${data.length} bytes).`);
+  }
+  const header = Buffer.alloc(6);
+  header.writeUInt32BE(vendorId, 0);
+  header.writeUInt8(vendorType, 4);
+  header.writeUInt8(data.length + 2, 5);
+  return Buffer.concat([header, data]);
+}
+
+/** Splits a Vendor-Specific value into its sub-attributes (RFC 2865 recommended format). */
+export function decodeVendorSpecific(value: Buffer): { vendorId: number; vendorType: number; value: Buffer }[] {
+  if (value.length < 4) return [];
+  const vendorId = value.readUInt32BE(0);
+  const result: { vendorId: number; vendorType: number; value: Buffer }[] = [];
+  let offset = 4;
+  while (offset + 2 <= value.length) {
+    const length = value[offset + 1];
+    if (length < 2 || offset + length > value.length) break;
+    result.push({ vendorId, vendorType: value[offset], value: value.subarray(offset + 2, offset + length) });
+    offset += length;
+  }
+  return result;
+}
+
+// --- Attribute values ---
+
+function stripQuotes(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function parseHex(value: string): Buffer | undefined {
+  const match = /^0x([0-9a-fA-F]*)$/.exec(value);
+  if (!match || match[1].length % 2 !== 0) return undefined;
+  return Buffer.from(match[1], 'hex');
+}
+
+function isIPv4(value: string): boolean {
+  return /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.test(value) && value.split('.').every(octet => parseInt(octet, 10) <= 255);
+}
+
+function parseIPv4(value: string): Buffer {
+  if (!isIPv4(value)) throw new Error(`"${value}" is not a valid IPv4 address.`);
+  return Buffer.from(value.split('.').map(octet => parseInt(octet, 10)));
+}
+
+function parseIPv6(value: string): Buffer {
+  let address = value.trim();
+  const result = Buffer.alloc(16);
+  // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  const v4Match = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (v4Match) {
+    const v4 = parseIPv4(v4Match[1]);
+    address = address.slice(0, -v4Match[1].length) + `${v4.readUInt16BE(0).toString(16)}:${v4.readUInt16BE(2).toString(16)}`;
+  }
+  const halves = address.split('::');
+  if (halves.length > 2) throw new Error(`"${value}" is not a valid IPv6 address.`);
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  if (halves.length === 2 && head.length + tail.length > 7) throw new Error(`"${value}" is not a valid IPv6 address.`);
+  const groups = halves.length === 2
+    ? [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail]
+    : head;
+  if (groups.length !== 8 || groups.some(g => !/^[0-9a-fA-F]{1,4}$/.test(g))) {
+    throw new Error(`"${value}" is not a valid IPv6 address.`);
+  }
+  groups.forEach((group, i) => result.writeUInt16BE(parseInt(group, 16), i * 2));
+  return result;
+}
+
+function formatIPv6(bytes: Buffer): string {
+  const padded = Buffer.alloc(16);
+  bytes.copy(padded, 0, 0, Math.min(16, bytes.length));
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push(padded.readUInt16BE(i));
+  // Compress the longest run of zero groups (RFC 5952).
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8;) {
+    if (groups[i] !== 0) { i++; continue; }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) { bestStart = i; bestLength = j - i; }
+    i = j;
+  }
+  const hex = groups.map(g => g.toString(16));
+  if (bestStart === -1) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+function parseSeparatedHex(value: string, byteLength: number, label: string): Buffer {
+  const digits = value.replace(/[:\-.]/g, '');
+  if (!/^[0-9a-fA-F]+$/.test(digits) || digits.length !== byteLength * 2) {
+    throw new Error(`"${value}" is not a valid ${label}.`);
+  }
+  return Buffer.from(digits, 'hex');
+}
+
+function parseUnsigned(value: string, attribute: DictionaryAttribute): number {
+  const enumValue = Object.keys(attribute.values).find(name => name.toLowerCase() === value.toLowerCase());
+  if (enumValue !== undefined) return attribute.values[enumValue];
+  const numeric = /^0x[0-9a-fA-F]+$/.test(value) ? parseInt(value, 16) : Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0) {
+    throw new Error(`"${value}" is not a valid value for ${attribute.name}.`);
+  }
+  return numeric;
+}
+
+function enumName(attribute: DictionaryAttribute, numeric: number): string {
+  const name = Object.keys(attribute.values).find(key => attribute.values[key] === numeric);
+  return name ?? String(numeric);
+}
+
+/**
+ * Encodes a struct from comma-separated member values, e.g. "1, 192.0.2.1, 1812".
+ * Members are the struct's children in the dictionary, in code order.
+ */
+function encodeStruct(attribute: DictionaryAttribute, value: string, dictionary: RadiusDictionary): Buffer {
+  const members = dictionary.childrenOf(attribute);
+  if (members.length === 0) return parseHex(value) ?? Buffer.from(value, 'utf8');
+  const parts = value.split(',').map(part => part.trim());
+  if (parts.length !== members.length) {
+    throw new Error(`${attribute.name} has ${members.length} members (${members.map(m => m.name).join(', ')}); got ${parts.length} values.`);
+  }
+  return Buffer.concat(members.map((member, i) => encodeAttributeValue(member, parts[i], dictionary)));
+}
+
+function decodeStruct(attribute: DictionaryAttribute, data: Buffer, dictionary: RadiusDictionary): string | undefined {
+  const members = dictionary.childrenOf(attribute);
+  if (members.length === 0) return undefined;
+  const values: string[] = [];
+  let offset = 0;
+  for (const [i, member] of members.entries()) {
+    const size = FIXED_SIZE_TYPES[member.type] ?? (i === members.length - 1 ? data.length - offset : undefined);
+    if (size === undefined || offset + size > data.length) return undefined;
+    values.push(decodeAttributeValue(member, data.subarray(offset, offset + size), dictionary));
+    offset += size;
+  }
+  return offset === data.length ? values.join(', ') : undefined;
+}
+
+/**
+ * Encodes a textual attribute value into its wire representation based on the dictionary type.
+ * The dictionary is needed for struct values, which are built from their member definitions.
+ */
+export function encodeAttributeValue(attribute: DictionaryAttribute, rawValue: string, dictionary?: RadiusDictionary): Buffer {
+  const value = stripQuotes(rawValue);
+  switch (attribute.type) {
+    case 'string':
+      return Buffer.from(value, 'utf8');
+    case 'integer':
+    case 'signed': {
+      const buf = Buffer.alloc(4);
+      const numeric = attribute.type === 'signed' ? Number(value) : parseUnsigned(value, attribute);
+      if (attribute.type === 'signed') buf.writeInt32BE(numeric, 0);
+      else buf.writeUInt32BE(numeric, 0);
+      return buf;
+    }
+    case 'byte':
+      return Buffer.from([parseUnsigned(value, attribute) & 0xff]);
+    case 'short': {
+      const buf = Buffer.alloc(2);
+      buf.writeUInt16BE(parseUnsigned(value, attribute), 0);
+      return buf;
+    }
+    case 'integer64': {
+      const buf = Buffer.alloc(8);
+      buf.writeBigUInt64BE(BigInt(value), 0);
+      return buf;
+    }
+    case 'date': {
+      const seconds = /^\d+$/.test(value) ? parseInt(value, 10) : Math.floor(Date.parse(value) / 1000);
+      if (Number.isNaN(seconds)) throw new Error(`"${value}" is not a valid date for ${attribute.name}.`);
+      const buf = Buffer.alloc(4);
+      buf.writeUInt32BE(seconds, 0);
+      return buf;
+    }
+    case 'ipaddr':
+      return parseIPv4(value);
+    case 'ipv6addr':
+      return parseIPv6(value);
+    case 'combo-ip':
+      return isIPv4(value) ? parseIPv4(value) : parseIPv6(value);
+    case 'ipv6prefix': {
+      const [address, prefixLength = '128'] = value.split('/');
+      const bits = parseInt(prefixLength, 10);
+      if (Number.isNaN(bits) || bits < 0 || bits > 128) throw new Error(`"${value}" is not a valid IPv6 prefix.`);
+      const prefixBytes = parseIPv6(address).subarray(0, Math.ceil(bits / 8));
+      return Buffer.concat([Buffer.from([0, bits]), prefixBytes]);
+    }
+    case 'ifid':
+      return parseSeparatedHex(value, 8, 'interface id');
+    case 'ether':
+      return parseSeparatedHex(value, 6, 'MAC address');
+    case 'struct':
+      if (dictionary) return encodeStruct(attribute, value, dictionary);
+      return parseHex(value) ?? Buffer.from(value, 'utf8');
+    default:
+      // octets, vsa, tlv, abinary and anything the encoder has no special handling for.
+      return parseHex(value) ?? Buffer.from(value, 'utf8');
+  }
+}
+
+/** Decodes a wire value into the textual form used by the Packet Editor and radclient output. */
+export function decodeAttributeValue(attribute: DictionaryAttribute, data: Buffer, dictionary?: RadiusDictionary): string {
+  const hex = `0x${data.toString('hex')}`;
+  switch (attribute.type) {
+    case 'string':
+      return data.toString('utf8');
+    case 'integer':
+      return data.length === 4 ? enumName(attribute, data.readUInt32BE(0)) : hex;
+    case 'signed':
+      return data.length === 4 ? String(data.readInt32BE(0)) : hex;
+    case 'byte':
+      return data.length === 1 ? enumName(attribute, data[0]) : hex;
+    case 'short':
+      return data.length === 2 ? enumName(attribute, data.readUInt16BE(0)) : hex;
+    case 'integer64':
+      return data.length === 8 ? data.readBigUInt64BE(0).toString() : hex;
+    case 'date':
+      return data.length === 4 ? new Date(data.readUInt32BE(0) * 1000).toISOString() : hex;
+    case 'ipaddr':
+      return data.length === 4 ? Array.from(data).join('.') : hex;
+    case 'ipv6addr':
+      return data.length === 16 ? formatIPv6(data) : hex;
+    case 'combo-ip':
+      if (data.length === 4) return Array.from(data).join('.');
+      return data.length === 16 ? formatIPv6(data) : hex;
+    case 'ipv6prefix':
+      return data.length >= 2 && data.length <= 18 ? `${formatIPv6(data.subarray(2))}/${data[1]}` : hex;
+    case 'ifid':
+      return data.length === 8 ? (data.toString('hex').match(/.{4}/g) || []).join(':') : hex;
+    case 'ether':
+      return data.length === 6 ? (data.toString('hex').match(/.{2}/g) || []).join(':') : hex;
+    case 'struct':
+      return (dictionary && decodeStruct(attribute, data, dictionary)) ?? hex;
+    default:
+      return hex;
+  }
+}
+
+/**
+ * Splits a FreeRADIUS tag suffix off an attribute name: "Tunnel-Type:1" gives
+ * Tunnel-Type with tag 1. Names without a numeric suffix are returned unchanged.
+ */
+export function splitAttributeTag(name: string): { name: string; tag?: number } {
+  const match = /^(.+):(\d+)$/.exec(name.trim());
+  return match ? { name: match[1], tag: parseInt(match[2], 10) } : { name: name.trim() };
+}
+
+/**
+ * Resolves an attribute name to its dictionary definition. A tag suffix such as
+ * Tunnel-Type:1 is ignored here; see splitAttributeTag. Children of TLVs may be
+ * named "Parent.Child" and vendor attributes "Vendor:Attribute". Names of the form
+ * "Attr-<code>" or "Attr-<dotted number>", e.g. Attr-241.9, are accepted for
+ * attributes missing from the dictionary, as is "Vendor-<id>:Attr-<code>".
+ */
+export function resolveAttribute(dictionary: RadiusDictionary, taggedName: string): DictionaryAttribute {
+  const { name } = splitAttributeTag(taggedName);
+  const vendorQualified = /^([^:]+):(.+)$/.exec(name.trim());
+  if (vendorQualified) {
+    const unknownVendor = /^Vendor-(\d+)$/i.exec(vendorQualified[1]);
+    const vendor = dictionary.findVendor(vendorQualified[1]) ?? (unknownVendor ? dictionary.findVendor(parseInt(unknownVendor[1], 10)) : undefined);
+    const vendorId = vendor?.id ?? (unknownVendor ? parseInt(unknownVendor[1], 10) : undefined);
+    if (vendorId === undefined) throw new Error(`Unknown vendor "${vendorQualified[1]}" in attribute "${name}". Import the vendor's dictionary or use Vendor-<id>.`);
+    const known = dictionary.findByName(vendorQualified[2]);
+    if (known && known.vendorId === vendorId) return known;
+    const raw = /^Attr-([\d.]+)$/i.exec(vendorQualified[2].trim());
+    const oid = raw ? parseOid(raw[1], 2 ** (8 * (vendor?.typeLength ?? 1)) - 1) : undefined;
+    if (oid) {
+      return { name: `${vendorQualified[1]}:Attr-${raw![1]}`, code: oid.code, vendorId, path: oid.path.length > 0 ? oid.path : undefined, type: 'octets', options: [], values: {} };
+    }
+    throw new Error(`Unknown attribute "${vendorQualified[2]}" for vendor ${vendorQualified[1]}. Import a dictionary that defines it or use ${vendorQualified[1]}:Attr-<number>.`);
+  }
+  const known = dictionary.findByName(name);
+  if (known) return known;
+  const raw = /^Attr-([\d.]+)$/i.exec(name.trim());
+  const oid = raw ? parseOid(raw[1]) : undefined;
+  if (oid) {
+    return { name: `Attr-${raw![1]}`, code: oid.code, path: oid.path.length > 0 ? oid.path : undefined, type: 'octets', options: [], values: {} };
+  }
+  throw new Error(`Unknown attribute "${name}". Import a dictionary that defines it or use Attr-<number>.`);
+}
+
+function encryptMethod(attribute: DictionaryAttribute): number {
+  const method = getAttributeOption(attribute, 'encrypt');
+  return method ? parseInt(method, 10) || 0 : 0;
+}
+
+function isTagged(attribute: DictionaryAttribute): boolean {
+  return getAttributeOption(attribute, 'has_tag') !== undefined;
+}
+
+function hideValue(attribute: DictionaryAttribute, data: Buffer, context: AttributeCryptoContext, tag = 0): Buffer {
+  const { secret, requestAuthenticator } = context;
+  switch (encryptMethod(attribute)) {
+    case 1:
+      return encryptUserPassword(data, secret, requestAuthenticator);
+    case 2: {
+      const hidden = encryptTunnelPassword(data, secret, requestAuthenticator);
+      return isTagged(attribute) ? Buffer.concat([Buffer.from([tag]), hidden]) : hidden;
+    }
+    case 3:
+      return encryptAscendSecret(data, secret, requestAuthenticator);
+    default:
+      return data;
+  }
+}
+
+function revealValue(attribute: DictionaryAttribute, data: Buffer, context: AttributeCryptoContext): Buffer {
+  const { secret, requestAuthenticator } = context;
+  switch (encryptMethod(attribute)) {
+    case 1:
+      return decryptUserPassword(data, secret, requestAuthenticator);
+    case 2:
+      return decryptTunnelPassword(isTagged(attribute) ? data.subarray(1) : data, secret, requestAuthenticator);
+    case 3:
+      return decryptAscendSecret(data, secret, requestAuthenticator);
+    default:
+      return data;
+  }
+}
+
+/** One attribute value on its own, before the extended and TLV headers of its parents are added. */
+export interface EncodedAttribute {
+  attribute: DictionaryAttribute;
+  data: Buffer;
+}
+
+export interface EncodeAttributeOptions {
+  context?: AttributeCryptoContext; // Needed for encrypted attributes
+  dictionary?: RadiusDictionary; // Needed for struct values
+  tag?: number; // RFC 2868 tag for attributes flagged has_tag
+}
+
+/**
+ * Adds the RFC 2868 tag to a has_tag value: integers carry it in their first octet,
+ * leaving 24 bits for the value, and other types are prefixed with it when one is given.
+ */
+function addTag(attribute: DictionaryAttribute, data: Buffer, tag: number | undefined): Buffer {
+  if (attribute.type === 'integer') {
+    if (data.readUInt32BE(0) > 0xffffff) {
+      throw new Error(`${attribute.name} is tagged, so its value must fit in 24 bits.`);
+    }
+    const tagged = Buffer.from(data);
+    tagged[0] = tag ?? 0;
+    return tagged;
+  }
+  return tag === undefined ? data : Buffer.concat([Buffer.from([tag]), data]);
+}
+
+/** Separates the tag from a received has_tag value; strings only carry one when the first octet is 0x00-0x1F. */
+function removeTag(attribute: DictionaryAttribute, data: Buffer): { tag?: number; data: Buffer } {
+  if (data.length === 0) return { data };
+  if (attribute.type === 'integer') {
+    return data.length === 4 ? { tag: data[0], data: Buffer.concat([Buffer.from([0]), data.subarray(1)]) } : { data };
+  }
+  return data[0] <= MAX_ATTRIBUTE_TAG ? { tag: data[0], data: data.subarray(1) } : { data };
+}
+
+/**
+ * Encodes one attribute value. Textual values are converted using the dictionary type,
+ * tagged and hidden according to its has_tag and encrypt= flags; Buffer values are
+ * sent exactly as given. Use packAttributes() to turn the results into packet attributes.
+ */
+export function encodeAttribute(attribute: DictionaryAttribute, value: string | Buffer, options: EncodeAttributeOptions = {}): EncodedAttribute {
+  const { context, dictionary, tag } = options;
+  if (tag !== undefined) {
+    if (!isTagged(attribute)) throw new Error(`${attribute.name} does not take a tag; the dictionary does not flag it has_tag.`);
+    if (tag > MAX_ATTRIBUTE_TAG) throw new Error(`Tag ${tag} on ${attribute.name} is out of range; tags are 0-${MAX_ATTRIBUTE_TAG}.`);
+  }
+  if (Buffer.isBuffer(value)) return { attribute, data: value };
+  const data = encodeAttributeValue(attribute, value, dictionary);
+  if (encryptMethod(attribute) === 0) return { attribute, data: isTagged(attribute) ? addTag(attribute, data, tag) : data };
+  if (!context) {
+    throw new Error(`${attribute.name} is encrypted and needs the shared secret and Request Authenticator to be encoded.`);
+  }
+  return { attribute, data: hideValue(attribute, data, context, tag) };
+}
+
+function encodeTlv(code: number, data: Buffer, oid: number[]): Buffer {
+  if (data.length > RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH) {
+    throw new Error(`TLV ${[...oid, code].join('.')} value is ${data.length} bytes; the maximum is ${RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH}.`);
+  }
+  return Buffer.concat([Buffer.from([code, data.length + 2]), data]);
+}
+
+/** Encodes TLVs given by their path below the parent; consecutive children of the same TLV share one instance of it. */
+function encodeTlvs(items: { path: number[]; data: Buffer }[], oid: number[]): Buffer {
+  const buffers: Buffer[] = [];
+  for (let i = 0; i < items.length;) {
+    const [code, ...rest] = items[i].path;
+    if (rest.length === 0) {
+      buffers.push(encodeTlv(code, items[i].data, oid));
+      i++;
+      continue;
+    }
+    const children: { path: number[]; data: Buffer }[] = [];
+    for (; i < items.length && items[i].path.length > 1 && items[i].path[0] === code; i++) {
+      children.push({ path: items[i].path.slice(1), data: items[i].data });
+    }
+    buffers.push(encodeTlv(code, encodeTlvs(children, [...oid, code]), oid));
+  }
+  return Buffer.concat(buffers);
+}
+
+/**
+ * Groups encoded values into the attributes that carry them. A value whose oid is
+ * longer than its container (Type, Type.Extended-Type or the vendor type) is a TLV
+ * child; consecutive children of the same container share one instance of it.
+ */
+function groupByContainer(items: { oid: number[]; data: Buffer }[], containerLength: (oid: number[]) => number): { oid: number[]; body: Buffer }[] {
+  const groups: { oid: number[]; body: Buffer }[] = [];
+  for (let i = 0; i < items.length;) {
+    const { oid, data } = items[i];
+    const length = containerLength(oid);
+    if (oid.length <= length) {
+      groups.push({ oid, body: data });
+      i++;
+      continue;
+    }
+    const container = oid.slice(0, length);
+    const children: { path: number[]; data: Buffer }[] = [];
+    for (; i < items.length && items[i].oid.length > length && container.every((code, j) => items[i].oid[j] === code); i++) {
+      children.push({ path: items[i].oid.slice(length), data: items[i].data });
+    }
+    groups.push({ oid: container, body: encodeTlvs(children, container) });
+  }
+  return groups;
+}
+
+function packStandard(groups: { oid: number[]; body: Buffer }[]): RawAttribute[] {
+  return groups.flatMap(({ oid, body }): RawAttribute[] => {
+    const type = oid[0];
+    // A bare extended attribute, e.g. Attr-241 = 0x01..., is sent as given.
+    if (oid.length < 2 || !(EXTENDED_TYPES.has(type) || LONG_EXTENDED_TYPES.has(type))) return [{ type, value: body }];
+    if (EXTENDED_TYPES.has(type)) return [{ type, value: Buffer.concat([Buffer.from([oid[1]]), body]) }];
+    const fragments: RawAttribute[] = [];
+    let offset = 0;
+    do {
+      const fragment = body.subarray(offset, offset + LONG_EXTENDED_FRAGMENT_LENGTH);
+      offset += fragment.length;
+      const flags = offset < body.length ? LONG_EXTENDED_MORE_FLAG : 0;
+      fragments.push({ type, value: Buffer.concat([Buffer.from([oid[1], flags]), fragment]) });
+    } while (offset < body.length);
+    return fragments;
+  });
+}
+
+function writeUInt(value: number, length: number): Buffer {
+  const buf = Buffer.alloc(length);
+  if (length > 0) buf.writeUIntBE(value, 0, length);
+  return buf;
+}
+
+/**
+ * Wraps vendor sub-attributes in Vendor-Specific (26) attributes using the vendor's
+ * format. As many sub-attributes as fit share one Vendor-Specific; WiMAX-style
+ * vendors instead get one per sub-attribute, with values over 246 bytes split
+ * across several chained by the continuation flag.
+ */
+function packVendorSpecific(vendor: VendorFormat & { id: number }, groups: { oid: number[]; body: Buffer }[]): RawAttribute[] {
+  const vendorHeader = writeUInt(vendor.id, 4);
+  const maxSubAttribute = RADIUS_MAX_ATTRIBUTE_VALUE_LENGTH - vendorHeader.length;
+  const result: RawAttribute[] = [];
+
+  if (vendor.continuation) {
+    for (const { oid, body } of groups) {
+      let offset = 0;
+      do {
+        const fragment = body.subarray(offset, offset + maxSubAttribute - 3);
+        offset += fragment.length;
+        const flags = offset < body.length ? WIMAX_CONTINUATION_FLAG : 0;
+        result.push({ type: VENDOR_SPECIFIC_TYPE, value: Buffer.concat([vendorHeader, Buffer.from([oid[0], fragment.length + 3, flags]), fragment]) });
+      } while (offset < body.length);
+    }
+    return result;
+  }
+
+  let pending: Buffer[] = [];
+  let pendingLength = 0;
+  const flush = () => {
+    if (pending.length > 0) result.push({ type: VENDOR_SPECIFIC_TYPE, value: Buffer.concat([vendorHeader, ...pending]) });
+    pending = [];
+    pendingLength = 0;
+  };
+  for (const { oid, body } of groups) {
+    const headerLength = vendor.typeLength + vendor.lengthLength;
+    if (headerLength + body.length > maxSubAttribute) {
+      throw new Error(`Vendor attribute ${vendor.id}:${attributeOid({ code: oid[oid.length - 1], path: oid.slice(0, -1) })} value is too long (${body.length} bytes).`);
+    }
+    if (oid[0] >= 2 ** (8 * vendor.typeLength)) {
+      throw new Error(`Vendor attribute type ${oid[0]} does not fit the ${vendor.typeLength}-octet type field of vendor ${vendor.id}.`);
+    }
+    const subAttribute = Buffer.concat([writeUInt(oid[0], vendor.typeLength), writeUInt(headerLength + body.length, vendor.lengthLength), body]);
+    // Without a length field a sub-attribute runs to the end of the Vendor-Specific, so it cannot share one.
+    if (vendor.lengthLength === 0 || pendingLength + subAttribute.length > maxSubAttribute) flush();
+    pending.push(subAttribute);
+    pendingLength += subAttribute.length;
+    if (vendor.lengthLength === 0) flush();
+  }
+  flush();
+  return result;
+}
+
+/**
+ * Builds packet attributes from encoded values. Extended attributes get their
+ * Extended-Type header (RFC 6929), long-extended values over 251 bytes are split
+ * into fragments chained by the More flag, consecutive children of the same TLV are
+ * packed into one instance of it, and vendor attributes are wrapped in
+ * Vendor-Specific using the vendor's format= from the dictionary.
+ */
+export function packAttributes(encoded: EncodedAttribute[], dictionary: RadiusDictionary): RawAttribute[] {
+  const items = encoded.map(({ attribute, data }) => ({ vendorId: attribute.vendorId, oid: [...(attribute.path || []), attribute.code], data }));
+  const result: RawAttribute[] = [];
+  for (let i = 0; i < items.length;) {
+    const vendorId = items[i].vendorId;
+    const run: { oid: number[]; data: Buffer }[] = [];
+    for (; i < items.length && items[i].vendorId === vendorId; i++) run.push(items[i]);
+    if (vendorId === undefined) {
+      result.push(...packStandard(groupByContainer(run, oid => EXTENDED_TYPES.has(oid[0]) || LONG_EXTENDED_TYPES.has(oid[0]) ? 2 : 1)));
+    } else {
+      const vendor = { ...DEFAULT_VENDOR_FORMAT, ...dictionary.findVendor(vendorId), id: vendorId };
+      result.push(...packVendorSpecific(vendor, groupByContainer(run, () => 1)));
+    }
+  }
+  return result;
+}
+
+export function encodeAttributes(pairs: AttributeValuePair[], dictionary: RadiusDictionary, context?: AttributeCryptoContext): RawAttribute[] {
+  return packAttributes(pairs.map(pair => encodeAttribute(resolveAttribute(dictionary, pair.name), pair.value, {
+    context,
+    dictionary,
+    tag: splitAttributeTag(pair.name).tag,
+  })), dictionary);
+}
+
+/** Joins long-extended fragments (RFC 6929 section 5.2) back into one attribute per value. */
+function reassembleLongExtended(attributes: RawAttribute[]): RawAttribute[] {
+  const result: RawAttribute[] = [];
+  for (let i = 0; i < attributes.length; i++) {
+    const attr = attributes[i];
+    if (!LONG_EXTENDED_TYPES.has(attr.type) || attr.value.length < 2 || !(attr.value[1] & LONG_EXTENDED_MORE_FLAG)) {
+      result.push(attr);
+      continue;
+    }
+    const fragments = [attr.value.subarray(2)];
+    let last = attr;
+    while (last.value[1] & LONG_EXTENDED_MORE_FLAG) {
+      const next = attributes[i + 1];
+      if (!next || next.type !== attr.type || next.value.length < 2 || next.value[0] !== attr.value[0]) break;
+      fragments.push(next.value.subarray(2));
+      last = next;
+      i++;
+    }
+    result.push({ type: attr.type, value: Buffer.concat([Buffer.from([attr.value[0], attr.value[1] & ~LONG_EXTENDED_MORE_FLAG]), ...fragments]) });
+  }
+  return result;
+}
+
+interface VendorSubAttribute {
+  type: number;
+  value: Buffer;
+  more: boolean; // WiMAX continuation flag
+}
+
+/** Splits the part of a Vendor-Specific value after the Vendor-Id; undefined when it does not fit the format. */
+function splitVendorSubAttributes(data: Buffer, vendor: VendorFormat): VendorSubAttribute[] | undefined {
+  const headerLength = vendor.typeLength + vendor.lengthLength + (vendor.continuation ? 1 : 0);
+  const subAttributes: VendorSubAttribute[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    if (offset + headerLength > data.length) return undefined;
+    const type = data.readUIntBE(offset, vendor.typeLength);
+    const length = vendor.lengthLength === 0 ? data.length - offset : data.readUIntBE(offset + vendor.typeLength, vendor.lengthLength);
+    if (length < headerLength || offset + length > data.length) return undefined;
+    const more = vendor.continuation && (data[offset + headerLength - 1] & WIMAX_CONTINUATION_FLAG) !== 0;
+    subAttributes.push({ type, value: data.subarray(offset + headerLength, offset + length), more });
+    offset += length;
+  }
+  return subAttributes;
+}
+
+/**
+ * Replaces each Vendor-Specific attribute that fits its vendor's format with its
+ * sub-attributes, joining WiMAX continuations. Anything else is passed through.
+ */
+function expandVendorSpecific(attributes: RawAttribute[], dictionary: RadiusDictionary): (RawAttribute & { vendorId?: number })[] {
+  const result: (RawAttribute & { vendorId?: number })[] = [];
+  const split = (attr: RawAttribute) => {
+    if (attr.type !== VENDOR_SPECIFIC_TYPE || attr.value.length < 4) return undefined;
+    const vendorId = attr.value.readUInt32BE(0);
+    const vendor = { ...DEFAULT_VENDOR_FORMAT, ...dictionary.findVendor(vendorId) };
+    const subAttributes = splitVendorSubAttributes(attr.value.subarray(4), vendor);
+    return subAttributes && subAttributes.length > 0 ? { vendorId, subAttributes } : undefined;
+  };
+  for (let i = 0; i < attributes.length; i++) {
+    const vsa = split(attributes[i]);
+    if (!vsa) {
+      result.push(attributes[i]);
+      continue;
+    }
+    for (const sub of vsa.subAttributes) {
+      const fragments = [sub.value];
+      let more = sub.more;
+      // The continuation is the first sub-attribute of the next Vendor-Specific.
+      while (more) {
+        const next = attributes[i + 1] ? split(attributes[i + 1]) : undefined;
+        if (!next || next.vendorId !== vsa.vendorId || next.subAttributes[0].type !== sub.type) break;
+        fragments.push(next.subAttributes[0].value);
+        more = next.subAttributes[0].more;
+        i++;
+      }
+      result.push({ vendorId: vsa.vendorId, type: sub.type, value: Buffer.concat(fragments) });
+    }
+  }
+  return result;
+}
+
+function splitTlvs(data: Buffer): RawAttribute[] | undefined {
+  const tlvs: RawAttribute[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const length = data[offset + 1];
+    if (offset + 2 > data.length || length < 2 || offset + length > data.length) return undefined;
+    tlvs.push({ type: data[offset], value: data.subarray(offset + 2, offset + length) });
+    offset += length;
+  }
+  return tlvs;
+}
+
+function decodeValue(dictionary: RadiusDictionary, vendorId: number | undefined, path: number[], code: number, data: Buffer, context?: AttributeCryptoContext): DecodedAttribute[] {
+  const hex = `0x${data.toString('hex')}`;
+  const attribute = dictionary.findByCode(code, vendorId, path);
+  // Vendor attributes are named Vendor:Attribute, e.g. Microsoft:MS-CHAP2-Success or Vendor-9:Attr-1.
+  const prefix = vendorId === undefined ? '' : `${dictionary.findVendor(vendorId)?.name ?? `Vendor-${vendorId}`}:`;
+  if (!attribute) {
+    return [{ name: `${prefix}Attr-${attributeOid({ code, path })}`, code, type: 'octets', value: hex }];
+  }
+  const untagged = isTagged(attribute) && encryptMethod(attribute) === 0 ? removeTag(attribute, data) : { data };
+  // Encrypted tagged values (Tunnel-Password) keep the tag octet for revealValue to skip.
+  const tag = isTagged(attribute) && encryptMethod(attribute) !== 0 ? data[0] : untagged.tag;
+  const tagFields = tag ? { tag } : {};
+  const name = `${prefix}${attribute.name}${tag ? `:${tag}` : ''}`;
+  if (attribute.type === 'tlv') {
+    // Each child is listed on its own; malformed TLVs are shown as the raw parent.
+    const children = splitTlvs(data);
+    if (children && children.length > 0) {
+      return children.flatMap(child => decodeValue(dictionary, vendorId, [...path, code], child.type, child.value, context));
+    }
+    return [{ name, code, type: 'octets', value: hex }];
+  }
+  if (encryptMethod(attribute) !== 0) {
+    if (!context) return [{ name, code, type: 'octets', value: hex, ...tagFields }];
+    try {
+      return [{ name, code, type: attribute.type, value: decodeAttributeValue(attribute, revealValue(attribute, data, context), dictionary), ...tagFields }];
+    } catch {
+      return [{ name, code, type: 'octets', value: hex, ...tagFields }];
+    }
+  }
+  return [{ name, code, type: attribute.type, value: decodeAttributeValue(attribute, untagged.data, dictionary), ...tagFields }];
+}
+
+/**
+ * Decodes attributes to text. Encrypted attributes are revealed when a crypto
+ * context is supplied and otherwise shown as their hidden wire bytes. Extended
+ * attributes are named by their Extended-Type, long-extended fragments and WiMAX
+ * continuations are reassembled, Vendor-Specific attributes are listed as their
+ * Vendor:Attribute sub-attributes, and TLVs as one entry per child.
+ */
+export function decodeAttributes(attributes: RawAttribute[], dictionary: RadiusDictionary, context?: AttributeCryptoContext): DecodedAttribute[] {
+  return expandVendorSpecific(reassembleLongExtended(attributes), dictionary).flatMap(attr => {
+    if (attr.vendorId !== undefined) return decodeValue(dictionary, attr.vendorId, [], attr.type, attr.value, context);
+    const headerLength = EXTENDED_TYPES.has(attr.type) ? 1 : LONG_EXTENDED_TYPES.has(attr.type) ? 2 : 0;
+    if (headerLength > 0 && attr.value.length >= headerLength) {
+      return decodeValue(dictionary, undefined, [attr.type], attr.value[0], attr.value.subarray(headerLength), context);
+    }
+    return decodeValue(dictionary, undefined, [], attr.type, attr.value, context);
+  });
+}
+
+/** Formats an attribute the way radclient prints it: string values quoted, everything else bare. */
+export function formatAttribute(attr: { name: string; type: string; value: string }): string {
+  return attr.type === 'string' ? `${attr.name} = "${attr.value}"` : `${attr.name} = ${attr.value}`;
+}
+
+/** One region of a dissected packet; offsets are relative to the start of the packet. */
+export interface PacketField {
+  kind: 'header' | 'authenticator' | 'attribute' | 'vendor' | 'trailing' | 'malformed';
+  offset: number;
+  length: number;
+  headerLength: number; // Leading type/length (and vendor header) octets of a TLV, 0 for other fields
+  label: string;
+  type?: number; // Attribute or vendor sub-attribute type
+  value: string;
+  children?: PacketField[]; // Vendor-Id and sub-attributes of a Vendor-Specific, Extended-Type octets
+  error?: string;
+}
+
+export interface PacketDissection {
+  code?: number;
+  codeName?: string;
+  identifier?: number;
+  length: number; // Octets supplied, which may differ from the Length field
+  fields: PacketField[];
+  errors: string[];
+}
+
+function describeValue(decoded: DecodedAttribute[]): string {
+  return decoded.length === 1 ? decoded[0].value : decoded.map(attr => `${attr.name} = ${attr.value}`).join(', ');
+}
+
+/** Fields of one Vendor-Specific value; a sub-attribute that breaks the vendor's format ends the walk with a malformed field. */
+function dissectVendorSpecific(value: Buffer, valueOffset: number, dictionary: RadiusDictionary, context?: AttributeCryptoContext): { children: PacketField[]; error?: string } {
+  if (value.length < 4) {
+    return { children: [], error: `Vendor-Specific value is ${value.length} octets, too short for a Vendor-Id.` };
+  }
+  const vendorId = value.readUInt32BE(0);
+  const vendorEntry = dictionary.findVendor(vendorId);
+  const vendor = { ...DEFAULT_VENDOR_FORMAT, ...vendorEntry };
+  const vendorName = vendorEntry?.name ?? `Vendor-${vendorId}`;
+  const children: PacketField[] = [{ kind: 'vendor', offset: valueOffset, length: 4, headerLength: 0, label: 'Vendor-Id', value: `${vendorId} (${vendorName})` }];
+  const headerLength = vendor.typeLength + vendor.lengthLength + (vendor.continuation ? 1 : 0);
+  let offset = 4;
+  while (offset < value.length) {
+    const remaining = value.length - offset;
+    const length = remaining < headerLength ? 0 : vendor.lengthLength === 0 ? remaining : value.readUIntBE(offset + vendor.typeLength, vendor.lengthLength);
+    if (remaining < headerLength || length < headerLength || length > remaining) {
+      const error = remaining < headerLength
+        ? `${remaining} octets left at offset ${valueOffset + offset}, less than the ${headerLength}-octet ${vendorName} sub-attribute header.`
+        : `${vendorName} sub-attribute at offset ${valueOffset + offset} has length ${length}, but ${length < headerLength ? `the header alone is ${headerLength} octets` : `only ${remaining} octets remain`}.`;
+      children.push({ kind: 'malformed', offset: valueOffset + offset, length: remaining, headerLength: 0, label: 'Malformed sub-attribute', value: `0x${value.subarray(offset).toString('hex')}`, error });
+      return { children, error };
+    }
+    const type = value.readUIntBE(offset, vendor.typeLength);
+    const single = Buffer.concat([value.subarray(0, 4), value.subarray(offset, offset + length)]);
+    const decoded = decodeAttributes([{ type: VENDOR_SPECIFIC_TYPE, value: single }], dictionary, context);
+    const more = vendor.continuation && (value[offset + headerLength - 1] & WIMAX_CONTINUATION_FLAG) !== 0;
+    children.push({
+      kind: 'attribute',
+      offset: valueOffset + offset,
+      length,
+      headerLength,
+      label: decoded.length === 1 ? decoded[0].name : `${vendorName}:Attr-${type}`,
+      type,
+      value: `${describeValue(decoded)}${more ? ' (continued)' : ''}`,
+    });
+    offset += length;
+  }
+  return { children };
+}
+
+/**
+ * Splits a packet into its header, authenticator and attribute TLVs with their offsets, and
+ * decodes each attribute on its own. Unlike decodePacket it never throws: a length that breaks
+ * the packet or a Vendor-Specific's sub-attributes becomes a malformed field and an entry in errors.
+ */
+export function dissectPacket(data: Buffer, dictionary: RadiusDictionary, context?: AttributeCryptoContext): PacketDissection {
+  const dissection: PacketDissection = {
+    code: data.length > 0 ? data[0] : undefined,
+    codeName: data.length > 0 ? codeToName(data[0]) : undefined,
+    identifier: data.length > 1 ? data[1] : undefined,
+    length: data.length,
+    fields: [],
+    errors: [],
+  };
+  const header: [string, number, (offset: number) => string][] = [
+    ['Code', 1, offset => `${data[offset]} (${codeToName(data[offset])})`],
+    ['Identifier', 1, offset => String(data[offset])],
+    ['Length', 2, offset => String(data.readUInt16BE(offset))],
+  ];
+  let offset = 0;
+  for (const [label, length, describe] of header) {
+    if (offset + length > data.length) break;
+    dissection.fields.push({ kind: 'header', offset, length, headerLength: 0, label, value: describe(offset) });
+    offset += length;
+  }
+  if (data.length < RADIUS_HEADER_LENGTH) {
+    dissection.errors.push(`Packet is ${data.length} octets, shorter than the ${RADIUS_HEADER_LENGTH}-octet header.`);
+    if (offset < data.length) {
+      dissection.fields.push({ kind: 'malformed', offset, length: data.length - offset, headerLength: 0, label: 'Truncated header', value: `0x${data.subarray(offset).toString('hex')}` });
+    }
+    return dissection;
+  }
+  dissection.fields.push({ kind: 'authenticator', offset: 4, length: 16, headerLength: 0, label: 'Authenticator', value: `0x${data.subarray(4, 20).toString('hex')}` });
+
+  const declaredLength = data.readUInt16BE(2);
+  if (declaredLength < RADIUS_HEADER_LENGTH || declaredLength > data.length) {
+    dissection.errors.push(`Length field says ${declaredLength} octets but ${data.length} were supplied.`);
+  }
+  // Octets past the Length field are padding the receiver must ignore (RFC 2865 section 3).
+  const end = declaredLength >= RADIUS_HEADER_LENGTH && declaredLength <= data.length ? declaredLength : data.length;
+  offset = RADIUS_HEADER_LENGTH;
+  while (offset < end) {
+    const type = data[offset];
+    const length = offset + 1 < end ? data[offset + 1] : 0;
+    if (length < 2 || offset + length > end) {
+      const error = offset + 1 >= end
+        ? `Attribute at offset ${offset} is cut off after its type octet.`
+        : `Attribute ${type} at offset ${offset} has length ${length}, but ${length < 2 ? 'the minimum is 2' : `only ${end - offset} octets remain`}.`;
+      dissection.errors.push(error);
+      dissection.fields.push({ kind: 'malformed', offset, length: end - offset, headerLength: 0, label: 'Malformed attribute', type, value: `0x${data.subarray(offset, end).toString('hex')}`, error });
+      offset = end;
+      break;
+    }
+    const value = data.subarray(offset + 2, offset + length);
+    const field: PacketField = { kind: 'attribute', offset, length, headerLength: 2, label: '', type, value: '' };
+    if (type === VENDOR_SPECIFIC_TYPE) {
+      const vsa = dissectVendorSpecific(value, offset + 2, dictionary, context);
+      const vendorId = vsa.children[0]?.kind === 'vendor' ? value.readUInt32BE(0) : undefined;
+      field.label = 'Vendor-Specific';
+      field.value = vendorId === undefined ? `0x${value.toString('hex')}` : vsa.children[0].value;
+      field.children = vsa.children;
+      if (vsa.error) {
+        // A broken sub-attribute carries the error itself; only a missing Vendor-Id is reported on the attribute.
+        if (vsa.children.length === 0) field.error = vsa.error;
+        dissection.errors.push(vsa.error);
+      }
+    } else {
+      const decoded = decodeAttributes([{ type, value }], dictionary, context);
+      const extendedHeader = EXTENDED_TYPES.has(type) ? 1 : LONG_EXTENDED_TYPES.has(type) ? 2 : 0;
+      field.label = decoded.length === 1 ? decoded[0].name : (dictionary.findByCode(type)?.name ?? `Attr-${type}`);
+      field.value = describeValue(decoded);
+      if (extendedHeader > 0 && value.length >= extendedHeader) {
+        field.headerLength += extendedHeader;
+        field.children = [{ kind: 'header', offset: offset + 2, length: 1, headerLength: 0, label: 'Extended-Type', value: String(value[0]) }];
+        if (extendedHeader === 2) {
+          field.children.push({ kind: 'header', offset: offset + 3, length: 1, headerLength: 0, label: 'Flags', value: value[1] & LONG_EXTENDED_MORE_FLAG ? '0x80 (More)' : `0x${value[1].toString(16).padStart(2, '0')}` });
+        }
+      }
+    }
+    dissection.fields.push(field);
+    offset += length;
+  }
+  if (end < data.length) {
+    dissection.fields.push({ kind: 'trailing', offset: end, length: data.length - end, headerLength: 0, label: 'Padding', value: `0x${data.subarray(end).toString('hex')}` });
+  }
+  return dissection;
+}
@@ -0,0 +1,451 @@
+// src/lib/radius/pcap.ts
+// Reader for libpcap and pcapng capture files, and a decoder for the link, IP and
+// UDP/TCP layers of the captured frames, so RADIUS payloads can be taken out of them.
+// The writer goes the other way: recorded RADIUS traffic becomes a pcapng file with
+// synthetic Ethernet, IP and UDP/TCP headers that Wireshark can dissect.
+
+import { isIPv4, isIPv6 } from 'net';
+
+export interface CapturedFrame {
+  timestampMs: number; // Unix epoch, fractional milliseconds
+  linkType: number;
+  data: Buffer;
+}
+
+export interface TransportSegment {
+  protocol: 'udp' | 'tcp';
+  source: string; // address:port, IPv6 addresses in brackets
+  destination: string;
+  payload: Buffer;
+  sequence?: number; // tcp
+}
+
+export interface RecordedDatagram {
+  timestamp: string; // ISO, when the packet was sent or received
+  direction: 'sent' | 'received';
+  protocol: 'udp' | 'tcp'; // tcp also covers RadSec, recorded before encryption
+  source: string; // address:port, IPv6 addresses in brackets
+  destination: string;
+  hex: string; // RADIUS packet bytes
+}
+
+export const LINKTYPE_NULL = 0;
+export const LINKTYPE_ETHERNET = 1;
+export const LINKTYPE_RAW = 101;
+export const LINKTYPE_LINUX_SLL = 113;
+export const LINKTYPE_IPV4 = 228;
+export const LINKTYPE_IPV6 = 229;
+export const LINKTYPE_LINUX_SLL2 = 276;
+// Platform-specific DLT_RAW values that some captures carry in the file header.
+const RAW_LINK_TYPES = new Set([LINKTYPE_RAW, 12, 14, LINKTYPE_IPV4, LINKTYPE_IPV6]);
+
+const PCAP_MAGIC_MICROSECONDS = 0xa1b2c3d4;
+const PCAP_MAGIC_NANOSECONDS = 0xa1b23c4d;
+const PCAPNG_SECTION_HEADER = 0x0a0d0d0a;
+const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+const PCAPNG_INTERFACE_DESCRIPTION = 1;
+const PCAPNG_OBSOLETE_PACKET = 2;
+const PCAPNG_SIMPLE_PACKET = 3;
+const PCAPNG_ENHANCED_PACKET = 6;
+const PCAPNG_OPTION_TSRESOL = 9;
+const PCAPNG_OPTION_COMMENT = 1;
+const PCAPNG_OPTION_SHB_USERAPPL = 4;
+const PCAPNG_OPTION_EPB_FLAGS = 2;
+const PCAPNG_EPB_INBOUND = 1;
+const PCAPNG_EPB_OUTBOUND = 2;
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const ETHERTYPE_VLAN = new Set([0x8100, 0x88a8, 0x9100]);
+const IP_PROTOCOL_TCP = 6;
+const IP_PROTOCOL_UDP = 17;
+// IPv6 extension headers that may sit between the fixed header and UDP/TCP.
+const IPV6_EXTENSION_HEADERS = new Set([0, 43, 60]);
+const IPV6_FRAGMENT_HEADER = 44;
+
+type Reader = { u16: (offset: number) => number; u32: (offset: number) => number };
+
+function reader(data: Buffer, littleEndian: boolean): Reader {
+  return littleEndian
+    ? { u16: offset => data.readUInt16LE(offset), u32: offset => data.readUInt32LE(offset) }
+    : { u16: offset => data.readUInt16BE(offset), u32: offset => data.readUInt32BE(offset) };
+}
+
+function readPcap(data: Buffer): CapturedFrame[] {
+  const magicLE = data.readUInt32LE(0);
+  const littleEndian = magicLE === PCAP_MAGIC_MICROSECONDS || magicLE === PCAP_MAGIC_NANOSECONDS;
+  const read = reader(data, littleEndian);
+  const nanoseconds = read.u32(0) === PCAP_MAGIC_NANOSECONDS;
+  const linkType = read.u32(20) & 0x0fffffff; // The upper bits may carry FCS information
+  const frames: CapturedFrame[] = [];
+  let offset = 24;
+  while (offset + 16 <= data.length) {
+    const capturedLength = read.u32(offset + 8);
+    if (offset + 16 + capturedLength > data.length) break; // Truncated final record
+    const timestampMs = read.u32(offset) * 1000 + read.u32(offset + 4) / (nanoseconds ? 1e6 : 1e3);
+    frames.push({ timestampMs, linkType, data: data.subarray(offset + 16, offset + 16 + capturedLength) });
+    offset += 16 + capturedLength;
+  }
+  return frames;
+}
+
+/** if_tsresol: the high bit selects a power of two, otherwise a power of ten; default microseconds. */
+function interfaceUnitsPerSecond(options: Buffer, read: Reader): number {
+  let offset = 0;
+  while (offset + 4 <= options.length) {
+    const code = read.u16(offset);
+    const length = read.u16(offset + 2);
+    if (code === 0) break;
+    if (code === PCAPNG_OPTION_TSRESOL && length >= 1) {
+      const resolution = options[offset + 4];
+      return resolution & 0x80 ? 2 ** (resolution & 0x7f) : 10 ** resolution;
+    }
+    offset += 4 + Math.ceil(length / 4) * 4;
+  }
+  return 1e6;
+}
+
+function readPcapng(data: Buffer): CapturedFrame[] {
+  const frames: CapturedFrame[] = [];
+  let interfaces: { linkType: number; unitsPerSecond: number }[] = [];
+  let read = reader(data, true);
+  let offset = 0;
+  while (offset + 12 <= data.length) {
+    if (data.readUInt32LE(offset) === PCAPNG_SECTION_HEADER) {
+      // Each section declares its own byte order and numbers its interfaces from zero.
+      read = reader(data, data.readUInt32LE(offset + 8) === PCAPNG_BYTE_ORDER_MAGIC);
+      interfaces = [];
+    }
+    const type = read.u32(offset);
+    const blockLength = read.u32(offset + 4);
+    if (blockLength < 12 || blockLength % 4 !== 0 || offset + blockLength > data.length) break;
+    const body = data.subarray(offset + 8, offset + blockLength - 4);
+    const timestamp = (interfaceId: number, high: number, low: number) =>
+      ((high * 2 ** 32 + low) / (interfaces[interfaceId]?.unitsPerSecond ?? 1e6)) * 1000;
+
+    if (type === PCAPNG_INTERFACE_DESCRIPTION && body.length >= 8) {
+      interfaces.push({ linkType: read.u16(offset + 8), unitsPerSecond: interfaceUnitsPerSecond(body.subarray(8), read) });
+    } else if (type === PCAPNG_ENHANCED_PACKET && body.length >= 20) {
+      const interfaceId = read.u32(offset + 8);
+      const capturedLength = read.u32(offset + 20);
+      frames.push({
+        timestampMs: timestamp(interfaceId, read.u32(offset + 12), read.u32(offset + 16)),
+        linkType: interfaces[interfaceId]?.linkType ?? LINKTYPE_ETHERNET,
+        data: body.subarray(20, 20 + capturedLength),
+      });
+    } else if (type === PCAPNG_SIMPLE_PACKET && body.length >= 4) {
+      // Simple packets have no timestamp and always belong to the first interface.
+      const packetLength = read.u32(offset + 8);
+      frames.push({ timestampMs: 0, linkType: interfaces[0]?.linkType ?? LINKTYPE_ETHERNET, data: body.subarray(4, 4 + Math.min(packetLength, body.length - 4)) });
+    } else if (type === PCAPNG_OBSOLETE_PACKET && body.length >= 20) {
+      const interfaceId = read.u16(offset + 8);
+      const capturedLength = read.u32(offset + 20);
+      frames.push({
+        timestampMs: timestamp(interfaceId, read.u32(offset + 12), read.u32(offset + 16)),
+        linkType: interfaces[interfaceId]?.linkType ?? LINKTYPE_ETHERNET,
+        data: body.subarray(20, 20 + capturedLength),
+      });
+    }
+    offset += blockLength;
+  }
+  return frames;
+}
+
+/** Reads every frame of a libpcap (microsecond or nanosecond) or pcapng file. */
+export function readCaptureFile(data: Buffer): CapturedFrame[] {
+  if (data.length < 24) throw new Error('File is too short to be a capture.');
+  const magic = data.readUInt32LE(0);
+  if (magic === PCAPNG_SECTION_HEADER) return readPcapng(data);
+  if ([PCAP_MAGIC_MICROSECONDS, PCAP_MAGIC_NANOSECONDS].includes(magic) || [PCAP_MAGIC_MICROSECONDS, PCAP_MAGIC_NANOSECONDS].includes(data.readUInt32BE(0))) {
+    return readPcap(data);
+  }
+  throw new Error('Not a pcap or pcapng file (unknown magic number).');
+}
+
+/** address:port, with IPv6 addresses in brackets. */
+export function formatEndpoint(address: string, port: number): string {
+  return `${isIPv6(address) ? `[${address}]` : address}:${port}`;
+}
+
+function ipv6Address(data: Buffer): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push(data.readUInt16BE(i).toString(16));
+  // Compress the longest run of zero groups, as in RFC 5952.
+  let best = { start: -1, length: 0 };
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === '0') length++;
+    if (length > best.length && length > 1) best = { start: i, length };
+  }
+  if (best.start === -1) return groups.join(':');
+  return `${groups.slice(0, best.start).join(':')}::${groups.slice(best.start + best.length).join(':')}`;
+}
+
+function networkPayload(linkType: number, data: Buffer): { version: 4 | 6; packet: Buffer } | undefined {
+  let etherType: number | undefined;
+  let offset = 0;
+  if (linkType === LINKTYPE_ETHERNET) {
+    if (data.length < 14) return undefined;
+    etherType = data.readUInt16BE(12);
+    offset = 14;
+    while (ETHERTYPE_VLAN.has(etherType) && data.length >= offset + 4) {
+      etherType = data.readUInt16BE(offset + 2);
+      offset += 4;
+    }
+  } else if (linkType === LINKTYPE_LINUX_SLL) {
+    if (data.length < 16) return undefined;
+    etherType = data.readUInt16BE(14);
+    offset = 16;
+  } else if (linkType === LINKTYPE_LINUX_SLL2) {
+    if (data.length < 20) return undefined;
+    etherType = data.readUInt16BE(0);
+    offset = 20;
+  } else if (linkType === LINKTYPE_NULL) {
+    offset = 4; // Address family in the capturing host's byte order; the IP version nibble is checked instead
+  } else if (!RAW_LINK_TYPES.has(linkType)) {
+    return undefined;
+  }
+  const packet = data.subarray(offset);
+  if (packet.length === 0) return undefined;
+  const version = packet[0] >> 4;
+  if (etherType !== undefined && etherType !== (version === 4 ? ETHERTYPE_IPV4 : ETHERTYPE_IPV6)) return undefined;
+  return version === 4 || version === 6 ? { version, packet } : undefined;
+}
+
+/**
+ * Decodes the IP and UDP/TCP headers of a captured frame. Fragmented IP datagrams and other
+ * protocols are returned as undefined with the reason, so callers can report what they skipped.
+ */
+export function decodeTransportSegment(frame: CapturedFrame): { segment?: TransportSegment; skipped?: string } {
+  const network = networkPayload(frame.linkType, frame.data);
+  if (!network) return {};
+  const { packet } = network;
+  let protocol: number;
+  let sourceAddress: string;
+  let destinationAddress: string;
+  let transport: Buffer;
+  if (network.version === 4) {
+    if (packet.length < 20) return {};
+    const headerLength = (packet[0] & 0x0f) * 4;
+    const totalLength = Math.min(packet.readUInt16BE(2) || packet.length, packet.length);
+    if ((packet.readUInt16BE(6) & 0x3fff) !== 0) return { skipped: 'fragmented IPv4 datagram' };
+    protocol = packet[9];
+    sourceAddress = Array.from(packet.subarray(12, 16)).join('.');
+    destinationAddress = Array.from(packet.subarray(16, 20)).join('.');
+    transport = packet.subarray(headerLength, totalLength);
+  } else {
+    if (packet.length < 40) return {};
+    protocol = packet[6];
+    let offset = 40;
+    while (IPV6_EXTENSION_HEADERS.has(protocol) && packet.length >= offset + 8) {
+      protocol = packet[offset];
+      offset += (packet[offset + 1] + 1) * 8;
+    }
+    if (protocol === IPV6_FRAGMENT_HEADER) return { skipped: 'fragmented IPv6 datagram' };
+    sourceAddress = ipv6Address(packet.subarray(8, 24));
+    destinationAddress = ipv6Address(packet.subarray(24, 40));
+    transport = packet.subarray(offset, Math.min(40 + packet.readUInt16BE(4), packet.length));
+  }
+
+  if (protocol === IP_PROTOCOL_UDP && transport.length >= 8) {
+    const length = Math.min(transport.readUInt16BE(4) || transport.length, transport.length);
+    return {
+      segment: {
+        protocol: 'udp',
+        source: formatEndpoint(sourceAddress, transport.readUInt16BE(0)),
+        destination: formatEndpoint(destinationAddress, transport.readUInt16BE(2)),
+        payload: transport.subarray(8, length),
+      },
+    };
+  }
+  if (protocol === IP_PROTOCOL_TCP && transport.length >= 20) {
+    const dataOffset = (transport[12] >> 4) * 4;
+    return {
+      segment: {
+        protocol: 'tcp',
+        source: formatEndpoint(sourceAddress, transport.readUInt16BE(0)),
+        destination: formatEndpoint(destinationAddress, transport.readUInt16BE(2)),
+        payload: transport.subarray(dataOffset),
+        sequence: transport.readUInt32BE(4),
+      },
+    };
+  }
+  return {};
+}
+
+function parseEndpoint(endpoint: string): { address: string; port: number } {
+  const match = /^\[?(.*?)\]?:(\d+)$/.exec(endpoint);
+  return match ? { address: match[1], port: Number(match[2]) } : { address: endpoint, port: 0 };
+}
+
+function ipv6Bytes(address: string): Buffer {
+  const [head, tail = ''] = address.split('::');
+  const groups = (part: string) => part ? part.split(':') : [];
+  // An embedded IPv4 address (::ffff:10.0.0.1) fills the last two groups.
+  const expand = (parts: string[]) => parts.flatMap(part => isIPv4(part)
+    ? [((Number(part.split('.')[0]) << 8) | Number(part.split('.')[1])).toString(16), ((Number(part.split('.')[2]) << 8) | Number(part.split('.')[3])).toString(16)]
+    : [part]);
+  const headGroups = expand(groups(head));
+  const tailGroups = expand(groups(tail));
+  const all = address.includes('::') ? [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups] : headGroups;
+  const bytes = Buffer.alloc(16);
+  all.slice(0, 8).forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16) || 0, index * 2));
+  return bytes;
+}
+
+/** Internet checksum (RFC 1071) over the given buffers. */
+function checksum(...parts: Buffer[]): number {
+  const data = Buffer.concat(parts);
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 2) sum += (data[i] << 8) + (i + 1 < data.length ? data[i + 1] : 0);
+  while (sum > 0xffff) sum = (sum & 0xffff) + (sum >>> 16);
+  return (~sum & 0xffff) || 0xffff;
+}
+
+interface TcpFlowState {
+  sequence: number;
+}
+
+/**
+ * Builds an Ethernet frame around a recorded RADIUS packet. Hostnames that were never
+ * resolved are written as the unspecified address of their family. TCP segments get
+ * per-direction sequence numbers that continue across the packets of a connection.
+ */
+function synthesizeFrame(datagram: RecordedDatagram, tcpFlows: Map<string, TcpFlowState>): Buffer {
+  const payload = Buffer.from(datagram.hex, 'hex');
+  const source = parseEndpoint(datagram.source);
+  const destination = parseEndpoint(datagram.destination);
+  const ipv6 = isIPv6(source.address) || isIPv6(destination.address);
+  const addressBytes = (address: string) => ipv6
+    ? ipv6Bytes(isIPv6(address) ? address : '::')
+    : Buffer.from((isIPv4(address) ? address : '0.0.0.0').split('.').map(Number));
+  const sourceAddress = addressBytes(source.address);
+  const destinationAddress = addressBytes(destination.address);
+  const protocol = datagram.protocol === 'tcp' ? IP_PROTOCOL_TCP : IP_PROTOCOL_UDP;
+
+  let transport: Buffer;
+  if (datagram.protocol === 'tcp') {
+    const flow = tcpFlows.get(`${datagram.source}>${datagram.destination}`) || { sequence: 1 };
+    const reverse = tcpFlows.get(`${datagram.destination}>${datagram.source}`) || { sequence: 1 };
+    transport = Buffer.alloc(20 + payload.length);
+    transport.writeUInt16BE(source.port, 0);
+    transport.writeUInt16BE(destination.port, 2);
+    transport.writeUInt32BE(flow.sequence >>> 0, 4);
+    transport.writeUInt32BE(reverse.sequence >>> 0, 8);
+    transport[12] = 5 << 4;
+    transport[13] = 0x18; // PSH, ACK
+    transport.writeUInt16BE(0xffff, 14);
+    payload.copy(transport, 20);
+    flow.sequence = (flow.sequence + payload.length) % 2 ** 32;
+    tcpFlows.set(`${datagram.source}>${datagram.destination}`, flow);
+  } else {
+    transport = Buffer.alloc(8 + payload.length);
+    transport.writeUInt16BE(source.port, 0);
+    transport.writeUInt16BE(destination.port, 2);
+    transport.writeUInt16BE(transport.length, 4);
+    payload.copy(transport, 8);
+  }
+  const pseudoHeader = Buffer.alloc(ipv6 ? 40 : 12);
+  if (ipv6) {
+    sourceAddress.copy(pseudoHeader, 0);
+    destinationAddress.copy(pseudoHeader, 16);
+    pseudoHeader.writeUInt32BE(transport.length, 32);
+    pseudoHeader[39] = protocol;
+  } else {
+    sourceAddress.copy(pseudoHeader, 0);
+    destinationAddress.copy(pseudoHeader, 4);
+    pseudoHeader[9] = protocol;
+    pseudoHeader.writeUInt16BE(transport.length, 10);
+  }
+  transport.writeUInt16BE(checksum(pseudoHeader, transport), datagram.protocol === 'tcp' ? 16 : 6);
+
+  let network: Buffer;
+  if (ipv6) {
+    network = Buffer.alloc(40);
+    network[0] = 0x60;
+    network.writeUInt16BE(transport.length, 4);
+    network[6] = protocol;
+    network[7] = 64;
+    sourceAddress.copy(network, 8);
+    destinationAddress.copy(network, 24);
+  } else {
+    network = Buffer.alloc(20);
+    network[0] = 0x45;
+    network.writeUInt16BE(20 + transport.length, 2);
+    network.writeUInt16BE(0x4000, 6); // Don't fragment
+    network[8] = 64;
+    network[9] = protocol;
+    sourceAddress.copy(network, 12);
+    destinationAddress.copy(network, 16);
+    network.writeUInt16BE(checksum(network), 10);
+  }
+  // Locally administered MAC addresses: 02:00:00:00:00:01 for this host, :02 for the peer.
+  const ethernet = Buffer.alloc(14);
+  const local = Buffer.from([2, 0, 0, 0, 0, 1]);
+  const peer = Buffer.from([2, 0, 0, 0, 0, 2]);
+  (datagram.direction === 'sent' ? peer : local).copy(ethernet, 0);
+  (datagram.direction === 'sent' ? local : peer).copy(ethernet, 6);
+  ethernet.writeUInt16BE(ipv6 ? ETHERTYPE_IPV6 : ETHERTYPE_IPV4, 12);
+  return Buffer.concat([ethernet, network, transport]);
+}
+
+function pcapngOption(code: number, value: Buffer): Buffer {
+  const option = Buffer.alloc(4 + Math.ceil(value.length / 4) * 4);
+  option.writeUInt16LE(code, 0);
+  option.writeUInt16LE(value.length, 2);
+  value.copy(option, 4);
+  return option;
+}
+
+function pcapngBlock(type: number, body: Buffer, options: Buffer[] = []): Buffer {
+  const optionBytes = options.length > 0 ? Buffer.concat([...options, Buffer.alloc(4)]) : Buffer.alloc(0); // opt_endofopt
+  const paddedBody = Buffer.concat([body, Buffer.alloc((4 - body.length % 4) % 4)]);
+  const length = 12 + paddedBody.length + optionBytes.length;
+  const block = Buffer.alloc(length);
+  block.writeUInt32LE(type, 0);
+  block.writeUInt32LE(length, 4);
+  paddedBody.copy(block, 8);
+  optionBytes.copy(block, 8 + paddedBody.length);
+  block.writeUInt32LE(length, length - 4);
+  return block;
+}
+
+/**
+ * Writes recorded RADIUS traffic as a little-endian pcapng file with one Ethernet interface
+ * and microsecond timestamps. Each packet is flagged inbound or outbound; the optional
+ * comment goes on the section header, where Wireshark shows it under capture file properties.
+ */
+export function writePcapng(datagrams: RecordedDatagram[], options: { application?: string; comment?: string } = {}): Buffer {
+  const sectionHeader = Buffer.alloc(16);
+  sectionHeader.writeUInt32LE(PCAPNG_BYTE_ORDER_MAGIC, 0);
+  sectionHeader.writeUInt16LE(1, 4); // Version 1.0
+  sectionHeader.writeInt32LE(-1, 8); // Section length not specified
+  sectionHeader.writeInt32LE(-1, 12);
+  const sectionOptions = [
+    ...(options.comment ? [pcapngOption(PCAPNG_OPTION_COMMENT, Buffer.from(options.comment, 'utf8'))] : []),
+    ...(options.application ? [pcapngOption(PCAPNG_OPTION_SHB_USERAPPL, Buffer.from(options.application, 'utf8'))] : []),
+  ];
+  const interfaceDescription = Buffer.alloc(8);
+  interfaceDescription.writeUInt16LE(LINKTYPE_ETHERNET, 0);
+  interfaceDescription.writeUInt32LE(0, 4); // No snapshot length limit
+
+  const tcpFlows = new Map<string, TcpFlowState>();
+  const packets = datagrams.map(datagram => {
+    const frame = synthesizeFrame(datagram, tcpFlows);
+    const microseconds = BigInt(Math.round(new Date(datagram.timestamp).getTime() * 1000));
+    const header = Buffer.alloc(20);
+    header.writeUInt32LE(0, 0); // Interface 0
+    header.writeUInt32LE(Number(microseconds >> BigInt(32)), 4);
+    header.writeUInt32LE(Number(microseconds & BigInt(0xffffffff)), 8);
+    header.writeUInt32LE(frame.length, 12);
+    header.writeUInt32LE(frame.length, 16);
+    const flags = Buffer.alloc(4);
+    flags.writeUInt32LE(datagram.direction === 'sent' ? PCAPNG_EPB_OUTBOUND : PCAPNG_EPB_INBOUND, 0);
+    return pcapngBlock(PCAPNG_ENHANCED_PACKET, Buffer.concat([header, frame]), [pcapngOption(PCAPNG_OPTION_EPB_FLAGS, flags)]);
+  });
+  return Buffer.concat([
+    pcapngBlock(PCAPNG_SECTION_HEADER, sectionHeader, sectionOptions),
+    pcapngBlock(PCAPNG_INTERFACE_DESCRIPTION, interfaceDescription),
+    ...packets,
+  ]);
+}
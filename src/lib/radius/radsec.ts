@@ -0,0 +1,13 @@
+// src/lib/radius/radsec.ts
+// RADIUS over TLS (RFC 6614) settings. Connections are handled by the shared
+// stream transport in ./stream, which RADIUS over TCP uses as well.
+
+export const RADSEC_DEFAULT_PORT = 2083;
+// RFC 6614 section 2.3: the shared secret is the fixed string "radsec".
+export const RADSEC_SHARED_SECRET = 'radsec';
+
+export interface RadSecTlsOptions {
+  caCertificate?: string; // PEM, verifies the server certificate; the system store is used when omitted
+  clientCertificate?: string; // PEM, presented for mutual authentication
+  clientPrivateKey?: string; // PEM
+}
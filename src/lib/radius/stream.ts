@@ -0,0 +1,288 @@
+// src/lib/radius/stream.ts
+// Long-lived stream connections for RADIUS over TCP (RFC 6613) and over TLS
+// (RFC 6614). A connection carries any number of pipelined packets; they are
+// framed by the Length field of the RADIUS header and matched to requests by
+// identifier, so replies may arrive in any order.
+
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls, type TLSSocket } from 'tls';
+import { RADIUS_HEADER_LENGTH, RADIUS_MAX_PACKET_LENGTH } from './packet';
+import type { RadSecTlsOptions } from './radsec';
+import { formatEndpoint, type RecordedDatagram } from './pcap';
+
+export type StreamTransport = 'tcp' | 'radsec';
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+
+export interface StreamConnectionSettings {
+  idleTimeoutMs: number; // Close after this long without a request
+  watchdogIntervalMs?: number; // Send Status-Server after this long without traffic; off when unset
+}
+
+export interface StreamExchange {
+  response?: Buffer;
+  roundTripMs: number;
+  localPort: number;
+  reused: boolean; // The request went over a connection opened for an earlier request
+  datagrams: RecordedDatagram[]; // The request and its reply as written to and read from the stream
+}
+
+interface PendingRequest {
+  resolve: (exchange: StreamExchange) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+  startedAt: number;
+  reused: boolean;
+  datagrams: RecordedDatagram[];
+}
+
+export class RadiusStreamConnection {
+  settings: StreamConnectionSettings = { idleTimeoutMs: DEFAULT_IDLE_TIMEOUT_MS };
+  // Builds the Status-Server sent by the watchdog; set by the owner, which knows the secret.
+  buildWatchdogRequest?: (identifier: number) => Buffer;
+
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private received = Buffer.alloc(0);
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextIdentifier = Math.floor(Math.random() * 256);
+  private lastTrafficAt = 0;
+  private idleTimer?: NodeJS.Timeout;
+  private watchdogTimer?: NodeJS.Timeout;
+  private watchdogIdentifier?: number;
+  private events: string[] = [];
+
+  constructor(readonly transport: StreamTransport, readonly host: string, readonly port: number, readonly tlsOptions: RadSecTlsOptions = {}) {}
+
+  get isOpen(): boolean {
+    return !!this.socket && !this.socket.destroyed;
+  }
+
+  private get label(): string {
+    return this.transport === 'radsec' ? 'RadSec' : 'TCP';
+  }
+
+  /** Transport details of the open connection, including TLS version, cipher and server certificate for RadSec. */
+  describe(): string {
+    if (!this.socket) return 'not connected';
+    const endpoint = `${this.label} ${this.socket.localAddress}:${this.socket.localPort} -> ${this.host}:${this.port}`;
+    if (this.transport !== 'radsec') return endpoint;
+    const tlsSocket = this.socket as TLSSocket;
+    const peer = tlsSocket.getPeerCertificate();
+    return `${endpoint}, ${tlsSocket.getProtocol()} ${tlsSocket.getCipher().name}, server certificate CN=${peer.subject?.CN || 'unknown'}`;
+  }
+
+  /** Returns and clears the connection events (open, close, watchdog, timeouts) recorded since the last call. */
+  drainEvents(): string[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /** Next identifier with no request outstanding on this connection; identifiers are handed out in sequence. */
+  allocateIdentifier(): number {
+    for (let i = 0; i < 256; i++) {
+      const identifier = (this.nextIdentifier + i) % 256;
+      if (!this.pending.has(identifier)) {
+        this.nextIdentifier = (identifier + 1) % 256;
+        return identifier;
+      }
+    }
+    throw new Error(`All 256 identifiers are outstanding on the ${this.label} connection to ${this.host}:${this.port}.`);
+  }
+
+  /**
+   * Writes one request and resolves with the reply carrying the same identifier,
+   * or with no response after the timeout. Only one request per identifier may be
+   * outstanding on a connection.
+   */
+  send(request: Buffer, timeoutMs: number): Promise<StreamExchange> {
+    return this.transmit(request, timeoutMs, false);
+  }
+
+  private async transmit(request: Buffer, timeoutMs: number, watchdog: boolean): Promise<StreamExchange> {
+    const identifier = request[1];
+    if (this.pending.has(identifier)) {
+      throw new Error(`Identifier ${identifier} is already outstanding on the ${this.label} connection to ${this.host}:${this.port}.`);
+    }
+    // Watchdog probes keep the connection alive without counting as use for the idle timeout.
+    if (!watchdog && this.idleTimer) clearTimeout(this.idleTimer);
+    // Reserved before connecting so concurrent callers cannot pick the same identifier.
+    const entry = { startedAt: Date.now(), reused: this.isOpen, datagrams: [] as RecordedDatagram[] } as PendingRequest;
+    const result = new Promise<StreamExchange>((resolve, reject) => {
+      entry.resolve = resolve;
+      entry.reject = reject;
+    });
+    this.pending.set(identifier, entry);
+
+    let socket: Socket;
+    try {
+      socket = await this.open();
+    } catch (error) {
+      this.pending.delete(identifier);
+      throw error;
+    }
+    entry.startedAt = Date.now();
+    entry.timer = setTimeout(() => {
+      this.events.push(this.event(`Id ${identifier}: no reply within ${timeoutMs}ms`));
+      this.settle(identifier, undefined);
+    }, timeoutMs);
+    this.lastTrafficAt = Date.now();
+    socket.write(request);
+    entry.datagrams.push(this.record('sent', request));
+    return result;
+  }
+
+  close(reason = 'closed by client'): void {
+    this.stopTimers();
+    this.failPending(new Error(`${this.label} connection to ${this.host}:${this.port} was ${reason}.`));
+    if (this.socket) {
+      this.events.push(this.event(`${this.label} connection ${this.socket.localPort} -> ${this.host}:${this.port} ${reason}`));
+      const socket = this.socket;
+      this.socket = undefined;
+      socket.destroy();
+    }
+    this.connecting = undefined;
+  }
+
+  private event(message: string): string {
+    return `${new Date().toISOString().slice(11, 23)} ${message}`;
+  }
+
+  private open(): Promise<Socket> {
+    if (this.isOpen) return Promise.resolve(this.socket!);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<Socket>((resolve, reject) => {
+      const socket: Socket = this.transport === 'radsec'
+        ? connectTls({
+            host: this.host,
+            port: this.port,
+            ca: this.tlsOptions.caCertificate || undefined,
+            cert: this.tlsOptions.clientCertificate || undefined,
+            key: this.tlsOptions.clientPrivateKey || undefined,
+            // RFC 6614 requires TLS 1.1 or later; RFC 8996 has since deprecated everything below 1.2.
+            minVersion: 'TLSv1.2',
+          })
+        : connectTcp({ host: this.host, port: this.port });
+      socket.once(this.transport === 'radsec' ? 'secureConnect' : 'connect', () => {
+        this.socket = socket;
+        this.connecting = undefined;
+        this.received = Buffer.alloc(0);
+        this.lastTrafficAt = Date.now();
+        this.events.push(this.event(`Opened ${this.describe()}`));
+        this.startWatchdog();
+        resolve(socket);
+      });
+      socket.on('data', (chunk: Buffer) => this.onData(chunk));
+      socket.on('error', (error: Error & { reason?: string }) => {
+        const message = `${this.label} connection to ${this.host}:${this.port} failed: ${error.reason || error.message}`;
+        this.events.push(this.event(message));
+        if (this.connecting) {
+          this.connecting = undefined;
+          reject(new Error(message));
+        }
+        this.failPending(new Error(message));
+      });
+      socket.on('close', () => {
+        if (this.socket !== socket) return;
+        this.socket = undefined;
+        this.stopTimers();
+        this.events.push(this.event(`${this.label} connection ${socket.localPort} -> ${this.host}:${this.port} closed by server`));
+        this.failPending(new Error(`${this.label} connection to ${this.host}:${this.port} was closed by the server.`));
+      });
+    });
+    return this.connecting;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.lastTrafficAt = Date.now();
+    this.received = Buffer.concat([this.received, chunk]);
+    while (this.received.length >= RADIUS_HEADER_LENGTH) {
+      const length = this.received.readUInt16BE(2);
+      // RFC 6613 section 2.6.4: a packet that cannot be framed makes the whole stream unusable.
+      if (length < RADIUS_HEADER_LENGTH || length > RADIUS_MAX_PACKET_LENGTH) {
+        this.close(`closed after the server sent a packet with invalid length ${length}`);
+        return;
+      }
+      if (this.received.length < length) return;
+      const packet = Buffer.from(this.received.subarray(0, length));
+      this.received = this.received.subarray(length);
+      // Replies for identifiers we are not waiting on (e.g. after a timeout) are dropped.
+      this.settle(packet[1], packet);
+    }
+  }
+
+  private record(direction: RecordedDatagram['direction'], packet: Buffer): RecordedDatagram {
+    const local = formatEndpoint(this.socket?.localAddress || '0.0.0.0', this.socket?.localPort ?? 0);
+    const remote = formatEndpoint(this.socket?.remoteAddress || this.host, this.socket?.remotePort ?? this.port);
+    return {
+      timestamp: new Date().toISOString(),
+      direction,
+      protocol: 'tcp',
+      source: direction === 'sent' ? local : remote,
+      destination: direction === 'sent' ? remote : local,
+      hex: packet.toString('hex'),
+    };
+  }
+
+  private settle(identifier: number, response: Buffer | undefined): void {
+    const request = this.pending.get(identifier);
+    if (!request) return;
+    clearTimeout(request.timer);
+    this.pending.delete(identifier);
+    if (response) request.datagrams.push(this.record('received', response));
+    request.resolve({ response, roundTripMs: Date.now() - request.startedAt, localPort: this.socket?.localPort ?? 0, reused: request.reused, datagrams: request.datagrams });
+    if (identifier !== this.watchdogIdentifier) this.scheduleIdleClose();
+  }
+
+  private failPending(error: Error): void {
+    this.pending.forEach(request => {
+      // Requests still waiting for the connection get the error from transmit() instead.
+      if (!request.timer) return;
+      clearTimeout(request.timer);
+      request.reject(error);
+    });
+    this.pending.clear();
+    this.watchdogIdentifier = undefined;
+  }
+
+  private scheduleIdleClose(): void {
+    if (this.pending.size > 0) return;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.close(`closed after ${this.settings.idleTimeoutMs}ms idle`), this.settings.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+
+  /**
+   * RFC 6613 section 2.4: an idle connection is probed with Status-Server, and one that
+   * does not answer is closed rather than trusted with the next request.
+   */
+  private startWatchdog(): void {
+    const interval = this.settings.watchdogIntervalMs;
+    if (!interval || !this.buildWatchdogRequest) return;
+    this.watchdogTimer = setInterval(() => {
+      if (this.pending.size > 0 || Date.now() - this.lastTrafficAt < interval) return;
+      const identifier = this.allocateIdentifier();
+      this.watchdogIdentifier = identifier;
+      this.transmit(this.buildWatchdogRequest!(identifier), interval, true)
+        .then(exchange => {
+          this.watchdogIdentifier = undefined;
+          if (exchange.response) {
+            this.events.push(this.event(`Watchdog Status-Server Id ${identifier} answered in ${exchange.roundTripMs}ms`));
+          } else {
+            this.close('closed by the watchdog after Status-Server got no reply');
+          }
+        })
+        .catch(() => { this.watchdogIdentifier = undefined; });
+    }, Math.min(interval, 1000));
+    this.watchdogTimer.unref();
+  }
+
+  private stopTimers(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+    this.idleTimer = undefined;
+    this.watchdogTimer = undefined;
+  }
+}
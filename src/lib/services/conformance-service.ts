@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '@/lib/db';
+import type {
+  ConformanceCheckResult,
+  ConformanceClauseResult,
+  ConformanceReport,
+  ConformanceStatus,
+  RadiusPacket as FullRadiusPacket,
+  Scenario,
+  ServerConfig as FullServerConfig,
+} from '@/lib/types';
+import type { RadiusDictionary } from '@/lib/radius/dictionary';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import {
+  CONFORMANCE_CLAUSES,
+  CONFORMANCE_PACKETS,
+  CONFORMANCE_SCENARIOS,
+  CONTROL_STEP_PREFIX,
+  UNVERIFIED_CLAUSES,
+  conformanceClauseOf,
+} from '@/lib/radius/conformance-pack';
+import { radiusService } from './radius-service';
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (typeof value !== 'string' || !value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+function worstStatus(statuses: ConformanceStatus[]): ConformanceStatus {
+  if (statuses.includes('fail')) return 'fail';
+  if (statuses.includes('inconclusive')) return 'inconclusive';
+  return 'pass';
+}
+
+/**
+ * Installs the built-in RFC conformance pack and runs it. The suite is whatever scenarios are
+ * tagged with a clause, as stored (so edited timeouts or added steps apply), and each run is
+ * kept as a report of pass/fail per clause. Only RADIUS, delay and log steps run here; the
+ * same scenarios run step by step, with logs, from the Execution Console.
+ */
+export class ConformanceService {
+  /** Writes the pack's packets and scenarios, replacing earlier versions with the same IDs. */
+  async installPack(): Promise<{ packets: number; scenarios: number }> {
+    const db = await getDb();
+    for (const packet of CONFORMANCE_PACKETS) {
+      await db.run(
+        'INSERT OR REPLACE INTO packets (id, name, description, attributes, lastModified, tags, executionTool, toolOptions) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        packet.id, packet.name, packet.description, JSON.stringify(packet.attributes), new Date().toISOString(),
+        JSON.stringify(packet.tags), packet.executionTool, JSON.stringify(packet.toolOptions)
+      );
+    }
+    for (const scenario of CONFORMANCE_SCENARIOS) {
+      await db.run(
+        'INSERT OR REPLACE INTO scenarios (id, name, description, variables, steps, lastModified, tags) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        scenario.id, scenario.name, scenario.description, JSON.stringify(scenario.variables), JSON.stringify(scenario.steps),
+        new Date().toISOString(), JSON.stringify(scenario.tags)
+      );
+    }
+    return { packets: CONFORMANCE_PACKETS.length, scenarios: CONFORMANCE_SCENARIOS.length };
+  }
+
+  /** IDs of the pack's scenarios that are currently installed. */
+  async installedScenarioIds(): Promise<string[]> {
+    const db = await getDb();
+    const placeholders = CONFORMANCE_SCENARIOS.map(() => '?').join(', ');
+    const rows = await db.all(`SELECT id FROM scenarios WHERE id IN (${placeholders})`, ...CONFORMANCE_SCENARIOS.map(s => s.id));
+    return rows.map(row => row.id as string);
+  }
+
+  async run(server: FullServerConfig): Promise<ConformanceReport> {
+    const startTime = new Date().toISOString();
+    const db = await getDb();
+    const scenarioRows = await db.all('SELECT * FROM scenarios');
+    const suite = scenarioRows
+      .map(row => ({
+        ...row,
+        variables: parseJson(row.variables, []),
+        steps: parseJson(row.steps, []),
+        tags: parseJson(row.tags, []),
+      }) as Scenario)
+      .map(scenario => ({ scenario, clause: conformanceClauseOf(scenario) }))
+      .filter((entry): entry is { scenario: Scenario; clause: string } => !!entry.clause);
+    if (suite.length === 0) {
+      throw new Error('No conformance scenarios are installed. Install the RFC conformance pack first.');
+    }
+
+    const dictionary = await loadActiveDictionary();
+    const packets = new Map<string, FullRadiusPacket | undefined>();
+    const byClause = new Map<string, { requirement: string; checks: ConformanceCheckResult[] }>();
+    // One scenario at a time: the checks reuse the same session and would race otherwise.
+    for (const { scenario, clause } of suite) {
+      let check = await this.runScenario(scenario, server, dictionary, packets);
+      if (check.status === 'pass' && UNVERIFIED_CLAUSES[clause]) {
+        check = { ...check, status: 'inconclusive', detail: `${check.detail} ${UNVERIFIED_CLAUSES[clause]}` };
+      }
+      const entry = byClause.get(clause) || { requirement: CONFORMANCE_CLAUSES[clause] || scenario.description, checks: [] };
+      entry.checks.push(check);
+      byClause.set(clause, entry);
+    }
+
+    const clauses: ConformanceClauseResult[] = [...byClause.entries()]
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(([clause, { requirement, checks }]) => ({ clause, requirement, status: worstStatus(checks.map(c => c.status)), checks }));
+    const report: ConformanceReport = {
+      id: uuidv4(),
+      serverId: server.id,
+      serverName: server.name,
+      startTime,
+      endTime: new Date().toISOString(),
+      clauses,
+    };
+    await db.run(
+      'INSERT INTO conformance_reports (id, serverId, serverName, startTime, endTime, clauses) VALUES (?, ?, ?, ?, ?, ?)',
+      report.id, report.serverId, report.serverName, report.startTime, report.endTime, JSON.stringify(report.clauses)
+    );
+    return report;
+  }
+
+  async listReports(): Promise<ConformanceReport[]> {
+    const db = await getDb();
+    const rows = await db.all('SELECT * FROM conformance_reports ORDER BY startTime DESC');
+    return rows.map(row => ({ ...row, clauses: parseJson(row.clauses, []) }) as ConformanceReport);
+  }
+
+  async getReport(reportId: string): Promise<ConformanceReport | undefined> {
+    const db = await getDb();
+    const row = await db.get('SELECT * FROM conformance_reports WHERE id = ?', reportId);
+    return row ? { ...row, clauses: parseJson(row.clauses, []) } as ConformanceReport : undefined;
+  }
+
+  async deleteReport(reportId: string): Promise<boolean> {
+    const db = await getDb();
+    const result = await db.run('DELETE FROM conformance_reports WHERE id = ?', reportId);
+    return (result.changes ?? 0) > 0;
+  }
+
+  private async runScenario(
+    scenario: Scenario,
+    server: FullServerConfig,
+    dictionary: RadiusDictionary,
+    packets: Map<string, FullRadiusPacket | undefined>
+  ): Promise<ConformanceCheckResult> {
+    const result = (status: ConformanceStatus, detail: string): ConformanceCheckResult => ({ scenarioId: scenario.id, scenarioName: scenario.name, status, detail });
+    let passedSteps = 0;
+    for (const step of scenario.steps) {
+      const isControl = step.name.startsWith(CONTROL_STEP_PREFIX);
+      if (step.type === 'log_message') continue;
+      if (step.type === 'delay') {
+        await new Promise(resolve => setTimeout(resolve, Number(step.details.duration_ms) || 1000));
+        continue;
+      }
+      if (step.type !== 'radius') {
+        return result('inconclusive', `Step "${step.name}": ${step.type} steps only run in the Execution Console.`);
+      }
+
+      const packetId = step.details.packet_id;
+      if (packetId && !packets.has(packetId)) packets.set(packetId, await this.loadPacket(packetId));
+      const packet = packetId ? packets.get(packetId) : undefined;
+      if (!packet) {
+        return result('inconclusive', `Step "${step.name}": packet ${packetId || '(none)'} not found. Reinstall the conformance pack.`);
+      }
+      const toolResult = await radiusService.executeTool(packet, server, scenario.variables, {
+        dictionary,
+        expectedAttributes: step.details.expectedAttributes,
+        retransmission: {
+          timeout: step.details.timeout,
+          retries: step.details.retries,
+          retryBackoff: step.details.retry_backoff,
+          duplicateCheck: step.details.duplicate_check,
+        },
+      });
+      if (toolResult.code !== 0 || toolResult.error) {
+        const reason = toolResult.error || `request failed with code ${toolResult.code}`;
+        return isControl
+          ? result('inconclusive', `${step.name} failed (${reason}), so the check could not be made.`)
+          : result('fail', `Step "${step.name}": ${reason}`);
+      }
+      passedSteps++;
+    }
+    return result('pass', `${passedSteps} RADIUS step${passedSteps === 1 ? '' : 's'} passed.`);
+  }
+
+  private async loadPacket(packetId: string): Promise<FullRadiusPacket | undefined> {
+    const db = await getDb();
+    const row = await db.get('SELECT * FROM packets WHERE id = ?', packetId);
+    if (!row) return undefined;
+    return {
+      ...row,
+      attributes: parseJson(row.attributes, []),
+      tags: parseJson(row.tags, []),
+      toolOptions: parseJson(row.toolOptions, undefined),
+    } as FullRadiusPacket;
+  }
+}
+
+export const conformanceService = new ConformanceService();
@@ -0,0 +1,196 @@
+import { createSocket, type RemoteInfo, type Socket } from 'dgram';
+import { lookup } from 'dns/promises';
+import { isIPv6 } from 'net';
+import type { FaultProfile } from '@/lib/types';
+import { codeToName } from '@/lib/radius/packet';
+import { createSeededRandom, planFaults, type FaultDirection, type FaultPlan } from '@/lib/radius/faults';
+import { formatEndpoint } from '@/lib/radius/pcap';
+
+const PROXY_ADDRESS = '127.0.0.1';
+// A run's session (and its sockets) is closed once no step has used it for this long.
+const IDLE_SESSION_MS = 5 * 60 * 1000;
+
+interface HeldDatagram {
+  release: () => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Relays UDP between the native client and one server port. Each client socket gets its own
+ * upstream socket, so replies find their way back the way a NAT would route them.
+ */
+class UdpFaultProxy {
+  private readonly listener: Socket = createSocket('udp4');
+  private readonly upstreams = new Map<string, Socket>();
+  private readonly held = new Map<string, HeldDatagram>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private closed = false;
+  port = 0;
+
+  constructor(private readonly session: FaultInjectionSession, private readonly targetAddress: string, private readonly targetPort: number) {}
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.listener.once('error', reject);
+      this.listener.bind(0, PROXY_ADDRESS, () => {
+        this.listener.off('error', reject);
+        resolve();
+      });
+    });
+    this.listener.on('message', (msg, rinfo) => this.relay('request', msg, `${rinfo.address}:${rinfo.port}`, data => {
+      this.upstreamFor(rinfo).send(data, this.targetPort, this.targetAddress, (error) => {
+        // Reported as an event so a failed relay is not mistaken for an injected drop.
+        if (error) this.session.record(`Request not relayed to ${formatEndpoint(this.targetAddress, this.targetPort)}: ${error.message}`);
+      });
+    }));
+    this.listener.on('error', (error) => console.error('[FAULT_PROXY] Listener error:', error.message));
+    this.port = this.listener.address().port;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.held.forEach(held => clearTimeout(held.timer));
+    this.held.clear();
+    this.listener.close();
+    this.upstreams.forEach(socket => socket.close());
+    this.upstreams.clear();
+  }
+
+  private upstreamFor(client: RemoteInfo): Socket {
+    const key = `${client.address}:${client.port}`;
+    let upstream = this.upstreams.get(key);
+    if (!upstream) {
+      upstream = createSocket(isIPv6(this.targetAddress) ? 'udp6' : 'udp4');
+      upstream.on('message', (msg) => this.relay('reply', msg, key, data => {
+        if (!this.closed) this.listener.send(data, client.port, client.address);
+      }));
+      upstream.on('error', (error) => console.error('[FAULT_PROXY] Upstream error:', error.message));
+      this.upstreams.set(key, upstream);
+    }
+    return upstream;
+  }
+
+  private later(delayMs: number, action: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) action();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  /** Sends the datagram as the profile dictates; a reordered one waits for the next in its flow. */
+  private relay(direction: FaultDirection, datagram: Buffer, client: string, send: (data: Buffer) => void): void {
+    const plan = this.session.plan(datagram, direction);
+    const deliver = () => plan.deliveries.forEach(d => d.delayMs > 0 ? this.later(d.delayMs, () => send(d.data)) : send(d.data));
+    const flow = `${direction}:${client}`;
+    const overtaken = this.held.get(flow);
+    if (overtaken) {
+      clearTimeout(overtaken.timer);
+      this.held.delete(flow);
+    }
+
+    if (plan.holdMs !== undefined && plan.deliveries.length > 0) {
+      overtaken?.release();
+      const timer = setTimeout(() => {
+        this.held.delete(flow);
+        if (!this.closed) deliver();
+      }, plan.holdMs);
+      this.held.set(flow, { release: deliver, timer });
+      return;
+    }
+    deliver();
+    overtaken?.release();
+  }
+}
+
+/**
+ * Fault injection for one run: a proxy per target port, all drawing from one generator seeded
+ * by the profile, and the log of what was done to which packet.
+ */
+export class FaultInjectionSession {
+  private readonly random: () => number;
+  private readonly proxies = new Map<string, Promise<UdpFaultProxy>>();
+  private events: string[] = [];
+
+  constructor(readonly profile: FaultProfile) {
+    this.random = createSeededRandom(profile.seed);
+  }
+
+  /** The local endpoint to send to instead of host:port; the proxy is started on first use. */
+  async endpointFor(host: string, port: number): Promise<{ host: string; port: number }> {
+    const key = formatEndpoint(host, port);
+    let proxy = this.proxies.get(key);
+    if (!proxy) {
+      proxy = (async () => {
+        // Either family, as the native client resolves it; the upstream socket follows the address.
+        const { address } = await lookup(host);
+        const relay = new UdpFaultProxy(this, address, port);
+        await relay.start();
+        return relay;
+      })();
+      this.proxies.set(key, proxy);
+      proxy.catch(() => this.proxies.delete(key));
+    }
+    return { host: PROXY_ADDRESS, port: (await proxy).port };
+  }
+
+  plan(datagram: Buffer, direction: FaultDirection): FaultPlan {
+    const plan = planFaults(datagram, direction, this.profile.rules, this.random);
+    if (plan.applied.length > 0) {
+      const label = datagram.length >= 2 ? `${codeToName(datagram[0])} Id ${datagram[1]}` : `${datagram.length}-octet datagram`;
+      this.events.push(`${direction === 'request' ? 'Request' : 'Reply'} ${label} ${plan.applied.join(', ')}`);
+    }
+    return plan;
+  }
+
+  record(event: string): void {
+    this.events.push(event);
+  }
+
+  /** Fault events since the last call, for the step that caused them. */
+  takeEvents(): string[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  close(): void {
+    this.proxies.forEach(proxy => proxy.then(relay => relay.close(), () => undefined));
+    this.proxies.clear();
+  }
+}
+
+/** Keeps one session per run, so the seed's sequence of choices spans every step of the run. */
+export class FaultProxyService {
+  private readonly sessions = new Map<string, { session: FaultInjectionSession; timer: NodeJS.Timeout }>();
+
+  /**
+   * The run's session for the profile, created on first use. Without a run id the session is
+   * the caller's alone and the caller closes it.
+   */
+  open(profile: FaultProfile, runId?: string): FaultInjectionSession {
+    if (!runId) return new FaultInjectionSession(profile);
+    const existing = this.sessions.get(runId);
+    if (existing) clearTimeout(existing.timer);
+    let session = existing?.session;
+    if (!session || session.profile.id !== profile.id || session.profile.lastModified !== profile.lastModified) {
+      session?.close();
+      session = new FaultInjectionSession(profile);
+    }
+    const timer = setTimeout(() => this.close(runId), IDLE_SESSION_MS);
+    timer.unref();
+    this.sessions.set(runId, { session, timer });
+    return session;
+  }
+
+  close(runId: string): void {
+    const entry = this.sessions.get(runId);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    entry.session.close();
+    this.sessions.delete(runId);
+  }
+}
+
+export const faultProxyService = new FaultProxyService();
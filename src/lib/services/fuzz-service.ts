@@ -0,0 +1,329 @@
+import { createSocket, type Socket } from 'dgram';
+import { lookup } from 'dns/promises';
+import { isIP, isIPv6 } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '@/lib/db';
+import type {
+  FuzzCampaign,
+  FuzzCampaignSettings,
+  FuzzCaseRecord,
+  FuzzFinding,
+  RadClientOptions,
+  RadiusPacket as FullRadiusPacket,
+  RadTestOptions,
+  ServerConfig as FullServerConfig,
+} from '@/lib/types';
+import type { RadiusDictionary } from '@/lib/radius/dictionary';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import { encodeAttributes, nameToCode, type AttributeValuePair } from '@/lib/radius/packet';
+import { createSeededRandom } from '@/lib/radius/faults';
+import { generateFuzzCase, type FuzzBasePacket, type FuzzCase } from '@/lib/radius/fuzz';
+import { radiusService } from './radius-service';
+
+const DEFAULT_COA_PORT = 3799;
+// Pause between liveness checks while waiting for an unresponsive server to come back.
+const RECOVERY_POLL_MS = 1000;
+
+interface FuzzTarget {
+  base: FuzzBasePacket;
+  address: string;
+  port: number;
+  secret: string;
+  statusListener: 'auth' | 'acct'; // Listener probed with Status-Server
+}
+
+interface CampaignRun {
+  campaign: FuzzCampaign;
+  packet: FullRadiusPacket;
+  server: FullServerConfig;
+  dictionary: RadiusDictionary;
+  target: FuzzTarget;
+  socket: Socket;
+  stopRequested: boolean;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (typeof value !== 'string' || !value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+function toCaseRecord(fuzzCase: FuzzCase): FuzzCaseRecord {
+  return { index: fuzzCase.index, mutation: fuzzCase.mutation, description: fuzzCase.description, hex: fuzzCase.bytes.toString('hex') };
+}
+
+/**
+ * Runs protocol fuzzing campaigns: mutated variants of a saved packet are sent as raw UDP at a
+ * fixed rate, and after every batch the server must still answer a liveness check. A server
+ * that stops answering is given time to recover; if it does, the batch is replayed one case at
+ * a time to find the packet responsible (a hang), otherwise the campaign ends with a crash.
+ */
+export class FuzzService {
+  private readonly runs = new Map<string, CampaignRun>();
+
+  isRunning(campaignId: string): boolean {
+    return this.runs.has(campaignId);
+  }
+
+  async start(name: string, packet: FullRadiusPacket, server: FullServerConfig, settings: FuzzCampaignSettings): Promise<FuzzCampaign> {
+    const dictionary = await loadActiveDictionary();
+    const target = await this.resolveTarget(packet, server, dictionary);
+    const campaign: FuzzCampaign = {
+      id: uuidv4(),
+      name: name || `${packet.name} on ${server.name}`,
+      packetId: packet.id,
+      packetName: packet.name,
+      serverId: server.id,
+      serverName: server.name,
+      settings,
+      status: 'Running',
+      startTime: new Date().toISOString(),
+      casesSent: 0,
+      repliesReceived: 0,
+      findingCount: 0,
+    };
+    const db = await getDb();
+    await db.run(
+      'INSERT INTO fuzz_campaigns (id, name, packetId, packetName, serverId, serverName, settings, status, startTime) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      campaign.id, campaign.name, campaign.packetId, campaign.packetName, campaign.serverId, campaign.serverName,
+      JSON.stringify(settings), campaign.status, campaign.startTime
+    );
+
+    const socket = createSocket(isIPv6(target.address) ? 'udp6' : 'udp4');
+    const run: CampaignRun = { campaign, packet, server, dictionary, target, socket, stopRequested: false };
+    socket.on('message', () => { campaign.repliesReceived++; });
+    socket.on('error', error => console.error(`Fuzz campaign ${campaign.id} socket error:`, error));
+    this.runs.set(campaign.id, run);
+    this.execute(run).catch(error => console.error(`Fuzz campaign ${campaign.id} failed:`, error));
+    return campaign;
+  }
+
+  /** Asks a running campaign to stop after the case in flight. Returns false when it is not running. */
+  stop(campaignId: string): boolean {
+    const run = this.runs.get(campaignId);
+    if (!run) return false;
+    run.stopRequested = true;
+    return true;
+  }
+
+  async listCampaigns(): Promise<FuzzCampaign[]> {
+    const db = await getDb();
+    const rows = await db.all('SELECT * FROM fuzz_campaigns ORDER BY startTime DESC');
+    return rows.map(row => this.toCampaign(row));
+  }
+
+  async getCampaign(campaignId: string): Promise<{ campaign: FuzzCampaign; findings: FuzzFinding[] } | undefined> {
+    const db = await getDb();
+    const row = await db.get('SELECT * FROM fuzz_campaigns WHERE id = ?', campaignId);
+    if (!row) return undefined;
+    const findingRows = await db.all('SELECT * FROM fuzz_findings WHERE campaignId = ? ORDER BY timestamp ASC', campaignId);
+    const findings: FuzzFinding[] = findingRows.map(finding => ({
+      id: finding.id,
+      campaignId: finding.campaignId,
+      timestamp: finding.timestamp,
+      kind: finding.kind,
+      summary: finding.summary || '',
+      reproducer: parseJson<FuzzCaseRecord | undefined>(finding.reproducer, undefined),
+      cases: parseJson<FuzzCaseRecord[]>(finding.cases, []),
+    }));
+    return { campaign: this.toCampaign(row), findings };
+  }
+
+  async deleteCampaign(campaignId: string): Promise<boolean> {
+    this.stop(campaignId);
+    const db = await getDb();
+    await db.run('DELETE FROM fuzz_findings WHERE campaignId = ?', campaignId);
+    const result = await db.run('DELETE FROM fuzz_campaigns WHERE id = ?', campaignId);
+    return (result.changes ?? 0) > 0;
+  }
+
+  private toCampaign(row: any): FuzzCampaign {
+    const running = this.runs.get(row.id);
+    if (running) return { ...running.campaign }; // Live counters, ahead of the last batch written
+    return {
+      ...row,
+      settings: parseJson<FuzzCampaignSettings | undefined>(row.settings, undefined),
+      status: row.status === 'Running' ? 'Interrupted' : row.status,
+      endTime: row.endTime || undefined,
+      error: row.error || undefined,
+      casesSent: Number(row.casesSent) || 0,
+      repliesReceived: Number(row.repliesReceived) || 0,
+      findingCount: Number(row.findingCount) || 0,
+    } as FuzzCampaign;
+  }
+
+  /** Works out the request code, attributes and destination the packet would be sent with. */
+  private async resolveTarget(packet: FullRadiusPacket, server: FullServerConfig, dictionary: RadiusDictionary): Promise<FuzzTarget> {
+    const toolOptions = (packet.toolOptions || {}) as Partial<RadClientOptions & RadTestOptions>;
+    if (toolOptions.protocol && toolOptions.protocol !== 'udp') {
+      throw new Error(`The fuzzer sends raw UDP datagrams; this packet uses ${toolOptions.protocol}.`);
+    }
+    let pairs: AttributeValuePair[] = packet.attributes.filter(attr => attr.name).map(attr => ({ name: attr.name, value: String(attr.value) }));
+    let packetType = 'Access-Request';
+    if (packet.executionTool === 'radtest') {
+      if (toolOptions.authType && toolOptions.authType !== 'pap') {
+        throw new Error(`radtest auth type "${toolOptions.authType}" cannot be fuzzed; use a PAP or radclient packet.`);
+      }
+      const radtestPairs: AttributeValuePair[] = [
+        { name: 'User-Name', value: toolOptions.user || '' },
+        { name: 'User-Password', value: toolOptions.password || '' },
+        { name: 'NAS-Port', value: String(toolOptions.nasPortNumber ?? 0) },
+      ];
+      pairs = [...radtestPairs, ...pairs.filter(pair => !radtestPairs.some(r => r.name === pair.name))];
+    } else {
+      const type = toolOptions.type || 'auth';
+      if (type === 'acct') packetType = 'Accounting-Request';
+      else if (type === 'status') packetType = 'Status-Server';
+      else if (type === 'coa') packetType = 'CoA-Request';
+      else if (type === 'disconnect') packetType = 'Disconnect-Request';
+      else if (type === 'auto') {
+        const packetTypePair = pairs.find(pair => pair.name.toLowerCase() === 'packet-type');
+        if (packetTypePair) packetType = packetTypePair.value.replace(/^"(.*)"$/, '$1');
+      }
+    }
+    pairs = pairs.filter(pair => pair.name.toLowerCase() !== 'packet-type');
+    const code = nameToCode(packetType);
+    if (code === undefined) {
+      throw new Error(`Unknown RADIUS packet type "${packetType}".`);
+    }
+
+    const secret = toolOptions.secret || server.defaultSecret || '';
+    const base: FuzzBasePacket = {
+      code,
+      encodeAttributes: requestAuthenticator => encodeAttributes(pairs, dictionary, { secret, requestAuthenticator }),
+      attributeName: type => dictionary.findByCode(type)?.name || `Attribute-${type}`,
+    };
+    base.encodeAttributes(Buffer.alloc(16)); // Surfaces attribute errors before the campaign starts
+
+    const port = packetType === 'Accounting-Request' ? server.radiusAcctPort
+      : packetType === 'CoA-Request' || packetType === 'Disconnect-Request' ? (server.radiusCoaPort || DEFAULT_COA_PORT)
+      : server.radiusAuthPort;
+    const address = isIP(server.host) ? server.host : (await lookup(server.host)).address;
+    return { base, address, port, secret, statusListener: packetType === 'Accounting-Request' ? 'acct' : 'auth' };
+  }
+
+  private async execute(run: CampaignRun): Promise<void> {
+    const { campaign, target } = run;
+    const { settings } = campaign;
+    const random = createSeededRandom(settings.seed);
+    const intervalMs = 1000 / Math.max(1, settings.ratePerSecond);
+
+    try {
+      let index = 0;
+      while (index < settings.totalCases && !run.stopRequested) {
+        const batch: FuzzCase[] = [];
+        while (batch.length < settings.batchSize && index < settings.totalCases && !run.stopRequested) {
+          const fuzzCase = generateFuzzCase(index++, target.base, settings.mutations, random, target.secret);
+          await this.send(run, fuzzCase.bytes);
+          batch.push(fuzzCase);
+          await sleep(intervalMs);
+        }
+        if (batch.length && !(await this.isAlive(run))) {
+          const crashed = await this.investigate(run, batch);
+          if (crashed) break;
+        }
+        await this.saveProgress(campaign);
+      }
+      if (campaign.status === 'Running') campaign.status = run.stopRequested ? 'Stopped' : 'Completed';
+    } catch (error) {
+      campaign.status = 'Failed';
+      campaign.error = (error as Error).message;
+    } finally {
+      campaign.endTime = new Date().toISOString();
+      this.runs.delete(campaign.id);
+      run.socket.close();
+      await this.saveProgress(campaign);
+    }
+  }
+
+  /**
+   * Handles a failed liveness check after `batch`. Returns true when the server never came back,
+   * which ends the campaign; otherwise the batch is replayed case by case to find the culprit.
+   */
+  private async investigate(run: CampaignRun, batch: FuzzCase[]): Promise<boolean> {
+    const batchRecords = batch.map(toCaseRecord);
+    const range = `cases ${batch[0].index}-${batch[batch.length - 1].index}`;
+    if (!(await this.waitForRecovery(run))) {
+      await this.recordFinding(run, 'crash', `No reply to liveness checks for ${run.campaign.settings.recoveryWaitMs}ms after ${range}.`, batchRecords);
+      run.campaign.status = 'Crashed';
+      return true;
+    }
+
+    for (const fuzzCase of batch) {
+      if (run.stopRequested) break;
+      await this.send(run, fuzzCase.bytes);
+      await sleep(RECOVERY_POLL_MS / 10);
+      if (await this.isAlive(run)) continue;
+      const reproducer = toCaseRecord(fuzzCase);
+      if (!(await this.waitForRecovery(run))) {
+        await this.recordFinding(run, 'crash', `Case ${fuzzCase.index} (${fuzzCase.description}) stopped the server answering.`, batchRecords, reproducer);
+        run.campaign.status = 'Crashed';
+        return true;
+      }
+      await this.recordFinding(run, 'hang', `Case ${fuzzCase.index} (${fuzzCase.description}) made the server stop answering until it recovered.`, batchRecords, reproducer);
+      return false;
+    }
+    await this.recordFinding(run, 'hang', `The server stopped answering after ${range} but no single case reproduced it.`, batchRecords);
+    return false;
+  }
+
+  private async waitForRecovery(run: CampaignRun): Promise<boolean> {
+    const deadline = Date.now() + run.campaign.settings.recoveryWaitMs;
+    while (Date.now() < deadline) {
+      if (await this.isAlive(run)) return true;
+      await sleep(RECOVERY_POLL_MS);
+    }
+    return false;
+  }
+
+  /** Status-Server must be answered; the unmodified base packet may get any reply at all. */
+  private async isAlive(run: CampaignRun): Promise<boolean> {
+    const { livenessCheck, livenessTimeoutMs } = run.campaign.settings;
+    if (livenessCheck === 'status-server') {
+      const probe = await radiusService.probeStatusServer(run.server, run.target.statusListener, livenessTimeoutMs);
+      return probe.reachable;
+    }
+    const result = await radiusService.executeTool(run.packet, run.server, [], {
+      dictionary: run.dictionary,
+      retransmission: { timeout: livenessTimeoutMs, retries: 0 },
+    });
+    return !!result.reply?.code;
+  }
+
+  private send(run: CampaignRun, bytes: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      run.socket.send(bytes, run.target.port, run.target.address, error => {
+        if (error) reject(error);
+        else {
+          run.campaign.casesSent++;
+          resolve();
+        }
+      });
+    });
+  }
+
+  private async recordFinding(run: CampaignRun, kind: FuzzFinding['kind'], summary: string, cases: FuzzCaseRecord[], reproducer?: FuzzCaseRecord): Promise<void> {
+    const db = await getDb();
+    await db.run(
+      'INSERT INTO fuzz_findings (id, campaignId, timestamp, kind, summary, reproducer, cases) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      uuidv4(), run.campaign.id, new Date().toISOString(), kind, summary,
+      reproducer ? JSON.stringify(reproducer) : null, JSON.stringify(cases)
+    );
+    run.campaign.findingCount++;
+  }
+
+  private async saveProgress(campaign: FuzzCampaign): Promise<void> {
+    const db = await getDb();
+    await db.run(
+      'UPDATE fuzz_campaigns SET status = ?, endTime = ?, casesSent = ?, repliesReceived = ?, findingCount = ?, error = ? WHERE id = ?',
+      campaign.status, campaign.endTime || null, campaign.casesSent, campaign.repliesReceived, campaign.findingCount, campaign.error || null, campaign.id
+    );
+  }
+}
+
+export const fuzzService = new FuzzService();
@@ -2,4 +2,8 @@ export { sshService } from './ssh-service';
 export { dbService } from './db-service';
 export { radiusService } from './radius-service';
 export { apiService } from './api-service';
-export { scenarioService } from './scenario-service'; 
\ No newline at end of file
+export { scenarioService } from './scenario-service';
+export { mockServerService } from './mock-server-service';
+export { faultProxyService } from './fault-proxy-service';
+export { fuzzService } from './fuzz-service';
+export { conformanceService } from './conformance-service';
\ No newline at end of file
@@ -0,0 +1,249 @@
+import { createSocket, type RemoteInfo, type Socket } from 'dgram';
+import { getDb } from '@/lib/db';
+import type { MockServerRequestLog, MockServerRule, MockServerSettings, MockServerStatus } from '@/lib/types';
+import type { RadiusDictionary } from '@/lib/radius/dictionary';
+import { loadActiveDictionary } from '@/lib/radius/load-dictionary';
+import {
+  codeToName,
+  computeResponseAuthenticator,
+  decodeAttributes,
+  decodePacket,
+  encodeAttributes,
+  encodePacket,
+  hasSignedRequestAuthenticator,
+  nameToCode,
+  signMessageAuthenticator,
+  verifyMessageAuthenticator,
+  verifyRequestAuthenticator,
+  MESSAGE_AUTHENTICATOR_TYPE,
+  type RadiusPacketFields,
+  type RawAttribute,
+} from '@/lib/radius/packet';
+import { DEFAULT_MOCK_SERVER_SETTINGS, MOCK_SERVER_ADDRESS, matchMockRule, mockReplyCode } from '@/lib/radius/mock-rules';
+
+type MockListener = 'auth' | 'acct' | 'coa';
+
+const SETTINGS_ROW_ID = 'default';
+const RECENT_REQUEST_LIMIT = 100;
+// How long a reply is kept to answer a retransmitted request (RFC 5080 section 2.2.2).
+const DUPLICATE_CACHE_MS = 10000;
+const PROXY_STATE_TYPE = 33;
+const STATE_TYPE = 24;
+
+/**
+ * A RADIUS responder on localhost driven by a rule table, so scenarios can be developed and
+ * run in CI without a real server. Requests are validated against the shared secret, matched
+ * against the rules in order and answered (or dropped) after the rule's delay. Retransmitted
+ * requests get the cached reply, as a server with a duplicate-detection cache would send.
+ */
+export class MockServerService {
+  private sockets: Socket[] = [];
+  private settings: MockServerSettings = DEFAULT_MOCK_SERVER_SETTINGS;
+  private dictionary?: RadiusDictionary;
+  private startedAt?: string;
+  private lastError?: string;
+  private recentRequests: MockServerRequestLog[] = [];
+  private readonly replyCache = new Map<string, { reply?: Buffer; expiresAt: number }>();
+  private starting?: Promise<void>;
+
+  get isRunning(): boolean {
+    return this.sockets.length > 0;
+  }
+
+  async loadSettings(): Promise<MockServerSettings> {
+    const db = await getDb();
+    const row = await db.get('SELECT * FROM mock_server WHERE id = ?', SETTINGS_ROW_ID);
+    if (!row) return DEFAULT_MOCK_SERVER_SETTINGS;
+    let rules: MockServerRule[] = [];
+    try {
+      rules = row.rules ? JSON.parse(row.rules as string) : [];
+    } catch (e: any) {
+      console.warn(`[MOCK_SERVER] Ignoring stored rules: not valid JSON (${e.message}).`);
+    }
+    return {
+      secret: row.secret ?? DEFAULT_MOCK_SERVER_SETTINGS.secret,
+      authPort: Number(row.authPort) || DEFAULT_MOCK_SERVER_SETTINGS.authPort,
+      acctPort: Number(row.acctPort) || DEFAULT_MOCK_SERVER_SETTINGS.acctPort,
+      coaPort: Number(row.coaPort) || DEFAULT_MOCK_SERVER_SETTINGS.coaPort,
+      defaultAction: row.defaultAction || DEFAULT_MOCK_SERVER_SETTINGS.defaultAction,
+      rules: Array.isArray(rules) ? rules : [],
+    };
+  }
+
+  /** Stores the settings and restarts a running server so they take effect. */
+  async saveSettings(settings: MockServerSettings): Promise<MockServerSettings> {
+    const db = await getDb();
+    await db.run(
+      `INSERT INTO mock_server (id, secret, authPort, acctPort, coaPort, defaultAction, rules) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET secret = excluded.secret, authPort = excluded.authPort, acctPort = excluded.acctPort,
+       coaPort = excluded.coaPort, defaultAction = excluded.defaultAction, rules = excluded.rules`,
+      SETTINGS_ROW_ID, settings.secret, settings.authPort, settings.acctPort, settings.coaPort, settings.defaultAction, JSON.stringify(settings.rules)
+    );
+    if (this.isRunning) {
+      await this.stop();
+      await this.start();
+    }
+    return settings;
+  }
+
+  getStatus(): MockServerStatus {
+    return {
+      running: this.isRunning,
+      address: MOCK_SERVER_ADDRESS,
+      startedAt: this.startedAt,
+      error: this.lastError,
+      recentRequests: this.recentRequests,
+    };
+  }
+
+  /** Binds the auth, acct and CoA ports with the stored settings and the active dictionaries. */
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+    if (!this.starting) {
+      this.starting = this.bindListeners().finally(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
+  }
+
+  /** Starts the server unless it is already running; used before a step runs against it. */
+  async ensureRunning(): Promise<void> {
+    await this.start();
+  }
+
+  async stop(): Promise<void> {
+    const sockets = this.sockets;
+    this.sockets = [];
+    this.startedAt = undefined;
+    this.replyCache.clear();
+    await Promise.all(sockets.map(socket => new Promise<void>(resolve => socket.close(() => resolve()))));
+  }
+
+  private async bindListeners(): Promise<void> {
+    this.settings = await this.loadSettings();
+    this.dictionary = await loadActiveDictionary();
+    const listeners: [MockListener, number][] = [['auth', this.settings.authPort], ['acct', this.settings.acctPort], ['coa', this.settings.coaPort]];
+    const sockets: Socket[] = [];
+    try {
+      for (const [listener, port] of listeners) {
+        const socket = createSocket('udp4');
+        sockets.push(socket);
+        await new Promise<void>((resolve, reject) => {
+          socket.once('error', reject);
+          socket.bind(port, MOCK_SERVER_ADDRESS, () => {
+            socket.off('error', reject);
+            resolve();
+          });
+        });
+        socket.on('message', (msg, rinfo) => this.handleRequest(socket, listener, msg, rinfo));
+        socket.on('error', (error) => console.error(`[MOCK_SERVER] ${listener} listener error:`, error.message));
+      }
+    } catch (error) {
+      sockets.forEach(socket => socket.close());
+      this.lastError = `Could not bind ${MOCK_SERVER_ADDRESS}: ${(error as Error).message}`;
+      throw new Error(this.lastError);
+    }
+    this.sockets = sockets;
+    this.startedAt = new Date().toISOString();
+    this.lastError = undefined;
+    this.recentRequests = [];
+  }
+
+  private log(entry: Omit<MockServerRequestLog, 'timestamp'>): void {
+    this.recentRequests = [{ timestamp: new Date().toISOString(), ...entry }, ...this.recentRequests].slice(0, RECENT_REQUEST_LIMIT);
+  }
+
+  private handleRequest(socket: Socket, listener: MockListener, msg: Buffer, rinfo: RemoteInfo): void {
+    const from = `${rinfo.address}:${rinfo.port}`;
+    const { secret } = this.settings;
+    let request: RadiusPacketFields;
+    try {
+      request = decodePacket(msg);
+    } catch (e: unknown) {
+      this.log({ from, request: `${msg.length} octets`, outcome: `discarded: malformed packet (${e instanceof Error ? e.message : String(e)})` });
+      return;
+    }
+    const code = codeToName(request.code);
+    const label = `${code} Id ${request.identifier}`;
+    const signed = hasSignedRequestAuthenticator(request.code);
+    if (signed && !verifyRequestAuthenticator(msg, secret)) {
+      this.log({ from, request: label, outcome: 'discarded: invalid Request Authenticator (shared secret mismatch?)' });
+      return;
+    }
+    const messageAuthenticator = verifyMessageAuthenticator(msg, secret, signed ? Buffer.alloc(16) : undefined);
+    if (messageAuthenticator === 'invalid') {
+      this.log({ from, request: label, outcome: 'discarded: invalid Message-Authenticator' });
+      return;
+    }
+    if (code === 'Status-Server' && messageAuthenticator === 'missing') {
+      this.log({ from, request: label, outcome: 'discarded: Status-Server without Message-Authenticator (RFC 5997 section 3)' });
+      return;
+    }
+
+    const cacheKey = `${from}:${request.identifier}:${request.authenticator.toString('hex')}`;
+    const now = Date.now();
+    this.replyCache.forEach((entry, key) => entry.expiresAt < now && this.replyCache.delete(key));
+    const cached = this.replyCache.get(cacheKey);
+    if (cached) {
+      if (cached.reply) socket.send(cached.reply, rinfo.port, rinfo.address);
+      this.log({ from, request: label, outcome: cached.reply ? 'duplicate: cached reply resent' : 'duplicate: still pending or dropped' });
+      return;
+    }
+
+    const dictionary = this.dictionary!;
+    const attributes = decodeAttributes(request.attributes, dictionary, { secret, requestAuthenticator: request.authenticator });
+    const rule = matchMockRule(code, attributes, this.settings.rules);
+    // Only a matching drop rule silences Status-Server; the default action is about logins.
+    const action = rule?.action ?? (code === 'Status-Server' ? 'accept' : this.settings.defaultAction);
+    const replyCode = mockReplyCode(code, action, listener);
+    const delayMs = Math.max(0, rule?.delayMs || 0);
+    const cacheEntry: { reply?: Buffer; expiresAt: number } = { expiresAt: now + delayMs + DUPLICATE_CACHE_MS };
+    this.replyCache.set(cacheKey, cacheEntry);
+    if (!replyCode) {
+      this.log({ from, request: label, rule: rule?.name, outcome: 'dropped' });
+      return;
+    }
+
+    let reply: Buffer;
+    try {
+      reply = this.buildReply(replyCode, request, rule, msg);
+    } catch (e: unknown) {
+      this.replyCache.delete(cacheKey);
+      this.log({ from, request: label, rule: rule?.name, outcome: `not answered: could not build ${replyCode} (${e instanceof Error ? e.message : String(e)})` });
+      return;
+    }
+    setTimeout(() => {
+      if (!this.sockets.includes(socket)) return; // Stopped during the delay
+      cacheEntry.reply = reply;
+      socket.send(reply, rinfo.port, rinfo.address);
+      this.log({ from, request: label, rule: rule?.name, outcome: `${replyCode}${delayMs ? ` after ${delayMs}ms` : ''}` });
+    }, delayMs);
+  }
+
+  /**
+   * Encodes the reply with the rule's attributes, echoes Proxy-State (RFC 2865 section 5.33)
+   * and signs it. Access-Challenge gets a State when the rule has none; replies to
+   * Access-Request and Status-Server always carry Message-Authenticator (BlastRADIUS).
+   */
+  private buildReply(replyCode: string, request: RadiusPacketFields, rule: MockServerRule | undefined, requestBytes: Buffer): Buffer {
+    const { secret } = this.settings;
+    const pairs = (rule?.replyAttributes || []).filter(attr => attr.name.trim()).map(attr => ({ name: attr.name.trim(), value: attr.value }));
+    const attributes: RawAttribute[] = encodeAttributes(pairs, this.dictionary!, { secret, requestAuthenticator: request.authenticator });
+    if (replyCode === 'Access-Challenge' && !attributes.some(attr => attr.type === STATE_TYPE)) {
+      attributes.push({ type: STATE_TYPE, value: Buffer.from(`mock-${Date.now().toString(16)}`) });
+    }
+    attributes.push(...request.attributes.filter(attr => attr.type === PROXY_STATE_TYPE));
+    const requestCode = codeToName(request.code);
+    const signReply = requestCode === 'Access-Request' || requestCode === 'Status-Server'
+      || verifyMessageAuthenticator(requestBytes, secret, Buffer.alloc(16)) !== 'missing';
+    if (signReply) attributes.unshift({ type: MESSAGE_AUTHENTICATOR_TYPE, value: Buffer.alloc(16) });
+
+    const reply = encodePacket({ code: nameToCode(replyCode)!, identifier: request.identifier, authenticator: request.authenticator, attributes });
+    if (signReply) signMessageAuthenticator(reply, secret, request.authenticator);
+    computeResponseAuthenticator(reply, request.authenticator, secret).copy(reply, 4);
+    return reply;
+  }
+}
+
+export const mockServerService = new MockServerService();
@@ -1,39 +1,255 @@
+import { spawn } from 'child_process';
+import { createSocket } from 'dgram';
+import { lookup } from 'dns/promises';
+import { isIP, isIPv6 } from 'net';
+import type { RadiusPacket as FullRadiusPacket, ScenarioVariable, ServerConfig as FullServerConfig, RadClientOptions, RadTestOptions, ExpectedReplyAttribute, MessageAuthenticatorMode } from '@/lib/types'; // Use full types
+import { RadiusDictionary } from '@/lib/radius/dictionary';
+import {
+  codeToName,
+  nameToCode,
+  decodeAttributes,
+  decodePacket,
+  decodeVendorSpecific,
+  encodeAttribute,
+  encodeAttributeValue,
+  computeResponseAuthenticator,
+  encodePacket,
+  encodeVendorSpecific,
+  findAttributeValueOffset,
+  formatAttribute,
+  generateRequestAuthenticator,
+  hasSignedRequestAuthenticator,
+  packAttributes,
+  resolveAttribute,
+  splitAttributeTag,
+  signMessageAuthenticator,
+  signRequestAuthenticator,
+  verifyMessageAuthenticator,
+  verifyRequestAuthenticator,
+  verifyResponseAuthenticator,
+  MESSAGE_AUTHENTICATOR_TYPE,
+  type AttributeCryptoContext,
+  type MessageAuthenticatorStatus,
+  type DecodedAttribute,
+  type RawAttribute,
+} from '@/lib/radius/packet';
+import { buildChapPassword, decryptTunnelPassword } from '@/lib/radius/crypto';
+import {
+  createMd5ChallengeMethod,
+  decodeEapPacket,
+  describeEapPacket,
+  eapTypeName,
+  encodeEapPacket,
+  splitEapMessage,
+  EAP_CODES,
+  EAP_TYPES,
+  type EapMethod,
+} from '@/lib/radius/eap';
+import {
+  createEapTlsMethod,
+  createPeapMsChapV2Method,
+  createTtlsPapMethod,
+  type EapTlsCredentials,
+  type EapTlsMethod,
+} from '@/lib/radius/eap-tls';
+import { RADSEC_DEFAULT_PORT, RADSEC_SHARED_SECRET, type RadSecTlsOptions } from '@/lib/radius/radsec';
+import { RadiusStreamConnection, DEFAULT_IDLE_TIMEOUT_MS, type StreamConnectionSettings } from '@/lib/radius/stream';
+import { decodeFreeRadiusStatistics, encodeStatisticsRequest } from '@/lib/radius/freeradius-stats';
+import { createMsChapV2Exchange, MICROSOFT_VENDOR_ID, MS_ATTRIBUTES, type MsChapV2Exchange } from '@/lib/radius/mschap';
+import { formatEndpoint, type RecordedDatagram } from '@/lib/radius/pcap';
+import {
+  buildRadclientCommand,
+  buildRadtestCommand,
+  formatCommandLine,
+  parseToolOutput,
+  type FreeRadiusCommand,
+} from '@/lib/radius/freeradius-tools';
+import type { FaultInjectionSession } from './fault-proxy-service';
+import { sshService, type SshCommandResult } from './ssh-service';
 
-// import { spawn } from 'child_process'; // Not used in client-side simulation
-// import radius from 'radius'; // Not used in client-side simulation
-// import { promisify } from 'util'; // Not used in client-side simulation
-import type { RadiusPacket as FullRadiusPacket, ScenarioVariable, ServerConfig as FullServerConfig } from '@/lib/types'; // Use full types
-
-export interface RadiusAttribute { // Simplified for this mock
+export interface RadiusAttribute {
   name: string;
   value: string | number | Buffer;
 }
 
-export interface RadiusPacket { // Simplified for this mock
+export interface RadiusPacket {
   code: 'Access-Request' | 'Access-Accept' | 'Access-Reject' | 'Access-Challenge' | 'Accounting-Request' | 'Accounting-Response' | string; // Allow string for flexibility
   identifier?: number;
   attributes: RadiusAttribute[];
+  messageAuthenticator?: MessageAuthenticatorMode;
 }
 
-interface RadiusServerConfig {
+export interface RadiusServerConfig {
   host: string;
   port: number;
   secret: string;
-  timeout?: number;
-  retries?: number;
+  timeout?: number; // Milliseconds to wait for a reply
+  retries?: number; // udp: retransmissions after a timeout, default 0
+  retryBackoff?: number; // udp: multiplier applied to the timeout after each retransmission, default 1
+  duplicateCheck?: boolean; // udp: resend the answered request to check the server's duplicate-detection cache
+  transport?: 'udp' | 'tcp' | 'radsec'; // Defaults to 'udp'
+  tls?: RadSecTlsOptions; // RadSec certificates
+  connection?: Partial<StreamConnectionSettings>; // tcp/radsec idle timeout and watchdog
+}
+
+export interface RadiusResponse {
+  code?: string; // Reply code name, undefined when no reply arrived
+  identifier: number;
+  attributes: DecodedAttribute[];
+  authenticatorValid: boolean;
+  messageAuthenticator: MessageAuthenticatorStatus;
+  roundTripMs: number;
+  requestCode: string;
+  requestAttributes: DecodedAttribute[];
+  requestBytes: Buffer;
+  responseBytes?: Buffer;
+  localPort?: number;
+  connectionReused?: boolean; // tcp/radsec: sent over a connection opened for an earlier request
+  transmissions?: number[]; // udp: ms after the first send at which each copy of the request went out
+  duplicate?: DuplicateRequestCheck;
+  datagrams?: RecordedDatagram[]; // Every copy of the request and every reply, as sent and received
+  error?: string;
+}
+
+export interface DuplicateRequestCheck {
+  sentAtMs: number; // ms after the first send
+  responseBytes?: Buffer; // Undefined when the resent request was not answered
+  identical: boolean;
+}
+
+export interface RadiusExchangeLog {
+  sent: string;
+  received?: string;
+  sentHex: string; // Wire bytes, for the log decoder
+  receivedHex?: string;
+  retransmission?: number; // 1 for the first resend after a timeout
+  duplicate?: boolean; // Deliberate resend of an answered request
 }
 
-export interface SimulatedRadiusToolResult { // Export for ExecutionConsolePage
-  simulatedFullOutput: string;
-  simulatedSentPacket?: string;
-  simulatedReceivedPacket?: string;
+export interface RadiusToolResult { // Export for ExecutionConsolePage and /api/radius/execute
+  fullOutput: string;
+  exchanges: RadiusExchangeLog[]; // One entry per request/reply round trip
+  connectionEvents?: string[]; // tcp/radsec connection opens, closes, watchdog probes and timeouts
+  datagrams?: RecordedDatagram[]; // Wire traffic of every round, for the execution's packet capture
+  faultEvents?: string[]; // What the run's fault profile did to the packets of this step
+
   code: number; // 0 for success, non-zero for error
-  error?: string; // Error message if tool "failed"
+  error?: string;
+  reply?: {
+    code?: string;
+    identifier: number;
+    attributes: { name: string; value: string }[];
+    roundTripMs: number;
+    authenticatorValid: boolean;
+    messageAuthenticator: MessageAuthenticatorStatus;
+  };
+}
+
+export interface DynamicAuthorizationListenerOptions {
+  port: number;
+  address?: string; // Bind address, all interfaces when omitted
+  timeout: number; // ms
+  expectedCode?: 'CoA-Request' | 'Disconnect-Request'; // Any RFC 5176 request when omitted
+  respondWith: 'ack' | 'nak';
+  errorCause?: string; // Error-Cause added to NAKs
+  nasIdentifier?: string; // Key into nasSpecificSecrets; the sender address is tried next
+  nasSpecificSecrets: Record<string, string>;
+  defaultSecret: string;
+}
+
+export interface DynamicAuthorizationListenerResult { // Export for /api/radius/listen
+  request?: {
+    code: string;
+    identifier: number;
+    from: string;
+    attributes: DecodedAttribute[];
+    messageAuthenticator: MessageAuthenticatorStatus;
+  };
+  replyCode?: string;
+  received?: string; // radclient-style text of the accepted request
+  sent?: string; // radclient-style text of our reply
+  receivedHex?: string; // Wire bytes of the accepted request and of our reply
+  sentHex?: string;
+  datagrams: RecordedDatagram[]; // Every packet received on the port and our reply
+  discarded: string[]; // Requests dropped before a valid one arrived, with the reason
+  error?: string;
+}
+
+export interface StatusServerProbeResult {
+  listener: 'auth' | 'acct';
+  transport: NonNullable<FullServerConfig['statusTransport']>;
+  port: number;
+  reachable: boolean; // A reply arrived, even if it failed validation
+  responseTimeMs?: number;
+  replyCode?: string;
+  statistics: { name: string; value: string }[]; // FreeRADIUS-* statistics attributes from the reply
+  error?: string;
+}
+
+// The parts of a server config a Status-Server probe uses.
+export type StatusServerTarget = Pick<FullServerConfig, 'host' | 'radiusAuthPort' | 'radiusAcctPort' | 'defaultSecret' | 'statusTransport'
+  | 'radsecHost' | 'radsecPort' | 'radsecCaCertificate' | 'radsecClientCertificate' | 'radsecClientPrivateKey'>;
+
+export interface RadiusHealthCheckResult { // Export for /api/radius/status and the connection test
+  host: string;
+  checkedAt: string; // ISO string
+  status: 'up' | 'degraded' | 'down';
+  listeners: StatusServerProbeResult[];
+}
+
+interface UdpExchange {
+  response?: Buffer;
+  roundTripMs: number;
+  localPort: number;
+  transmissions?: number[];
+  duplicate?: { sentAtMs: number; response?: Buffer };
+  datagrams: RecordedDatagram[];
+}
+
+interface UdpSendOptions {
+  timeoutMs: number;
+  retries: number;
+  backoff: number;
+  duplicateCheck: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 3000;
+// Added to the real tools' own timeouts (process start-up, SSH connection) before they are killed.
+const TOOL_GRACE_MS = 10000;
+const EAP_MAX_ROUNDS = 50;
+const NATIVE_RADTEST_AUTH_TYPES: string[] = ['pap', 'chap', 'mschap', 'eap-md5', 'peap-mschapv2', 'ttls-pap', 'eap-tls'];
+// Pseudo reply attribute (like Packet-Type) used in expectedAttributes to assert an EAP-TLS result.
+export const EAP_TLS_OUTCOME_ATTRIBUTE = 'EAP-TLS-Outcome';
+// Pseudo reply attribute asserting whether a tcp/radsec request reused an open connection ("reused") or opened one ("new").
+export const TRANSPORT_CONNECTION_ATTRIBUTE = 'Transport-Connection';
+const STATE_TYPE = 24;
+const EAP_MESSAGE_TYPE = 79;
+const REJECTION_CODES = new Set(['Access-Reject', 'CoA-NAK', 'Disconnect-NAK']);
+// RFC 5176 requests, sent to the dynamic authorization port rather than the auth port.
+const DYNAMIC_AUTHORIZATION_REQUESTS = new Set(['CoA-Request', 'Disconnect-Request']);
+const DEFAULT_COA_PORT = 3799;
+// Requests that always carry Message-Authenticator, and whose replies must carry one (RFC 3579, RFC 5997, BlastRADIUS).
+const MESSAGE_AUTHENTICATOR_CODES = new Set([1, 12]);
+
+// IPv6 addresses have several spellings; URL parsing gives the compressed lower-case one.
+function canonicalIp(address: string): string {
+  return isIPv6(address) ? new URL(`http://[${address}]/`).hostname.slice(1, -1) : address;
+}
+
+interface ExecuteToolOptions {
+  dictionary?: RadiusDictionary;
+  expectedAttributes?: Pick<ExpectedReplyAttribute, 'name' | 'value'>[];
+  retransmission?: Pick<RadiusServerConfig, 'timeout' | 'retries' | 'retryBackoff' | 'duplicateCheck'>; // Scenario step overrides
+  faultInjection?: FaultInjectionSession; // Routes udp packets through the run's fault injection proxy
 }
 
 export class RadiusService {
+  private readonly standardDictionary = new RadiusDictionary();
+  // TCP and RadSec connections by transport, host and port, reused for every packet until they go idle.
+  private readonly streamConnections = new Map<string, RadiusStreamConnection>();
+
   constructor() {
-    // No initialization needed for mock
+    // Dictionaries imported by users are passed per call; the standard RFC set is always available.
   }
 
   private resolveVariable(value: string, scenarioVariables?: ScenarioVariable[]): string {
@@ -45,84 +261,1173 @@ export class RadiusService {
         if (variable.type === 'random_number') return String(Math.floor(Math.random() * 10000));
         return variable.value;
       }
-      return match; 
+      return match;
+    });
+  }
+
+  /**
+   * Sends a request over UDP and waits for the reply with the same identifier. After each
+   * timeout the identical bytes are resent from the same socket, so the server sees the same
+   * source port, identifier and Request Authenticator (RFC 5080 section 2.2.1); every wait is
+   * the previous one times the backoff. The round trip is measured from the first send.
+   * With duplicateCheck the answered request is sent once more and its reply kept for comparison.
+   * Every datagram sent and received on the socket is recorded for the execution's capture.
+   */
+  private async sendUdp(request: Buffer, host: string, port: number, options: UdpSendOptions): Promise<UdpExchange> {
+    // Resolved once so the recorded datagrams carry the address the packets actually went to.
+    const address = isIP(host) ? host : (await lookup(host)).address;
+    const canonicalAddress = canonicalIp(address);
+    return new Promise((resolve, reject) => {
+      const socket = createSocket(isIPv6(address) ? 'udp6' : 'udp4');
+      const identifier = request[1];
+      const transmissions: number[] = [];
+      const datagrams: RecordedDatagram[] = [];
+      let startedAt = Date.now();
+      let response: Buffer | undefined;
+      let roundTripMs = 0;
+      let duplicate: UdpExchange['duplicate'];
+      let timer: NodeJS.Timeout | undefined;
+      let done = false;
+
+      const finish = () => {
+        if (done) return;
+        done = true;
+        if (timer) clearTimeout(timer);
+        const localPort = socket.address().port;
+        socket.close();
+        resolve({ response, roundTripMs: response ? roundTripMs : Date.now() - startedAt, localPort, transmissions, duplicate, datagrams });
+      };
+      const local = () => formatEndpoint(socket.address().address, socket.address().port);
+      const transmit = (onSent: () => void) => {
+        socket.send(request, port, address, (err) => {
+          if (err) {
+            socket.emit('error', err);
+            return;
+          }
+          if (done) return;
+          datagrams.push({ timestamp: new Date().toISOString(), direction: 'sent', protocol: 'udp', source: local(), destination: formatEndpoint(address, port), hex: request.toString('hex') });
+          onSent();
+        });
+      };
+      const awaitReply = (attempt: number) => {
+        timer = setTimeout(() => {
+          if (attempt >= options.retries) {
+            finish();
+            return;
+          }
+          transmissions.push(Date.now() - startedAt);
+          transmit(() => awaitReply(attempt + 1));
+        }, Math.round(options.timeoutMs * options.backoff ** attempt));
+      };
+
+      socket.on('error', (err) => {
+        if (done) return;
+        done = true;
+        if (timer) clearTimeout(timer);
+        socket.close();
+        reject(err);
+      });
+      socket.on('message', (msg, rinfo) => {
+        if (done) return;
+        datagrams.push({ timestamp: new Date().toISOString(), direction: 'received', protocol: 'udp', source: formatEndpoint(rinfo.address, rinfo.port), destination: local(), hex: msg.toString('hex') });
+        // Only the target may answer (RFC 5080 section 2.1.1); replies for other identifiers
+        // (e.g. late answers to earlier requests) are ignored too.
+        if (rinfo.port !== port || canonicalIp(rinfo.address) !== canonicalAddress) return;
+        if (msg.length < 20 || msg[1] !== identifier) return;
+        if (response) {
+          if (duplicate && !duplicate.response) {
+            duplicate.response = msg;
+            finish();
+          }
+          return;
+        }
+        response = msg;
+        roundTripMs = Date.now() - startedAt;
+        if (timer) clearTimeout(timer);
+        if (!options.duplicateCheck) {
+          finish();
+          return;
+        }
+        duplicate = { sentAtMs: Date.now() - startedAt };
+        transmit(() => {
+          timer = setTimeout(finish, options.timeoutMs);
+        });
+      });
+      socket.bind(0, () => {
+        startedAt = Date.now();
+        transmissions.push(0);
+        transmit(() => awaitReply(0));
+      });
+    });
+  }
+
+  /**
+   * Returns the pooled connection for a tcp/radsec server, applying the caller's idle
+   * timeout and watchdog settings. Changed RadSec certificates replace the connection.
+   */
+  private streamConnection(serverConfig: RadiusServerConfig, dictionary: RadiusDictionary = this.standardDictionary): RadiusStreamConnection {
+    const transport = serverConfig.transport === 'radsec' ? 'radsec' : 'tcp';
+    const key = `${transport}:${serverConfig.host}:${serverConfig.port}`;
+    const tlsOptions = serverConfig.tls || {};
+    let connection = this.streamConnections.get(key);
+    if (!connection || JSON.stringify(connection.tlsOptions) !== JSON.stringify(tlsOptions)) {
+      connection?.close('closed because its certificates changed');
+      connection = new RadiusStreamConnection(transport, serverConfig.host, serverConfig.port, tlsOptions);
+      this.streamConnections.set(key, connection);
+    }
+    connection.settings = {
+      idleTimeoutMs: serverConfig.connection?.idleTimeoutMs || DEFAULT_IDLE_TIMEOUT_MS,
+      watchdogIntervalMs: serverConfig.connection?.watchdogIntervalMs,
+    };
+    connection.buildWatchdogRequest = identifier => this.encodeRequest({ code: 'Status-Server', identifier, attributes: [] }, serverConfig.secret, dictionary).requestBytes;
+    return connection;
+  }
+
+  /** Closes the tcp/radsec connection when asked to and returns the connection events recorded since its last use. */
+  private finishStreamConnection(serverConfig: RadiusServerConfig, close: boolean, dictionary?: RadiusDictionary): string[] {
+    if (serverConfig.transport !== 'tcp' && serverConfig.transport !== 'radsec') return [];
+    const connection = this.streamConnection(serverConfig, dictionary);
+    if (close) connection.close('closed after the request as configured');
+    return connection.drainEvents();
+  }
+
+  private encodeRequestAttributes(attributes: RadiusAttribute[], dictionary: RadiusDictionary, context: AttributeCryptoContext): RawAttribute[] {
+    return packAttributes(attributes.map(attr => {
+      const definition = resolveAttribute(dictionary, attr.name);
+      return encodeAttribute(definition, Buffer.isBuffer(attr.value) ? attr.value : String(attr.value), {
+        context,
+        dictionary,
+        tag: splitAttributeTag(attr.name).tag,
+      });
+    }), dictionary);
+  }
+
+  /**
+   * Replaces a plaintext CHAP-Password with the RFC 2865 CHAP response. The
+   * packet's CHAP-Challenge is used when present, otherwise one is generated and added.
+   */
+  private applyChap(attributes: RadiusAttribute[], dictionary: RadiusDictionary): RadiusAttribute[] {
+    const chapIndex = attributes.findIndex(attr => attr.name.toLowerCase() === 'chap-password');
+    if (chapIndex === -1) return attributes;
+    const chapPassword = attributes[chapIndex].value;
+    // Already a wire value (1 byte CHAP Ident + 16 byte response).
+    if (Buffer.isBuffer(chapPassword) || /^0x[0-9a-fA-F]{34}$/.test(String(chapPassword).trim())) return attributes;
+
+    const result = [...attributes];
+    const challengeAttr = attributes.find(attr => attr.name.toLowerCase() === 'chap-challenge');
+    let challenge: Buffer;
+    if (challengeAttr) {
+      challenge = Buffer.isBuffer(challengeAttr.value)
+        ? challengeAttr.value
+        : encodeAttributeValue(resolveAttribute(dictionary, 'CHAP-Challenge'), String(challengeAttr.value));
+    } else {
+      challenge = generateRequestAuthenticator();
+      result.push({ name: 'CHAP-Challenge', value: challenge });
+    }
+    const password = Buffer.from(String(chapPassword).trim().replace(/^"(.*)"$/, '$1'), 'utf8');
+    result[chapIndex] = { name: 'CHAP-Password', value: buildChapPassword(password, challenge) };
+    return result;
+  }
+
+  /**
+   * Places a zeroed Message-Authenticator first in the packet (or removes it for 'omit'),
+   * ready to be signed once the packet is encoded.
+   */
+  private prepareMessageAuthenticator(code: number, attributes: RawAttribute[], mode: MessageAuthenticatorMode): RawAttribute[] {
+    const others = attributes.filter(attr => attr.type !== MESSAGE_AUTHENTICATOR_TYPE);
+    if (mode === 'omit') return others;
+    if (mode === 'auto' && !MESSAGE_AUTHENTICATOR_CODES.has(code) && others.length === attributes.length) return attributes;
+    return [{ type: MESSAGE_AUTHENTICATOR_TYPE, value: Buffer.alloc(16) }, ...others];
+  }
+
+  /**
+   * Encodes a request with its Request Authenticator and Message-Authenticator
+   * computed from the shared secret. Without an identifier a random one is used.
+   */
+  private encodeRequest(packet: RadiusPacket, secret: string, dictionary: RadiusDictionary): { code: number; identifier: number; requestBytes: Buffer; requestAuthenticator: Buffer } {
+    const code = nameToCode(packet.code);
+    if (code === undefined) {
+      throw new Error(`Unknown RADIUS packet type "${packet.code}".`);
+    }
+    const identifier = packet.identifier ?? Math.floor(Math.random() * 256);
+    const signed = hasSignedRequestAuthenticator(code);
+    const requestAuthenticator = signed ? Buffer.alloc(16) : generateRequestAuthenticator();
+    const messageAuthenticatorMode = packet.messageAuthenticator || 'auto';
+    // Signed requests hide attributes with an all-zero authenticator, as the real one covers the packet.
+    const attributes = this.prepareMessageAuthenticator(
+      code,
+      this.encodeRequestAttributes(
+        this.applyChap(packet.attributes, dictionary),
+        dictionary,
+        { secret, requestAuthenticator: Buffer.from(requestAuthenticator) }
+      ),
+      messageAuthenticatorMode
+    );
+
+    const requestBytes = encodePacket({ code, identifier, authenticator: requestAuthenticator, attributes });
+    if (attributes.some(attr => attr.type === MESSAGE_AUTHENTICATOR_TYPE)) {
+      signMessageAuthenticator(requestBytes, secret);
+      if (messageAuthenticatorMode === 'corrupt') {
+        requestBytes[findAttributeValueOffset(requestBytes, MESSAGE_AUTHENTICATOR_TYPE)] ^= 0xff;
+      }
+    }
+    if (signed) {
+      signRequestAuthenticator(requestBytes, secret);
+      requestBytes.copy(requestAuthenticator, 0, 4, 20);
+    }
+    return { code, identifier, requestBytes, requestAuthenticator };
+  }
+
+  /**
+   * Encodes a packet, sends it over UDP (or the server's tcp/radsec connection) and
+   * waits for the matching reply. The reply's Response Authenticator and
+   * Message-Authenticator are verified against the shared secret.
+   */
+  async sendPacket(packet: RadiusPacket, serverConfig: RadiusServerConfig, dictionary: RadiusDictionary = this.standardDictionary): Promise<RadiusResponse> {
+    const stream = serverConfig.transport === 'tcp' || serverConfig.transport === 'radsec' ? this.streamConnection(serverConfig, dictionary) : undefined;
+    // Identifiers on a stream must be unique among the requests outstanding on it (RFC 6613 section 2.6.5).
+    const identifier = packet.identifier ?? stream?.allocateIdentifier();
+    const { code, requestBytes, requestAuthenticator } = this.encodeRequest({ ...packet, identifier }, serverConfig.secret, dictionary);
+
+    const base = {
+      identifier: requestBytes[1],
+      requestCode: codeToName(code),
+      requestAttributes: decodeAttributes(decodePacket(requestBytes).attributes, dictionary),
+      requestBytes,
+    };
+
+    // Reliable transports never retransmit (RFC 6613 section 2.6.1), so retries apply to UDP only.
+    const timeoutMs = serverConfig.timeout || DEFAULT_TIMEOUT_MS;
+    const exchange: UdpExchange & { reused?: boolean } = stream
+      ? await stream.send(requestBytes, timeoutMs)
+      : await this.sendUdp(requestBytes, serverConfig.host, serverConfig.port, {
+        timeoutMs,
+        retries: Math.max(0, serverConfig.retries || 0),
+        backoff: serverConfig.retryBackoff && serverConfig.retryBackoff > 0 ? serverConfig.retryBackoff : 1,
+        duplicateCheck: !!serverConfig.duplicateCheck,
+      });
+    if (!exchange.response) {
+      const sends = exchange.transmissions?.length ?? 1;
+      return {
+        ...base,
+        attributes: [],
+        authenticatorValid: false,
+        messageAuthenticator: 'missing',
+        roundTripMs: exchange.roundTripMs,
+        localPort: exchange.localPort,
+        connectionReused: exchange.reused,
+        transmissions: exchange.transmissions,
+        datagrams: exchange.datagrams,
+        error: sends > 1
+          ? `No reply from ${serverConfig.host}:${serverConfig.port} after ${sends} transmissions (${exchange.roundTripMs}ms).`
+          : `No reply from ${serverConfig.host}:${serverConfig.port} within ${timeoutMs}ms.`,
+      };
+    }
+
+    const reply = decodePacket(exchange.response);
+    const authenticatorValid = verifyResponseAuthenticator(exchange.response, requestAuthenticator, serverConfig.secret);
+    const messageAuthenticator = verifyMessageAuthenticator(exchange.response, serverConfig.secret, requestAuthenticator);
+    let error: string | undefined;
+    if (!authenticatorValid) {
+      error = 'Response Authenticator is invalid (shared secret mismatch?).';
+    } else if (messageAuthenticator === 'invalid') {
+      error = 'Message-Authenticator in the reply is invalid.';
+    } else if (messageAuthenticator === 'missing' && MESSAGE_AUTHENTICATOR_CODES.has(code)) {
+      error = `${codeToName(reply.code)} has no Message-Authenticator; the server is exposed to BlastRADIUS (CVE-2024-3596).`;
+    }
+    // A server with a duplicate-detection cache answers the resent request with the reply it already sent.
+    let duplicate: DuplicateRequestCheck | undefined;
+    if (exchange.duplicate) {
+      const duplicateResponse = exchange.duplicate.response;
+      duplicate = { sentAtMs: exchange.duplicate.sentAtMs, responseBytes: duplicateResponse, identical: !!duplicateResponse?.equals(exchange.response) };
+      if (!error && !duplicateResponse) {
+        error = `Duplicate request got no reply within ${timeoutMs}ms; the server did not answer it from its duplicate-detection cache.`;
+      } else if (!error && !duplicate.identical) {
+        error = 'Reply to the duplicate request differs from the first reply; the server processed the request again instead of answering from its duplicate-detection cache.';
+      }
+    }
+    return {
+      ...base,
+      code: codeToName(reply.code),
+      attributes: decodeAttributes(reply.attributes, dictionary, { secret: serverConfig.secret, requestAuthenticator }),
+      authenticatorValid,
+      messageAuthenticator,
+      roundTripMs: exchange.roundTripMs,
+      responseBytes: exchange.response,
+      localPort: exchange.localPort,
+      connectionReused: exchange.reused,
+      transmissions: exchange.transmissions,
+      duplicate,
+      datagrams: exchange.datagrams,
+      error,
+    };
+  }
+
+  /**
+   * Sends Status-Server (RFC 5997) to one of the server's listeners. Access-Accept is the
+   * expected answer on the auth port and Accounting-Response on the acct port; the request
+   * also asks for FreeRADIUS statistics, which other servers ignore as an unknown VSA.
+   * Over TCP it uses a pooled stream connection to the same port; over RadSec it goes to the
+   * RadSec endpoint with the server's certificates.
+   */
+  async probeStatusServer(
+    serverConfig: StatusServerTarget,
+    listener: 'auth' | 'acct',
+    timeoutMs: number = DEFAULT_TIMEOUT_MS,
+    transport: StatusServerProbeResult['transport'] = 'udp'
+  ): Promise<StatusServerProbeResult> {
+    const useRadSec = transport === 'radsec';
+    const port = useRadSec ? (serverConfig.radsecPort || RADSEC_DEFAULT_PORT)
+      : listener === 'auth' ? serverConfig.radiusAuthPort : serverConfig.radiusAcctPort;
+    const expectedCode = listener === 'auth' ? 'Access-Accept' : 'Accounting-Response';
+    const target: RadiusServerConfig = {
+      host: (useRadSec && serverConfig.radsecHost) || serverConfig.host,
+      port,
+      secret: useRadSec ? RADSEC_SHARED_SECRET : serverConfig.defaultSecret,
+      timeout: timeoutMs,
+      transport,
+    };
+    if (useRadSec) {
+      target.tls = {
+        caCertificate: serverConfig.radsecCaCertificate,
+        clientCertificate: serverConfig.radsecClientCertificate,
+        clientPrivateKey: serverConfig.radsecClientPrivateKey,
+      };
+    }
+    try {
+      const response = await this.sendPacket(
+        {
+          code: 'Status-Server',
+          attributes: [
+            { name: 'NAS-Identifier', value: 'radius-tester' },
+            { name: 'Vendor-Specific', value: encodeStatisticsRequest('All') },
+          ],
+        },
+        target
+      );
+      const statistics = response.responseBytes ? decodeFreeRadiusStatistics(decodePacket(response.responseBytes).attributes) : [];
+      let error = response.error;
+      if (!error && response.code !== expectedCode) {
+        error = `Expected ${expectedCode} but received ${response.code}.`;
+      }
+      return {
+        listener,
+        transport,
+        port,
+        reachable: !!response.code,
+        responseTimeMs: response.code ? response.roundTripMs : undefined,
+        replyCode: response.code,
+        statistics,
+        error,
+      };
+    } catch (error) {
+      return { listener, transport, port, reachable: false, statistics: [], error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Probes the listeners with Status-Server over the server's status transport and summarises
+   * whether RADIUS is answering. A RadSec endpoint carries authentication and accounting on one
+   * connection, so it gets a single probe.
+   */
+  async checkServerHealth(serverConfig: StatusServerTarget, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<RadiusHealthCheckResult> {
+    const transport = serverConfig.statusTransport || 'udp';
+    const listeners = await Promise.all(transport === 'radsec'
+      ? [this.probeStatusServer(serverConfig, 'auth', timeoutMs, transport)]
+      : [
+          this.probeStatusServer(serverConfig, 'auth', timeoutMs, transport),
+          this.probeStatusServer(serverConfig, 'acct', timeoutMs, transport),
+        ]);
+    const healthy = listeners.filter(probe => probe.reachable && !probe.error).length;
+    return {
+      host: (transport === 'radsec' && serverConfig.radsecHost) || serverConfig.host,
+      checkedAt: new Date().toISOString(),
+      status: healthy === listeners.length ? 'up' : listeners.some(probe => probe.reachable) ? 'degraded' : 'down',
+      listeners,
+    };
+  }
+
+  /**
+   * Emulates a NAS for RFC 5176: waits for one CoA-Request or Disconnect-Request,
+   * validates its Request Authenticator (and Message-Authenticator when present)
+   * and answers with the configured ACK or NAK. Requests that fail validation are
+   * silently discarded, as the RFC requires, and listening continues until the timeout.
+   */
+  listenForDynamicAuthorization(options: DynamicAuthorizationListenerOptions, dictionary: RadiusDictionary = this.standardDictionary): Promise<DynamicAuthorizationListenerResult> {
+    return new Promise((resolve, reject) => {
+      const socket = createSocket(options.address && isIPv6(options.address) ? 'udp6' : 'udp4');
+      const discarded: string[] = [];
+      const datagrams: RecordedDatagram[] = [];
+      let timer: NodeJS.Timeout | undefined;
+      let answered = false;
+
+      const finish = (result: Omit<DynamicAuthorizationListenerResult, 'discarded' | 'datagrams'>) => {
+        if (timer) clearTimeout(timer);
+        socket.close();
+        resolve({ ...result, datagrams, discarded });
+      };
+      const local = () => formatEndpoint(socket.address().address, socket.address().port);
+
+      socket.on('error', (err) => {
+        if (timer) clearTimeout(timer);
+        socket.close();
+        reject(err);
+      });
+      socket.on('message', (msg, rinfo) => {
+        if (answered) return;
+        const from = `${rinfo.address}:${rinfo.port}`;
+        datagrams.push({ timestamp: new Date().toISOString(), direction: 'received', protocol: 'udp', source: formatEndpoint(rinfo.address, rinfo.port), destination: local(), hex: msg.toString('hex') });
+        let request: ReturnType<typeof decodePacket>;
+        try {
+          request = decodePacket(msg);
+        } catch (e: unknown) {
+          discarded.push(`${from}: malformed packet (${e instanceof Error ? e.message : String(e)})`);
+          return;
+        }
+        const code = codeToName(request.code);
+        if (!DYNAMIC_AUTHORIZATION_REQUESTS.has(code) || (options.expectedCode && code !== options.expectedCode)) {
+          discarded.push(`${from}: unexpected ${code} Id ${request.identifier}`);
+          return;
+        }
+        const secret = this.selectNasSecret(options, rinfo.address);
+        if (!verifyRequestAuthenticator(msg, secret)) {
+          discarded.push(`${from}: ${code} Id ${request.identifier} has an invalid Request Authenticator (shared secret mismatch?)`);
+          return;
+        }
+        const messageAuthenticator = verifyMessageAuthenticator(msg, secret, Buffer.alloc(16));
+        if (messageAuthenticator === 'invalid') {
+          discarded.push(`${from}: ${code} Id ${request.identifier} has an invalid Message-Authenticator`);
+          return;
+        }
+
+        const context: AttributeCryptoContext = { secret, requestAuthenticator: request.authenticator };
+        const attributes = decodeAttributes(request.attributes, dictionary, context);
+        const replyCode = `${code === 'CoA-Request' ? 'CoA' : 'Disconnect'}-${options.respondWith === 'ack' ? 'ACK' : 'NAK'}`;
+        const replyAttributes: RadiusAttribute[] = options.respondWith === 'nak' && options.errorCause
+          ? [{ name: 'Error-Cause', value: options.errorCause }]
+          : [];
+        let reply: Buffer;
+        try {
+          const raw = this.encodeRequestAttributes(replyAttributes, dictionary, context);
+          // Answer a signed request with a signed reply.
+          if (messageAuthenticator === 'valid') raw.unshift({ type: MESSAGE_AUTHENTICATOR_TYPE, value: Buffer.alloc(16) });
+          reply = encodePacket({ code: nameToCode(replyCode)!, identifier: request.identifier, authenticator: request.authenticator, attributes: raw });
+          if (messageAuthenticator === 'valid') signMessageAuthenticator(reply, secret, request.authenticator);
+          computeResponseAuthenticator(reply, request.authenticator, secret).copy(reply, 4);
+        } catch (e: unknown) {
+          finish({ error: `Could not build ${replyCode}: ${e instanceof Error ? e.message : String(e)}` });
+          return;
+        }
+
+        answered = true;
+        const localPort = socket.address().port;
+        const received = [`Received ${code} Id ${request.identifier} from ${from} to 0.0.0.0:${localPort} length ${msg.length}`,
+          ...attributes.map(attr => `\t${formatAttribute(attr)}`)].join('\n');
+        const sent = [`Sent ${replyCode} Id ${request.identifier} from 0.0.0.0:${localPort} to ${from} length ${reply.length}`,
+          ...decodeAttributes(decodePacket(reply).attributes, dictionary).map(attr => `\t${formatAttribute(attr)}`)].join('\n');
+        socket.send(reply, rinfo.port, rinfo.address, (err) => {
+          if (!err) datagrams.push({ timestamp: new Date().toISOString(), direction: 'sent', protocol: 'udp', source: local(), destination: formatEndpoint(rinfo.address, rinfo.port), hex: reply.toString('hex') });
+          finish({
+            request: { code, identifier: request.identifier, from, attributes, messageAuthenticator },
+            replyCode,
+            received,
+            sent,
+            receivedHex: msg.toString('hex'),
+            sentHex: reply.toString('hex'),
+            error: err ? `Failed to send ${replyCode}: ${err.message}` : undefined,
+          });
+        });
+      });
+      socket.bind(options.port, options.address, () => {
+        timer = setTimeout(() => finish({ error: `No valid CoA-Request or Disconnect-Request received within ${options.timeout}ms.` }), options.timeout);
+      });
+    });
+  }
+
+  /** The NAS's own entry in nasSpecificSecrets wins, then an entry for the sender, then the default secret. */
+  private selectNasSecret(options: DynamicAuthorizationListenerOptions, senderAddress: string): string {
+    const secrets = options.nasSpecificSecrets || {};
+    if (options.nasIdentifier && secrets[options.nasIdentifier] !== undefined) return secrets[options.nasIdentifier];
+    return secrets[senderAddress] ?? options.defaultSecret;
+  }
+
+  /**
+   * Returns a description of every expected attribute the reply does not satisfy.
+   * "Packet-Type" is matched against the reply code, as in FreeRADIUS; "No-Reply"
+   * matches a request the server did not answer. Alternatives are separated by "|",
+   * e.g. "Access-Accept|Access-Reject" for a request that only has to be answered.
+   */
+  findAttributeMismatches(
+    response: Pick<RadiusResponse, 'code'> & { attributes: Pick<DecodedAttribute, 'name' | 'value' | 'tag'>[] },
+    expectedAttributes?: Pick<ExpectedReplyAttribute, 'name' | 'value'>[]): string[] {
+    if (!expectedAttributes) return [];
+    const mismatches: string[] = [];
+    for (const expected of expectedAttributes) {
+      if (!expected.name) continue;
+      const expectedValue = expected.value.trim().replace(/^"(.*)"$/, '$1');
+      // Checked by executeTool against the EAP-TLS method and the transport rather than the reply.
+      if (expected.name.toLowerCase() === EAP_TLS_OUTCOME_ATTRIBUTE.toLowerCase()) continue;
+      if (expected.name.toLowerCase() === TRANSPORT_CONNECTION_ATTRIBUTE.toLowerCase()) continue;
+      if (expected.name.toLowerCase() === 'packet-type') {
+        if (!expectedValue.split('|').map(code => code.trim()).includes(response.code || 'No-Reply')) {
+          mismatches.push(`Packet-Type: expected ${expectedValue}, got ${response.code || 'No-Reply'}`);
+        }
+        continue;
+      }
+      // Vendor attributes are decoded as Vendor:Attribute but may be expected by their bare name.
+      // A tag suffix (Tunnel-Type:1) only matches that tag; without one any tag matches.
+      const { name: untaggedName, tag: expectedTag } = splitAttributeTag(expected.name);
+      const expectedName = untaggedName.toLowerCase();
+      const actual = response.attributes.filter(attr => {
+        const actualName = splitAttributeTag(attr.name).name.toLowerCase();
+        const nameMatches = actualName === expectedName || actualName.endsWith(`:${expectedName}`);
+        return nameMatches && (expectedTag === undefined || (attr.tag ?? 0) === expectedTag);
+      });
+      if (actual.length === 0) {
+        mismatches.push(`${expected.name}: missing from reply`);
+      } else if (!actual.some(attr => attr.value === expectedValue)) {
+        mismatches.push(`${expected.name}: expected "${expectedValue}", got ${actual.map(attr => `"${attr.value}"`).join(', ')}`);
+      }
+    }
+    return mismatches;
+  }
+
+  validatePacketResponse(response: RadiusResponse, expectedAttributes?: Pick<ExpectedReplyAttribute, 'name' | 'value'>[]): boolean {
+    return this.findAttributeMismatches(response, expectedAttributes).length === 0;
+  }
+
+  private formatSent(response: RadiusResponse, host: string, port: number, note?: string): string {
+    const lines = [`Sent ${response.requestCode} Id ${response.identifier} from 0.0.0.0:${response.localPort ?? 0} to ${host}:${port} length ${response.requestBytes.length}${note ? ` (${note})` : ''}`];
+    response.requestAttributes.forEach(attr => lines.push(`\t${formatAttribute(attr)}`));
+    return lines.join('\n');
+  }
+
+  private formatReceived(response: RadiusResponse, host: string, port: number, responseBytes: Buffer | undefined = response.responseBytes): string {
+    if (!responseBytes) return '';
+    const lines = [`Received ${codeToName(responseBytes[0])} Id ${responseBytes[1]} from ${host}:${port} to 0.0.0.0:${response.localPort ?? 0} length ${responseBytes.length}`];
+    if (responseBytes === response.responseBytes) {
+      response.attributes.forEach(attr => lines.push(`\t${formatAttribute(attr)}`));
+    } else if (response.responseBytes && responseBytes.equals(response.responseBytes)) {
+      lines.push('\t(identical to the first reply)');
+    } else {
+      lines.push(`\t(differs from the first reply: ${responseBytes.toString('hex')})`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * One log entry per copy of the request that went out: the original, each retransmission
+   * and the deliberate duplicate. The reply is shown with the last copy sent before it arrived.
+   */
+  private formatExchanges(response: RadiusResponse, host: string, port: number): RadiusExchangeLog[] {
+    const transmissions = response.transmissions?.length ? response.transmissions : [0];
+    const exchanges: RadiusExchangeLog[] = transmissions.map((sentAtMs, index) => {
+      const last = index === transmissions.length - 1;
+      return {
+        sent: this.formatSent(response, host, port, index > 0 ? `retransmission ${index}, +${sentAtMs}ms` : undefined),
+        received: last ? this.formatReceived(response, host, port) || undefined : undefined,
+        sentHex: response.requestBytes.toString('hex'),
+        receivedHex: last ? response.responseBytes?.toString('hex') : undefined,
+        retransmission: index > 0 ? index : undefined,
+      };
     });
+    if (response.duplicate) {
+      exchanges.push({
+        sent: this.formatSent(response, host, port, `duplicate, +${response.duplicate.sentAtMs}ms`),
+        received: this.formatReceived(response, host, port, response.duplicate.responseBytes) || undefined,
+        sentHex: response.requestBytes.toString('hex'),
+        receivedHex: response.duplicate.responseBytes?.toString('hex'),
+        duplicate: true,
+      });
+    }
+    return exchanges;
+  }
+
+  /**
+   * Checks an MS-CHAPv2 reply: MS-CHAP2-Success must carry the authenticator response
+   * derived from the password, and MS-MPPE-Send/Recv-Key must decrypt to the RFC 3079 keys.
+   */
+  verifyMsChapV2Reply(response: RadiusResponse, exchange: MsChapV2Exchange, secret: string): { lines: string[]; error?: string } {
+    if (!response.responseBytes) return { lines: [] };
+    const requestAuthenticator = response.requestBytes.subarray(4, 20);
+    const microsoftAttributes = this.microsoftAttributes(response);
+    const find = (vendorType: number) => microsoftAttributes.find(vsa => vsa.vendorType === vendorType)?.value;
+    const lines: string[] = [];
+
+    if (response.code !== 'Access-Accept') {
+      const msChapError = find(MS_ATTRIBUTES.MS_CHAP_ERROR);
+      if (msChapError) lines.push(`MS-CHAP-Error: ${msChapError.subarray(1).toString('ascii')}`);
+      return { lines };
+    }
+
+    const success = find(MS_ATTRIBUTES.MS_CHAP2_SUCCESS);
+    if (!success) {
+      return { lines, error: 'Access-Accept has no MS-CHAP2-Success attribute.' };
+    }
+    const authenticatorResponse = success.subarray(1, 43).toString('ascii');
+    if (authenticatorResponse.toUpperCase() !== exchange.expectedAuthenticatorResponse) {
+      lines.push(`MS-CHAP2-Success: ${authenticatorResponse} (expected ${exchange.expectedAuthenticatorResponse})`);
+      return { lines, error: 'MS-CHAP2-Success authenticator response does not match the password.' };
+    }
+    lines.push('MS-CHAP2-Success: authenticator response verified');
+
+    const keyCheck = this.verifyMppeKeys(microsoftAttributes, exchange.expectedMppeKeys, secret, requestAuthenticator, 'the MS-CHAPv2 exchange');
+    return { lines: [...lines, ...keyCheck.lines], error: keyCheck.error };
+  }
+
+  /** Decrypts MS-MPPE-Send/Recv-Key from the reply's Microsoft VSAs and compares them with locally derived keys. */
+  private verifyMppeKeys(
+    microsoftAttributes: { vendorType: number; value: Buffer }[],
+    expectedKeys: { sendKey: Buffer; recvKey: Buffer },
+    secret: string,
+    requestAuthenticator: Buffer,
+    source: string
+  ): { lines: string[]; error?: string } {
+    const lines: string[] = [];
+    const keys: [string, number, Buffer][] = [
+      ['MS-MPPE-Send-Key', MS_ATTRIBUTES.MS_MPPE_SEND_KEY, expectedKeys.sendKey],
+      ['MS-MPPE-Recv-Key', MS_ATTRIBUTES.MS_MPPE_RECV_KEY, expectedKeys.recvKey],
+    ];
+    for (const [name, vendorType, expectedKey] of keys) {
+      const encrypted = microsoftAttributes.find(vsa => vsa.vendorType === vendorType)?.value;
+      if (!encrypted) {
+        lines.push(`${name}: not present`);
+        continue;
+      }
+      let key: Buffer;
+      try {
+        key = decryptTunnelPassword(encrypted, secret, requestAuthenticator).subarray(0, expectedKey.length);
+      } catch (e: unknown) {
+        return { lines, error: `${name} could not be decrypted: ${e instanceof Error ? e.message : String(e)}` };
+      }
+      if (!key.equals(expectedKey)) {
+        lines.push(`${name}: 0x${key.toString('hex')} (expected 0x${expectedKey.toString('hex')})`);
+        return { lines, error: `${name} does not match the key derived from ${source}.` };
+      }
+      lines.push(`${name}: 0x${key.toString('hex')} (matches derived key)`);
+    }
+    return { lines };
+  }
+
+  private microsoftAttributes(response: RadiusResponse): { vendorId: number; vendorType: number; value: Buffer }[] {
+    if (!response.responseBytes) return [];
+    return decodePacket(response.responseBytes).attributes
+      .filter(attr => attr.type === 26)
+      .flatMap(attr => decodeVendorSpecific(attr.value))
+      .filter(vsa => vsa.vendorId === MICROSOFT_VENDOR_ID);
+  }
+
+  /**
+   * RFC 5216 section 2.3 (as deployed by FreeRADIUS and hostapd): MS-MPPE-Recv-Key carries
+   * the first 32 octets of the MSK and MS-MPPE-Send-Key the next 32.
+   */
+  private verifyEapTlsKeys(response: RadiusResponse, msk: Buffer | undefined, secret: string): { lines: string[]; error?: string } {
+    if (response.code !== 'Access-Accept') return { lines: [] };
+    if (!msk) return { lines: ['MSK: not available (TLS handshake did not complete)'] };
+    const expectedKeys = { recvKey: msk.subarray(0, 32), sendKey: msk.subarray(32, 64) };
+    return this.verifyMppeKeys(this.microsoftAttributes(response), expectedKeys, secret, response.requestBytes.subarray(4, 20), 'the EAP-TLS MSK');
+  }
+
+  /**
+   * Runs an EAP conversation over RADIUS: each Access-Challenge is answered with a new
+   * Access-Request that echoes State and carries the next (fragmented) EAP-Message,
+   * until the server sends Access-Accept or Access-Reject.
+   */
+  async runEapConversation(
+    identity: string,
+    method: EapMethod,
+    baseAttributes: RadiusAttribute[],
+    serverConfig: RadiusServerConfig,
+    dictionary: RadiusDictionary = this.standardDictionary
+  ): Promise<{ rounds: RadiusResponse[]; notes: string[]; error?: string }> {
+    const rounds: RadiusResponse[] = [];
+    const notes: string[] = [];
+    let eapResponse = encodeEapPacket({ code: EAP_CODES.RESPONSE, identifier: 0, type: EAP_TYPES.IDENTITY, data: Buffer.from(identity, 'utf8') });
+    let state: Buffer[] = [];
+
+    for (let round = 1; round <= EAP_MAX_ROUNDS; round++) {
+      const sentEap = decodeEapPacket(eapResponse);
+      const response = await this.sendPacket({
+        code: 'Access-Request',
+        attributes: [
+          ...baseAttributes,
+          ...splitEapMessage(eapResponse).map(chunk => ({ name: 'EAP-Message', value: chunk })),
+          ...state.map(value => ({ name: 'State', value })),
+        ],
+      }, serverConfig, dictionary);
+      rounds.push(response);
+      if (response.error || !response.responseBytes) {
+        return { rounds, notes, error: response.error };
+      }
+
+      const reply = decodePacket(response.responseBytes);
+      const eapBytes = Buffer.concat(reply.attributes.filter(attr => attr.type === EAP_MESSAGE_TYPE).map(attr => attr.value));
+      const eap = eapBytes.length > 0 ? decodeEapPacket(eapBytes) : undefined;
+      notes.push(`Round ${round}: sent ${describeEapPacket(sentEap)}, received ${response.code}${eap ? ` with ${describeEapPacket(eap)}` : ''}`);
+
+      if (response.code !== 'Access-Challenge') {
+        if (response.code === 'Access-Accept' && eap?.code !== EAP_CODES.SUCCESS) {
+          return { rounds, notes, error: 'Access-Accept does not carry an EAP-Success.' };
+        }
+        return { rounds, notes };
+      }
+      if (!eap || eap.code !== EAP_CODES.REQUEST || eap.type === undefined) {
+        return { rounds, notes, error: 'Access-Challenge does not carry an EAP-Request.' };
+      }
+      state = reply.attributes.filter(attr => attr.type === STATE_TYPE).map(attr => attr.value);
+
+      let type: number = eap.type;
+      let data: Buffer;
+      if (eap.type === EAP_TYPES.IDENTITY) {
+        data = Buffer.from(identity, 'utf8');
+      } else if (eap.type === EAP_TYPES.NOTIFICATION) {
+        notes.push(`EAP-Notification: ${eap.data.toString('utf8')}`);
+        data = Buffer.alloc(0);
+      } else if (eap.type === method.type) {
+        try {
+          data = await method.respond(eap);
+        } catch (error: unknown) {
+          return { rounds, notes, error: `${method.name}: ${error instanceof Error ? error.message : String(error)}` };
+        }
+      } else {
+        notes.push(`Server proposed EAP-${eapTypeName(eap.type)}; replying with Nak for ${method.name}`);
+        type = EAP_TYPES.NAK;
+        data = Buffer.from([method.type]);
+      }
+      eapResponse = encodeEapPacket({ code: EAP_CODES.RESPONSE, identifier: eap.identifier, type, data });
+    }
+    return { rounds, notes, error: `EAP conversation did not finish within ${EAP_MAX_ROUNDS} round trips.` };
   }
-  
-  // SIMULATED: This method simulates the execution of radclient or radtest.
-  // In a real backend, this would involve spawning the actual tool or using a RADIUS library.
-  async simulateExecuteTool(
+
+  /** The packet radclient sends for its command; "auto" takes it from a Packet-Type attribute. */
+  private radclientPacketType(type: RadClientOptions['type'], attributes: RadiusAttribute[]): string {
+    if (type === 'acct') return 'Accounting-Request';
+    if (type === 'status') return 'Status-Server';
+    if (type === 'coa') return 'CoA-Request';
+    if (type === 'disconnect') return 'Disconnect-Request';
+    if (type === 'auto') {
+      const packetTypeAttr = attributes.find(attr => attr.name.toLowerCase() === 'packet-type');
+      if (packetTypeAttr) return String(packetTypeAttr.value).replace(/^"(.*)"$/, '$1');
+    }
+    return 'Access-Request';
+  }
+
+  // RadSec carries every packet type over the one TLS port; RADIUS/TCP keeps the UDP port numbers.
+  private requestPort(serverConfig: FullServerConfig, packetType: string, useRadSec: boolean): number {
+    if (useRadSec) return serverConfig.radsecPort || RADSEC_DEFAULT_PORT;
+    if (packetType === 'Accounting-Request') return serverConfig.radiusAcctPort;
+    if (DYNAMIC_AUTHORIZATION_REQUESTS.has(packetType)) return serverConfig.radiusCoaPort || DEFAULT_COA_PORT;
+    return serverConfig.radiusAuthPort;
+  }
+
+  /**
+   * Builds the request described by a saved packet and its radclient/radtest
+   * options, sends it natively and reports the exchange in radclient format.
+   * EAP auth types run a full challenge/response conversation and report every round trip.
+   * With the local or ssh runner the real FreeRADIUS tool is run instead (runFreeRadiusTool).
+   */
+  async executeTool(
     packetData: FullRadiusPacket,
     serverConfig: FullServerConfig,
-    scenarioVariables?: ScenarioVariable[]
-  ): Promise<SimulatedRadiusToolResult> {
+    scenarioVariables?: ScenarioVariable[],
+    options: ExecuteToolOptions = {}
+  ): Promise<RadiusToolResult> {
     const tool = packetData.executionTool || 'radclient';
-    const toolOptions = packetData.toolOptions || {};
-    const targetHost = this.resolveVariable(serverConfig.host, scenarioVariables);
-    const targetPort = serverConfig.radiusAuthPort; // Assuming auth port for now
-    const secret = this.resolveVariable(serverConfig.defaultSecret || (toolOptions as any).secret || 'YOUR_SECRET_HERE', scenarioVariables);
-
-    let commandOutput = `Simulating ${tool} execution...\n`;
-    commandOutput += `Target: ${targetHost}:${targetPort}\n`;
-    commandOutput += `Secret: ${'*'.repeat(secret.length)}\n`;
-
-    let simulatedSentPacket = `Sending ${tool === 'radclient' ? (toolOptions as any).type || 'Access-Request' : 'Access-Request'} to ${targetHost} port ${targetPort}\n`;
-    simulatedSentPacket += `  Code: ${tool === 'radclient' ? (toolOptions as any).type || 'Access-Request' : 'Access-Request'}\n`;
-    simulatedSentPacket += `  Identifier: ${Math.floor(Math.random() * 256)}\n`;
-
-    packetData.attributes.forEach(attr => {
-      const resolvedName = this.resolveVariable(attr.name, scenarioVariables);
-      const resolvedValue = this.resolveVariable(attr.value, scenarioVariables);
-      simulatedSentPacket += `  ${resolvedName} = "${resolvedValue}"\n`;
-      commandOutput += `  Attribute: ${resolvedName} = "${resolvedValue}"\n`;
+    const toolOptions = (packetData.toolOptions || {}) as Partial<RadClientOptions & RadTestOptions>;
+    if (toolOptions.runner === 'local' || toolOptions.runner === 'ssh') {
+      return this.runFreeRadiusTool(packetData, serverConfig, scenarioVariables, options);
+    }
+    const protocol = toolOptions.protocol || 'udp';
+    const useRadSec = protocol === 'radsec';
+    const targetHost = this.resolveVariable((useRadSec && serverConfig.radsecHost) || serverConfig.host, scenarioVariables);
+    // RadSec uses the fixed "radsec" secret unless the packet names one explicitly.
+    const secret = this.resolveVariable(toolOptions.secret || (useRadSec ? RADSEC_SHARED_SECRET : serverConfig.defaultSecret) || '', scenarioVariables);
+    const stepRetransmission = options.retransmission || {};
+    const timeout = stepRetransmission.timeout || (toolOptions.timeout ? toolOptions.timeout * 1000 : DEFAULT_TIMEOUT_MS);
+
+    let attributes: RadiusAttribute[] = packetData.attributes
+      .filter(attr => attr.name)
+      .map(attr => ({
+        name: this.resolveVariable(attr.name, scenarioVariables),
+        value: this.resolveVariable(attr.value, scenarioVariables),
+      }));
+
+    let packetType = 'Access-Request';
+    let msChapExchange: MsChapV2Exchange | undefined;
+    let eapMethod: EapMethod | undefined;
+    let eapTlsMethod: EapTlsMethod | undefined;
+    let eapIdentity = '';
+    if (tool === 'radtest') {
+      const authType = toolOptions.authType || 'pap';
+      if (!NATIVE_RADTEST_AUTH_TYPES.includes(authType)) {
+        return { fullOutput: `radtest auth type "${authType}" is not supported by the native client.\n`, exchanges: [], code: 1, error: `Unsupported radtest auth type: ${authType}` };
+      }
+      const user = this.resolveVariable(toolOptions.user || '', scenarioVariables);
+      const password = this.resolveVariable(toolOptions.password || '', scenarioVariables);
+      const radtestAttributes: RadiusAttribute[] = [{ name: 'User-Name', value: user }];
+      const credentialAttributes: RadiusAttribute[] = [];
+      if (authType === 'eap-md5' || authType === 'peap-mschapv2' || authType === 'ttls-pap' || authType === 'eap-tls') {
+        // Credentials travel inside EAP-Message; the conversation engine adds them per round.
+        // Per-packet client certificates (usually a ${variable}) override the server's.
+        const credentials: EapTlsCredentials = {
+          caCertificate: serverConfig.eapCaCertificate,
+          skipServerVerification: !!toolOptions.skipServerVerification,
+          clientCertificate: this.resolveVariable(toolOptions.clientCertificate || serverConfig.eapClientCertificate || '', scenarioVariables),
+          clientPrivateKey: this.resolveVariable(toolOptions.clientPrivateKey || serverConfig.eapClientPrivateKey || '', scenarioVariables),
+        };
+        if (authType === 'eap-tls') {
+          try {
+            eapTlsMethod = createEapTlsMethod(credentials);
+          } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { fullOutput: `radtest: ${message}\n`, exchanges: [], code: 1, error: message };
+          }
+        }
+        eapMethod = eapTlsMethod || (authType === 'eap-md5' ? createMd5ChallengeMethod(password)
+          : authType === 'peap-mschapv2' ? createPeapMsChapV2Method(user, password, credentials)
+          : createTtlsPapMethod(user, password, credentials));
+        eapIdentity = user;
+      } else if (authType === 'mschap') {
+        msChapExchange = createMsChapV2Exchange(user, password);
+        credentialAttributes.push(
+          { name: 'Vendor-Specific', value: encodeVendorSpecific(MICROSOFT_VENDOR_ID, MS_ATTRIBUTES.MS_CHAP_CHALLENGE, msChapExchange.authenticatorChallenge) },
+          { name: 'Vendor-Specific', value: encodeVendorSpecific(MICROSOFT_VENDOR_ID, MS_ATTRIBUTES.MS_CHAP2_RESPONSE, msChapExchange.response) },
+        );
+      } else {
+        radtestAttributes.push({ name: authType === 'chap' ? 'CHAP-Password' : 'User-Password', value: password });
+      }
+      radtestAttributes.push({ name: 'NAS-Port', value: String(toolOptions.nasPortNumber ?? 0) });
+      if (toolOptions.nasname) radtestAttributes.push({ name: 'NAS-IP-Address', value: this.resolveVariable(toolOptions.nasname, scenarioVariables) });
+      if (toolOptions.ppphint) radtestAttributes.push({ name: 'Framed-Protocol', value: 'PPP' });
+      // Packet attributes are appended unless radtest already supplies them.
+      attributes = [...radtestAttributes, ...credentialAttributes, ...attributes.filter(attr => !radtestAttributes.some(r => r.name === attr.name))];
+    } else {
+      packetType = this.radclientPacketType(toolOptions.type || 'auth', attributes);
+    }
+    attributes = attributes.filter(attr => attr.name.toLowerCase() !== 'packet-type');
+
+    const port = this.requestPort(serverConfig, packetType, useRadSec);
+    const identifier = toolOptions.requestId !== undefined && toolOptions.requestId !== null ? Number(toolOptions.requestId) : undefined;
+    const radiusServer: RadiusServerConfig = {
+      host: targetHost,
+      port,
+      secret,
+      timeout,
+      retries: stepRetransmission.retries ?? toolOptions.retries,
+      retryBackoff: stepRetransmission.retryBackoff ?? toolOptions.retryBackoff,
+      duplicateCheck: stepRetransmission.duplicateCheck ?? toolOptions.duplicateCheck,
+      transport: protocol,
+    };
+    if (protocol !== 'udp') {
+      radiusServer.connection = {
+        idleTimeoutMs: toolOptions.connectionIdleTimeout ? toolOptions.connectionIdleTimeout * 1000 : undefined,
+        watchdogIntervalMs: toolOptions.watchdogInterval ? toolOptions.watchdogInterval * 1000 : undefined,
+      };
+    }
+    if (useRadSec) {
+      radiusServer.tls = {
+        caCertificate: serverConfig.radsecCaCertificate,
+        clientCertificate: serverConfig.radsecClientCertificate,
+        clientPrivateKey: serverConfig.radsecClientPrivateKey,
+      };
+    }
+
+    let rounds: RadiusResponse[];
+    let conversationNotes: string[] = [];
+    let conversationError: string | undefined;
+    const faultNotes: string[] = [];
+    try {
+      if (options.faultInjection) {
+        const { profile } = options.faultInjection;
+        if (protocol === 'udp') {
+          const proxy = await options.faultInjection.endpointFor(targetHost, port);
+          radiusServer.host = proxy.host;
+          radiusServer.port = proxy.port;
+          faultNotes.push(`Fault profile "${profile.name}" (seed ${profile.seed}): relayed through ${formatEndpoint(proxy.host, proxy.port)}`);
+        } else {
+          faultNotes.push(`Fault profile "${profile.name}" not applied: the proxy relays UDP only, this packet uses ${protocol}.`);
+        }
+      }
+      if (eapMethod) {
+        try {
+          const conversation = await this.runEapConversation(eapIdentity, eapMethod, attributes, radiusServer, options.dictionary);
+          rounds = conversation.rounds;
+          conversationNotes = [...conversation.notes, ...(eapMethod.summary?.() || [])];
+          conversationError = conversation.error;
+        } finally {
+          eapMethod.close?.();
+        }
+      } else {
+        rounds = [await this.sendPacket(
+          { code: packetType, identifier, attributes, messageAuthenticator: tool === 'radclient' ? toolOptions.messageAuthenticator : 'auto' },
+          radiusServer,
+          options.dictionary
+        )];
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      const connectionEvents = this.finishStreamConnection(radiusServer, !!toolOptions.closeConnection, options.dictionary);
+      const faultEvents = options.faultInjection?.takeEvents();
+      const eventLines = [...faultNotes, ...connectionEvents, ...(faultEvents || []).map(event => `Fault: ${event}`)].map(event => `${event}\n`).join('');
+      return { fullOutput: `${eventLines}${tool}: ${message}\n`, exchanges: [], connectionEvents, faultEvents, code: 1, error: message };
+    }
+    const response = rounds[rounds.length - 1];
+    const connectionEvents = this.finishStreamConnection(radiusServer, !!toolOptions.closeConnection, options.dictionary);
+
+    const faultEvents = options.faultInjection?.takeEvents();
+
+    const exchanges = rounds.flatMap(round => this.formatExchanges(round, targetHost, port));
+    let fullOutput = [...faultNotes, ...connectionEvents].map(event => `${event}\n`).join('');
+    faultEvents?.forEach(event => fullOutput += `Fault: ${event}\n`);
+    if (protocol !== 'udp' && (radiusServer.retries || radiusServer.duplicateCheck)) {
+      fullOutput += `Retransmission and duplicate checks are skipped over ${protocol}: reliable transports never retransmit (RFC 6613 section 2.6.1).\n`;
+    }
+    exchanges.forEach(exchange => {
+      fullOutput += `${exchange.sent}\n`;
+      if (exchange.received) fullOutput += `${exchange.received}\n`;
     });
-    
-    // Simulate some tool-specific options logging
-    if (tool === 'radclient') {
-        if ((toolOptions as any).count) commandOutput += `  Count: ${(toolOptions as any).count}\n`;
-        if ((toolOptions as any).retries) commandOutput += `  Retries: ${(toolOptions as any).retries}\n`;
-        if ((toolOptions as any).debug) commandOutput += `  Debug Mode: Enabled\n`;
-    } else if (tool === 'radtest') {
-        commandOutput += `  User: ${this.resolveVariable((toolOptions as any).user || 'testuser', scenarioVariables)}\n`;
-        commandOutput += `  Auth Type: ${(toolOptions as any).authType || 'pap'}\n`;
-    }
-
-
-    commandOutput += `\nWaiting for response...\n`;
-
-    // Simulate response
-    const success = Math.random() > 0.15; // 85% chance of success
-    let simulatedReceivedPacket = '';
-    let code = 0;
-    let error = undefined;
-
-    if (success) {
-      commandOutput += `Received response from ${targetHost} port ${targetPort}\n`;
-      const responseType = tool === 'radclient' && (toolOptions as any).type === 'acct' ? 'Accounting-Response' : 'Access-Accept';
-      simulatedReceivedPacket = `Received ${responseType} from ${targetHost} port ${targetPort}\n`;
-      simulatedReceivedPacket += `  Code: ${responseType}\n`;
-      simulatedReceivedPacket += `  Identifier: (matches request)\n`;
-      simulatedReceivedPacket += `  Framed-IP-Address = 192.168.1.101\n`;
-      simulatedReceivedPacket += `  Session-Timeout = 3600\n`;
-      commandOutput += `  Framed-IP-Address = 192.168.1.101\n`;
-      commandOutput += `  Session-Timeout = 3600\n`;
-      commandOutput += `\nradclient: Server said: OK\n`;
+
+    if (response.responseBytes) {
+      const sends = response.transmissions?.length ?? 1;
+      fullOutput += `Round trip: ${response.roundTripMs}ms${sends > 1 ? ` over ${sends} transmissions` : ''}, Message-Authenticator: ${response.messageAuthenticator}\n`;
+      if (response.duplicate) {
+        fullOutput += `Duplicate request: ${response.duplicate.identical ? 'answered with the identical cached reply' : response.duplicate.responseBytes ? 'answered with a different reply' : 'not answered'}\n`;
+      }
     } else {
-      commandOutput += `Received response from ${targetHost} port ${targetPort} (or timeout)\n`;
-      const responseType = tool === 'radclient' && (toolOptions as any).type === 'acct' ? 'Accounting-Response' : 'Access-Reject'; // Or timeout
-      simulatedReceivedPacket = `Received ${responseType} from ${targetHost} port ${targetPort}\n`;
-      simulatedReceivedPacket += `  Code: ${responseType}\n`;
-      simulatedReceivedPacket += `  Identifier: (matches request)\n`;
-      simulatedReceivedPacket += `  Reply-Message = "Authentication Failed"\n`;
-      commandOutput += `  Reply-Message = "Authentication Failed"\n`;
-      commandOutput += `\nradclient: Server said: Authentication failed\n`;
-      code = 1; // Simulate tool failure
-      error = "Simulated: Server rejected request or timeout.";
-    }
-    
-    commandOutput += `\n${tool} execution finished at ${new Date().toISOString()}.\n`;
-
-    return { simulatedFullOutput: commandOutput, simulatedSentPacket, simulatedReceivedPacket, code, error };
+      fullOutput += `${tool}: ${response.error}\n`;
+    }
+    if (conversationNotes.length > 0) fullOutput += `${conversationNotes.join('\n')}\n`;
+
+    // When the step names the reply it expects (Packet-Type, possibly No-Reply), a reject or
+    // silence is not a failure in itself; integrity problems with a received reply still are.
+    const expectsPacketType = options.expectedAttributes?.some(attr => attr.name.toLowerCase() === 'packet-type');
+    const expectedEapTlsOutcome = options.expectedAttributes
+      ?.find(attr => attr.name.toLowerCase() === EAP_TLS_OUTCOME_ATTRIBUTE.toLowerCase())
+      ?.value.trim().replace(/^"(.*)"$/, '$1');
+    let error = expectsPacketType && !response.responseBytes ? undefined : response.error;
+    // An expected EAP-TLS outcome turns TLS failures and rejects into the thing being asserted.
+    if (!error && !expectedEapTlsOutcome) error = conversationError;
+    const errorCause = response.attributes.find(attr => attr.name === 'Error-Cause')?.value;
+    if (errorCause) fullOutput += `Error-Cause: ${errorCause}\n`;
+    if (!error && !expectsPacketType && !expectedEapTlsOutcome && response.code && REJECTION_CODES.has(response.code)) {
+      error = `Server replied with ${response.code}${errorCause ? ` (Error-Cause: ${errorCause})` : ''}.`;
+    }
+    if (eapTlsMethod) {
+      const outcome = eapTlsMethod.outcome(response.code);
+      fullOutput += `${EAP_TLS_OUTCOME_ATTRIBUTE}: ${outcome}\n`;
+      if (expectedEapTlsOutcome && outcome !== expectedEapTlsOutcome) {
+        error = error || `${EAP_TLS_OUTCOME_ATTRIBUTE}: expected ${expectedEapTlsOutcome}, got ${outcome}${conversationError ? ` (${conversationError})` : ''}`;
+      }
+      const keyCheck = this.verifyEapTlsKeys(response, eapTlsMethod.msk(), secret);
+      if (keyCheck.lines.length > 0) fullOutput += `${keyCheck.lines.join('\n')}\n`;
+      error = error || keyCheck.error;
+    }
+    if (msChapExchange) {
+      const msChapCheck = this.verifyMsChapV2Reply(response, msChapExchange, secret);
+      if (msChapCheck.lines.length > 0) fullOutput += `${msChapCheck.lines.join('\n')}\n`;
+      error = error || msChapCheck.error;
+    }
+    const mismatches = this.findAttributeMismatches(response, options.expectedAttributes);
+    const expectedConnection = options.expectedAttributes
+      ?.find(attr => attr.name.toLowerCase() === TRANSPORT_CONNECTION_ATTRIBUTE.toLowerCase())
+      ?.value.trim().replace(/^"(.*)"$/, '$1');
+    if (expectedConnection) {
+      const actualConnection = rounds[0].connectionReused === undefined ? 'none (udp)' : rounds[0].connectionReused ? 'reused' : 'new';
+      if (actualConnection !== expectedConnection) mismatches.push(`${TRANSPORT_CONNECTION_ATTRIBUTE}: expected ${expectedConnection}, got ${actualConnection}`);
+    }
+    if (mismatches.length > 0) {
+      fullOutput += `Expected attribute check failed:\n${mismatches.map(m => `\t${m}`).join('\n')}\n`;
+      error = error || `Reply did not match expected attributes: ${mismatches.join('; ')}`;
+    }
+
+    return {
+      fullOutput,
+      exchanges,
+      connectionEvents: connectionEvents.length > 0 ? connectionEvents : undefined,
+      datagrams: rounds.flatMap(round => round.datagrams || []),
+      faultEvents,
+      code: error ? 1 : 0,
+      error,
+      reply: {
+        code: response.code,
+        identifier: response.identifier,
+        attributes: response.attributes.map(attr => ({ name: attr.name, value: attr.value })),
+        roundTripMs: response.roundTripMs,
+        authenticatorValid: response.authenticatorValid,
+        messageAuthenticator: response.messageAuthenticator,
+      },
+    };
+  }
+
+  /**
+   * Runs the real radclient or radtest, locally or on the server over SSH, and reports the
+   * reply it prints as a native run would. The tools discard replies whose authenticators do
+   * not verify, so a printed reply counts as verified; there are no wire bytes to capture.
+   * Over SSH the tool targets 127.0.0.1, which FreeRADIUS ships a client entry for, unless the
+   * packet names a server. The round trip includes process start-up and the SSH connection.
+   */
+  private async runFreeRadiusTool(
+    packetData: FullRadiusPacket,
+    serverConfig: FullServerConfig,
+    scenarioVariables: ScenarioVariable[] | undefined,
+    options: ExecuteToolOptions
+  ): Promise<RadiusToolResult> {
+    const tool = packetData.executionTool || 'radclient';
+    const toolOptions = (packetData.toolOptions || {}) as Partial<RadClientOptions & RadTestOptions>;
+    const runner = toolOptions.runner === 'ssh' ? 'ssh' : 'local';
+    const resolve = (value?: string) => (value ? this.resolveVariable(value, scenarioVariables) : value);
+    const attributes = packetData.attributes
+      .filter(attr => attr.name)
+      .map(attr => ({ name: this.resolveVariable(attr.name, scenarioVariables), value: this.resolveVariable(attr.value, scenarioVariables) }));
+    const packetType = tool === 'radtest' ? 'Access-Request' : this.radclientPacketType(toolOptions.type || 'auth', attributes);
+    const target = {
+      host: runner === 'ssh' ? '127.0.0.1' : this.resolveVariable(serverConfig.host, scenarioVariables),
+      port: this.requestPort(serverConfig, packetType, false),
+      secret: resolve(toolOptions.secret || serverConfig.defaultSecret) || '',
+    };
+    const namedServer = resolve(tool === 'radtest' ? toolOptions.radiusServer : toolOptions.server);
+    const stepRetransmission = options.retransmission || {};
+    const notes: string[] = [];
+
+    if (options.faultInjection) {
+      const { profile } = options.faultInjection;
+      if (runner === 'local' && toolOptions.protocol !== 'tcp' && !namedServer) {
+        const proxy = await options.faultInjection.endpointFor(target.host, target.port);
+        notes.push(`Fault profile "${profile.name}" (seed ${profile.seed}): relayed through ${formatEndpoint(proxy.host, proxy.port)}`);
+        target.host = proxy.host;
+        target.port = proxy.port;
+      } else {
+        notes.push(`Fault profile "${profile.name}" not applied: the proxy relays UDP from this host to the server config's address only.`);
+      }
+    }
+
+    let command: FreeRadiusCommand;
+    try {
+      command = tool === 'radtest'
+        ? buildRadtestCommand(
+          { ...toolOptions, user: resolve(toolOptions.user), password: resolve(toolOptions.password), nasname: resolve(toolOptions.nasname), radiusServer: namedServer },
+          target,
+          attributes.length
+        )
+        : buildRadclientCommand({ ...toolOptions, server: namedServer }, target, attributes, {
+          timeoutSeconds: stepRetransmission.timeout ? Math.ceil(stepRetransmission.timeout / 1000) : undefined,
+          retries: stepRetransmission.retries,
+        });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { fullOutput: `${tool}: ${message}\n`, exchanges: [], code: 1, error: message };
+    }
+    notes.push(...command.notes);
+
+    // radclient tries three times when -r is not given; -c repeats the whole exchange.
+    const timeoutMs = stepRetransmission.timeout || (toolOptions.timeout ? toolOptions.timeout * 1000 : DEFAULT_TIMEOUT_MS);
+    const retries = stepRetransmission.retries ?? toolOptions.retries;
+    const attempts = retries !== undefined && retries !== null ? retries + 1 : 3;
+    const limitMs = timeoutMs * attempts * Math.max(1, Number(toolOptions.count) || 1) + TOOL_GRACE_MS;
+    const where = runner === 'ssh' ? serverConfig.host : 'this host';
+    let fullOutput = `$ ${formatCommandLine(command.argv, command.sensitive)}${runner === 'ssh' ? `  (on ${serverConfig.sshUser}@${serverConfig.host})` : ''}\n`;
+    notes.forEach(note => fullOutput += `${note}\n`);
+
+    const startedAt = Date.now();
+    let result: SshCommandResult;
+    try {
+      result = runner === 'ssh'
+        ? await sshService.runCommand({
+          host: serverConfig.host,
+          port: serverConfig.sshPort,
+          username: serverConfig.sshUser,
+          password: serverConfig.authMethod === 'password' ? serverConfig.password : undefined,
+          privateKey: serverConfig.authMethod === 'key' ? serverConfig.privateKey : undefined,
+        }, formatCommandLine(command.argv), command.input, limitMs)
+        : await this.runLocalCommand(command.argv, command.input, limitMs);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      const faultEvents = options.faultInjection?.takeEvents();
+      faultEvents?.forEach(event => fullOutput += `Fault: ${event}\n`);
+      return { fullOutput: `${fullOutput}${tool}: ${message}\n`, exchanges: [], faultEvents, code: 1, error: message };
+    }
+    const elapsedMs = Date.now() - startedAt;
+    const faultEvents = options.faultInjection?.takeEvents();
+
+    fullOutput += result.stdout;
+    if (result.stderr) fullOutput += result.stderr;
+    faultEvents?.forEach(event => fullOutput += `Fault: ${event}\n`);
+
+    // radclient reports unanswered requests on stderr.
+    const parsed = parseToolOutput(`${result.stdout}\n${result.stderr}`);
+    const exchanges: RadiusExchangeLog[] = [];
+    parsed.packets.forEach(packet => {
+      const open = exchanges[exchanges.length - 1];
+      if (packet.direction === 'sent') exchanges.push({ sent: packet.text, sentHex: '' });
+      else if (open && open.received === undefined) open.received = packet.text;
+      else exchanges.push({ sent: '', sentHex: '', received: packet.text });
+    });
+    const sent = parsed.packets.filter(packet => packet.direction === 'sent');
+    const reply = parsed.packets.filter(packet => packet.direction === 'received').pop();
+    const replyAttributes = (reply?.attributes || []).map(attr => ({ ...attr, tag: splitAttributeTag(attr.name).tag }));
+
+    const expectsPacketType = options.expectedAttributes?.some(attr => attr.name.toLowerCase() === 'packet-type');
+    const errorCause = replyAttributes.find(attr => attr.name === 'Error-Cause')?.value;
+    let error: string | undefined;
+    if (!reply) {
+      if (result.code === 127) error = `${tool} is not installed on ${where} (or not on the PATH).`;
+      else if (!parsed.noReply) error = `${tool} exited with code ${result.code} without printing a reply${result.stderr.trim() ? `: ${result.stderr.trim().split('\n')[0]}` : '.'}`;
+      else if (!expectsPacketType) error = 'No reply from server.';
+    } else if (!expectsPacketType && REJECTION_CODES.has(reply.code)) {
+      error = `Server replied with ${reply.code}${errorCause ? ` (Error-Cause: ${errorCause})` : ''}.`;
+    }
+    const mismatches = this.findAttributeMismatches({ code: reply?.code, attributes: replyAttributes }, options.expectedAttributes);
+    // These are measured by the built-in client; the tools' output cannot answer them.
+    options.expectedAttributes
+      ?.filter(attr => [EAP_TLS_OUTCOME_ATTRIBUTE, TRANSPORT_CONNECTION_ATTRIBUTE].some(name => name.toLowerCase() === attr.name.toLowerCase()))
+      .forEach(attr => mismatches.push(`${attr.name}: only checked by the built-in client`));
+    if (mismatches.length > 0) {
+      fullOutput += `Expected attribute check failed:\n${mismatches.map(m => `\t${m}`).join('\n')}\n`;
+      error = error || `Reply did not match expected attributes: ${mismatches.join('; ')}`;
+    }
+
+    return {
+      fullOutput,
+      exchanges,
+      faultEvents,
+      code: error ? 1 : 0,
+      error,
+      reply: {
+        code: reply?.code,
+        identifier: reply?.identifier ?? sent[sent.length - 1]?.identifier ?? 0,
+        attributes: reply?.attributes || [],
+        roundTripMs: elapsedMs,
+        authenticatorValid: !!reply,
+        messageAuthenticator: replyAttributes.some(attr => attr.name === 'Message-Authenticator') ? 'valid' : 'missing',
+      },
+    };
+  }
+
+  /** Runs a FreeRADIUS tool on this host, feeding `input` to its stdin, and kills it after `timeoutMs`. */
+  private runLocalCommand(argv: string[], input: string | undefined, timeoutMs: number): Promise<SshCommandResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(argv[0], argv.slice(1), { stdio: 'pipe' });
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs);
+      child.stdout.on('data', (data: Buffer) => { stdout += data.toString(); });
+      child.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+      child.stdin.on('error', () => { /* The tool exited before reading its input */ });
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        reject(error.code === 'ENOENT' ? new Error(`${argv[0]} is not installed on this host (or not on the PATH).`) : error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (timedOut) reject(new Error(`${argv[0]} did not finish within ${Math.round(timeoutMs / 1000)}s and was stopped.`));
+        else resolve({ stdout, stderr, code: code ?? 1 });
+      });
+      child.stdin.end(input);
+    });
   }
 }
 
@@ -2,6 +2,10 @@ import { sshService } from './ssh-service';
 import { dbService } from './db-service';
 import { radiusService } from './radius-service';
 import { apiService } from './api-service';
+import { createMd5ChallengeMethod } from '@/lib/radius/eap';
+import { createMsChapV2Exchange, MICROSOFT_VENDOR_ID, MS_ATTRIBUTES, type MsChapV2Exchange } from '@/lib/radius/mschap';
+import { encodeVendorSpecific } from '@/lib/radius/packet';
+import { RADTEST_AUTH_TYPES } from '@/lib/radius/freeradius-tools';
 
 interface ScenarioVariable {
   name: string;
@@ -211,40 +215,61 @@ export class ScenarioService {
         timeout: config.timeout,
         retries: config.retries,
       };
+      const authType = config.authType || 'pap';
+      if (config.useRadtest && !RADTEST_AUTH_TYPES.includes(authType)) {
+        return { success: false, error: new Error(`radtest auth type "${authType}" is not supported in this step; use ${RADTEST_AUTH_TYPES.join(', ')}.`) };
+      }
 
-      let response;
-      if (config.useRadtest) {
-        response = await radiusService.sendPacketUsingRadtest(
+      if (config.useRadtest && authType === 'eap-md5') {
+        const conversation = await radiusService.runEapConversation(
           config.username,
-          config.password,
-          serverConfig,
-          config.nasPort
-        );
-      } else if (config.useRadclient) {
-        response = await radiusService.sendPacketUsingRadclient(
-          {
-            code: config.packetType,
-            attributes: config.attributes,
-          },
-          serverConfig
-        );
-      } else {
-        response = await radiusService.sendPacketUsingLibrary(
-          {
-            code: config.packetType,
-            attributes: config.attributes,
-          },
+          createMd5ChallengeMethod(config.password),
+          [{ name: 'User-Name', value: config.username }, { name: 'NAS-Port', value: String(config.nasPort ?? 0) }],
           serverConfig
         );
+        const finalResponse = conversation.rounds[conversation.rounds.length - 1];
+        const error = conversation.error || finalResponse?.error;
+        return {
+          success: !error && !!finalResponse && radiusService.validatePacketResponse(finalResponse, config.expectedAttributes),
+          output: conversation,
+          error: error ? new Error(error) : undefined,
+        };
       }
 
-      const success = !response.error && 
+      // radtest-style steps supply credentials instead of a full attribute list, encoded as
+      // executeTool does: CHAP-Password is hashed when the packet is built, MS-CHAPv2 goes in vendor attributes.
+      let msChapExchange: MsChapV2Exchange | undefined;
+      let attributes = config.attributes;
+      if (config.useRadtest) {
+        attributes = [{ name: 'User-Name', value: config.username }];
+        if (authType === 'mschap') {
+          msChapExchange = createMsChapV2Exchange(config.username, config.password);
+          attributes.push(
+            { name: 'Vendor-Specific', value: encodeVendorSpecific(MICROSOFT_VENDOR_ID, MS_ATTRIBUTES.MS_CHAP_CHALLENGE, msChapExchange.authenticatorChallenge) },
+            { name: 'Vendor-Specific', value: encodeVendorSpecific(MICROSOFT_VENDOR_ID, MS_ATTRIBUTES.MS_CHAP2_RESPONSE, msChapExchange.response) },
+          );
+        } else {
+          attributes.push({ name: authType === 'chap' ? 'CHAP-Password' : 'User-Password', value: config.password });
+        }
+        attributes.push({ name: 'NAS-Port', value: String(config.nasPort ?? 0) });
+      }
+
+      const response = await radiusService.sendPacket(
+        {
+          code: config.useRadtest ? 'Access-Request' : config.packetType,
+          attributes,
+        },
+        serverConfig
+      );
+
+      const error = response.error || (msChapExchange ? radiusService.verifyMsChapV2Reply(response, msChapExchange, config.secret).error : undefined);
+      const success = !error &&
                      radiusService.validatePacketResponse(response, config.expectedAttributes);
 
       return {
         success,
         output: response,
-        error: response.error,
+        error: error ? new Error(error) : undefined,
       };
     } catch (error: unknown) {
       return {
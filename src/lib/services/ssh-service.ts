@@ -2,7 +2,7 @@
 import { Client, ClientChannel } from 'ssh2';
 // import { promisify } from 'util'; // Not used directly in this mock
 
-interface SshConnectionConfig {
+export interface SshConnectionConfig {
   host: string;
   port: number;
   username: string;
@@ -116,6 +116,47 @@ export class SshService {
     });
   }
 
+  /**
+   * Runs one command over a dedicated ssh2 connection, writing `input` to its stdin, and
+   * closes the connection. Unlike executeCommand this really connects, for the FreeRADIUS
+   * tools that run on the server; the command is killed once `timeoutMs` has passed.
+   */
+  async runCommand(config: SshConnectionConfig, command: string, input?: string, timeoutMs: number = config.timeout || this.DEFAULT_TIMEOUT): Promise<SshCommandResult> {
+    const client = new Client();
+    return new Promise<SshCommandResult>((resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+      const finish = (error: Error | null, result?: SshCommandResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        client.end();
+        if (error) reject(error);
+        else resolve(result!);
+      };
+      const timer = setTimeout(() => finish(new Error(`SSH command did not finish within ${Math.round(timeoutMs / 1000)}s.`)), timeoutMs);
+      client.on('ready', () => {
+        client.exec(command, (error: Error | undefined, stream: ClientChannel) => {
+          if (error) return finish(error);
+          stream.on('data', (data: Buffer) => { stdout += data.toString(); });
+          stream.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+          stream.on('close', (code: number | null) => finish(null, { stdout, stderr, code: code ?? 1 }));
+          stream.end(input);
+        });
+      });
+      client.on('error', (error) => finish(new Error(`SSH connection to ${config.username}@${config.host}:${config.port} failed: ${error.message}`)));
+      client.connect({
+        host: config.host,
+        port: config.port,
+        username: config.username,
+        password: config.password,
+        privateKey: config.privateKey,
+        readyTimeout: config.timeout || this.DEFAULT_TIMEOUT,
+      });
+    });
+  }
+
   async disconnect(): Promise<void> {
     // SIMULATED: Real implementation would use this.client.end()
     console.log('[SSH_MOCK] Simulating disconnect from server');
@@ -13,6 +13,12 @@ export interface LogEntry {
   rawDetails?: string | object; // Can be string for raw text, or object for structured data
 }
 
+// rawDetails of SENT/RECV entries: the radclient-style text and the packet's wire bytes.
+export interface PacketLogDetails {
+  text: string;
+  hex: string;
+}
+
 
 // Server Configuration related types (from settings/servers/page.tsx)
 export type ServerStatus = 'connected' | 'disconnected' | 'unknown' | 'testing' | 'error_ssh' | 'error_config' | 'error_service' | 'issues_found' | 'jump_server_connection_failure' | 'preamble_failure';
@@ -49,12 +55,22 @@ export interface ServerConfig { // This is the FullServerConfig
   password?: string;
   radiusAuthPort: number;
   radiusAcctPort: number;
+  radiusCoaPort?: number; // RFC 5176 dynamic authorization port for CoA/Disconnect-Request, defaults to 3799
   defaultSecret: string;
   nasSpecificSecrets: Record<string, string>;
   status: ServerStatus;
   testSteps: TestStepConfig[]; // For "Test Connection"
   scenarioExecutionSshCommands: SshExecutionStep[]; // For scenarios targeting this server
   connectionTestSshPreamble?: SshExecutionStep[]; // For "Test Connection", runs before testSteps
+  eapCaCertificate?: string; // PEM, verifies the server certificate in EAP-TTLS/PEAP
+  eapClientCertificate?: string; // PEM, presented when the server requests a client certificate
+  eapClientPrivateKey?: string; // PEM
+  radsecHost?: string; // RFC 6614 RADIUS over TLS endpoint, defaults to host
+  radsecPort?: number; // Defaults to 2083
+  radsecCaCertificate?: string; // PEM, verifies the RadSec server certificate
+  radsecClientCertificate?: string; // PEM, RadSec requires mutual authentication
+  radsecClientPrivateKey?: string; // PEM
+  statusTransport?: 'udp' | 'tcp' | 'radsec'; // Status-Server health checks: udp and tcp probe the auth and acct ports, radsec the RadSec endpoint; default udp
 }
 
 // For Execution Console Page (mock server config - this might be redundant if FullServerConfig is always fetched)
@@ -65,6 +81,154 @@ export interface ServerConfigForExec {
 }
 
 
+// Built-in mock RADIUS server (settings/mock-server/page.tsx), selectable as a pseudo-ServerConfig
+export type MockRuleOperator = 'equals' | 'not_equals' | 'contains' | 'regex' | 'present' | 'absent';
+export type MockRuleAction = 'accept' | 'reject' | 'challenge' | 'drop';
+
+export interface MockRuleCondition {
+  id: string;
+  attribute: string; // Request attribute, e.g. User-Name; vendor attributes match by their bare name too
+  operator: MockRuleOperator;
+  value: string; // Ignored by present/absent
+}
+
+export interface MockServerRule {
+  id: string;
+  name: string;
+  isEnabled: boolean;
+  requestType: 'any' | 'Access-Request' | 'Accounting-Request' | 'CoA-Request' | 'Disconnect-Request' | 'Status-Server';
+  conditions: MockRuleCondition[]; // All must match; none matches every request of the type
+  action: MockRuleAction; // Accounting requests are answered for accept/challenge; CoA/Disconnect get ACK for accept, NAK otherwise; Status-Server is answered unless drop
+  replyAttributes: { id: string; name: string; value: string }[];
+  delayMs: number; // Wait before replying
+}
+
+export interface MockServerSettings {
+  secret: string;
+  authPort: number;
+  acctPort: number;
+  coaPort: number;
+  defaultAction: MockRuleAction; // When no rule matches
+  rules: MockServerRule[]; // First match wins
+}
+
+export interface MockServerRequestLog {
+  timestamp: string; // ISO
+  from: string;
+  request: string; // e.g. "Access-Request Id 12"
+  rule?: string; // Name of the matching rule, undefined for the default action
+  outcome: string; // Reply code, "dropped" or why the request was discarded
+}
+
+export interface MockServerStatus {
+  running: boolean;
+  address: string;
+  startedAt?: string; // ISO
+  error?: string; // Why the last start failed
+  recentRequests: MockServerRequestLog[]; // Newest first
+}
+
+// Fault injection profiles (settings/fault-profiles/page.tsx), attached to a run in the Execution Console
+export type FaultKind = 'drop' | 'delay' | 'duplicate' | 'reorder' | 'truncate' | 'corrupt_authenticator';
+
+export interface FaultRule {
+  id: string;
+  isEnabled: boolean;
+  kind: FaultKind;
+  direction: 'request' | 'reply' | 'both';
+  packetType: string; // 'any' or a RADIUS code name, e.g. Access-Request
+  probability: number; // Percent of matching packets affected, 0-100
+  delayMs: number; // delay: added latency; reorder: longest a packet is held waiting to be overtaken
+  jitterMs: number; // delay: random variation of up to +/- this much
+  copies: number; // duplicate: extra copies sent
+  truncateTo: number; // truncate: octets kept
+}
+
+export interface FaultProfile {
+  id: string;
+  name: string;
+  description?: string;
+  seed: number; // Seeds every random choice, so a run can be repeated with the same faults
+  rules: FaultRule[];
+  lastModified: string; // ISO
+}
+
+// Protocol fuzzing campaigns (fuzzing/page.tsx)
+export type FuzzMutation = 'attribute_length' | 'attribute_type' | 'attribute_value' | 'duplicate_attribute' | 'invalid_vsa' | 'header_length';
+export type FuzzLivenessCheck = 'status-server' | 'base-packet'; // Status-Server, or the unmutated base packet (any reply counts)
+
+export interface FuzzCampaignSettings {
+  totalCases: number;
+  batchSize: number; // Cases sent between liveness checks
+  ratePerSecond: number; // Fuzz cases sent per second
+  seed: number; // Same seed, base packet and settings produce the same cases
+  mutations: FuzzMutation[];
+  livenessCheck: FuzzLivenessCheck;
+  livenessTimeoutMs: number; // How long a liveness check waits for its reply
+  recoveryWaitMs: number; // How long an unresponsive server is given to come back before it counts as crashed
+}
+
+export interface FuzzCaseRecord {
+  index: number;
+  mutation: FuzzMutation;
+  description: string;
+  hex: string; // The datagram exactly as sent
+}
+
+export interface FuzzFinding {
+  id: string;
+  campaignId: string;
+  timestamp: string; // ISO
+  kind: 'crash' | 'hang'; // crash: never answered again within recoveryWaitMs; hang: stopped answering, then recovered
+  summary: string;
+  reproducer?: FuzzCaseRecord; // The single case that made the server stop answering when replayed alone
+  cases: FuzzCaseRecord[]; // The batch sent before the failed liveness check
+}
+
+export interface FuzzCampaign {
+  id: string;
+  name: string;
+  packetId: string;
+  packetName: string;
+  serverId: string;
+  serverName: string;
+  settings: FuzzCampaignSettings;
+  status: 'Running' | 'Completed' | 'Stopped' | 'Crashed' | 'Failed' | 'Interrupted'; // Interrupted: the app restarted mid-run
+  startTime: string; // ISO
+  endTime?: string;
+  casesSent: number;
+  repliesReceived: number; // Replies to fuzz cases; most malformed packets are silently discarded
+  findingCount: number;
+  error?: string;
+}
+
+// RFC conformance suite (conformance/page.tsx)
+// inconclusive: a control step failed, so the server could not be shown to drop the bad request
+export type ConformanceStatus = 'pass' | 'fail' | 'inconclusive';
+
+export interface ConformanceCheckResult {
+  scenarioId: string;
+  scenarioName: string;
+  status: ConformanceStatus;
+  detail: string; // The failing step and why, or a summary of the steps that passed
+}
+
+export interface ConformanceClauseResult {
+  clause: string; // e.g. "RFC 2865 §3"
+  requirement: string;
+  status: ConformanceStatus; // fail if any check failed, else inconclusive if any was
+  checks: ConformanceCheckResult[];
+}
+
+export interface ConformanceReport {
+  id: string;
+  serverId: string;
+  serverName: string;
+  startTime: string; // ISO
+  endTime: string;
+  clauses: ConformanceClauseResult[];
+}
+
 // Database Validation Setup related types (from settings/database/page.tsx)
 export type DbStatus = 'connected_validated' | 'connected_issues' | 'connection_error' | 'validation_error' | 'unknown' | 'testing' | 'jump_server_connection_failure' | 'preamble_failure';
 
@@ -112,7 +276,7 @@ export interface DbConnectionConfig {
 
 
 // Scenario Builder related types (from scenarios/page.tsx)
-export type ScenarioStepType = 'radius' | 'sql' | 'delay' | 'loop_start' | 'loop_end' | 'conditional_start' | 'conditional_end' | 'api_call' | 'log_message';
+export type ScenarioStepType = 'radius' | 'wait_for_coa' | 'sql' | 'delay' | 'loop_start' | 'loop_end' | 'conditional_start' | 'conditional_end' | 'api_call' | 'log_message';
 
 export interface ExpectedReplyAttribute { // Used in RADIUS step details
   id: string;
@@ -136,8 +300,18 @@ export interface ScenarioStep {
     // OR, if no packet_id, attributes can be defined directly (less common, but for flexibility)
     // attributes?: { name: string; value: string }[]; // Not currently used if packet_id is primary
     expectedAttributes?: ExpectedReplyAttribute[];
-    timeout?: number; // ms
-    retries?: number;
+    timeout?: number; // ms, overrides the packet's timeout
+    retries?: number; // UDP retransmissions after the first send, overrides the packet's retries
+    retry_backoff?: number; // Multiplier applied to the timeout after each retransmission
+    duplicate_check?: boolean; // Resend the answered request to check the server's duplicate-detection cache
+    // Wait for CoA (this tool acts as the NAS)
+    listen_port?: number; // default 3799
+    listen_address?: string;
+    coa_type?: 'any' | 'CoA-Request' | 'Disconnect-Request';
+    coa_response?: 'ack' | 'nak';
+    error_cause?: string; // Error-Cause sent with a NAK
+    nas_identifier?: string; // Key into ServerConfig.nasSpecificSecrets
+    variable_prefix?: string; // Received attributes become ${prefix.Attribute-Name}, default "coa"
     // SQL
     query?: string;
     expect_column?: string;
@@ -186,7 +360,8 @@ export interface RadiusAttribute {
 }
 
 export interface RadClientOptions {
-  server?: string; 
+  runner?: ToolRunner; // Defaults to 'native'
+  server?: string; // local/ssh runners: host[:port] passed to radclient instead of the server config's
   type?: 'auth' | 'acct' | 'status' | 'coa' | 'disconnect' | 'auto';
   secret?: string;
   useIPv4?: boolean;
@@ -200,29 +375,50 @@ export interface RadClientOptions {
   requestId?: number; 
   requestsPerSecond?: number; 
   parallelRequests?: number; 
-  protocol?: 'tcp' | 'udp'; 
+  protocol?: 'tcp' | 'udp' | 'radsec'; // radsec: RFC 6614 TLS to the server's RadSec endpoint
   quietMode?: boolean; 
-  retries?: number; 
+  retries?: number; // udp: retransmissions of the identical request after a timeout, default 0
+  retryBackoff?: number; // udp: multiplier applied to the timeout after each retransmission, default 1 (fixed interval)
+  duplicateCheck?: boolean; // udp: resend the answered request and expect an identical cached reply (RFC 5080 section 2.2.2)
   summaries?: boolean; 
   sharedSecretFile?: string; 
   timeout?: number; // seconds
   debug?: boolean; 
+  messageAuthenticator?: MessageAuthenticatorMode; // Defaults to 'auto'
+  connectionIdleTimeout?: number; // tcp/radsec: seconds without requests before the connection closes, default 30
+  watchdogInterval?: number; // tcp/radsec: seconds of silence before a Status-Server watchdog probe, off when unset
+  closeConnection?: boolean; // tcp/radsec: close the connection once this packet is answered
 }
 
+// 'auto' adds a valid Message-Authenticator to Access-Request/Status-Server (and any packet listing one),
+// 'omit' strips it and 'corrupt' sends a deliberately wrong value.
+export type MessageAuthenticatorMode = 'auto' | 'omit' | 'corrupt';
+
+// 'native' builds and sends the request in this app; 'local' runs the real FreeRADIUS radclient/radtest
+// on this host and 'ssh' runs it on the server over SSH. Both parse the tool's output into the reply.
+export type ToolRunner = 'native' | 'local' | 'ssh';
+
 export interface RadTestOptions {
   user?: string;
   password?: string;
-  radiusServer?: string; 
+  runner?: ToolRunner; // As in RadClientOptions
+  radiusServer?: string; // local/ssh runners: host[:port] passed to radtest instead of the server config's
   nasPortNumber?: number;
   secret?: string;
   ppphint?: boolean; 
   nasname?: string;
   raddbDirectory?: string; 
-  protocol?: 'tcp' | 'udp'; 
-  authType?: 'pap' | 'chap' | 'mschap' | 'eap-md5'; 
+  protocol?: 'tcp' | 'udp' | 'radsec'; 
+  authType?: 'pap' | 'chap' | 'mschap' | 'eap-md5' | 'peap-mschapv2' | 'ttls-pap' | 'eap-tls'; 
+  clientCertificate?: string; // eap-tls: PEM or ${variable}; defaults to the server config's certificate
+  clientPrivateKey?: string; // eap-tls: PEM or ${variable}
+  skipServerVerification?: boolean; // TLS-based EAP: run without the server config's EAP CA certificate
   debug?: boolean; 
   useIPv4?: boolean; 
   useIPv6?: boolean; 
+  connectionIdleTimeout?: number; // tcp/radsec, as in RadClientOptions
+  watchdogInterval?: number;
+  closeConnection?: boolean;
 }
 
 export type ExecutionTool = 'radclient' | 'radtest';
@@ -247,7 +443,7 @@ export interface Dictionary {
   name: string;
   source: string;
   attributes: number; // Count of exampleAttributes
-  vendorCodes: number; // Conceptual, not fully implemented from parsing
+  vendorCodes: number; // Count of VENDOR definitions in the imported file
   isActive: boolean;
   lastModified: string; // ISO string
   exampleAttributes?: import('@/ai/flows/parse-dictionary-file-content').ParsedAttribute[]; // Use the AI parsed type